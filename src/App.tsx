@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from './lib/supabase';
 import { isValidUuid } from './lib/uuid';
 import AuthForm from './components/AuthForm';
@@ -7,15 +7,18 @@ import BudgetList from './components/BudgetList';
 import BudgetEditor from './components/BudgetEditor';
 import BudgetDetail from './components/BudgetDetail';
 import ExpensesList from './components/ExpensesList';
+import Invoices from './components/Invoices';
 import Analytics from './components/Analytics';
 import Employees from './components/Employees';
 import Projects from './components/Projects';
+import Clients from './components/Clients';
 import Dashboard from './components/Dashboard';
 import TeamSettings from './components/TeamSettings';
 import Tasks from './components/Tasks';
 import Calendar from './components/Calendar';
 import Profile from './components/Profile';
 import ProfileSettings from './components/ProfileSettings';
+import PublicBudgetView from './components/PublicBudgetView';
 import {
   InvitationWithOrganization,
   OrganizationMember,
@@ -26,11 +29,15 @@ import {
   getStoredActiveOrganizationId,
   setStoredActiveOrganizationId
 } from './lib/organization';
+import { SHARE_QUERY_PARAM } from './lib/budgetSharing';
+import { UNSAVED_BUDGET_CHANGES_MESSAGE } from './lib/budgetDrafts';
 
 type View =
   | 'dashboard'
   | 'budgets'
+  | 'clients'
   | 'expenses'
+  | 'invoices'
   | 'analytics'
   | 'employees'
   | 'projects'
@@ -52,6 +59,14 @@ function App() {
   const [memberships, setMemberships] = useState<(OrganizationMember & { organization: Organization | null })[]>([]);
   const [activeOrganizationId, setActiveOrganizationId] = useState<string | null>(null);
   const [budgetListRefreshSignal, setBudgetListRefreshSignal] = useState<number>(0);
+  const budgetEditorDirtyRef = useRef(false);
+
+  const handleBudgetEditorUnsavedChanges = useCallback((hasUnsavedChanges: boolean) => {
+    budgetEditorDirtyRef.current = hasUnsavedChanges;
+  }, []);
+
+  const confirmLeaveBudgetEditor = () =>
+    !budgetEditorDirtyRef.current || confirm(UNSAVED_BUDGET_CHANGES_MESSAGE);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -288,6 +303,8 @@ function App() {
   };
 
   const handleSelectOrganization = (organizationId: string) => {
+    if (organizationId !== activeOrganizationId && !confirmLeaveBudgetEditor()) return;
+
     setActiveOrganizationId(organizationId);
     setStoredActiveOrganizationId(organizationId);
   };
@@ -365,6 +382,12 @@ function App() {
     }
   };
 
+  const handleViewChange = (view: View) => {
+    if (view !== currentView && !confirmLeaveBudgetEditor()) return;
+
+    setCurrentView(view);
+  };
+
   const handleDashboardNavigate = (view: string, action?: string) => {
     setCurrentView(view as View);
     if (view === 'budgets' && action === 'create') {
@@ -372,6 +395,13 @@ function App() {
     }
   };
 
+  const shareToken =
+    typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get(SHARE_QUERY_PARAM) : null;
+
+  if (shareToken) {
+    return <PublicBudgetView token={shareToken} />;
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -387,7 +417,7 @@ function App() {
   return (
     <Layout
       currentView={currentView}
-      onViewChange={setCurrentView}
+      onViewChange={handleViewChange}
       activeOrganizationName={
         memberships.find(member => member.organization_id === activeOrganizationId)?.organization?.name ?? null
       }
@@ -425,6 +455,7 @@ function App() {
           budgetId={viewingBudgetId}
           onBack={handleBackToBudgets}
           onEdit={handleEditBudget}
+          onViewBudget={handleViewBudget}
           activeOrganizationId={activeOrganizationId}
         />
       )}
@@ -436,6 +467,15 @@ function App() {
           onBack={handleBackToBudgets}
           onSaved={handleBudgetSaved}
           activeOrganizationId={activeOrganizationId}
+          onUnsavedChangesChange={handleBudgetEditorUnsavedChanges}
+        />
+      )}
+
+      {currentView === 'clients' && (
+        <Clients
+          key={`clients-${activeOrganizationId ?? 'none'}`}
+          activeOrganizationId={activeOrganizationId}
+          onViewBudget={handleViewBudget}
         />
       )}
 
@@ -443,6 +483,10 @@ function App() {
         <ExpensesList key={`expenses-${activeOrganizationId ?? 'none'}`} activeOrganizationId={activeOrganizationId} />
       )}
 
+      {currentView === 'invoices' && (
+        <Invoices key={`invoices-${activeOrganizationId ?? 'none'}`} activeOrganizationId={activeOrganizationId} />
+      )}
+
       {currentView === 'analytics' && (
         <Analytics key={`analytics-${activeOrganizationId ?? 'none'}`} activeOrganizationId={activeOrganizationId} />
       )}
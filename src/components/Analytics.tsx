@@ -2,6 +2,9 @@ import { useState, useEffect, useMemo } from 'react';
 import { TrendingUp, DollarSign, FileText, PieChart, Users } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { ensureUserOrganization } from '../lib/organization';
+import { DEFAULT_CURRENCY, formatCurrency as formatAmount, loadCurrencyConverter } from '../lib/currency';
+import { calculateBudgetPricing, isItemIncluded } from '../lib/budgetPricing';
+import { BudgetItem, BudgetPriceAdjustment } from '../types/database';
 import ReactApexChart from 'react-apexcharts';
 import type { ApexAxisChartSeries, ApexNonAxisChartSeries, ApexOptions } from 'apexcharts';
 
@@ -22,6 +25,8 @@ interface Stats {
     costs: number;
     profit: number;
   }[];
+  baseCurrency: string;
+  missingRateCurrencies: string[];
 }
 
 const INITIAL_STATS: Stats = {
@@ -35,24 +40,8 @@ const INITIAL_STATS: Stats = {
   expensesByCategory: [],
   internalCostsByCategory: [],
   monthlyData: [],
-};
-
-const NOTES_METADATA_PREFIX = '__budget_meta__:';
-
-const parseBudgetItemMetadata = (
-  rawNotes: string | null | undefined
-): { isPersonnel: boolean } => {
-  if (!rawNotes || !rawNotes.startsWith(NOTES_METADATA_PREFIX)) {
-    return { isPersonnel: false };
-  }
-
-  try {
-    const parsed = JSON.parse(rawNotes.slice(NOTES_METADATA_PREFIX.length));
-    return { isPersonnel: Boolean(parsed?.isPersonnel) };
-  } catch (error) {
-    console.warn('Failed to parse budget item metadata in analytics view.', error);
-    return { isPersonnel: false };
-  }
+  baseCurrency: DEFAULT_CURRENCY,
+  missingRateCurrencies: [],
 };
 
 interface AnalyticsProps {
@@ -83,13 +72,24 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
 
       const { data: budgets, error: budgetsError } = await supabase
         .from('budgets')
-        .select('id, status, created_at')
+        .select('id, status, created_at, currency, price_adjustments')
         .eq('organization_id', organizationId)
         .eq('archived', false);
 
       if (budgetsError) throw budgetsError;
 
       const budgetIds = (budgets ?? []).map(budget => budget.id);
+      const budgetCurrencyById = new Map((budgets ?? []).map(budget => [budget.id, budget.currency as string]));
+      const converter = await loadCurrencyConverter(organizationId);
+      const missingRateCurrencies = new Set<string>();
+      const toBase = (amount: number, currency?: string | null, date?: string | null) => {
+        const converted = converter.convert(Number(amount) || 0, currency, date);
+        if (converted === null) {
+          missingRateCurrencies.add(currency || DEFAULT_CURRENCY);
+          return 0;
+        }
+        return converted;
+      };
 
       const { data: categoryRows, error: categoriesError } = await supabase
         .from('categories')
@@ -103,14 +103,50 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
       );
 
       let budgetItems: any[] = [];
+      let personnelItems: { budget_id: string; internal_total_price: number; created_at: string }[] = [];
+      // Budget and section discounts or surcharges, counted in the month the budget was created.
+      const budgetAdjustments: { amount: number; created_at: string }[] = [];
       if (budgetIds.length > 0) {
-        const { data: budgetItemRows, error: budgetItemsError } = await supabase
-          .from('budget_items')
-          .select('*')
-          .in('budget_id', budgetIds);
+        const [budgetItemsResponse, personnelItemsResponse] = await Promise.all([
+          supabase.from('budget_items').select('*').in('budget_id', budgetIds),
+          supabase
+            .from('budget_items')
+            .select('budget_id, internal_total_price, created_at, is_optional, alternative_group, client_selected')
+            .in('budget_id', budgetIds)
+            .eq('is_personnel', true)
+        ]);
+
+        if (budgetItemsResponse.error) throw budgetItemsResponse.error;
+        if (personnelItemsResponse.error) throw personnelItemsResponse.error;
+        // Options the client did not select are not part of the budget price, as in the list and exports.
+        budgetItems = (budgetItemsResponse.data || []).filter(isItemIncluded).map((item) => {
+          const currency = budgetCurrencyById.get(item.budget_id);
+          return {
+            ...item,
+            total_price: toBase(item.total_price, currency, item.created_at),
+            internal_total_price: toBase(item.internal_total_price, currency, item.created_at),
+          };
+        });
+        personnelItems = (personnelItemsResponse.data || []).filter(isItemIncluded);
 
-        if (budgetItemsError) throw budgetItemsError;
-        budgetItems = budgetItemRows || [];
+        const itemsByBudget = new Map<string, BudgetItem[]>();
+        ((budgetItemsResponse.data || []) as BudgetItem[]).forEach((item) => {
+          itemsByBudget.set(item.budget_id, [...(itemsByBudget.get(item.budget_id) ?? []), item]);
+        });
+
+        (budgets ?? []).forEach((budget) => {
+          const { adjustmentsTotal } = calculateBudgetPricing(
+            itemsByBudget.get(budget.id) ?? [],
+            (budget.price_adjustments as BudgetPriceAdjustment[] | null) ?? []
+          );
+
+          if (adjustmentsTotal !== 0) {
+            budgetAdjustments.push({
+              amount: toBase(adjustmentsTotal, budget.currency, budget.created_at),
+              created_at: budget.created_at
+            });
+          }
+        });
       }
 
       const { data: expenses, error: expensesError } = await supabase
@@ -120,27 +156,25 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
 
       if (expensesError) throw expensesError;
 
-      const totalRevenue = budgetItems?.reduce((sum, item) => sum + item.total_price, 0) || 0;
+      const totalRevenue =
+        (budgetItems?.reduce((sum, item) => sum + item.total_price, 0) || 0) +
+        budgetAdjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
       const totalCosts = budgetItems?.reduce((sum, item) => sum + item.internal_total_price, 0) || 0;
       const totalProfit = totalRevenue - totalCosts;
-      const totalExpenses = expenses?.reduce((sum, exp) => sum + exp.amount, 0) || 0;
-      const totalPersonnelCosts =
-        budgetItems?.reduce((sum, item) => {
-          const { isPersonnel } = parseBudgetItemMetadata(item.notes);
-          const hasPersonnelFlag = item.is_personnel ?? isPersonnel;
-          if (!hasPersonnelFlag) {
-            return sum;
-          }
-
-          const internalTotal = Number(item.internal_total_price) || 0;
-          return sum + internalTotal;
-        }, 0) || 0;
+      const totalExpenses =
+        expenses?.reduce((sum, exp) => sum + toBase(exp.amount, exp.currency, exp.date), 0) || 0;
+      const totalPersonnelCosts = personnelItems.reduce(
+        (sum, item) =>
+          sum + toBase(item.internal_total_price, budgetCurrencyById.get(item.budget_id), item.created_at),
+        0
+      );
 
       const budgetsByStatus = [
         { status: 'Koncept', count: budgets?.filter((b) => b.status === 'draft').length || 0 },
         { status: 'Odesláno', count: budgets?.filter((b) => b.status === 'sent').length || 0 },
         { status: 'Schváleno', count: budgets?.filter((b) => b.status === 'approved').length || 0 },
         { status: 'Zamítnuto', count: budgets?.filter((b) => b.status === 'rejected').length || 0 },
+        { status: 'Propadlo', count: budgets?.filter((b) => b.status === 'expired').length || 0 },
       ];
 
       const expensesByCategoryMap = new Map<string, number>();
@@ -148,7 +182,7 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
         const categoryName = exp.categories?.name || 'Ostatní';
         expensesByCategoryMap.set(
           categoryName,
-          (expensesByCategoryMap.get(categoryName) || 0) + exp.amount
+          (expensesByCategoryMap.get(categoryName) || 0) + toBase(exp.amount, exp.currency, exp.date)
         );
       });
 
@@ -180,8 +214,8 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
         string,
         { revenue: number; costs: number; monthLabel: string }
       >();
-      budgetItems?.forEach((item) => {
-        const createdAt = item.created_at ? new Date(item.created_at) : new Date();
+      const addToMonth = (date: string | null | undefined, revenue: number, costs: number) => {
+        const createdAt = date ? new Date(date) : new Date();
         const monthKey = `${createdAt.getFullYear()}-${String(createdAt.getMonth() + 1).padStart(2, '0')}`;
         const monthLabel = createdAt.toLocaleDateString('cs-CZ', {
           year: 'numeric',
@@ -191,10 +225,12 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
           monthlyMap.get(monthKey) || ({ revenue: 0, costs: 0, monthLabel } as const);
         monthlyMap.set(monthKey, {
           monthLabel,
-          revenue: current.revenue + item.total_price,
-          costs: current.costs + item.internal_total_price,
+          revenue: current.revenue + revenue,
+          costs: current.costs + costs,
         });
-      });
+      };
+      budgetItems?.forEach((item) => addToMonth(item.created_at, item.total_price, item.internal_total_price));
+      budgetAdjustments.forEach((adjustment) => addToMonth(adjustment.created_at, adjustment.amount, 0));
 
       const monthlyData = Array.from(monthlyMap.entries())
         .sort(([a], [b]) => a.localeCompare(b))
@@ -218,6 +254,8 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
         expensesByCategory,
         internalCostsByCategory,
         monthlyData,
+        baseCurrency: converter.baseCurrency,
+        missingRateCurrencies: Array.from(missingRateCurrencies),
       });
     } catch (error) {
       console.error('Error loading analytics:', error);
@@ -227,9 +265,7 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
   };
 
   const formatCurrency = (value: number) =>
-    `${value.toLocaleString('cs-CZ', {
-      maximumFractionDigits: 0,
-    })} Kč`;
+    formatAmount(value, stats.baseCurrency, { maximumFractionDigits: 0 });
 
   const formatPercentage = (value: number) =>
     `${value.toLocaleString('cs-CZ', {
@@ -357,7 +393,7 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
       yaxis: {
         labels: {
           formatter: (value: number) =>
-            `${Math.round(value).toLocaleString('cs-CZ')} Kč`,
+            formatAmount(Math.round(value), stats.baseCurrency, { maximumFractionDigits: 0 }),
           style: {
             colors: '#4b5563',
           },
@@ -371,7 +407,7 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
         theme: 'light',
         y: {
           formatter: (value: number) =>
-            `${Math.round(value).toLocaleString('cs-CZ')} Kč`,
+            formatAmount(Math.round(value), stats.baseCurrency, { maximumFractionDigits: 0 }),
         },
       },
       legend: {
@@ -379,7 +415,7 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
         horizontalAlign: 'left',
       },
     }),
-    [monthlyCategories]
+    [monthlyCategories, stats.baseCurrency]
   );
 
   const profitOptions = useMemo<ApexOptions>(
@@ -406,7 +442,7 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
       yaxis: {
         labels: {
           formatter: (value: number) =>
-            `${Math.round(value).toLocaleString('cs-CZ')} Kč`,
+            formatAmount(Math.round(value), stats.baseCurrency, { maximumFractionDigits: 0 }),
           style: { colors: '#4b5563' },
         },
       },
@@ -418,11 +454,11 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
         theme: 'light',
         y: {
           formatter: (value: number) =>
-            `${Math.round(value).toLocaleString('cs-CZ')} Kč`,
+            formatAmount(Math.round(value), stats.baseCurrency, { maximumFractionDigits: 0 }),
         },
       },
     }),
-    [monthlyCategories]
+    [monthlyCategories, stats.baseCurrency]
   );
 
   const budgetsByStatusSeries = useMemo<ApexAxisChartSeries>(
@@ -493,11 +529,11 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
       tooltip: {
         y: {
           formatter: (value: number) =>
-            `${Math.round(value).toLocaleString('cs-CZ')} Kč`,
+            formatAmount(Math.round(value), stats.baseCurrency, { maximumFractionDigits: 0 }),
         },
       },
     }),
-    [stats.expensesByCategory]
+    [stats.expensesByCategory, stats.baseCurrency]
   );
 
   const hasBudgetStatusData = useMemo(
@@ -541,11 +577,11 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
       tooltip: {
         y: {
           formatter: (value: number) =>
-            `${Math.round(value).toLocaleString('cs-CZ')} Kč`,
+            formatAmount(Math.round(value), stats.baseCurrency, { maximumFractionDigits: 0 }),
         },
       },
     }),
-    [internalCostCategoryLabels]
+    [internalCostCategoryLabels, stats.baseCurrency]
   );
 
   const hasInternalCostData = useMemo(
@@ -563,7 +599,15 @@ export default function Analytics({ activeOrganizationId }: AnalyticsProps) {
 
   return (
     <div>
-      <h2 className="text-2xl font-bold text-[#0a192f] mb-6">Analytika</h2>
+      <h2 className="text-2xl font-bold text-[#0a192f] mb-1">Analytika</h2>
+      <p className="text-sm text-gray-500 mb-6">Všechny částky jsou přepočteny na {stats.baseCurrency}.</p>
+
+      {stats.missingRateCurrencies.length > 0 && (
+        <div className="mb-6 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          Chybí kurz pro {stats.missingRateCurrencies.join(', ')}. Částky v těchto měnách nejsou započteny, doplňte kurz
+          v nastavení organizace.
+        </div>
+      )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-5 gap-6 mb-8">
         <div className="bg-white rounded-lg shadow p-6">
@@ -0,0 +1,149 @@
+import { Percent, Plus, Trash2 } from 'lucide-react';
+
+import { ADJUSTMENT_KIND_LABELS, createPriceAdjustment } from '../lib/budgetPricing';
+import { BudgetPriceAdjustment } from '../types/database';
+
+interface BudgetAdjustmentsEditorProps {
+  adjustments: BudgetPriceAdjustment[];
+  sections: { id: string; name: string }[];
+  itemsTotal: number;
+  clientTotal: number;
+  currency: string;
+  formatMoney: (value: number) => string;
+  createId: () => string;
+  onChange: (adjustments: BudgetPriceAdjustment[]) => void;
+}
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30';
+
+export default function BudgetAdjustmentsEditor({
+  adjustments,
+  sections,
+  itemsTotal,
+  clientTotal,
+  currency,
+  formatMoney,
+  createId,
+  onChange
+}: BudgetAdjustmentsEditorProps) {
+  const updateAdjustment = (id: string, changes: Partial<BudgetPriceAdjustment>) => {
+    onChange(adjustments.map((adjustment) => (adjustment.id === id ? { ...adjustment, ...changes } : adjustment)));
+  };
+
+  return (
+    <div className="rounded-2xl border border-gray-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+        <div className="flex items-center gap-3">
+          <div className="rounded-full bg-[#0a192f]/10 p-2 text-[#0a192f]">
+            <Percent className="h-5 w-5" />
+          </div>
+          <div>
+            <p className="text-sm font-semibold text-[#0a192f]">Slevy a příplatky</p>
+            <p className="text-xs text-gray-500">
+              Procenta se počítají z mezisoučtu pod-rozpočtu, nebo celého rozpočtu po úpravách pod-rozpočtů.
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange([...adjustments, createPriceAdjustment(createId())])}
+          className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm font-medium text-[#0a192f] transition hover:bg-gray-50"
+        >
+          <Plus className="h-4 w-4" />
+          Přidat slevu nebo příplatek
+        </button>
+      </div>
+
+      {adjustments.length > 0 && (
+        <div className="mt-4 space-y-3">
+          {adjustments.map((adjustment) => (
+            <div
+              key={adjustment.id}
+              className="grid gap-3 rounded-xl border border-gray-100 bg-gray-50 p-3 md:grid-cols-[minmax(0,2fr)_minmax(0,1.5fr)_repeat(3,minmax(0,1fr))_auto] md:items-center"
+            >
+              <input
+                type="text"
+                value={adjustment.label}
+                onChange={(e) => updateAdjustment(adjustment.id, { label: e.target.value })}
+                placeholder={`${ADJUSTMENT_KIND_LABELS[adjustment.kind]}, např. množstevní`}
+                className={inputClassName}
+              />
+              <select
+                value={adjustment.section_id ?? ''}
+                onChange={(e) => updateAdjustment(adjustment.id, { section_id: e.target.value || null })}
+                className={inputClassName}
+                title="Na co se úprava vztahuje"
+              >
+                <option value="">Celý rozpočet</option>
+                {sections.map((section) => (
+                  <option key={section.id} value={section.id}>
+                    {section.name || 'Pod-rozpočet'}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={adjustment.kind}
+                onChange={(e) =>
+                  updateAdjustment(adjustment.id, { kind: e.target.value as BudgetPriceAdjustment['kind'] })
+                }
+                className={inputClassName}
+              >
+                <option value="discount">{ADJUSTMENT_KIND_LABELS.discount}</option>
+                <option value="surcharge">{ADJUSTMENT_KIND_LABELS.surcharge}</option>
+              </select>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={adjustment.value}
+                  onChange={(e) => updateAdjustment(adjustment.id, { value: Math.abs(parseFloat(e.target.value) || 0) })}
+                  className={`${inputClassName} text-right`}
+                />
+                <select
+                  value={adjustment.mode}
+                  onChange={(e) =>
+                    updateAdjustment(adjustment.id, { mode: e.target.value as BudgetPriceAdjustment['mode'] })
+                  }
+                  className="rounded-lg border border-gray-200 px-2 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+                  title="Procenta nebo pevná částka"
+                >
+                  <option value="percent">%</option>
+                  <option value="fixed">{currency}</option>
+                </select>
+              </div>
+              <p
+                className={`text-right text-sm font-semibold ${
+                  adjustment.amount < 0 ? 'text-red-600' : 'text-emerald-600'
+                }`}
+              >
+                {formatMoney(adjustment.amount)}
+              </p>
+              <button
+                type="button"
+                onClick={() => onChange(adjustments.filter((entry) => entry.id !== adjustment.id))}
+                className="justify-self-end rounded-lg p-2 text-red-600 transition hover:bg-red-50"
+                title="Odebrat úpravu"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex flex-col gap-1 border-t border-gray-100 pt-3 text-sm text-gray-600 sm:flex-row sm:justify-end sm:gap-6">
+            <span>
+              Položky: <span className="font-semibold text-[#0a192f]">{formatMoney(itemsTotal)}</span>
+            </span>
+            <span>
+              Úpravy: <span className="font-semibold text-[#0a192f]">{formatMoney(clientTotal - itemsTotal)}</span>
+            </span>
+            <span>
+              Celkem: <span className="font-semibold text-[#0a192f]">{formatMoney(clientTotal)}</span>
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
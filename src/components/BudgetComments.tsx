@@ -0,0 +1,501 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AtSign, CheckCircle2, Loader2, MessageSquare, RotateCcw, Send, Trash2, X } from 'lucide-react';
+
+import {
+  buildCommentThreads,
+  CommentMember,
+  createBudgetComment,
+  deleteBudgetComment,
+  fetchBudgetComments,
+  fetchCommentMembers,
+  findMentionedMembers,
+  getMentionQuery,
+  insertMention,
+  setBudgetCommentResolved,
+  splitCommentMentions
+} from '../lib/budgetComments';
+import { supabase } from '../lib/supabase';
+import { BudgetComment, BudgetItem } from '../types/database';
+
+interface BudgetCommentsProps {
+  budgetId: string;
+  organizationId: string | null;
+  /** Saved items only; unsaved rows cannot be commented on yet. */
+  items: Pick<BudgetItem, 'id' | 'item_name'>[];
+  /** Item whose threads are shown; `null` shows the whole budget. Uncontrolled when omitted. */
+  selectedItemId?: string | null;
+  onSelectedItemChange?: (itemId: string | null) => void;
+  /** Reports the number of unresolved threads per item ID. */
+  onCountsChange?: (counts: Record<string, number>) => void;
+}
+
+type CommentFilter = 'open' | 'all' | 'mentions';
+
+const filterLabels: Record<CommentFilter, string> = {
+  open: 'Nevyřešené',
+  all: 'Vše',
+  mentions: 'Zmínky o mně'
+};
+
+const MAX_MENTION_SUGGESTIONS = 6;
+
+interface CommentInputProps {
+  members: CommentMember[];
+  placeholder: string;
+  submitLabel: string;
+  disabled: boolean;
+  autoFocus?: boolean;
+  onSubmit: (body: string, mentions: string[]) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+function CommentInput({ members, placeholder, submitLabel, disabled, autoFocus, onSubmit, onCancel }: CommentInputProps) {
+  const [body, setBody] = useState('');
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    const query = mentionQuery.toLocaleLowerCase('cs');
+    return members
+      .filter(
+        member =>
+          member.name.toLocaleLowerCase('cs').includes(query) || member.email?.toLocaleLowerCase('cs').includes(query)
+      )
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [members, mentionQuery]);
+
+  const updateMentionQuery = (text: string, caret: number | null) => {
+    setMentionQuery(caret === null ? null : getMentionQuery(text, caret));
+  };
+
+  const chooseMember = (member: CommentMember) => {
+    const textarea = textareaRef.current;
+    const result = insertMention(body, textarea?.selectionStart ?? body.length, member);
+    setBody(result.text);
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const submit = async () => {
+    if (!body.trim() || disabled) return;
+
+    if (await onSubmit(body, findMentionedMembers(body, members))) {
+      setBody('');
+      setMentionQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={body}
+        rows={2}
+        autoFocus={autoFocus}
+        placeholder={placeholder}
+        disabled={disabled}
+        onChange={(event) => {
+          setBody(event.target.value);
+          updateMentionQuery(event.target.value, event.target.selectionStart);
+        }}
+        onClick={(event) => updateMentionQuery(body, event.currentTarget.selectionStart)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter' && suggestions.length > 0 && !event.shiftKey) {
+            event.preventDefault();
+            chooseMember(suggestions[0]);
+          } else if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+            event.preventDefault();
+            void submit();
+          } else if (event.key === 'Escape' && mentionQuery !== null) {
+            event.preventDefault();
+            setMentionQuery(null);
+          }
+        }}
+        className="w-full resize-y rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-1 focus:ring-[#0a192f] disabled:bg-gray-50"
+      />
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-full z-20 mt-1 w-64 overflow-hidden rounded-lg border border-gray-200 bg-white shadow-lg">
+          {suggestions.map(member => (
+            <button
+              key={member.userId}
+              type="button"
+              onMouseDown={(event) => {
+                event.preventDefault();
+                chooseMember(member);
+              }}
+              className="flex w-full flex-col px-3 py-2 text-left text-sm transition hover:bg-gray-50"
+            >
+              <span className="font-medium text-[#0a192f]">{member.name}</span>
+              {member.email && member.email !== member.name && (
+                <span className="text-xs text-gray-500">{member.email}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <span className="inline-flex items-center gap-1 text-xs text-gray-400">
+          <AtSign className="h-3.5 w-3.5" />
+          {members.length > 0 ? 'Kolegu označíte zavináčem' : 'Rozpočet nepatří organizaci, nelze nikoho označit'}
+        </span>
+        <div className="flex gap-2">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="rounded-lg border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 transition hover:bg-gray-50"
+            >
+              Zrušit
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => void submit()}
+            disabled={disabled || !body.trim()}
+            className="inline-flex items-center gap-1 rounded-lg bg-[#0a192f] px-3 py-1.5 text-xs font-medium text-white transition hover:bg-opacity-90 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {disabled ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function BudgetComments({
+  budgetId,
+  organizationId,
+  items,
+  selectedItemId,
+  onSelectedItemChange,
+  onCountsChange
+}: BudgetCommentsProps) {
+  const [comments, setComments] = useState<BudgetComment[]>([]);
+  const [members, setMembers] = useState<CommentMember[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<CommentFilter>('open');
+  const [ownSelectedItemId, setOwnSelectedItemId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [posting, setPosting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const itemFilter = selectedItemId !== undefined ? selectedItemId : ownSelectedItemId;
+  const setItemFilter = (itemId: string | null) => {
+    setOwnSelectedItemId(itemId);
+    onSelectedItemChange?.(itemId);
+  };
+
+  const loadComments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        commentList,
+        memberList,
+        {
+          data: { user }
+        }
+      ] = await Promise.all([
+        fetchBudgetComments(budgetId),
+        organizationId ? fetchCommentMembers(organizationId) : Promise.resolve([]),
+        supabase.auth.getUser()
+      ]);
+
+      setComments(commentList);
+      setMembers(memberList);
+      setCurrentUserId(user?.id ?? null);
+    } catch (err) {
+      console.error('Error loading budget comments:', err);
+      setError('Nepodařilo se načíst komentáře.');
+    } finally {
+      setLoading(false);
+    }
+  }, [budgetId, organizationId]);
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  const threads = useMemo(() => buildCommentThreads(comments), [comments]);
+
+  useEffect(() => {
+    if (!onCountsChange) return;
+
+    const counts: Record<string, number> = {};
+    threads.forEach(({ root }) => {
+      if (root.item_id && !root.resolved_at) {
+        counts[root.item_id] = (counts[root.item_id] ?? 0) + 1;
+      }
+    });
+    onCountsChange(counts);
+  }, [threads, onCountsChange]);
+
+  const itemNames = useMemo(
+    () => new Map(items.filter(item => item.id).map(item => [item.id, item.item_name || 'Položka bez názvu'])),
+    [items]
+  );
+
+  const authorName = (authorId: string | null) => {
+    if (authorId && authorId === currentUserId) return 'Vy';
+    return members.find(member => member.userId === authorId)?.name ?? 'Bývalý člen týmu';
+  };
+
+  const visibleThreads = threads.filter(({ root, replies }) => {
+    if (itemFilter && root.item_id !== itemFilter) return false;
+    if (filter === 'open') return !root.resolved_at;
+    if (filter === 'mentions') {
+      return !!currentUserId && [root, ...replies].some(comment => comment.mentions.includes(currentUserId));
+    }
+    return true;
+  });
+
+  const postComment = async (body: string, mentions: string[], parent?: BudgetComment) => {
+    try {
+      setPosting(true);
+      const comment = await createBudgetComment({
+        budgetId,
+        itemId: parent ? parent.item_id : itemFilter,
+        parentId: parent?.id ?? null,
+        body,
+        mentions
+      });
+      setComments(prev => [...prev, comment]);
+      setReplyingTo(null);
+      return true;
+    } catch (err) {
+      console.error('Error posting comment:', err);
+      alert('Komentář se nepodařilo uložit. Zkuste to prosím znovu.');
+      return false;
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const toggleResolved = async (thread: BudgetComment) => {
+    try {
+      const updated = await setBudgetCommentResolved(thread.id, !thread.resolved_at);
+      setComments(prev => prev.map(comment => (comment.id === updated.id ? updated : comment)));
+    } catch (err) {
+      console.error('Error resolving comment:', err);
+      alert('Stav vlákna se nepodařilo změnit.');
+    }
+  };
+
+  const removeComment = async (comment: BudgetComment) => {
+    const message = comment.parent_id
+      ? 'Opravdu chcete komentář smazat?'
+      : 'Opravdu chcete smazat celé vlákno včetně odpovědí?';
+    if (!confirm(message)) return;
+
+    try {
+      await deleteBudgetComment(comment.id);
+      setComments(prev => prev.filter(entry => entry.id !== comment.id && entry.parent_id !== comment.id));
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+      alert('Komentář se nepodařilo smazat.');
+    }
+  };
+
+  const renderComment = (comment: BudgetComment) => (
+    <div key={comment.id} className="group flex gap-3 text-sm">
+      <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-[#0a192f]/10 text-xs font-semibold text-[#0a192f]">
+        {authorName(comment.author_id).charAt(0).toUpperCase()}
+      </div>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+          <span>
+            <span className="font-medium text-[#0a192f]">{authorName(comment.author_id)}</span> ·{' '}
+            {new Date(comment.created_at).toLocaleString('cs-CZ')}
+          </span>
+          {comment.author_id === currentUserId && (
+            <button
+              type="button"
+              onClick={() => removeComment(comment)}
+              className="rounded p-1 text-gray-400 opacity-0 transition hover:text-red-600 group-hover:opacity-100"
+              aria-label="Smazat komentář"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+        <p className="mt-1 whitespace-pre-wrap break-words text-gray-700">
+          {splitCommentMentions(comment.body, members).map((part, index) =>
+            part.mention ? (
+              <span key={index} className="rounded bg-sky-50 px-0.5 font-medium text-sky-700">
+                {part.text}
+              </span>
+            ) : (
+              <span key={index}>{part.text}</span>
+            )
+          )}
+        </p>
+      </div>
+    </div>
+  );
+
+  const openCount = threads.filter(({ root }) => !root.resolved_at).length;
+
+  return (
+    <div className="rounded-xl bg-white shadow">
+      <div className="flex flex-col gap-3 border-b border-gray-100 px-6 py-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5 text-[#0a192f]" />
+            <h2 className="text-lg font-semibold text-[#0a192f]">Interní komentáře</h2>
+            {openCount > 0 && (
+              <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                {openCount} nevyřešených
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-500">Jen pro váš tým, klient je v odkazu ani v exportech neuvidí.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(filterLabels) as CommentFilter[]).map(key => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setFilter(key)}
+              className={`rounded-full px-3 py-1 text-xs font-medium transition ${
+                filter === key ? 'bg-[#0a192f] text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {filterLabels[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4 px-6 py-4">
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor={`comment-target-${budgetId}`} className="text-gray-600">
+            Komentáře k
+          </label>
+          <select
+            id={`comment-target-${budgetId}`}
+            value={itemFilter ?? ''}
+            onChange={(event) => setItemFilter(event.target.value || null)}
+            className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-1.5 text-sm focus:border-[#0a192f] focus:outline-none sm:flex-none"
+          >
+            <option value="">celému rozpočtu</option>
+            {items
+              .filter(item => item.id)
+              .map(item => (
+                <option key={item.id} value={item.id}>
+                  {itemNames.get(item.id)}
+                </option>
+              ))}
+          </select>
+          {itemFilter && (
+            <button
+              type="button"
+              onClick={() => setItemFilter(null)}
+              className="rounded-full border border-gray-200 p-1 text-gray-500 transition hover:border-gray-300 hover:text-gray-700"
+              aria-label="Zobrazit komentáře celého rozpočtu"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          )}
+        </div>
+
+        <CommentInput
+          members={members}
+          placeholder={itemFilter ? 'Napište poznámku k položce…' : 'Napište poznámku k rozpočtu…'}
+          submitLabel="Přidat komentář"
+          disabled={posting || loading}
+          onSubmit={(body, mentions) => postComment(body, mentions)}
+        />
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-[#0a192f]" />
+          </div>
+        ) : error ? (
+          <div className="text-sm text-red-700">{error}</div>
+        ) : visibleThreads.length === 0 ? (
+          <div className="py-2 text-sm text-gray-500">
+            {filter === 'open' && threads.length > 0 ? 'Všechna vlákna jsou vyřešená.' : 'Zatím tu nejsou žádné komentáře.'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visibleThreads.map(({ root, replies }) => (
+              <div
+                key={root.id}
+                className={`rounded-lg border p-4 ${root.resolved_at ? 'border-gray-100 bg-gray-50' : 'border-gray-200'}`}
+              >
+                <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                  {root.item_id ? (
+                    <button
+                      type="button"
+                      onClick={() => setItemFilter(root.item_id)}
+                      className="max-w-full truncate rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700 transition hover:bg-gray-200"
+                    >
+                      {itemNames.get(root.item_id) ?? 'Smazaná položka'}
+                    </button>
+                  ) : (
+                    <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-500">Rozpočet</span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => toggleResolved(root)}
+                    className={`inline-flex items-center gap-1 rounded-lg border px-2 py-1 text-xs font-medium transition ${
+                      root.resolved_at
+                        ? 'border-gray-200 text-gray-600 hover:bg-white'
+                        : 'border-green-200 text-green-700 hover:bg-green-50'
+                    }`}
+                  >
+                    {root.resolved_at ? <RotateCcw className="h-3.5 w-3.5" /> : <CheckCircle2 className="h-3.5 w-3.5" />}
+                    {root.resolved_at ? 'Znovu otevřít' : 'Vyřešeno'}
+                  </button>
+                </div>
+
+                <div className="space-y-3">
+                  {renderComment(root)}
+                  {replies.length > 0 && (
+                    <div className="ml-11 space-y-3 border-l border-gray-100 pl-4">{replies.map(renderComment)}</div>
+                  )}
+                </div>
+
+                {root.resolved_at ? (
+                  <div className="mt-3 text-xs text-gray-500">
+                    Vyřešil(a) {authorName(root.resolved_by)} {new Date(root.resolved_at).toLocaleString('cs-CZ')}
+                  </div>
+                ) : replyingTo === root.id ? (
+                  <div className="ml-11 mt-3">
+                    <CommentInput
+                      members={members}
+                      placeholder="Odpovědět…"
+                      submitLabel="Odpovědět"
+                      disabled={posting}
+                      autoFocus
+                      onSubmit={(body, mentions) => postComment(body, mentions, root)}
+                      onCancel={() => setReplyingTo(null)}
+                    />
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setReplyingTo(root.id)}
+                    className="ml-11 mt-3 text-xs font-medium text-[#0a192f] hover:underline"
+                  >
+                    Odpovědět
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,59 +2,57 @@ import { useEffect, useMemo, useState } from 'react';
 import {
   ArrowLeft,
   Calendar,
+  CalendarClock,
+  CalendarPlus,
+  CalendarX,
   CheckCircle,
   Clock,
+  Copy,
   DollarSign,
   FileText,
+  GitBranch,
   Info,
   Layers,
+  ListPlus,
   Loader2,
   Pencil,
+  Receipt,
   TrendingUp,
   User
 } from 'lucide-react';
 
 import { supabase } from '../lib/supabase';
-import { Budget, BudgetItem, BudgetSection } from '../types/database';
+import { Budget, BudgetItem, BudgetPriceAdjustment, BudgetSection, Organization } from '../types/database';
+import { normalizeBudgetItem } from '../lib/budgetItemNotes';
+import { fetchOrganization } from '../lib/organization';
+import { formatCurrency } from '../lib/currency';
+import { DEFAULT_VAT_RATE, calculateVatBreakdown, getVatRateLabel, resolveItemVatRate } from '../lib/vat';
+import { createInvoiceFromBudget, fetchInvoice, getDefaultDueDate } from '../lib/invoices';
+import { printInvoice } from '../lib/invoicePrint';
+import { createPaymentQrCode, formatIban, getBudgetVariableSymbol } from '../lib/spayd';
+import { createBudgetTemplateFromBudget } from '../lib/budgetTemplates';
+import { extendBudgetValidity, formatValidUntil, getBudgetValidityState } from '../lib/budgetValidity';
+import {
+  calculateBudgetPricing,
+  describePriceAdjustment,
+  groupOptionalItems,
+  isItemIncluded,
+  isOptionalItem
+} from '../lib/budgetPricing';
+import BudgetVersionHistory from './BudgetVersionHistory';
+import BudgetShareLinks from './BudgetShareLinks';
+import BudgetComments from './BudgetComments';
+import DuplicateBudgetModal from './DuplicateBudgetModal';
 
 interface BudgetDetailProps {
   budgetId: string;
   onBack: () => void;
   onEdit: (budgetId: string) => void;
+  onViewBudget?: (budgetId: string) => void;
   activeOrganizationId: string | null;
 }
 
-const NOTES_METADATA_PREFIX = '__budget_meta__:';
-
-type DecodedNotes = {
-  text: string;
-  isCost: boolean;
-  isPersonnel: boolean;
-};
-
-const decodeItemNotes = (rawNotes?: string | null): DecodedNotes => {
-  if (!rawNotes) {
-    return { text: '', isCost: false, isPersonnel: false };
-  }
-
-  if (rawNotes.startsWith(NOTES_METADATA_PREFIX)) {
-    try {
-      const parsed = JSON.parse(rawNotes.slice(NOTES_METADATA_PREFIX.length));
-      return {
-        text: typeof parsed?.text === 'string' ? parsed.text : '',
-        isCost: Boolean(parsed?.isCost),
-        isPersonnel: Boolean(parsed?.isPersonnel)
-      };
-    } catch (error) {
-      console.error('Failed to parse budget item notes metadata', error);
-      return { text: '', isCost: false, isPersonnel: false };
-    }
-  }
-
-  return { text: rawNotes, isCost: false, isPersonnel: false };
-};
-
-const formatCurrency = (value: number) => `${value.toLocaleString('cs-CZ')} Kč`;
+type LinkedBudget = Pick<Budget, 'id' | 'name' | 'status' | 'created_at'>;
 
 const getStatusMeta = (status?: Budget['status']) => {
   switch (status) {
@@ -66,17 +64,28 @@ const getStatusMeta = (status?: Budget['status']) => {
       return { label: 'Schváleno', className: 'bg-green-100 text-green-800', icon: <CheckCircle className="w-4 h-4" /> };
     case 'rejected':
       return { label: 'Zamítnuto', className: 'bg-red-100 text-red-800', icon: <FileText className="w-4 h-4" /> };
+    case 'expired':
+      return { label: 'Propadlo', className: 'bg-amber-100 text-amber-800', icon: <CalendarX className="w-4 h-4" /> };
     default:
       return null;
   }
 };
 
-export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizationId }: BudgetDetailProps) {
+export default function BudgetDetail({ budgetId, onBack, onEdit, onViewBudget, activeOrganizationId }: BudgetDetailProps) {
   const [budget, setBudget] = useState<Budget | null>(null);
   const [items, setItems] = useState<BudgetItem[]>([]);
   const [sections, setSections] = useState<BudgetSection[]>([]);
+  const [defaultVatRate, setDefaultVatRate] = useState(DEFAULT_VAT_RATE);
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [invoicing, setInvoicing] = useState(false);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [extendingValidity, setExtendingValidity] = useState(false);
+  const [showDuplicateModal, setShowDuplicateModal] = useState(false);
+  const [originalBudget, setOriginalBudget] = useState<LinkedBudget | null>(null);
+  const [revisions, setRevisions] = useState<LinkedBudget[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     let isMounted = true;
@@ -98,7 +107,11 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
           return;
         }
 
-        const [itemsResponse, sectionsResponse] = await Promise.all([
+        const organizationId = (budgetData as Budget).organization_id ?? activeOrganizationId;
+
+        const revisionOf = (budgetData as Budget).revision_of;
+
+        const [itemsResponse, sectionsResponse, organization, originalResponse, revisionsResponse] = await Promise.all([
           supabase
             .from('budget_items')
             .select('*')
@@ -108,17 +121,32 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
             .from('budget_sections')
             .select('*')
             .eq('budget_id', budgetId)
+            .order('created_at', { ascending: true }),
+          organizationId ? fetchOrganization(organizationId) : Promise.resolve(null),
+          revisionOf
+            ? supabase.from('budgets').select('id, name, status, created_at').eq('id', revisionOf).maybeSingle()
+            : Promise.resolve({ data: null, error: null }),
+          supabase
+            .from('budgets')
+            .select('id, name, status, created_at')
+            .eq('revision_of', budgetId)
             .order('created_at', { ascending: true })
         ]);
 
         if (itemsResponse.error) throw itemsResponse.error;
         if (sectionsResponse.error) throw sectionsResponse.error;
+        if (originalResponse.error) throw originalResponse.error;
+        if (revisionsResponse.error) throw revisionsResponse.error;
 
         if (!isMounted) return;
 
         setBudget(budgetData as Budget);
-        setItems((itemsResponse.data as BudgetItem[]) ?? []);
+        setItems(((itemsResponse.data as BudgetItem[]) ?? []).map(normalizeBudgetItem));
         setSections((sectionsResponse.data as BudgetSection[]) ?? []);
+        setDefaultVatRate(organization?.default_vat_rate ?? DEFAULT_VAT_RATE);
+        setOrganization(organization);
+        setOriginalBudget((originalResponse.data as LinkedBudget | null) ?? null);
+        setRevisions((revisionsResponse.data as LinkedBudget[]) ?? []);
       } catch (err) {
         console.error('Error loading budget detail:', err);
         setError('Nepodařilo se načíst detail rozpočtu. Zkuste to prosím znovu.');
@@ -136,16 +164,43 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
     return () => {
       isMounted = false;
     };
-  }, [budgetId, activeOrganizationId]);
+  }, [budgetId, activeOrganizationId, reloadKey]);
+
+  const pricing = useMemo(
+    () => calculateBudgetPricing(items, budget?.price_adjustments ?? [], defaultVatRate),
+    [items, budget?.price_adjustments, defaultVatRate]
+  );
+
+  const totals = useMemo(
+    () => ({
+      totalAmount: pricing.clientTotal,
+      internalTotal: pricing.internalTotal,
+      profit: pricing.profit,
+      margin: pricing.margin
+    }),
+    [pricing]
+  );
 
-  const totals = useMemo(() => {
-    const totalAmount = items.reduce((sum, item) => sum + (item.total_price ?? 0), 0);
-    const internalTotal = items.reduce((sum, item) => sum + (item.internal_total_price ?? 0), 0);
-    const profit = totalAmount - internalTotal;
-    const margin = totalAmount > 0 ? (profit / totalAmount) * 100 : 0;
+  const vatSummary = useMemo(
+    () => calculateVatBreakdown(pricing.vatItems, defaultVatRate),
+    [pricing, defaultVatRate]
+  );
 
-    return { totalAmount, internalTotal, profit, margin };
-  }, [items]);
+  const variableSymbol = budget ? getBudgetVariableSymbol(budget) : null;
+
+  const paymentQrCode = useMemo(
+    () =>
+      budget
+        ? createPaymentQrCode({
+            iban: organization?.iban,
+            amount: vatSummary.total,
+            currency: budget.currency,
+            variableSymbol,
+            message: budget.client_name
+          })
+        : null,
+    [budget, organization?.iban, vatSummary.total, variableSymbol]
+  );
 
   const groupedSections = useMemo(() => {
     const sectionItemsMap = new Map<string, BudgetItem[]>();
@@ -155,7 +210,7 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
 
     const unassigned: BudgetItem[] = [];
 
-    items.forEach(item => {
+    items.filter(isItemIncluded).forEach(item => {
       if (item.section_id && sectionItemsMap.has(item.section_id)) {
         sectionItemsMap.get(item.section_id)!.push(item);
       } else {
@@ -168,7 +223,8 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
         section,
         items: sectionItemsMap.get(section.id) ?? []
       })),
-      unassigned
+      unassigned,
+      options: groupOptionalItems(items.filter(item => isOptionalItem(item) && !item.client_selected))
     };
   }, [items, sections]);
 
@@ -203,6 +259,77 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
     return null;
   }
 
+  const formatMoney = (value: number) => formatCurrency(value, budget.currency);
+  const validity = getBudgetValidityState(budget);
+
+  const handleCreateInvoice = async () => {
+    if (!confirm('Vystavit fakturu ze všech položek tohoto rozpočtu?')) return;
+
+    try {
+      setInvoicing(true);
+      const invoice = await fetchInvoice(await createInvoiceFromBudget(budget.id, getDefaultDueDate()));
+
+      if (!printInvoice(invoice, organization)) {
+        alert(`Faktura ${invoice.invoice_number} byla vystavena. Najdete ji v sekci Faktury.`);
+      }
+    } catch (err) {
+      console.error('Error creating invoice:', err);
+      alert('Fakturu se nepodařilo vystavit. Zkuste to prosím znovu.');
+    } finally {
+      setInvoicing(false);
+    }
+  };
+
+  const handleExtendValidity = async () => {
+    try {
+      setExtendingValidity(true);
+      const updated = await extendBudgetValidity(budget.id);
+      setBudget(prev => (prev ? { ...prev, ...updated } : prev));
+    } catch (err) {
+      console.error('Error extending budget validity:', err);
+      alert('Platnost se nepodařilo prodloužit. Zkuste to prosím znovu.');
+    } finally {
+      setExtendingValidity(false);
+    }
+  };
+
+  const handleSaveAsTemplate = async () => {
+    const name = prompt('Název šablony:', budget.name)?.trim();
+    if (!name) return;
+
+    try {
+      setSavingTemplate(true);
+      await createBudgetTemplateFromBudget(budget.id, name);
+      alert(`Šablona „${name}“ byla uložena. Použijete ji při vytváření nového rozpočtu.`);
+    } catch (err) {
+      console.error('Error saving budget template:', err);
+      alert('Šablonu se nepodařilo uložit. Zkuste to prosím znovu.');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const budgetAdjustments = pricing.adjustments.filter(adjustment => !adjustment.section_id);
+
+  const renderAdjustments = (adjustments: BudgetPriceAdjustment[]) =>
+    adjustments.map(adjustment => (
+      <div key={adjustment.id} className="flex items-center justify-between gap-4 bg-gray-50/60 px-6 py-3 text-sm">
+        <span className="text-gray-600">{describePriceAdjustment(adjustment)}</span>
+        <span className={`font-semibold ${adjustment.amount < 0 ? 'text-red-600' : 'text-[#0a192f]'}`}>
+          {formatMoney(adjustment.amount)}
+        </span>
+      </div>
+    ));
+
+  const renderLinkedBudget = (linked: LinkedBudget) =>
+    onViewBudget ? (
+      <button onClick={() => onViewBudget(linked.id)} className="font-medium text-[#0a192f] hover:underline">
+        {linked.name}
+      </button>
+    ) : (
+      <span className="font-medium text-[#0a192f]">{linked.name}</span>
+    );
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -222,6 +349,41 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
           )}
         </div>
         <div className="flex flex-wrap gap-3">
+          {(budget.status === 'sent' || budget.status === 'expired') && (
+            <button
+              onClick={handleExtendValidity}
+              disabled={extendingValidity}
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 transition hover:bg-gray-50 disabled:opacity-60"
+            >
+              <CalendarPlus className="h-4 w-4" />
+              {extendingValidity ? 'Prodlužuji...' : 'Prodloužit platnost'}
+            </button>
+          )}
+          {budget.status === 'approved' && (
+            <button
+              onClick={handleCreateInvoice}
+              disabled={invoicing}
+              className="inline-flex items-center gap-2 rounded-lg border border-[#0a192f] px-4 py-2 text-sm font-semibold text-[#0a192f] transition hover:bg-gray-50 disabled:opacity-60"
+            >
+              <Receipt className="h-4 w-4" />
+              {invoicing ? 'Vystavuji...' : 'Vystavit fakturu'}
+            </button>
+          )}
+          <button
+            onClick={handleSaveAsTemplate}
+            disabled={savingTemplate}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 transition hover:bg-gray-50 disabled:opacity-60"
+          >
+            <Copy className="h-4 w-4" />
+            {savingTemplate ? 'Ukládám...' : 'Uložit jako šablonu'}
+          </button>
+          <button
+            onClick={() => setShowDuplicateModal(true)}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 transition hover:bg-gray-50"
+          >
+            <Copy className="h-4 w-4" />
+            Duplikovat
+          </button>
           <button
             onClick={() => onEdit(budget.id)}
             className="inline-flex items-center gap-2 rounded-lg bg-[#0a192f] px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-opacity-90"
@@ -235,6 +397,9 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
       <div className="rounded-xl bg-white p-6 shadow">
         <div className="flex flex-col gap-6 lg:flex-row lg:items-start lg:justify-between">
           <div className="space-y-2">
+            {budget.budget_number && (
+              <p className="font-mono text-sm text-gray-500">Nabídka č. {budget.budget_number}</p>
+            )}
             <h1 className="text-3xl font-bold text-[#0a192f]">{budget.name}</h1>
             <div className="flex flex-wrap gap-4 text-sm text-gray-600">
               {budget.client_name && (
@@ -253,7 +418,41 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
                 <Calendar className="h-4 w-4" />
                 <span>Vytvořeno {new Date(budget.created_at).toLocaleDateString('cs-CZ')}</span>
               </div>
+              {budget.valid_until && (
+                <div
+                  className={`inline-flex items-center gap-2 ${
+                    validity === 'expired' ? 'text-red-600' : validity === 'expiring' ? 'font-medium text-amber-700' : ''
+                  }`}
+                >
+                  <CalendarClock className="h-4 w-4" />
+                  <span>
+                    {validity === 'expired' ? 'Platnost vypršela' : 'Platí do'} {formatValidUntil(budget.valid_until)}
+                  </span>
+                </div>
+              )}
             </div>
+            {(originalBudget || revisions.length > 0) && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <GitBranch className="h-4 w-4" />
+                {originalBudget && (
+                  <span>
+                    Revize rozpočtu{' '}
+                    {renderLinkedBudget(originalBudget)}
+                  </span>
+                )}
+                {revisions.length > 0 && (
+                  <span>
+                    {originalBudget ? '· ' : ''}Revize:{' '}
+                    {revisions.map((revision, index) => (
+                      <span key={revision.id}>
+                        {index > 0 && ', '}
+                        {renderLinkedBudget(revision)}
+                      </span>
+                    ))}
+                  </span>
+                )}
+              </div>
+            )}
           </div>
           <div className="grid grid-cols-2 gap-4 text-sm text-gray-600">
             <div>
@@ -276,21 +475,26 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
             <span>Celková cena</span>
             <DollarSign className="h-5 w-5 text-green-600" />
           </div>
-          <p className="mt-2 text-2xl font-bold text-[#0a192f]">{formatCurrency(totals.totalAmount)}</p>
+          <p className="mt-2 text-2xl font-bold text-[#0a192f]">{formatMoney(totals.totalAmount)}</p>
+          {budget.client_approved_total !== null && budget.client_approved_total !== undefined && (
+            <p className="mt-1 text-xs text-gray-500">
+              Klient schválil {formatMoney(budget.client_approved_total)} bez DPH
+            </p>
+          )}
         </div>
         <div className="rounded-xl bg-white p-6 shadow">
           <div className="flex items-center justify-between text-sm text-gray-600">
             <span>Interní náklady</span>
             <Info className="h-5 w-5 text-red-500" />
           </div>
-          <p className="mt-2 text-2xl font-bold text-red-600">{formatCurrency(totals.internalTotal)}</p>
+          <p className="mt-2 text-2xl font-bold text-red-600">{formatMoney(totals.internalTotal)}</p>
         </div>
         <div className="rounded-xl bg-white p-6 shadow">
           <div className="flex items-center justify-between text-sm text-gray-600">
             <span>Zisk</span>
             <TrendingUp className="h-5 w-5 text-blue-600" />
           </div>
-          <p className="mt-2 text-2xl font-bold text-green-600">{formatCurrency(totals.profit)}</p>
+          <p className="mt-2 text-2xl font-bold text-green-600">{formatMoney(totals.profit)}</p>
         </div>
         <div className="rounded-xl bg-white p-6 shadow">
           <div className="flex items-center justify-between text-sm text-gray-600">
@@ -301,6 +505,67 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
         </div>
       </div>
 
+      <div className="rounded-xl bg-white p-6 shadow">
+        <div className="flex flex-col gap-6 lg:flex-row lg:items-start">
+          <div className="flex-1">
+            <h2 className="text-lg font-semibold text-[#0a192f]">Rozpis DPH</h2>
+            <table className="mt-4 w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+                  <th className="py-2 font-medium">Sazba</th>
+                  <th className="py-2 text-right font-medium">Základ</th>
+                  <th className="py-2 text-right font-medium">DPH</th>
+                  <th className="py-2 text-right font-medium">Celkem</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {vatSummary.lines.map(line => (
+                  <tr key={line.rate}>
+                    <td className="py-2 text-gray-600">{getVatRateLabel(line.rate)}</td>
+                    <td className="py-2 text-right text-[#0a192f]">{formatMoney(line.base)}</td>
+                    <td className="py-2 text-right text-[#0a192f]">{formatMoney(line.vat)}</td>
+                    <td className="py-2 text-right text-[#0a192f]">{formatMoney(line.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t border-gray-200 font-semibold text-[#0a192f]">
+                  <td className="py-2">Celkem</td>
+                  <td className="py-2 text-right">{formatMoney(vatSummary.base)}</td>
+                  <td className="py-2 text-right">{formatMoney(vatSummary.vat)}</td>
+                  <td className="py-2 text-right">{formatMoney(vatSummary.total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+            {vatSummary.hasReverseCharge && (
+              <p className="mt-3 text-xs text-gray-500">
+                U položek s 0 % DPH se uplatní přenesená daňová povinnost, daň přizná a zaplatí odběratel.
+              </p>
+            )}
+          </div>
+
+          <div className="lg:w-64">
+            <h2 className="text-lg font-semibold text-[#0a192f]">QR platba</h2>
+            {paymentQrCode ? (
+              <div className="mt-4 space-y-2 text-sm text-gray-600">
+                <img src={paymentQrCode} alt="QR kód pro platbu" className="h-48 w-48 rounded-lg border border-gray-200" />
+                <p>
+                  Částka s DPH: <span className="font-semibold text-[#0a192f]">{formatMoney(vatSummary.total)}</span>
+                </p>
+                {variableSymbol && <p>Variabilní symbol: {variableSymbol}</p>}
+                {organization?.iban && <p>Účet: {formatIban(organization.iban)}</p>}
+              </div>
+            ) : (
+              <p className="mt-4 text-sm text-gray-500">
+                {organization?.iban
+                  ? 'QR kód se zobrazí, jakmile bude mít rozpočet kladnou částku k úhradě.'
+                  : 'Pro QR platbu doplňte IBAN organizace v nastavení týmu.'}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
       <div className="space-y-4">
         {groupedSections.sections.map(({ section, items: sectionItems }) => (
           <div key={section.id} className="overflow-hidden rounded-xl bg-white shadow">
@@ -321,7 +586,6 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
                 <div className="px-6 py-5 text-sm text-gray-500">Žádné položky v této sekci.</div>
               ) : (
                 sectionItems.map(item => {
-                  const { text: notes, isCost, isPersonnel } = decodeItemNotes(item.notes);
                   return (
                     <div key={item.id} className="flex flex-col gap-4 px-6 py-5 md:flex-row md:items-start md:justify-between">
                       <div className="flex-1 space-y-2">
@@ -330,41 +594,50 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
                           <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2.5 py-1 text-xs font-medium text-gray-600">
                             {item.quantity} {item.unit}
                           </span>
-                          {isCost && (
+                          {item.is_cost && (
                             <span className="inline-flex items-center gap-1 rounded-full bg-red-100 px-2.5 py-1 text-xs font-medium text-red-700">
                               Náklad
                             </span>
                           )}
-                          {isPersonnel && (
+                          {item.is_personnel && (
                             <span className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-2.5 py-1 text-xs font-medium text-blue-700">
                               Personální
                             </span>
                           )}
+                          {isOptionalItem(item) && (
+                            <span className="inline-flex items-center gap-1 rounded-full bg-indigo-100 px-2.5 py-1 text-xs font-medium text-indigo-700">
+                              Vybráno klientem
+                            </span>
+                          )}
+                          <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2.5 py-1 text-xs font-medium text-amber-700">
+                            DPH {getVatRateLabel(resolveItemVatRate(item, defaultVatRate))}
+                          </span>
                         </div>
-                        {notes && <p className="text-sm text-gray-600">{notes}</p>}
+                        {item.notes && <p className="text-sm text-gray-600">{item.notes}</p>}
                       </div>
                       <div className="grid w-full gap-4 text-sm text-gray-600 md:w-auto md:min-w-[280px] md:grid-cols-2 lg:grid-cols-3">
                         <div>
                           <p className="text-xs uppercase tracking-wide text-gray-500">Cena / jednotka</p>
-                          <p className="font-semibold text-[#0a192f]">{formatCurrency(item.price_per_unit ?? 0)}</p>
+                          <p className="font-semibold text-[#0a192f]">{formatMoney(item.price_per_unit ?? 0)}</p>
                         </div>
                         <div>
                           <p className="text-xs uppercase tracking-wide text-gray-500">Cena celkem</p>
-                          <p className="font-semibold text-[#0a192f]">{formatCurrency(item.total_price ?? 0)}</p>
+                          <p className="font-semibold text-[#0a192f]">{formatMoney(item.total_price ?? 0)}</p>
                         </div>
                         <div>
                           <p className="text-xs uppercase tracking-wide text-gray-500">Interní náklady</p>
-                          <p className="font-semibold text-red-600">{formatCurrency(item.internal_total_price ?? 0)}</p>
+                          <p className="font-semibold text-red-600">{formatMoney(item.internal_total_price ?? 0)}</p>
                         </div>
                         <div>
                           <p className="text-xs uppercase tracking-wide text-gray-500">Zisk</p>
-                          <p className="font-semibold text-green-600">{formatCurrency(item.profit ?? 0)}</p>
+                          <p className="font-semibold text-green-600">{formatMoney(item.profit ?? 0)}</p>
                         </div>
                       </div>
                     </div>
                   );
                 })
               )}
+              {renderAdjustments(pricing.adjustments.filter(adjustment => adjustment.section_id === section.id))}
             </div>
           </div>
         ))}
@@ -383,7 +656,6 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
             </div>
             <div className="divide-y divide-gray-100">
               {groupedSections.unassigned.map(item => {
-                const { text: notes, isCost, isPersonnel } = decodeItemNotes(item.notes);
                 return (
                   <div key={item.id} className="flex flex-col gap-4 px-6 py-5 md:flex-row md:items-start md:justify-between">
                     <div className="flex-1 space-y-2">
@@ -392,35 +664,43 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
                         <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2.5 py-1 text-xs font-medium text-gray-600">
                           {item.quantity} {item.unit}
                         </span>
-                        {isCost && (
+                        {item.is_cost && (
                           <span className="inline-flex items-center gap-1 rounded-full bg-red-100 px-2.5 py-1 text-xs font-medium text-red-700">
                             Náklad
                           </span>
                         )}
-                        {isPersonnel && (
+                        {item.is_personnel && (
                           <span className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-2.5 py-1 text-xs font-medium text-blue-700">
                             Personální
                           </span>
                         )}
+                        {isOptionalItem(item) && (
+                          <span className="inline-flex items-center gap-1 rounded-full bg-indigo-100 px-2.5 py-1 text-xs font-medium text-indigo-700">
+                            Vybráno klientem
+                          </span>
+                        )}
+                        <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2.5 py-1 text-xs font-medium text-amber-700">
+                          DPH {getVatRateLabel(resolveItemVatRate(item, defaultVatRate))}
+                        </span>
                       </div>
-                      {notes && <p className="text-sm text-gray-600">{notes}</p>}
+                      {item.notes && <p className="text-sm text-gray-600">{item.notes}</p>}
                     </div>
                     <div className="grid w-full gap-4 text-sm text-gray-600 md:w-auto md:min-w-[280px] md:grid-cols-2 lg:grid-cols-3">
                       <div>
                         <p className="text-xs uppercase tracking-wide text-gray-500">Cena / jednotka</p>
-                        <p className="font-semibold text-[#0a192f]">{formatCurrency(item.price_per_unit ?? 0)}</p>
+                        <p className="font-semibold text-[#0a192f]">{formatMoney(item.price_per_unit ?? 0)}</p>
                       </div>
                       <div>
                         <p className="text-xs uppercase tracking-wide text-gray-500">Cena celkem</p>
-                        <p className="font-semibold text-[#0a192f]">{formatCurrency(item.total_price ?? 0)}</p>
+                        <p className="font-semibold text-[#0a192f]">{formatMoney(item.total_price ?? 0)}</p>
                       </div>
                       <div>
                         <p className="text-xs uppercase tracking-wide text-gray-500">Interní náklady</p>
-                        <p className="font-semibold text-red-600">{formatCurrency(item.internal_total_price ?? 0)}</p>
+                        <p className="font-semibold text-red-600">{formatMoney(item.internal_total_price ?? 0)}</p>
                       </div>
                       <div>
                         <p className="text-xs uppercase tracking-wide text-gray-500">Zisk</p>
-                        <p className="font-semibold text-green-600">{formatCurrency(item.profit ?? 0)}</p>
+                        <p className="font-semibold text-green-600">{formatMoney(item.profit ?? 0)}</p>
                       </div>
                     </div>
                   </div>
@@ -430,6 +710,53 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
           </div>
         )}
 
+        {groupedSections.options.length > 0 && (
+          <div className="overflow-hidden rounded-xl bg-white shadow">
+            <div className="flex flex-col gap-2 border-b border-gray-100 bg-gray-50 px-6 py-4 sm:flex-row sm:items-center sm:justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-[#0a192f]">Volitelné položky a varianty</h2>
+                <p className="text-sm text-gray-600">Nabídnuté klientovi, do celkové ceny se nezapočítávají.</p>
+              </div>
+              <ListPlus className="h-5 w-5 text-gray-400" />
+            </div>
+            <div className="divide-y divide-gray-100">
+              {groupedSections.options.map(group => (
+                <div key={group.name ?? ''} className="px-6 py-4">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    {group.name ? `Varianta ${group.name} – klient volí jednu z možností` : 'Volitelné položky'}
+                  </p>
+                  <div className="mt-2 space-y-2">
+                    {group.items.map(item => (
+                      <div key={item.id} className="flex flex-col gap-1 text-sm sm:flex-row sm:items-center sm:justify-between">
+                        <div>
+                          <span className="font-medium text-[#0a192f]">{item.item_name}</span>
+                          <span className="ml-2 text-gray-500">
+                            {item.quantity} {item.unit} × {formatMoney(item.price_per_unit ?? 0)}
+                          </span>
+                        </div>
+                        <div className="flex gap-4">
+                          <span className="text-red-600">{formatMoney(item.internal_total_price ?? 0)}</span>
+                          <span className="font-semibold text-[#0a192f]">{formatMoney(item.total_price ?? 0)}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {budgetAdjustments.length > 0 && (
+          <div className="overflow-hidden rounded-xl bg-white shadow">
+            <div className="border-b border-gray-100 bg-gray-50 px-6 py-4">
+              <h2 className="text-lg font-semibold text-[#0a192f]">Slevy a příplatky</h2>
+              <p className="text-sm text-gray-600">Úpravy ceny celého rozpočtu.</p>
+            </div>
+            <div className="divide-y divide-gray-100">{renderAdjustments(budgetAdjustments)}</div>
+          </div>
+        )}
+
         {items.length === 0 && (
           <div className="flex flex-col items-center justify-center rounded-xl border border-dashed border-gray-200 bg-white p-12 text-center text-gray-500">
             <FileText className="mb-4 h-12 w-12 text-gray-300" />
@@ -437,6 +764,27 @@ export default function BudgetDetail({ budgetId, onBack, onEdit, activeOrganizat
           </div>
         )}
       </div>
+
+      <BudgetComments budgetId={budget.id} organizationId={budget.organization_id ?? null} items={items} />
+
+      <BudgetShareLinks budget={budget} onStatusChanged={() => setReloadKey(prev => prev + 1)} />
+
+      <BudgetVersionHistory
+        budgetId={budget.id}
+        activeOrganizationId={activeOrganizationId}
+        onRestored={() => setReloadKey(prev => prev + 1)}
+      />
+
+      {showDuplicateModal && (
+        <DuplicateBudgetModal
+          budget={budget}
+          onClose={() => setShowDuplicateModal(false)}
+          onDuplicated={(newBudgetId) => {
+            setShowDuplicateModal(false);
+            onEdit(newBudgetId);
+          }}
+        />
+      )}
     </div>
   );
 }
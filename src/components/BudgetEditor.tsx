@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
-import type { ChangeEvent } from 'react';
+import type { ChangeEvent, DragEvent } from 'react';
 import type { PostgrestError } from '@supabase/supabase-js';
 
 import {
@@ -20,20 +20,99 @@ import {
   Loader2,
   X,
   Archive,
-  ArchiveRestore
+  ArchiveRestore,
+  Copy,
+  Mail,
+  GripVertical,
+  Undo2,
+  Redo2,
+  History,
+  MessageSquare
 
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { Budget, BudgetItem, BudgetSection, Category } from '../types/database';
+import {
+  Budget,
+  BudgetItem,
+  BudgetPriceAdjustment,
+  BudgetSection,
+  BudgetTemplate,
+  CatalogItem,
+  Category
+} from '../types/database';
 import * as XLSX from 'xlsx';
-import { ensureUserOrganization } from '../lib/organization';
+import { ensureUserOrganization, fetchOrganization } from '../lib/organization';
 import { isValidUuid } from '../lib/uuid';
+import { PersistBudgetInput, fetchBudgetContent, isBudgetSaveConflict, persistBudget } from '../lib/budgets';
+import { normalizeBudgetItem } from '../lib/budgetItemNotes';
+import {
+  DEFAULT_VAT_RATE,
+  VAT_RATE_OPTIONS,
+  applyReverseCharge,
+  calculateVatBreakdown,
+  getVatRateLabel,
+  isReverseChargeApplied
+} from '../lib/vat';
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY, formatCurrency } from '../lib/currency';
+import { BudgetPdfData, createBudgetPdfBase64, downloadBudgetPdf, getBudgetPdfFileName } from '../lib/budgetPdf';
+import { BudgetEmailAttachment, BudgetEmailAttachmentFormat } from '../lib/budgetEmail';
+import { deleteBudgetTemplate, fetchBudgetTemplates, instantiateBudgetTemplate } from '../lib/budgetTemplates';
+import { ImportDraftItem, ImportSheet, readImportFile } from '../lib/budgetImport';
+import {
+  CatalogPriceChange,
+  applyCatalogItem,
+  fetchCatalogItems,
+  getCatalogPriceChange,
+  syncCatalogPrices
+} from '../lib/catalog';
+import {
+  OPTIONAL_ITEM_KIND_LABELS,
+  OptionalItemKind,
+  calculateBudgetPricing,
+  describePriceAdjustment,
+  getOptionalItemKind,
+  groupOptionalItems,
+  isItemIncluded,
+  isOptionalItem,
+  toggleOptionalItem
+} from '../lib/budgetPricing';
+import {
+  BulkItemChanges,
+  adjustBudgetItemPrices,
+  applyBulkItemChanges,
+  moveBudgetItems,
+  recalculateBudgetItem,
+  removeBudgetItems
+} from '../lib/budgetItemOperations';
+import { useEditHistory } from '../lib/editHistory';
+import { DEFAULT_BUDGET_VALIDITY_DAYS, formatValidUntil, getValidityNote } from '../lib/budgetValidity';
+import { getBudgetFileBaseName } from '../lib/budgetNumbering';
+import { ClientWithContacts, fetchClients, getBudgetClientFields } from '../lib/clients';
+import {
+  BudgetDraft,
+  UNSAVED_BUDGET_CHANGES_MESSAGE,
+  clearBudgetDraft,
+  loadBudgetDraft,
+  saveBudgetDraft
+} from '../lib/budgetDrafts';
+import { BudgetMergeInput, BudgetMergeResult, mergeBudgetChanges } from '../lib/budgetMerge';
+import { BudgetPresencePeer, useBudgetPresence } from '../lib/budgetPresence';
+import CatalogItemNameInput from './CatalogItemNameInput';
+import BudgetAdjustmentsEditor from './BudgetAdjustmentsEditor';
+import SendBudgetEmailModal from './SendBudgetEmailModal';
+import BudgetImportWizard from './BudgetImportWizard';
+import BudgetItemsBulkBar from './BudgetItemsBulkBar';
+import BudgetSaveConflictModal from './BudgetSaveConflictModal';
+import BudgetComments from './BudgetComments';
+import ClientFormModal from './ClientFormModal';
 
 interface BudgetEditorProps {
   budgetId: string | null;
   onBack: () => void;
   onSaved: () => void;
   activeOrganizationId: string | null;
+  /** Reports whether the editor holds changes that are not saved to the database yet. */
+  onUnsavedChangesChange?: (hasUnsavedChanges: boolean) => void;
 }
 
 type EditableBudgetSection = Partial<BudgetSection> & {
@@ -42,7 +121,57 @@ type EditableBudgetSection = Partial<BudgetSection> & {
   isDeleted?: boolean;
 };
 
-export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganizationId }: BudgetEditorProps) {
+interface SaveConflict {
+  remote: BudgetMergeInput<EditableBudgetSection>;
+  merged: BudgetMergeResult<EditableBudgetSection>;
+  savedBy: string | null;
+}
+
+const DRAFT_AUTOSAVE_DELAY = 1000;
+
+const toEditorContent = ({ budget, sections, items }: PersistBudgetInput): BudgetMergeInput<EditableBudgetSection> => ({
+  budget: {
+    ...budget,
+    archived: budget.archived ?? false,
+    archived_at: budget.archived_at ?? null
+  },
+  sections: sections.map((section) => ({
+    ...section,
+    tempId: section.id as string,
+    isNew: false,
+    isDeleted: false
+  })),
+  items: items.map((item, index) => ({
+    ...normalizeBudgetItem(item as BudgetItem),
+    order_index: index,
+    section_id: item.section_id || undefined
+  }))
+});
+
+const fetchUserName = async (userId: string) => {
+  const { data } = await supabase.from('profiles').select('full_name').eq('id', userId).maybeSingle();
+  return (data?.full_name as string | null | undefined) || null;
+};
+
+// One entry per person; somebody with the budget open in several tabs counts as editing if any tab is.
+const groupPresencePeers = (peers: BudgetPresencePeer[]) =>
+  Array.from(
+    peers
+      .reduce((people, peer) => {
+        const existing = people.get(peer.userId);
+        people.set(peer.userId, existing?.activity === 'editing' ? existing : peer);
+        return people;
+      }, new Map<string, BudgetPresencePeer>())
+      .values()
+  );
+
+export default function BudgetEditor({
+  budgetId,
+  onBack,
+  onSaved,
+  activeOrganizationId,
+  onUnsavedChangesChange
+}: BudgetEditorProps) {
   const [budget, setBudget] = useState<Partial<Budget>>({
     name: '',
     client_name: '',
@@ -59,6 +188,17 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
   const [currentStep, setCurrentStep] = useState(0);
   const [stepErrors, setStepErrors] = useState<string[]>([]);
   const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [organizationVatRate, setOrganizationVatRate] = useState(DEFAULT_VAT_RATE);
+  const [organizationValidityDays, setOrganizationValidityDays] = useState(DEFAULT_BUDGET_VALIDITY_DAYS);
+  const [organizationCurrency, setOrganizationCurrency] = useState(DEFAULT_CURRENCY);
+  const [organizationIban, setOrganizationIban] = useState<string | null>(null);
+  const [organizationName, setOrganizationName] = useState<string | null>(null);
+  const [showEmailModal, setShowEmailModal] = useState(false);
+  const [templates, setTemplates] = useState<BudgetTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [catalogItems, setCatalogItems] = useState<CatalogItem[]>([]);
+  const [clients, setClients] = useState<ClientWithContacts[]>([]);
+  const [showClientForm, setShowClientForm] = useState(false);
   const [showCategoryManager, setShowCategoryManager] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
@@ -71,20 +211,80 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
   const [importSummary, setImportSummary] = useState<string | null>(null);
   const [importWarning, setImportWarning] = useState<string | null>(null);
   const [importError, setImportError] = useState<string | null>(null);
+  const [importSource, setImportSource] = useState<{ fileName: string; sheets: ImportSheet[] } | null>(null);
+  const [selectedItemIndexes, setSelectedItemIndexes] = useState<number[]>([]);
+  const [draggedItemIndex, setDraggedItemIndex] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | string | null>(null);
+  const editSnapshot = useMemo(() => ({ budget, sections, items }), [budget, sections, items]);
+  const {
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    reset: resetEditHistory
+  } = useEditHistory(
+    editSnapshot,
+    (snapshot) => {
+      // Archiving is saved right away, so undo must not bring its old state or timestamp back into the form.
+      setBudget((prev) => ({
+        ...snapshot.budget,
+        archived: prev.archived,
+        archived_at: prev.archived_at,
+        updated_at: prev.updated_at
+      }));
+      setSections(snapshot.sections);
+      setItems(snapshot.items);
+      setSelectedItemIndexes([]);
+    },
+    { enabled: !loading }
+  );
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [recoverableDraft, setRecoverableDraft] = useState<BudgetDraft<EditableBudgetSection> | null>(null);
+  // Serialized editor state as loaded or last saved; `null` until the state settles after opening the budget.
+  const draftBaselineRef = useRef<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<{ id: string; name: string } | null>(null);
+  const [saveConflict, setSaveConflict] = useState<SaveConflict | null>(null);
+  const [commentItemId, setCommentItemId] = useState<string | null>(null);
+  const [commentCounts, setCommentCounts] = useState<Record<string, number>>({});
+  const commentsRef = useRef<HTMLDivElement>(null);
+  const presencePeers = useBudgetPresence(
+    budgetId && isValidUuid(budgetId) ? budgetId : null,
+    currentUser,
+    hasUnsavedChanges ? 'editing' : 'viewing'
+  );
+  const otherEditors = useMemo(() => groupPresencePeers(presencePeers), [presencePeers]);
+  // Only saved items have an ID comments can point to.
+  const commentableItems = useMemo(
+    () =>
+      items
+        .filter((item) => isValidUuid(item.id))
+        .map((item) => ({ id: item.id as string, item_name: item.item_name ?? '' })),
+    [items]
+  );
   const activeSections = useMemo(
     () => sections.filter((section) => !section.isDeleted),
     [sections]
   );
+  const budgetCurrency = budget.currency || organizationCurrency;
+  const formatMoney = (value: number) => formatCurrency(value, budgetCurrency);
+  // Catalog prices are kept in the organization currency, so they are only offered for budgets in that currency.
+  const availableCatalogItems = budgetCurrency === organizationCurrency ? catalogItems : [];
+  const catalogById = useMemo(() => new Map(catalogItems.map((entry) => [entry.id, entry])), [catalogItems]);
+  const catalogPriceChanges = useMemo(
+    () => items.map((item) => getCatalogPriceChange(item, catalogById)),
+    [items, catalogById]
+  );
+  const changedCatalogItemsCount = catalogPriceChanges.filter(Boolean).length;
 
   const statusOptions: { value: Budget['status']; label: string; hint: string }[] = [
     { value: 'draft', label: 'Koncept', hint: 'Pracovní verze pro interní ladění' },
     { value: 'sent', label: 'Odesláno', hint: 'Posláno klientovi ke schválení' },
     { value: 'approved', label: 'Schváleno', hint: 'Klient odsouhlasil nabídku' },
-    { value: 'rejected', label: 'Zamítnuto', hint: 'Vyžaduje úpravy nebo revizi' }
+    { value: 'rejected', label: 'Zamítnuto', hint: 'Vyžaduje úpravy nebo revizi' },
+    { value: 'expired', label: 'Propadlo', hint: 'Klient nereagoval do konce platnosti' }
   ];
 
-  const NOTES_METADATA_PREFIX = '__budget_meta__:';
-
   const normalizeComparableText = (value: string) =>
     value
       .normalize('NFD')
@@ -94,58 +294,6 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
       .trim()
       .toLowerCase();
 
-  const parseNumericValue = (value: unknown): number => {
-    if (typeof value === 'number') {
-      return Number.isFinite(value) ? value : 0;
-    }
-
-    if (typeof value !== 'string') {
-      return 0;
-    }
-
-    const sanitized = value
-      .replace(/\u00A0/g, ' ')
-      .replace(/k[cč]|czk|eur|usd|,-/gi, '')
-      .replace(/\s+/g, '')
-      .trim();
-
-    if (!sanitized) {
-      return 0;
-    }
-
-    const replacedSeparators = sanitized.replace(/,/g, '.');
-    const dotCount = (replacedSeparators.match(/\./g) || []).length;
-
-    let normalized = replacedSeparators;
-
-    if (dotCount > 1) {
-      const lastDotIndex = replacedSeparators.lastIndexOf('.');
-      normalized =
-        replacedSeparators.slice(0, lastDotIndex).replace(/\./g, '') +
-        replacedSeparators.slice(lastDotIndex);
-    }
-
-    const parsed = Number(normalized);
-    return Number.isFinite(parsed) ? parsed : 0;
-  };
-
-  const parseBooleanValue = (value: unknown): boolean => {
-    if (typeof value === 'boolean') {
-      return value;
-    }
-
-    if (typeof value === 'number') {
-      return value !== 0;
-    }
-
-    if (typeof value !== 'string') {
-      return false;
-    }
-
-    const normalized = normalizeComparableText(value);
-    return ['ano', 'yes', 'true', '1', 'y'].includes(normalized);
-  };
-
   const generateSectionId = () => {
     if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
       return crypto.randomUUID();
@@ -153,48 +301,6 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     return `temp-${Math.random().toString(36).slice(2, 10)}`;
   };
 
-  const decodeItemNotes = (rawNotes?: string | null) => {
-    if (!rawNotes) {
-      return { text: '', isCost: false, isPersonnel: false };
-    }
-
-    if (rawNotes.startsWith(NOTES_METADATA_PREFIX)) {
-      try {
-        const parsed = JSON.parse(rawNotes.slice(NOTES_METADATA_PREFIX.length));
-        return {
-          text: typeof parsed?.note === 'string' ? parsed.note : '',
-          isCost: Boolean(parsed?.isCost),
-          isPersonnel: Boolean(parsed?.isPersonnel)
-        };
-      } catch (error) {
-        console.warn('Failed to parse budget item metadata, falling back to raw notes.', error);
-      }
-    }
-
-    return { text: rawNotes, isCost: false, isPersonnel: false };
-  };
-
-  const encodeItemNotes = (
-    noteText: string | undefined,
-    isCost: boolean | undefined,
-    isPersonnel: boolean | undefined
-  ) => {
-    const sanitizedNote = noteText || '';
-    const shouldIncludeMetadata = Boolean(isCost) || Boolean(isPersonnel);
-
-    if (!shouldIncludeMetadata) {
-      return sanitizedNote;
-    }
-
-    const payload = {
-      note: sanitizedNote,
-      isCost: Boolean(isCost),
-      isPersonnel: Boolean(isPersonnel)
-    };
-
-    return `${NOTES_METADATA_PREFIX}${JSON.stringify(payload)}`;
-  };
-
   const createEmptyItem = (orderIndex: number): Partial<BudgetItem> => ({
     item_name: '',
     unit: 'ks',
@@ -213,7 +319,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
   });
 
   useEffect(() => {
-    const fetchOrganization = async () => {
+    const resolveOrganization = async () => {
       const {
         data: { user }
       } = await supabase.auth.getUser();
@@ -226,16 +332,81 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
 
       const orgId = await ensureUserOrganization(user.id, activeOrganizationId);
       setOrganizationId(orgId);
+
+      try {
+        const organization = await fetchOrganization(orgId);
+        setOrganizationVatRate(organization?.default_vat_rate ?? DEFAULT_VAT_RATE);
+        setOrganizationValidityDays(organization?.budget_validity_days ?? DEFAULT_BUDGET_VALIDITY_DAYS);
+        setOrganizationCurrency(organization?.base_currency || DEFAULT_CURRENCY);
+        setOrganizationIban(organization?.iban ?? null);
+        setOrganizationName(organization?.name ?? null);
+      } catch (error) {
+        console.error('Error loading organization settings:', error);
+        setOrganizationVatRate(DEFAULT_VAT_RATE);
+        setOrganizationValidityDays(DEFAULT_BUDGET_VALIDITY_DAYS);
+        setOrganizationCurrency(DEFAULT_CURRENCY);
+        setOrganizationIban(null);
+        setOrganizationName(null);
+      }
     };
 
-    fetchOrganization();
+    resolveOrganization();
   }, [activeOrganizationId]);
 
+  useEffect(() => {
+    const resolveCurrentUser = async () => {
+      const {
+        data: { user }
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        setCurrentUser(null);
+        return;
+      }
+
+      try {
+        setCurrentUser({ id: user.id, name: (await fetchUserName(user.id)) || user.email || 'Neznámý uživatel' });
+      } catch (error) {
+        console.error('Error loading user profile:', error);
+        setCurrentUser({ id: user.id, name: user.email || 'Neznámý uživatel' });
+      }
+    };
+
+    resolveCurrentUser();
+  }, []);
+
   useEffect(() => {
     if (!organizationId) return;
     loadCategories();
   }, [organizationId]);
 
+  useEffect(() => {
+    if (!organizationId) return;
+
+    fetchCatalogItems(organizationId)
+      .then(setCatalogItems)
+      .catch((error) => console.error('Error loading price catalog:', error));
+  }, [organizationId]);
+
+  useEffect(() => {
+    if (!organizationId) return;
+
+    fetchClients(organizationId)
+      .then(setClients)
+      .catch((error) => console.error('Error loading clients:', error));
+  }, [organizationId]);
+
+  useEffect(() => {
+    if (!organizationId || budgetId) {
+      setTemplates([]);
+      return;
+    }
+
+    fetchBudgetTemplates(organizationId)
+      .then(setTemplates)
+      .catch((error) => console.error('Error loading budget templates:', error));
+  }, [organizationId, budgetId]);
+
   useEffect(() => {
     if (budgetId && isValidUuid(budgetId)) {
       loadBudget(budgetId);
@@ -250,7 +421,101 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     setImportWarning(null);
     setImportError(null);
     setImporting(false);
-  }, [budgetId]);
+    setImportSource(null);
+    setSelectedItemIndexes([]);
+    resetEditHistory();
+    draftBaselineRef.current = null;
+    setHasUnsavedChanges(false);
+    setDraftSavedAt(null);
+    setRecoverableDraft(null);
+    setSaveConflict(null);
+  }, [budgetId, resetEditHistory]);
+
+  useEffect(() => {
+    if (!loading && draftBaselineRef.current !== null) {
+      setHasUnsavedChanges(true);
+    }
+  }, [editSnapshot, loading]);
+
+  useEffect(() => {
+    if (loading) return;
+
+    const timer = window.setTimeout(() => {
+      const serialized = JSON.stringify(editSnapshot);
+
+      if (draftBaselineRef.current === null) {
+        draftBaselineRef.current = serialized;
+
+        const draft = loadBudgetDraft<EditableBudgetSection>(budgetId);
+        const { budget: draftBudget, sections: draftSections, items: draftItems } = draft ?? {};
+        if (draft && JSON.stringify({ budget: draftBudget, sections: draftSections, items: draftItems }) !== serialized) {
+          setRecoverableDraft(draft);
+        } else {
+          clearBudgetDraft(budgetId);
+        }
+        return;
+      }
+
+      const changed = serialized !== draftBaselineRef.current;
+      setHasUnsavedChanges(changed);
+
+      // An older draft waiting for a decision must not be overwritten.
+      if (recoverableDraft) return;
+
+      if (changed) {
+        setDraftSavedAt(saveBudgetDraft(budgetId, editSnapshot));
+      } else {
+        clearBudgetDraft(budgetId);
+        setDraftSavedAt(null);
+      }
+    }, DRAFT_AUTOSAVE_DELAY);
+
+    return () => window.clearTimeout(timer);
+  }, [editSnapshot, loading, budgetId, recoverableDraft]);
+
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (!recoverableDraft) {
+        saveBudgetDraft(budgetId, editSnapshot);
+      }
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges, recoverableDraft, budgetId, editSnapshot]);
+
+  useEffect(() => {
+    onUnsavedChangesChange?.(hasUnsavedChanges);
+  }, [hasUnsavedChanges, onUnsavedChangesChange]);
+
+  useEffect(() => () => onUnsavedChangesChange?.(false), [onUnsavedChangesChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      // Form fields keep the browser's own undo while typing.
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('textarea, select, input:not([type="checkbox"])')) return;
+
+      const key = event.key.toLowerCase();
+
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   const loadCategories = async () => {
     if (!organizationId) return;
@@ -309,51 +574,10 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     setLoading(true);
 
     try {
-      const [budgetResponse, itemsResponse, sectionsResponse] = await Promise.all([
-        supabase.from('budgets').select('*').eq('id', id).single(),
-        supabase.from('budget_items').select('*').eq('budget_id', id).order('order_index'),
-        supabase.from('budget_sections').select('*').eq('budget_id', id).order('created_at')
-      ]);
-
-      if (budgetResponse.data) {
-        setBudget({
-          ...budgetResponse.data,
-          archived: budgetResponse.data.archived ?? false,
-          archived_at: budgetResponse.data.archived_at ?? null
-        });
-      }
-
-      if (sectionsResponse.data) {
-        setSections(
-          sectionsResponse.data.map((section) => ({
-            ...section,
-            tempId: section.id,
-            isNew: false,
-            isDeleted: false
-          }))
-        );
-      } else {
-        setSections([]);
-      }
-
-      if (itemsResponse.data && itemsResponse.data.length > 0) {
-        setItems(
-          itemsResponse.data.map((item, index) => {
-            const { text: decodedNote, isCost, isPersonnel } = decodeItemNotes(item.notes);
-
-            return {
-              ...item,
-              notes: decodedNote,
-              order_index: index,
-              is_cost: item.is_cost ?? isCost,
-              is_personnel: item.is_personnel ?? isPersonnel,
-              section_id: item.section_id || undefined
-            };
-          })
-        );
-      } else {
-        setItems([createEmptyItem(0)]);
-      }
+      const content = toEditorContent(await fetchBudgetContent(id));
+      setBudget(content.budget);
+      setSections(content.sections);
+      setItems(content.items.length > 0 ? content.items : [createEmptyItem(0)]);
     } catch (error) {
       console.error('Error loading budget:', error);
     } finally {
@@ -361,8 +585,185 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     }
   };
 
+  const applyTemplate = () => {
+    const template = templates.find((entry) => entry.id === selectedTemplateId);
+    if (!template) return;
+
+    const hasContent = items.some((item) => item.item_name?.trim()) || activeSections.length > 0;
+    if (hasContent && !confirm('Použitím šablony nahradíte dosavadní položky a pod-rozpočty. Pokračovat?')) {
+      return;
+    }
+
+    const instantiated = instantiateBudgetTemplate(template, generateSectionId);
+    const timestamp = new Date().toISOString();
+
+    setSections(
+      instantiated.sections.map((section) => ({
+        ...section,
+        tempId: section.id,
+        created_at: timestamp,
+        updated_at: timestamp,
+        isNew: true,
+        isDeleted: false
+      }))
+    );
+    setItems(instantiated.items.length > 0 ? instantiated.items : [createEmptyItem(0)]);
+    setSelectedItemIndexes([]);
+    setImportSummary(
+      `Použita šablona „${template.name}“ – ${instantiated.items.length} položek, ${instantiated.sections.length} pod-rozpočtů. Množství a ceny upravte podle zakázky.`
+    );
+    setImportWarning(null);
+    setImportError(null);
+  };
+
+  const handleDeleteTemplate = async () => {
+    const template = templates.find((entry) => entry.id === selectedTemplateId);
+    if (!template || !confirm(`Opravdu chcete smazat šablonu „${template.name}“?`)) return;
+
+    try {
+      await deleteBudgetTemplate(template.id);
+      setTemplates((prev) => prev.filter((entry) => entry.id !== template.id));
+      setSelectedTemplateId('');
+    } catch (error) {
+      console.error('Error deleting budget template:', error);
+      alert('Šablonu se nepodařilo smazat. Smazat ji může pouze autor nebo administrátor.');
+    }
+  };
+
+  const selectCatalogItem = (index: number, entry: CatalogItem) => {
+    setItems((prev) => prev.map((item, itemIndex) => (itemIndex === index ? applyCatalogItem(item, entry) : item)));
+  };
+
+  const resolveCatalogPriceChange = (index: number, change: CatalogPriceChange, updatePrices: boolean) => {
+    setItems((prev) =>
+      prev.map((item, itemIndex) => (itemIndex === index ? syncCatalogPrices(item, change, updatePrices) : item))
+    );
+  };
+
+  const updateAllCatalogPrices = () => {
+    setItems((prev) =>
+      prev.map((item) => {
+        const change = getCatalogPriceChange(item, catalogById);
+        return change ? syncCatalogPrices(item, change, true) : item;
+      })
+    );
+  };
+
+  const renderCatalogPriceChange = (index: number) => {
+    const change = catalogPriceChanges[index];
+    if (!change) return null;
+
+    const item = items[index];
+
+    return (
+      <div className="mt-1 rounded-lg bg-amber-50 px-2 py-1 text-xs text-amber-800">
+        Ceník: {formatMoney(change.clientPrice)}
+        {item.catalog_price_per_unit !== null && item.catalog_price_per_unit !== undefined
+          ? ` (dříve ${formatMoney(item.catalog_price_per_unit)})`
+          : ''}
+        {' · '}
+        <button
+          type="button"
+          onClick={() => resolveCatalogPriceChange(index, change, true)}
+          className="font-semibold underline"
+        >
+          Aktualizovat
+        </button>
+        {' · '}
+        <button
+          type="button"
+          onClick={() => resolveCatalogPriceChange(index, change, false)}
+          className="underline"
+        >
+          Ponechat
+        </button>
+      </div>
+    );
+  };
+
+  const renderMarkupInput = (item: Partial<BudgetItem>, index: number) => {
+    if (item.is_cost) return null;
+
+    return (
+      <label
+        className="mt-1 flex items-center gap-1 text-xs text-gray-500"
+        title="Cena pro klienta se dopočítá z interní ceny a přirážky."
+      >
+        <span className="whitespace-nowrap">Přirážka</span>
+        <input
+          type="number"
+          step="0.1"
+          value={item.markup_percent ?? ''}
+          onChange={(e) => updateItem(index, 'markup_percent', e.target.value)}
+          placeholder="—"
+          className="w-full min-w-[3rem] rounded border border-gray-200 px-2 py-1 text-right text-xs focus:border-[#0a192f] focus:outline-none focus:ring-1 focus:ring-[#0a192f]/30"
+        />
+        <span>%</span>
+      </label>
+    );
+  };
+
+  const updateItemOfferKind = (index: number, kind: OptionalItemKind) => {
+    setItems((prev) => applyBulkItemChanges(prev, [index], { offer_kind: kind }));
+  };
+
+  const updateItemAlternativeGroup = (index: number, group: string) => {
+    setItems((prev) =>
+      prev.map((item, itemIndex) => (itemIndex === index ? { ...item, alternative_group: group } : item))
+    );
+  };
+
+  const renderOfferTypeInput = (item: Partial<BudgetItem>, index: number) => {
+    const kind = getOptionalItemKind(item);
+
+    return (
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <select
+          value={kind}
+          onChange={(e) => updateItemOfferKind(index, e.target.value as OptionalItemKind)}
+          className="rounded border border-gray-200 px-2 py-1 text-xs focus:border-[#0a192f] focus:outline-none focus:ring-1 focus:ring-[#0a192f]/30"
+          title="Volitelné položky a varianty se nezapočítávají do celkové ceny, dokud je klient nevybere."
+        >
+          {(Object.keys(OPTIONAL_ITEM_KIND_LABELS) as OptionalItemKind[]).map((option) => (
+            <option key={option} value={option}>
+              {OPTIONAL_ITEM_KIND_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        {kind === 'alternative' && (
+          <input
+            type="text"
+            list="budget-alternative-groups"
+            value={item.alternative_group ?? ''}
+            onChange={(e) => updateItemAlternativeGroup(index, e.target.value)}
+            placeholder="Skupina variant"
+            className="min-w-[6rem] flex-1 rounded border border-gray-200 px-2 py-1 text-xs focus:border-[#0a192f] focus:outline-none focus:ring-1 focus:ring-[#0a192f]/30"
+            title="Položky se stejnou skupinou se navzájem vylučují."
+          />
+        )}
+        {kind !== 'core' && (
+          <label className="flex items-center gap-1 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={Boolean(item.client_selected)}
+              onChange={(e) => setItems((prev) => toggleOptionalItem(prev, index, e.target.checked))}
+              className="h-3.5 w-3.5 rounded border-gray-300 text-[#0a192f] focus:ring-[#0a192f]"
+            />
+            Vybráno klientem
+          </label>
+        )}
+      </div>
+    );
+  };
+
   const addNewItem = () => {
-    setItems((prev) => [...prev, createEmptyItem(prev.length)]);
+    setItems((prev) => [
+      ...prev,
+      {
+        ...createEmptyItem(prev.length),
+        ...(isReverseChargeApplied(prev, organizationVatRate) ? { vat_rate: 0 } : {})
+      }
+    ]);
   };
 
   const addSection = () => {
@@ -439,6 +840,11 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
         item.section_id === sectionId ? { ...item, section_id: undefined } : item
       )
     );
+
+    setBudget((prev) => ({
+      ...prev,
+      price_adjustments: (prev.price_adjustments ?? []).filter((adjustment) => adjustment.section_id !== sectionId)
+    }));
   };
 
   const handleArchiveToggle = async () => {
@@ -448,22 +854,25 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
       setArchiveLoading(true);
       const shouldArchive = !budget.archived;
       const archivedAtValue = shouldArchive ? new Date().toISOString() : null;
+      const updatedAt = new Date().toISOString();
 
       const { error } = await supabase
         .from('budgets')
         .update({
           archived: shouldArchive,
           archived_at: archivedAtValue,
-          updated_at: new Date().toISOString()
+          updated_at: updatedAt
         })
         .eq('id', budgetId);
 
       if (error) throw error;
 
+      // The own archive change must not look like a conflicting save later on.
       setBudget((prev) => ({
         ...prev,
         archived: shouldArchive,
-        archived_at: archivedAtValue
+        archived_at: archivedAtValue,
+        updated_at: updatedAt
       }));
 
       onSaved();
@@ -475,75 +884,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     }
   };
 
-  type HeaderKey =
-    | 'category'
-    | 'section'
-    | 'itemName'
-    | 'notes'
-    | 'quantity'
-    | 'unit'
-    | 'pricePerUnit'
-    | 'totalPrice'
-    | 'internalQuantity'
-    | 'internalPrice'
-    | 'internalTotal'
-    | 'isCost';
-
-  const headerSynonyms: Record<HeaderKey, string[]> = {
-    category: ['Kategorie', 'Category'],
-    section: ['Pod-rozpočet', 'Podrozpočet', 'Podrozpocet', 'Section', 'Subbudget'],
-    itemName: ['Položka', 'Název položky', 'Nazev polozky', 'Item', 'Item name'],
-    notes: ['Poznámka', 'Poznamka', 'Poznámky', 'Notes'],
-    quantity: ['Počet', 'Pocet', 'Quantity', 'Qty'],
-    unit: ['Jednotka', 'Unit'],
-    pricePerUnit: ['Cena za jednotku', 'Cena / jednotka', 'Cena/jednotka', 'Unit price'],
-    totalPrice: ['Cena pro klienta', 'Cena celkem', 'Celkem', 'Total'],
-    internalQuantity: ['Interní počet', 'Interni pocet', 'Internal quantity'],
-    internalPrice: ['Interní cena', 'Interni cena', 'Internal price', 'Internal unit price'],
-    internalTotal: ['Interní náklad', 'Interni naklad', 'Interní celkem', 'Interni celkem', 'Internal total'],
-    isCost: ['Náklad', 'Naklad', 'Is cost', 'Cost']
-  };
-
-  const findHeaderConfiguration = (
-    rows: (string | number)[][]
-  ): { headerRowIndex: number; columnIndexes: Partial<Record<HeaderKey, number>> } => {
-    const normalizedHeaderValues = new Map<string, HeaderKey>();
-    (Object.keys(headerSynonyms) as HeaderKey[]).forEach((key) => {
-      headerSynonyms[key].forEach((label) => {
-        normalizedHeaderValues.set(normalizeComparableText(label), key);
-      });
-    });
-
-    const headerCandidates = new Set(normalizedHeaderValues.keys());
-
-    for (let rowIndex = 0; rowIndex < rows.length; rowIndex += 1) {
-      const row = rows[rowIndex];
-      let matches = 0;
-      row.forEach((cell) => {
-        const normalized = normalizeComparableText(String(cell ?? ''));
-        if (headerCandidates.has(normalized)) {
-          matches += 1;
-        }
-      });
-
-      if (matches >= 2) {
-        const columnIndexes: Partial<Record<HeaderKey, number>> = {};
-        row.forEach((cell, index) => {
-          const normalized = normalizeComparableText(String(cell ?? ''));
-          const key = normalizedHeaderValues.get(normalized);
-          if (key && columnIndexes[key] === undefined) {
-            columnIndexes[key] = index;
-          }
-        });
-
-        return { headerRowIndex: rowIndex, columnIndexes };
-      }
-    }
-
-    throw new Error('Nepodařilo se najít hlavičku tabulky v souboru.');
-  };
-
-  const handleImportFromExcel = async (event: ChangeEvent<HTMLInputElement>) => {
+  const handleImportFileSelected = async (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
 
     try {
@@ -556,357 +897,226 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
         throw new Error('Nebyl vybrán žádný soubor.');
       }
 
-      const buffer = await file.arrayBuffer();
-      const workbook = XLSX.read(buffer, { type: 'array' });
-
-      if (!workbook.SheetNames.length) {
-        throw new Error('Soubor neobsahuje žádný list.');
-      }
-
-      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      const sheets = await readImportFile(file);
 
-      if (!sheet) {
+      if (!sheets.length) {
         throw new Error('Soubor neobsahuje čitelná data.');
       }
 
-      const rows = XLSX.utils.sheet_to_json<(string | number)[]>(sheet, {
-        header: 1,
-        raw: false,
-        blankrows: false
-      });
-
-      if (!rows.length) {
-        throw new Error('List v Excelu je prázdný.');
+      setImportSource({ fileName: file.name, sheets });
+    } catch (error) {
+      console.error('Error reading budget import file:', error);
+      const message =
+        error instanceof Error
+          ? error.message
+          : 'Soubor se nepodařilo načíst.';
+      setImportError(message);
+    } finally {
+      if (event.target) {
+        // eslint-disable-next-line no-param-reassign
+        event.target.value = '';
       }
+      setImporting(false);
+    }
+  };
 
-      const { headerRowIndex, columnIndexes } = findHeaderConfiguration(rows);
+  const applyImportedItems = async (draftItems: ImportDraftItem[], detectedCurrencies: string[]) => {
+    const existingSectionMap = new Map<string, EditableBudgetSection>();
+    sections.forEach((section) => {
+      if (section.isDeleted) return;
+      const key = normalizeComparableText(section.name || '');
+      if (!key) return;
+      existingSectionMap.set(key, section);
+    });
 
-      if (columnIndexes.itemName === undefined) {
-        throw new Error('V tabulce chybí sloupec s názvy položek.');
-      }
+    const sectionsToAdd: EditableBudgetSection[] = [];
 
-      const dataRows = rows.slice(headerRowIndex + 1);
+    const resolveSectionId = (sectionName: string) => {
+      const normalizedSection = normalizeComparableText(sectionName);
+      if (!normalizedSection) {
+        return undefined;
+      }
 
-      const existingSectionMap = new Map<string, EditableBudgetSection>();
-      sections.forEach((section) => {
-        if (section.isDeleted) return;
-        const key = normalizeComparableText(section.name || '');
-        if (!key) return;
-        existingSectionMap.set(key, section);
-      });
+      const existing = existingSectionMap.get(normalizedSection);
+      if (existing) {
+        return existing.id || existing.tempId;
+      }
 
-      const sectionsToAdd: EditableBudgetSection[] = [];
-
-      type DraftItem = {
-        categoryName: string;
-        sectionId?: string;
-        itemName: string;
-        notes: string;
-        unit: string;
-        quantity: number;
-        pricePerUnit: number;
-        totalPrice: number;
-        internalQuantity: number;
-        internalPrice: number;
-        internalTotal: number;
-        isCost: boolean;
+      const newId = generateSectionId();
+      const nowIso = new Date().toISOString();
+      const newSection: EditableBudgetSection = {
+        id: newId,
+        tempId: newId,
+        name: sectionName,
+        description: '',
+        created_at: nowIso,
+        updated_at: nowIso,
+        isNew: true,
+        isDeleted: false
       };
 
-      const draftItems: DraftItem[] = [];
-      const encounteredCategoryNames = new Map<string, string>();
-
-      dataRows.forEach((row) => {
-        const hasContent = row.some((cell) => String(cell ?? '').trim().length > 0);
-        if (!hasContent) {
-          return;
-        }
-
-        const normalizedFirstCell = normalizeComparableText(String(row[0] ?? ''));
-        if (
-          normalizedFirstCell === 'souhrn' ||
-          normalizedFirstCell.startsWith('souhrn') ||
-          normalizedFirstCell.startsWith('poznámka') ||
-          normalizedFirstCell.startsWith('poznamka')
-        ) {
-          return;
-        }
-
-        const itemNameValue = row[columnIndexes.itemName as number];
-        const itemName = String(itemNameValue ?? '').trim();
-
-        if (!itemName) {
-          return;
-        }
-
-        const categoryName =
-          columnIndexes.category !== undefined ? String(row[columnIndexes.category] ?? '').trim() : '';
-
-        if (categoryName) {
-          const normalizedCategory = normalizeComparableText(categoryName);
-          if (normalizedCategory && !encounteredCategoryNames.has(normalizedCategory)) {
-            encounteredCategoryNames.set(normalizedCategory, categoryName);
-          }
-        }
-
-        const sectionName =
-          columnIndexes.section !== undefined ? String(row[columnIndexes.section] ?? '').trim() : '';
+      existingSectionMap.set(normalizedSection, newSection);
+      sectionsToAdd.push(newSection);
+      return newSection.id;
+    };
 
-        const notes =
-          columnIndexes.notes !== undefined ? String(row[columnIndexes.notes] ?? '').trim() : '';
+    const encounteredCategoryNames = new Map<string, string>();
+    draftItems.forEach((item) => {
+      const normalizedCategory = normalizeComparableText(item.categoryName);
+      if (normalizedCategory && !encounteredCategoryNames.has(normalizedCategory)) {
+        encounteredCategoryNames.set(normalizedCategory, item.categoryName);
+      }
+    });
 
-        const unit =
-          columnIndexes.unit !== undefined ? String(row[columnIndexes.unit] ?? '').trim() : '';
+    const categoryNameMap = new Map<string, string>();
+    categories.forEach((category) => {
+      const key = normalizeComparableText(category.name);
+      if (!key) return;
+      categoryNameMap.set(key, category.id);
+    });
 
-        const quantityCell =
-          columnIndexes.quantity !== undefined ? row[columnIndexes.quantity] : undefined;
-        const priceCell =
-          columnIndexes.pricePerUnit !== undefined ? row[columnIndexes.pricePerUnit] : undefined;
-        const totalCell =
-          columnIndexes.totalPrice !== undefined ? row[columnIndexes.totalPrice] : undefined;
+    const missingNormalizedCategories = Array.from(encounteredCategoryNames.keys()).filter(
+      (normalized) => normalized && !categoryNameMap.has(normalized)
+    );
 
-        let quantity = parseNumericValue(quantityCell);
-        let pricePerUnit = parseNumericValue(priceCell);
-        let totalPrice = parseNumericValue(totalCell);
+    let createdCategories = 0;
 
-        if (!quantity && pricePerUnit && totalPrice) {
-          quantity = totalPrice / pricePerUnit;
-        }
+    if (missingNormalizedCategories.length > 0 && organizationId) {
+      const namesToCreate = missingNormalizedCategories
+        .map((normalized) => encounteredCategoryNames.get(normalized) || '')
+        .filter((name) => name);
 
-        if (!pricePerUnit && quantity && totalPrice) {
-          pricePerUnit = totalPrice / quantity;
-        }
+      if (namesToCreate.length > 0) {
+        const {
+          data: { user }
+        } = await supabase.auth.getUser();
 
-        if (!totalPrice) {
-          totalPrice = quantity * pricePerUnit;
+        if (!user) {
+          throw new Error('Pro import kategorií je potřeba být přihlášen.');
         }
 
-        if (!quantity && totalPrice) {
-          quantity = totalPrice ? 1 : 0;
-          if (!pricePerUnit) {
-            pricePerUnit = totalPrice;
-          }
+        const { data: created, error } = await supabase
+          .from('categories')
+          .insert(
+            namesToCreate.map((name) => ({
+              name,
+              user_id: user.id,
+              organization_id: organizationId
+            }))
+          )
+          .select();
+
+        if (error) {
+          throw error;
         }
 
-        const internalQuantityCell =
-          columnIndexes.internalQuantity !== undefined
-            ? row[columnIndexes.internalQuantity]
-            : undefined;
-        const internalPriceCell =
-          columnIndexes.internalPrice !== undefined ? row[columnIndexes.internalPrice] : undefined;
-        const internalTotalCell =
-          columnIndexes.internalTotal !== undefined ? row[columnIndexes.internalTotal] : undefined;
-
-        let internalQuantity = parseNumericValue(internalQuantityCell);
-        let internalPrice = parseNumericValue(internalPriceCell);
-        let internalTotal = parseNumericValue(internalTotalCell);
-
-        if (!internalTotal) {
-          internalTotal = internalQuantity * internalPrice;
-        }
-
-        const isCost = parseBooleanValue(
-          columnIndexes.isCost !== undefined ? row[columnIndexes.isCost] : undefined
-        );
-
-        const sectionId = (() => {
-          const normalizedSection = normalizeComparableText(sectionName);
-          if (!normalizedSection) {
-            return undefined;
-          }
-
-          const existing = existingSectionMap.get(normalizedSection);
-          if (existing) {
-            return existing.id || existing.tempId;
-          }
-
-          const newId = generateSectionId();
-          const nowIso = new Date().toISOString();
-          const newSection: EditableBudgetSection = {
-            id: newId,
-            tempId: newId,
-            name: sectionName,
-            description: '',
-            created_at: nowIso,
-            updated_at: nowIso,
-            isNew: true,
-            isDeleted: false
-          };
-
-          existingSectionMap.set(normalizedSection, newSection);
-          sectionsToAdd.push(newSection);
-          return newSection.id;
-        })();
-
-        draftItems.push({
-          categoryName,
-          sectionId,
-          itemName,
-          notes,
-          unit: unit || 'ks',
-          quantity,
-          pricePerUnit,
-          totalPrice,
-          internalQuantity,
-          internalPrice,
-          internalTotal,
-          isCost
+        created?.forEach((category) => {
+          const key = normalizeComparableText(category.name);
+          if (!key) return;
+          categoryNameMap.set(key, category.id);
         });
-      });
 
-      if (!draftItems.length) {
-        throw new Error('V souboru se nenašly žádné položky k importu.');
+        createdCategories = created?.length ?? 0;
+
+        await loadCategories();
       }
+    }
 
-      const categoryNameMap = new Map<string, string>();
-      categories.forEach((category) => {
-        const key = normalizeComparableText(category.name);
-        if (!key) return;
-        categoryNameMap.set(key, category.id);
-      });
+    const unresolvedCategoryNames = missingNormalizedCategories
+      .filter((normalized) => !categoryNameMap.has(normalized))
+      .map((normalized) => encounteredCategoryNames.get(normalized) || '')
+      .filter((name, index, array) => name && array.indexOf(name) === index);
+
+    const importedItems = draftItems.map((item, index) => {
+      const normalizedCategory = normalizeComparableText(item.categoryName);
+      const categoryId = normalizedCategory ? categoryNameMap.get(normalizedCategory) : undefined;
+
+      const quantityValue = Number.isFinite(item.quantity) ? item.quantity : 0;
+      const priceValue = Number.isFinite(item.pricePerUnit) ? item.pricePerUnit : 0;
+      const totalValue = Number.isFinite(item.totalPrice)
+        ? item.totalPrice
+        : quantityValue * priceValue;
+
+      let internalQuantityValue = Number.isFinite(item.internalQuantity)
+        ? item.internalQuantity
+        : 0;
+      let internalPriceValue = Number.isFinite(item.internalPrice) ? item.internalPrice : 0;
+      let internalTotalValue = Number.isFinite(item.internalTotal)
+        ? item.internalTotal
+        : internalQuantityValue * internalPriceValue;
+
+      if (item.isCost) {
+        const fallbackQuantity = quantityValue || internalQuantityValue || (totalValue ? 1 : 0);
+        const fallbackPrice =
+          priceValue ||
+          internalPriceValue ||
+          (fallbackQuantity ? totalValue / fallbackQuantity : 0);
+
+        internalQuantityValue = fallbackQuantity;
+        internalPriceValue = fallbackPrice;
+        internalTotalValue = totalValue || internalTotalValue;
+      }
 
-      const missingNormalizedCategories = Array.from(encounteredCategoryNames.keys()).filter(
-        (normalized) => normalized && !categoryNameMap.has(normalized)
-      );
+      const profit = totalValue - internalTotalValue;
 
-      let createdCategories = 0;
-
-      if (missingNormalizedCategories.length > 0 && organizationId) {
-        const namesToCreate = missingNormalizedCategories
-          .map((normalized) => encounteredCategoryNames.get(normalized) || '')
-          .filter((name) => name);
-
-        if (namesToCreate.length > 0) {
-          const {
-            data: { user }
-          } = await supabase.auth.getUser();
-
-          if (!user) {
-            throw new Error('Pro import kategorií je potřeba být přihlášen.');
-          }
-
-          const { data: created, error } = await supabase
-            .from('categories')
-            .insert(
-              namesToCreate.map((name) => ({
-                name,
-                user_id: user.id,
-                organization_id: organizationId
-              }))
-            )
-            .select();
-
-          if (error) {
-            throw error;
-          }
-
-          created?.forEach((category) => {
-            const key = normalizeComparableText(category.name);
-            if (!key) return;
-            categoryNameMap.set(key, category.id);
-          });
-
-          createdCategories = created?.length ?? 0;
-
-          await loadCategories();
-        }
-      }
+      return {
+        category_id: categoryId ?? '',
+        item_name: item.itemName,
+        unit: item.unit || 'ks',
+        quantity: quantityValue,
+        price_per_unit: priceValue,
+        total_price: totalValue,
+        notes: item.notes,
+        internal_quantity: internalQuantityValue,
+        internal_price_per_unit: internalPriceValue,
+        internal_total_price: internalTotalValue,
+        profit,
+        order_index: index,
+        is_cost: item.isCost,
+        vat_rate: item.vatRate,
+        section_id: resolveSectionId(item.sectionName)
+      } as Partial<BudgetItem>;
+    });
 
-      const unresolvedCategoryNames = missingNormalizedCategories
-        .filter((normalized) => !categoryNameMap.has(normalized))
-        .map((normalized) => encounteredCategoryNames.get(normalized) || '')
-        .filter((name, index, array) => name && array.indexOf(name) === index);
-
-      const importedItems = draftItems.map((item, index) => {
-        const normalizedCategory = normalizeComparableText(item.categoryName);
-        const categoryId = normalizedCategory ? categoryNameMap.get(normalizedCategory) : undefined;
-
-        const quantityValue = Number.isFinite(item.quantity) ? item.quantity : 0;
-        const priceValue = Number.isFinite(item.pricePerUnit) ? item.pricePerUnit : 0;
-        const totalValue = Number.isFinite(item.totalPrice)
-          ? item.totalPrice
-          : quantityValue * priceValue;
-
-        let internalQuantityValue = Number.isFinite(item.internalQuantity)
-          ? item.internalQuantity
-          : 0;
-        let internalPriceValue = Number.isFinite(item.internalPrice) ? item.internalPrice : 0;
-        let internalTotalValue = Number.isFinite(item.internalTotal)
-          ? item.internalTotal
-          : internalQuantityValue * internalPriceValue;
-
-        if (item.isCost) {
-          const fallbackQuantity = quantityValue || internalQuantityValue || (totalValue ? 1 : 0);
-          const fallbackPrice =
-            priceValue ||
-            internalPriceValue ||
-            (fallbackQuantity ? totalValue / fallbackQuantity : 0);
-
-          internalQuantityValue = fallbackQuantity;
-          internalPriceValue = fallbackPrice;
-          internalTotalValue = totalValue || internalTotalValue;
-        }
+    if (sectionsToAdd.length > 0) {
+      setSections((prev) => [...prev, ...sectionsToAdd]);
+    }
 
-        const profit = totalValue - internalTotalValue;
-
-        return {
-          category_id: categoryId ?? '',
-          item_name: item.itemName,
-          unit: item.unit || 'ks',
-          quantity: quantityValue,
-          price_per_unit: priceValue,
-          total_price: totalValue,
-          notes: item.notes,
-          internal_quantity: internalQuantityValue,
-          internal_price_per_unit: internalPriceValue,
-          internal_total_price: internalTotalValue,
-          profit,
-          order_index: index,
-          is_cost: item.isCost,
-          section_id: item.sectionId
-        } as Partial<BudgetItem>;
-      });
+    setItems(importedItems.length > 0 ? importedItems : [createEmptyItem(0)]);
+    setSelectedItemIndexes([]);
+    setCurrentStep(1);
+    setStepErrors([]);
 
-      if (sectionsToAdd.length > 0) {
-        setSections((prev) => [...prev, ...sectionsToAdd]);
-      }
+    const summaryParts = [`Načteno ${importedItems.length} položek.`];
+    if (createdCategories > 0) {
+      summaryParts.push(`Vytvořeno ${createdCategories} nových kategorií.`);
+    }
+    if (sectionsToAdd.length > 0) {
+      summaryParts.push(`Přidáno ${sectionsToAdd.length} pod-rozpočtů.`);
+    }
 
-      setItems(importedItems.length > 0 ? importedItems : [createEmptyItem(0)]);
-      setCurrentStep(1);
-      setStepErrors([]);
+    setImportSummary(summaryParts.join(' '));
 
-      const summaryParts = [`Načteno ${importedItems.length} položek.`];
-      if (createdCategories > 0) {
-        summaryParts.push(`Vytvořeno ${createdCategories} nových kategorií.`);
-      }
-      if (sectionsToAdd.length > 0) {
-        summaryParts.push(`Přidáno ${sectionsToAdd.length} pod-rozpočtů.`);
-      }
+    const importWarnings: string[] = [];
 
-      setImportSummary(summaryParts.join(' '));
+    if (unresolvedCategoryNames.length > 0) {
+      importWarnings.push(
+        `Následující kategorie nebyly nalezeny a je třeba je přiřadit ručně: ${unresolvedCategoryNames.join(
+          ', '
+        )}.`
+      );
+    }
 
-      if (unresolvedCategoryNames.length > 0) {
-        setImportWarning(
-          `Následující kategorie nebyly nalezeny a je třeba je přiřadit ručně: ${unresolvedCategoryNames.join(
-            ', '
-          )}.`
-        );
-      } else {
-        setImportWarning(null);
-      }
-    } catch (error) {
-      console.error('Error importing budget from Excel:', error);
-      const message =
-        error instanceof Error
-          ? error.message
-          : 'Během importu došlo k neočekávané chybě.';
-      setImportError(message);
-    } finally {
-      if (event.target) {
-        // eslint-disable-next-line no-param-reassign
-        event.target.value = '';
-      }
-      setImporting(false);
+    const foreignCurrencies = detectedCurrencies.filter((currency) => currency !== budgetCurrency);
+    if (foreignCurrencies.length > 0) {
+      importWarnings.push(
+        `Soubor obsahuje ceny v měně ${foreignCurrencies.join(', ')}, rozpočet je veden v ${budgetCurrency}. Ceny nebyly přepočteny.`
+      );
     }
+
+    setImportWarning(importWarnings.length > 0 ? importWarnings.join(' ') : null);
+
+    setImportSource(null);
   };
 
   type EditableField =
@@ -920,7 +1130,9 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     | 'internal_price_per_unit'
     | 'is_cost'
     | 'is_personnel'
-    | 'section_id';
+    | 'section_id'
+    | 'vat_rate'
+    | 'markup_percent';
 
   const updateItem = (index: number, field: EditableField, value: string | number | boolean) => {
     setItems((prev) => {
@@ -961,6 +1173,17 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
         case 'is_personnel':
           item.is_personnel = Boolean(value);
           break;
+        case 'vat_rate':
+          item.vat_rate = value === '' ? null : Number(value);
+          break;
+        case 'markup_percent':
+          item.markup_percent = value === '' ? null : Number(value) || 0;
+          break;
+      }
+
+      // Typing a client price by hand replaces the markup rule.
+      if (field === 'price_per_unit') {
+        item.markup_percent = null;
       }
 
       if (field === 'quantity') {
@@ -975,30 +1198,14 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
         item.internal_price_per_unit = Number(value) || 0;
       }
 
-      if (item.is_cost) {
-        item.internal_quantity = Number(item.quantity) || 0;
-        item.internal_price_per_unit = Number(item.price_per_unit) || 0;
-      }
-
-      const quantity = Number(item.quantity) || 0;
-      const pricePerUnit = Number(item.price_per_unit) || 0;
-      item.total_price = quantity * pricePerUnit;
-
-      const internalQuantity = Number(item.internal_quantity) || 0;
-      const internalPrice = Number(item.internal_price_per_unit) || 0;
-      item.internal_total_price = internalQuantity * internalPrice;
-
-      item.profit = (item.total_price || 0) - (item.internal_total_price || 0);
-
-      newItems[index] = item;
+      newItems[index] = recalculateBudgetItem(item);
       return newItems;
     });
   };
 
   const removeItem = (index: number) => {
     setItems((prev) => {
-      const filtered = prev.filter((_, i) => i !== index);
-      const normalized = filtered.map((item, orderIndex) => ({ ...item, order_index: orderIndex }));
+      const normalized = removeBudgetItems(prev, [index]);
 
       if (normalized.length === 0) {
         return [createEmptyItem(0)];
@@ -1006,9 +1213,120 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
 
       return normalized;
     });
+    setSelectedItemIndexes([]);
+  };
+
+  const toggleItemSelection = (index: number, selected: boolean) => {
+    setSelectedItemIndexes((prev) =>
+      selected ? [...prev.filter((entry) => entry !== index), index].sort((a, b) => a - b) : prev.filter((entry) => entry !== index)
+    );
+  };
+
+  const openItemComments = (itemId: string) => {
+    setCommentItemId(itemId);
+    commentsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const renderItemCommentsButton = (item: Partial<BudgetItem>) => {
+    if (!isValidUuid(item.id)) return null;
+
+    const itemId = item.id as string;
+    const count = commentCounts[itemId] ?? 0;
+
+    return (
+      <button
+        type="button"
+        onClick={() => openItemComments(itemId)}
+        className={`inline-flex items-center gap-1 rounded-full px-1.5 py-0.5 text-xs transition ${
+          count > 0 ? 'bg-amber-100 text-amber-800 hover:bg-amber-200' : 'text-gray-300 hover:text-[#0a192f]'
+        }`}
+        title={count > 0 ? `Nevyřešené komentáře: ${count}` : 'Komentovat položku'}
+        aria-label="Komentáře k položce"
+      >
+        <MessageSquare className="h-3.5 w-3.5" />
+        {count > 0 && count}
+      </button>
+    );
+  };
+
+  const toggleAllItemsSelection = (selected: boolean) => {
+    setSelectedItemIndexes(selected ? items.map((_, index) => index) : []);
+  };
+
+  const applyBulkChanges = (changes: BulkItemChanges) => {
+    setItems((prev) => applyBulkItemChanges(prev, selectedItemIndexes, changes));
+  };
+
+  const adjustSelectedItemPrices = (percent: number) => {
+    setItems((prev) => adjustBudgetItemPrices(prev, selectedItemIndexes, percent));
+  };
+
+  const removeSelectedItems = () => {
+    if (!confirm(`Opravdu chcete smazat vybrané položky (${selectedItemIndexes.length})?`)) return;
+
+    setItems((prev) => {
+      const remaining = removeBudgetItems(prev, selectedItemIndexes);
+      return remaining.length > 0 ? remaining : [createEmptyItem(0)];
+    });
+    setSelectedItemIndexes([]);
   };
 
-  const saveBudget = async () => {
+  const handleItemDragStart = (event: DragEvent<HTMLElement>, index: number) => {
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', String(index + 1));
+    const row = event.currentTarget.closest('tr, [data-item-card]');
+    if (row) {
+      event.dataTransfer.setDragImage(row, 16, 16);
+    }
+    setDraggedItemIndex(index);
+  };
+
+  const handleItemDragEnd = () => {
+    setDraggedItemIndex(null);
+    setDropTarget(null);
+  };
+
+  const handleItemDragOver = (event: DragEvent<HTMLElement>, target: number | string) => {
+    if (draggedItemIndex === null) return;
+
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setDropTarget(target);
+  };
+
+  // Dragging a selected row takes the whole selection along; the moved rows adopt the target's pod-rozpočet.
+  const dropDraggedItems = (targetIndex: number, sectionId: string | undefined) => {
+    if (draggedItemIndex === null) return;
+
+    const isSelectionDrag = selectedItemIndexes.includes(draggedItemIndex);
+    const moved = moveBudgetItems(items, isSelectionDrag ? selectedItemIndexes : [draggedItemIndex], targetIndex, {
+      section_id: sectionId
+    });
+
+    setItems(moved.items);
+    setSelectedItemIndexes(isSelectionDrag ? moved.indexes : []);
+    handleItemDragEnd();
+  };
+
+  const handleItemDrop = (event: DragEvent<HTMLElement>, index: number) => {
+    event.preventDefault();
+    if (draggedItemIndex === null) return;
+
+    // Rows dragged downwards land below the target row, rows dragged upwards above it.
+    dropDraggedItems(index > draggedItemIndex ? index + 1 : index, items[index]?.section_id || undefined);
+  };
+
+  const handleSectionDrop = (event: DragEvent<HTMLElement>, sectionId: string) => {
+    event.preventDefault();
+
+    const lastSectionIndex = items.reduce(
+      (last, item, index) => (item.section_id === sectionId ? index : last),
+      items.length - 1
+    );
+    dropDraggedItems(lastSectionIndex + 1, sectionId);
+  };
+
+  const saveBudget = async ({ expectedUpdatedAt }: { expectedUpdatedAt?: string } = {}) => {
     setSaving(true);
 
     try {
@@ -1017,167 +1335,156 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
       } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      let currentBudgetId = budgetId;
-
       if (!organizationId) {
         throw new Error('Není vybrána žádná organizace');
       }
 
       const orgId = organizationId;
 
-      if (!budgetId) {
-        const { data: newBudget, error: budgetError } = await supabase
-          .from('budgets')
-          .insert({
-            ...budget,
-            user_id: user.id,
-            organization_id: organizationId
-          })
-          .select()
-          .single();
-
-        if (budgetError) throw budgetError;
-        currentBudgetId = newBudget.id;
-      } else {
-        const { error: updateError } = await supabase
-          .from('budgets')
-          .update({
-            ...budget,
-            updated_at: new Date().toISOString(),
-            organization_id: organizationId
-          })
-          .eq('id', budgetId);
-
-        if (updateError) throw updateError;
-      }
+      const currentBudgetId = await persistBudget({
+        budget: {
+          ...budget,
+          id: budgetId ?? undefined,
+          updated_at: expectedUpdatedAt ?? budget.updated_at,
+          organization_id: orgId,
+          currency: budgetCurrency,
+          price_adjustments: pricing.adjustments
+        },
+        sections: sections.filter((section) => !section.isDeleted),
+        items
+      });
 
-      if (currentBudgetId) {
-        const nowIso = new Date().toISOString();
-
-        const sectionsToPersist = sections
-          .filter((section) => !section.isDeleted)
-          .map((section) => ({
-            id: section.id || generateSectionId(),
-            budget_id: currentBudgetId,
-            name: section.name?.trim() || 'Bez názvu',
-            description: section.description?.trim() || null,
-            created_at: section.created_at || nowIso,
-            updated_at: nowIso
-          }));
-
-        const sectionsToDelete = sections.filter(
-          (section) => section.isDeleted && section.id && !section.isNew
-        );
+      const expenseCandidates = items.filter(
+        (item) => item.is_cost || (item.price_per_unit || 0) < 0
+      );
 
-        if (sectionsToDelete.length > 0) {
-          const { error: deleteSectionsError } = await supabase
-            .from('budget_sections')
-            .delete()
-            .in(
-              'id',
-              sectionsToDelete
-                .map((section) => section.id)
-                .filter((id): id is string => typeof id === 'string')
-            );
-
-          if (deleteSectionsError) {
-            throw deleteSectionsError;
-          }
+      if (expenseCandidates.length > 0) {
+        const expensesToCreate = expenseCandidates.map((item) => ({
+          name: item.item_name || 'Náklad z rozpočtu',
+          amount: item.is_cost
+            ? Math.abs(item.internal_total_price || 0)
+            : Math.abs(item.total_price || 0),
+          date: new Date().toISOString().split('T')[0],
+          category_id: item.category_id,
+          budget_id: currentBudgetId,
+          currency: budgetCurrency,
+          notes: `Automaticky vytvořeno z rozpočtu: ${budget.name}. ${item.notes || ''}`,
+          user_id: user.id,
+          organization_id: orgId,
+          is_recurring: false,
+          is_billable: false,
+          is_billed: false
+        }));
+
+        const { error: expensesError } = await supabase
+          .from('expenses')
+          .insert(expensesToCreate);
+
+        if (expensesError) {
+          console.error('Error creating expenses:', expensesError);
         }
+      }
 
-        if (sectionsToPersist.length > 0) {
-          const { error: upsertSectionsError } = await supabase
-            .from('budget_sections')
-            .upsert(sectionsToPersist, { onConflict: 'id' });
+      clearBudgetDraft(budgetId);
+      draftBaselineRef.current = JSON.stringify(editSnapshot);
+      setHasUnsavedChanges(false);
+      onUnsavedChangesChange?.(false);
+      onSaved();
+      onBack();
+      return true;
+    } catch (error) {
+      if (budgetId && isBudgetSaveConflict(error)) {
+        await openSaveConflict(budgetId);
+        return false;
+      }
 
-          if (upsertSectionsError) {
-            throw upsertSectionsError;
-          }
-        } else if (sectionsToDelete.length === 0) {
-          await supabase.from('budget_sections').delete().eq('budget_id', currentBudgetId);
-        }
+      console.error('Error saving budget:', error);
+      alert('Chyba při ukládání rozpočtu');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
 
-        await supabase.from('budget_items').delete().eq('budget_id', currentBudgetId);
-
-        const validSectionIds = new Set(sectionsToPersist.map((section) => section.id));
-
-        const itemsToInsert = items.map((item, index) => {
-          const {
-            is_cost,
-            is_personnel,
-            notes,
-            section_id: itemSectionId,
-            id: _id,
-            created_at: _createdAt,
-            updated_at: _updatedAt,
-            ...rest
-          } = item;
-          const payload: Partial<BudgetItem> & {
-            budget_id: string;
-            order_index: number;
-            notes?: string;
-          } = {
-            ...rest,
-            budget_id: currentBudgetId,
-            order_index: index,
-            notes: encodeItemNotes(notes, is_cost, is_personnel)
-          };
+  const openSaveConflict = async (id: string) => {
+    try {
+      const remote = toEditorContent(await fetchBudgetContent(id));
+      // The baseline is the version the local changes started from.
+      const base: BudgetMergeInput<EditableBudgetSection> = draftBaselineRef.current
+        ? JSON.parse(draftBaselineRef.current)
+        : remote;
+      const merged = mergeBudgetChanges(
+        { ...base, sections: base.sections.filter((section) => !section.isDeleted) },
+        { budget, sections: activeSections, items },
+        remote
+      );
+      const savedBy = remote.budget.updated_by ? await fetchUserName(remote.budget.updated_by) : null;
 
-          const normalizedSectionId =
-            itemSectionId && validSectionIds.has(itemSectionId) ? itemSectionId : null;
+      setSaveConflict({ remote, merged, savedBy });
+    } catch (error) {
+      console.error('Error loading the conflicting budget version:', error);
+      alert('Rozpočet mezitím uložil někdo jiný a jeho verzi se nepodařilo načíst. Zkuste to prosím znovu.');
+    }
+  };
 
-          payload.section_id = normalizedSectionId;
+  const mergeConflictingChanges = () => {
+    if (!saveConflict) return;
 
-          return payload;
-        });
+    const { merged, remote } = saveConflict;
+    setBudget(merged.budget);
+    setSections(merged.sections);
+    setItems(merged.items.length > 0 ? merged.items : [createEmptyItem(0)]);
+    setSelectedItemIndexes([]);
+    draftBaselineRef.current = JSON.stringify({ budget: remote.budget, sections: remote.sections, items: remote.items });
+    setSaveConflict(null);
+  };
 
-        const { error: itemsError } = await supabase.from('budget_items').insert(itemsToInsert);
+  const overwriteConflictingChanges = async () => {
+    if (!saveConflict) return;
 
-        if (itemsError) {
-          throw itemsError;
-        }
+    const expectedUpdatedAt = saveConflict.remote.budget.updated_at;
+    setSaveConflict(null);
+    await saveBudget({ expectedUpdatedAt });
+  };
 
-        const expenseCandidates = items.filter(
-          (item) => item.is_cost || (item.price_per_unit || 0) < 0
-        );
+  const reloadStoredVersion = () => {
+    if (!saveConflict) return;
+
+    const { remote } = saveConflict;
+    resetEditHistory();
+    setBudget(remote.budget);
+    setSections(remote.sections);
+    setItems(remote.items.length > 0 ? remote.items : [createEmptyItem(0)]);
+    setSelectedItemIndexes([]);
+    clearBudgetDraft(budgetId);
+    draftBaselineRef.current = null;
+    setHasUnsavedChanges(false);
+    setDraftSavedAt(null);
+    setSaveConflict(null);
+  };
 
-        if (expenseCandidates.length > 0) {
-          const expensesToCreate = expenseCandidates.map((item) => ({
-            name: item.item_name || 'Náklad z rozpočtu',
-            amount: item.is_cost
-              ? Math.abs(item.internal_total_price || 0)
-              : Math.abs(item.total_price || 0),
-            date: new Date().toISOString().split('T')[0],
-            category_id: item.category_id,
-            budget_id: currentBudgetId,
-            notes: `Automaticky vytvořeno z rozpočtu: ${budget.name}. ${item.notes || ''}`,
-            user_id: user.id,
-            organization_id: orgId,
-            is_recurring: false,
-            is_billable: false,
-            is_billed: false
-          }));
-
-          const { error: expensesError } = await supabase
-            .from('expenses')
-            .insert(expensesToCreate);
+  const restoreDraft = () => {
+    if (!recoverableDraft) return;
+
+    setBudget((prev) => ({
+      ...recoverableDraft.budget,
+      archived: prev.archived,
+      archived_at: prev.archived_at
+    }));
+    setSections(recoverableDraft.sections);
+    setItems(recoverableDraft.items.length > 0 ? recoverableDraft.items : [createEmptyItem(0)]);
+    setSelectedItemIndexes([]);
+    setRecoverableDraft(null);
+  };
 
-          if (expensesError) {
-            console.error('Error creating expenses:', expensesError);
-          }
-        }
-      }
+  const discardDraft = () => {
+    clearBudgetDraft(budgetId);
+    setRecoverableDraft(null);
+  };
 
-      onSaved();
-      onBack();
-      return true;
-    } catch (error) {
-      console.error('Error saving budget:', error);
-      alert('Chyba při ukládání rozpočtu');
-      return false;
-    } finally {
-      setSaving(false);
-    }
+  const handleBack = () => {
+    if (hasUnsavedChanges && !confirm(UNSAVED_BUDGET_CHANGES_MESSAGE)) return;
+    onBack();
   };
 
   const resetCategoryManagerState = () => {
@@ -1342,13 +1649,12 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     draft: 'Koncept',
     sent: 'Odesláno klientovi',
     approved: 'Schváleno',
-    rejected: 'Zamítnuto'
+    rejected: 'Zamítnuto',
+    expired: 'Platnost vypršela'
   };
 
-  const exportToExcel = (includeInternal: boolean) => {
-    const fileName = includeInternal
-      ? `${budget.name || 'Rozpocet'}_kompletni.xlsx`
-      : `${budget.name || 'Rozpocet'}_klient.xlsx`;
+  const buildExcelWorkbook = (includeInternal: boolean) => {
+    const fileName = `${getBudgetFileBaseName(budget)}_${includeInternal ? 'kompletni' : 'klient'}.xlsx`;
 
     const palette = {
       primary: '0A192F',
@@ -1376,19 +1682,13 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
       return padded;
     };
 
-    const formatCurrency = (value: number) =>
-      new Intl.NumberFormat('cs-CZ', {
-        style: 'currency',
-        currency: 'CZK',
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2
-      }).format(value || 0);
+    const formatExportCurrency = (value: number) =>
+      formatCurrency(value, budgetCurrency, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
     const budgetStatusLabel = budget.status
       ? statusLabels[budget.status as Budget['status']]
       : '—';
     const exportDate = new Intl.DateTimeFormat('cs-CZ').format(new Date());
-    const vatAmount = projectedVatTotal - totals.clientTotal;
     const profitPerItem = items.length > 0 ? totals.profit / items.length : 0;
 
     const worksheetData: any[] = [];
@@ -1411,7 +1711,9 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
       ['Projektový manažer', budget.project_manager || '—'],
       ['E-mail manažera', budget.manager_email || '—'],
       ['Stav rozpočtu', budgetStatusLabel],
-      ['Datum exportu', exportDate]
+      ['Datum exportu', exportDate],
+      ['Číslo nabídky', budget.budget_number || '—'],
+      ['Platnost do', budget.valid_until ? formatValidUntil(budget.valid_until) : '—']
     ];
 
     const summaryStartRowIndex = worksheetData.length;
@@ -1427,19 +1729,29 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     worksheetData.push(padRow([]));
 
     const financialSummaryPairs: Array<[string, string]> = [
-      ['Celkem pro klienta (bez DPH)', formatCurrency(totals.clientTotal)],
-      ['Odhadovaná DPH (21 %)', formatCurrency(vatAmount)],
-      ['Celkem pro klienta (s DPH)', formatCurrency(projectedVatTotal)],
-      ['Průměrná hodnota položky', formatCurrency(averageItemValue)]
+      ...(pricing.adjustments.length > 0
+        ? [
+            ['Položky celkem (bez DPH)', formatExportCurrency(pricing.itemsTotal)] as [string, string],
+            ['Slevy a příplatky', formatExportCurrency(pricing.adjustmentsTotal)] as [string, string]
+          ]
+        : []),
+      ['Celkem pro klienta (bez DPH)', formatExportCurrency(vatSummary.base)],
+      ...vatSummary.lines.map((line): [string, string] => [
+        `DPH ${getVatRateLabel(line.rate)} ze základu ${formatExportCurrency(line.base)}`,
+        formatExportCurrency(line.vat)
+      ]),
+      ['DPH celkem', formatExportCurrency(vatSummary.vat)],
+      ['Celkem pro klienta (s DPH)', formatExportCurrency(vatSummary.total)],
+      ['Průměrná hodnota položky', formatExportCurrency(averageItemValue)]
     ];
 
     if (includeInternal) {
       financialSummaryPairs.push(
-        ['Interní náklady', formatCurrency(totals.internalTotal)],
-        ['Personální náklady', formatCurrency(totals.personnelTotal)],
-        ['Zisk (Kč)', formatCurrency(totals.profit)],
+        ['Interní náklady', formatExportCurrency(totals.internalTotal)],
+        ['Personální náklady', formatExportCurrency(totals.personnelTotal)],
+        [`Zisk (${budgetCurrency})`, formatExportCurrency(totals.profit)],
         ['Marže (%)', `${marginPercentage.toFixed(1)} %`],
-        ['Zisk na položku', formatCurrency(profitPerItem)]
+        ['Zisk na položku', formatExportCurrency(profitPerItem)]
       );
     }
 
@@ -1467,7 +1779,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
           'Cena za jednotku',
           'Cena pro klienta',
           'Interní náklad',
-          'Marže (Kč)',
+          `Marže (${budgetCurrency})`,
           'Marže (%)',
           'Poznámka'
         ]
@@ -1485,9 +1797,10 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     worksheetData.push(padRow(headers));
 
     const dataStartRowIndex = worksheetData.length;
+    const pricedItems = items.filter(isItemIncluded);
+    const offeredOptions = items.filter((item) => isOptionalItem(item) && !item.client_selected);
 
-    items.forEach((item) => {
-      const category = categories.find((c) => c.id === item.category_id);
+    const buildItemRow = (item: Partial<BudgetItem>, label: string) => {
       const totalPrice = item.total_price || 0;
       const internalTotal = item.internal_total_price || 0;
       const profitValue = item.profit ?? totalPrice - internalTotal;
@@ -1496,18 +1809,18 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
       const quantityDisplay = Number.isInteger(quantity) ? quantity : Number(quantity).toFixed(2);
 
       const rowBase = [
-        category?.name || 'Bez kategorie',
+        label,
         item.item_name || '',
         item.unit || '',
         quantityDisplay,
-        formatCurrency(item.price_per_unit || 0),
-        formatCurrency(totalPrice)
+        formatExportCurrency(item.price_per_unit || 0),
+        formatExportCurrency(totalPrice)
       ];
 
       if (includeInternal) {
         rowBase.push(
-          formatCurrency(internalTotal),
-          formatCurrency(profitValue),
+          formatExportCurrency(internalTotal),
+          formatExportCurrency(profitValue),
           `${marginValue.toFixed(1)} %`,
           item.notes || ''
         );
@@ -1515,7 +1828,40 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
         rowBase.push(item.notes || '');
       }
 
-      worksheetData.push(padRow(rowBase));
+      return padRow(rowBase);
+    };
+
+    const describeOption = (item: Partial<BudgetItem>) =>
+      getOptionalItemKind(item) === 'alternative'
+        ? `Varianta: ${item.alternative_group?.trim()}`
+        : 'Volitelná položka';
+
+    pricedItems.forEach((item) => {
+      const category = categories.find((c) => c.id === item.category_id);
+      worksheetData.push(
+        buildItemRow(
+          item,
+          isOptionalItem(item) ? `${describeOption(item)} (vybráno)` : category?.name || 'Bez kategorie'
+        )
+      );
+    });
+
+    pricing.adjustments.forEach((adjustment) => {
+      const sectionName = adjustment.section_id
+        ? activeSections.find((section) => (section.id || section.tempId) === adjustment.section_id)?.name
+        : null;
+      const rowBase = [
+        sectionName ? `Sleva / příplatek – ${sectionName}` : 'Sleva / příplatek',
+        describePriceAdjustment(adjustment),
+        '',
+        '',
+        '',
+        formatExportCurrency(adjustment.amount)
+      ];
+
+      worksheetData.push(
+        padRow(includeInternal ? [...rowBase, '', formatExportCurrency(adjustment.amount), '', ''] : [...rowBase, ''])
+      );
     });
 
     const dataEndRowIndex = worksheetData.length - 1;
@@ -1530,9 +1876,9 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
               '',
               '',
               '',
-              formatCurrency(totals.clientTotal),
-              formatCurrency(totals.internalTotal),
-              formatCurrency(totals.profit),
+              formatExportCurrency(totals.clientTotal),
+              formatExportCurrency(totals.internalTotal),
+              formatExportCurrency(totals.profit),
               `${marginPercentage.toFixed(1)} %`,
               ''
             ]
@@ -1542,7 +1888,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
               '',
               '',
               '',
-              formatCurrency(totals.clientTotal),
+              formatExportCurrency(totals.clientTotal),
               ''
             ]
       )
@@ -1550,13 +1896,30 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
 
     worksheetData.push(padRow([]));
 
+    let optionsHeadingRowIndex = -1;
+    let optionsStartRowIndex = -1;
+    let optionsEndRowIndex = -1;
+
+    if (offeredOptions.length > 0) {
+      optionsHeadingRowIndex = worksheetData.length;
+      worksheetData.push(padRow(['Volitelné položky a varianty – nejsou zahrnuty v ceně']));
+      optionsStartRowIndex = worksheetData.length;
+      offeredOptions.forEach((item) => worksheetData.push(buildItemRow(item, describeOption(item))));
+      optionsEndRowIndex = worksheetData.length - 1;
+      worksheetData.push(padRow([]));
+    }
+
     const noteRowIndex = worksheetData.length;
     worksheetData.push(
       padRow([
         'Poznámka',
         includeInternal
           ? 'Interní data obsahují nákladovost a marže – sdílejte pouze v rámci týmu.'
-          : 'Ceny jsou uvedeny bez DPH. Nabídka je platná 14 dní od data exportu.'
+          : `Ceny jsou uvedeny bez DPH. ${getValidityNote(budget.valid_until, organizationValidityDays)}${
+              vatSummary.hasReverseCharge
+                ? ' U položek s 0 % DPH se uplatní přenesená daňová povinnost, daň přizná a zaplatí odběratel.'
+                : ''
+            }`
       ])
     );
 
@@ -1573,7 +1936,10 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
       { s: { r: 0, c: 0 }, e: { r: 0, c: columnCount - 1 } },
       { s: { r: 1, c: 0 }, e: { r: 1, c: columnCount - 1 } },
       { s: { r: totalsHeadingRowIndex, c: 0 }, e: { r: totalsHeadingRowIndex, c: columnCount - 1 } },
-      { s: { r: noteRowIndex, c: 1 }, e: { r: noteRowIndex, c: columnCount - 1 } }
+      { s: { r: noteRowIndex, c: 1 }, e: { r: noteRowIndex, c: columnCount - 1 } },
+      ...(optionsHeadingRowIndex >= 0
+        ? [{ s: { r: optionsHeadingRowIndex, c: 0 }, e: { r: optionsHeadingRowIndex, c: columnCount - 1 } }]
+        : [])
     ];
 
     worksheet['!merges'] = merges;
@@ -1587,10 +1953,10 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     worksheet['!rows'] = rowHeights;
 
 
-    if (items.length > 0) {
+    if (pricedItems.length > 0) {
       worksheet['!autofilter'] = {
         ref: `A${headerRowIndex + 1}:${XLSX.utils.encode_col(columnCount - 1)}${
-          headerRowIndex + items.length
+          headerRowIndex + pricedItems.length
         }`
       };
     }
@@ -1662,7 +2028,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
           continue;
         }
 
-        if (R === totalsHeadingRowIndex) {
+        if (R === totalsHeadingRowIndex || R === optionsHeadingRowIndex) {
           cell.s = {
             font: { bold: true, sz: 13, color: { rgb: palette.white } },
             fill: { fgColor: { rgb: palette.accent } },
@@ -1715,10 +2081,11 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
           continue;
         }
 
-        if (R >= dataStartRowIndex && R <= dataEndRowIndex) {
-          const isEvenRow = (R - dataStartRowIndex) % 2 === 0;
+        const isOptionRow = R >= optionsStartRowIndex && R <= optionsEndRowIndex;
+        if ((R >= dataStartRowIndex && R <= dataEndRowIndex) || isOptionRow) {
+          const isEvenRow = (R - (isOptionRow ? optionsStartRowIndex : dataStartRowIndex)) % 2 === 0;
           cell.s = {
-            font: { color: { rgb: palette.primary } },
+            font: { color: { rgb: palette.primary }, italic: isOptionRow || undefined },
             fill: isEvenRow
               ? { fgColor: { rgb: palette.zebraLight } }
               : { fgColor: { rgb: palette.zebraDark } },
@@ -1776,358 +2143,82 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
       }
     }
 
+    return { workbook, fileName };
+  };
+
+  const exportToExcel = (includeInternal: boolean) => {
+    const { workbook, fileName } = buildExcelWorkbook(includeInternal);
     XLSX.writeFile(workbook, fileName);
   };
 
-  const exportToPdf = () => {
-    const clientName = budget.client_name?.trim() || '—';
-    const statusLabel =
-      statusOptions.find((option) => option.value === budget.status)?.label || '—';
-    const formattedDate = new Date().toLocaleDateString('cs-CZ');
-
-    const getCurrency = (value: number) => `${value.toLocaleString('cs-CZ')} Kč`;
-
-    const tableRows = (items.length > 0
-      ? items.map((item) => {
-        const category = categories.find((cat) => cat.id === item.category_id);
-        const { text: noteText } = decodeItemNotes(item.notes);
-
-        return `
-          <tr>
-            <td>${category?.name || '—'}</td>
-            <td>${item.item_name || '—'}</td>
-            <td>${item.unit || '—'}</td>
-            <td class="text-right">${(item.quantity || 0).toLocaleString('cs-CZ')}</td>
-            <td class="text-right">${getCurrency(item.price_per_unit || 0)}</td>
-            <td class="text-right">${getCurrency(item.total_price || 0)}</td>
-            <td>${noteText || '—'}</td>
-          </tr>
-        `;
-      })
-      : [
-          `
-        <tr class="empty">
-          <td colspan="7" style="text-align:center; padding: 32px 16px; color: #64748b; font-style: italic;">
-            Zatím nebyly přidány žádné položky rozpočtu.
-          </td>
-        </tr>
-      `]
-    ).join('');
-
-    const topCategories =
-      categoryBreakdown.length > 0
-        ? categoryBreakdown.map((category) => category.name).join(', ')
-        : '—';
-
-    const pdfWindow = window.open('', '_blank');
-    if (!pdfWindow) {
-      console.error('Nepodařilo se otevřít okno pro export PDF.');
-      return;
+  const buildClientEmailAttachment = async (format: BudgetEmailAttachmentFormat): Promise<BudgetEmailAttachment> => {
+    if (format === 'pdf') {
+      return {
+        filename: getBudgetPdfFileName(budget),
+        content: await createBudgetPdfBase64(getPdfData()),
+        contentType: 'application/pdf'
+      };
     }
 
-    pdfWindow.document.write(`
-      <!DOCTYPE html>
-      <html lang="cs">
-        <head>
-          <meta charset="utf-8" />
-          <title>Rozpočet pro klienta</title>
-          <style>
-            :root {
-              color-scheme: light;
-            }
-            * {
-              box-sizing: border-box;
-            }
-            body {
-              margin: 0;
-              font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
-              background: #f8fafc;
-              color: #0a192f;
-              -webkit-print-color-adjust: exact;
-            }
-            @page {
-              size: A4;
-              margin: 24mm;
-            }
-            .page {
-              padding: 48px 56px 64px;
-              page-break-after: always;
-            }
-            .page:last-of-type {
-              page-break-after: auto;
+    const { workbook, fileName } = buildExcelWorkbook(false);
 
-            }
-            header {
-              background: #0a192f;
-              border-radius: 24px;
-              padding: 32px 40px;
-              color: white;
-              position: relative;
-              overflow: hidden;
-            }
-            header::after {
-              content: '';
-              position: absolute;
-              inset: 16px;
-              border: 1px solid rgba(255, 255, 255, 0.08);
-              border-radius: 20px;
-            }
-            header h1 {
-              margin: 0 0 8px;
-              font-size: 28px;
-            }
-            header p {
-              margin: 0;
-              font-size: 15px;
-              color: rgba(255, 255, 255, 0.8);
-            }
-            .badge {
-              position: absolute;
-              top: 32px;
-              right: 40px;
-              background: white;
-              color: #0a192f;
-              padding: 8px 16px;
-              border-radius: 999px;
-              font-size: 13px;
-              font-weight: 600;
-            }
-            .section {
-              margin-top: 32px;
-              background: white;
-              border-radius: 20px;
-              padding: 28px 32px;
-              box-shadow: 0 24px 40px -24px rgba(15, 23, 42, 0.18);
-            }
-            .section-title {
-              margin: 0 0 20px;
-              font-size: 18px;
-              color: #0a192f;
-            }
-            .details-grid {
-              display: grid;
-              grid-template-columns: repeat(2, minmax(0, 1fr));
-              gap: 16px 32px;
-            }
-            .detail-label {
-              font-size: 12px;
-              font-weight: 600;
-              letter-spacing: 0.08em;
-              text-transform: uppercase;
-              color: #64748b;
-              margin-bottom: 4px;
-            }
-            .detail-value {
-              font-size: 15px;
-              color: #0f172a;
-              font-weight: 500;
-            }
-            .summary-grid {
-              display: grid;
-              grid-template-columns: repeat(3, minmax(0, 1fr));
-              gap: 16px;
-              margin-top: 16px;
-            }
-            .summary-card {
-              background: #e8f4f8;
-              border-radius: 18px;
-              padding: 20px 24px;
-            }
-            .summary-card .label {
-              font-size: 12px;
-              text-transform: uppercase;
-              letter-spacing: 0.08em;
-              color: #486581;
-              margin-bottom: 8px;
-            }
-            .summary-card .value {
-              font-size: 22px;
-              font-weight: 700;
-              color: #0a192f;
-            }
-            table {
-              width: 100%;
-              border-collapse: collapse;
-              margin-top: 12px;
-              font-size: 13px;
-            }
-            thead {
-              display: table-header-group;
-            }
-            tbody tr {
-              page-break-inside: avoid;
-            }
+    return {
+      filename: fileName,
+      content: XLSX.write(workbook, { type: 'base64', bookType: 'xlsx' }),
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    };
+  };
 
-            thead th {
-              text-align: left;
-              padding: 14px 16px;
-              background: #0a192f;
-              color: white;
-              font-weight: 600;
-              border: none;
-            }
-            tbody td {
-              padding: 14px 16px;
-              border-bottom: 1px solid #e2e8f0;
-              color: #0f172a;
-            }
-            tbody tr:nth-child(even) td {
-              background: #f8fafc;
-            }
-            tbody tr:last-child td {
-              border-bottom: none;
-            }
-            .text-right {
-              text-align: right;
-            }
-            .summary-footer {
-              margin-top: 24px;
-              display: flex;
-              flex-direction: column;
-              gap: 6px;
-              font-size: 13px;
-              color: #475569;
-            }
-            @media print {
-              body {
-                background: white;
-              }
-              .page {
-                padding: 24px 32px 40px;
-              }
-              header {
-                border-radius: 16px;
-              }
-              .section {
-                box-shadow: none;
-                border: 1px solid rgba(148, 163, 184, 0.2);
-              }
-              .summary-card {
-                background: #e8f4f8 !important;
-                -webkit-print-color-adjust: exact;
-              }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="page">
-            <header>
-              <div class="badge">${formattedDate}</div>
-              <h1>${budget.name?.trim() || 'Rozpočet pro klienta'}</h1>
-              <p>Připraveno pro ${clientName}</p>
-            </header>
-
-            <section class="section">
-              <h2 class="section-title">Přehled projektu</h2>
-              <div class="details-grid">
-                <div>
-                  <div class="detail-label">Klient</div>
-                  <div class="detail-value">${clientName}</div>
-                </div>
-                <div>
-                  <div class="detail-label">Datum exportu</div>
-                  <div class="detail-value">${formattedDate}</div>
-                </div>
-                <div>
-                  <div class="detail-label">E-mail</div>
-                  <div class="detail-value">${budget.client_email?.trim() || '—'}</div>
-                </div>
-                <div>
-                  <div class="detail-label">Projektový manažer</div>
-                  <div class="detail-value">${budget.project_manager?.trim() || '—'}</div>
-                </div>
-                <div>
-                  <div class="detail-label">Kontakt</div>
-                  <div class="detail-value">${budget.manager_email?.trim() || '—'}</div>
-                </div>
-                <div>
-                  <div class="detail-label">Stav rozpočtu</div>
-                  <div class="detail-value">${statusLabel}</div>
-                </div>
-              </div>
+  const getPdfData = (): BudgetPdfData => ({
+    budget: { ...budget, id: budgetId ?? undefined },
+    organization: organizationName ? { name: organizationName, iban: organizationIban } : null,
+    sections: activeSections.map((section) => ({
+      id: section.id || section.tempId,
+      name: section.name || 'Bez názvu',
+      description: section.description
+    })),
+    items,
+    adjustments: budget.price_adjustments ?? [],
+    categories,
+    currency: budgetCurrency,
+    defaultVatRate: organizationVatRate,
+    validityDays: organizationValidityDays
+  });
 
-              <div class="summary-grid">
-                <div class="summary-card">
-                  <div class="label">Celkem k fakturaci bez DPH</div>
-                  <div class="value">${getCurrency(totals.clientTotal)}</div>
-                </div>
-                <div class="summary-card">
-                  <div class="label">DPH 21 %</div>
-                  <div class="value">${getCurrency(projectedVatTotal)}</div>
-                </div>
-                <div class="summary-card">
-                  <div class="label">Průměrná položka</div>
-                  <div class="value">${getCurrency(averageItemValue)}</div>
-                </div>
-              </div>
-            </section>
-
-            <section class="section">
-              <h2 class="section-title">Položky rozpočtu</h2>
-              <table>
-                <thead>
-                  <tr>
-                    <th>Kategorie</th>
-                    <th>Položka</th>
-                    <th>Jednotka</th>
-                    <th class="text-right">Počet</th>
-                    <th class="text-right">Cena / jednotka</th>
-                    <th class="text-right">Celkem bez DPH</th>
-                    <th>Poznámka</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  ${tableRows}
-                </tbody>
-              </table>
-
-              <div class="summary-footer">
-                <div><strong>Součet bez DPH:</strong> ${getCurrency(totals.clientTotal)}</div>
-                <div><strong>Součet s DPH (21 %):</strong> ${getCurrency(projectedVatTotal)}</div>
-
-                <div><strong>Top kategorie:</strong> ${topCategories}</div>
-              </div>
-            </section>
-          </div>
-          <script>
-            window.onload = function() {
-              window.print();
-            };
-          </script>
-        </body>
-      </html>
-    `);
-
-    pdfWindow.document.close();
-    pdfWindow.focus();
+  const exportToPdf = async () => {
+    try {
+      await downloadBudgetPdf(getPdfData());
+    } catch (error) {
+      console.error('Error generating budget PDF:', error);
+      alert('PDF se nepodařilo vytvořit. Zkuste to prosím znovu.');
+    }
   };
 
-  const totals = useMemo(
-    () =>
-      items.reduce(
-        (acc, item) => {
-          acc.clientTotal += item.total_price || 0;
-          acc.internalTotal += item.internal_total_price || 0;
-          acc.profit += item.profit || 0;
-
-          if (item.is_personnel) {
-            acc.personnelTotal += item.internal_total_price || 0;
-          }
+  const pricing = useMemo(
+    () => calculateBudgetPricing(items, budget.price_adjustments ?? [], organizationVatRate),
+    [items, budget.price_adjustments, organizationVatRate]
+  );
 
-          return acc;
-        },
-        { clientTotal: 0, internalTotal: 0, profit: 0, personnelTotal: 0 }
-      ),
-    [items]
+  const totals = useMemo(
+    () => ({
+      clientTotal: pricing.clientTotal,
+      internalTotal: pricing.internalTotal,
+      profit: pricing.profit,
+      personnelTotal: items.reduce(
+        (sum, item) => sum + (item.is_personnel && isItemIncluded(item) ? item.internal_total_price || 0 : 0),
+        0
+      )
+    }),
+    [items, pricing]
   );
 
+  const optionalGroups = useMemo(() => groupOptionalItems(items), [items]);
+
   const sectionSummaries = useMemo(() => {
     const map = new Map<
       string,
       {
-        clientTotal: number;
         internalTotal: number;
-        profit: number;
         personnelTotal: number;
         itemsCount: number;
       }
@@ -2137,19 +2228,17 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
       if (!item.section_id) return;
 
       const existing = map.get(item.section_id) || {
-        clientTotal: 0,
         internalTotal: 0,
-        profit: 0,
         personnelTotal: 0,
         itemsCount: 0
       };
 
+      const included = isItemIncluded(item);
+
       map.set(item.section_id, {
-        clientTotal: existing.clientTotal + (item.total_price || 0),
-        internalTotal: existing.internalTotal + (item.internal_total_price || 0),
-        profit: existing.profit + (item.profit || 0),
+        internalTotal: existing.internalTotal + (included ? item.internal_total_price || 0 : 0),
         personnelTotal:
-          existing.personnelTotal + (item.is_personnel ? item.internal_total_price || 0 : 0),
+          existing.personnelTotal + (included && item.is_personnel ? item.internal_total_price || 0 : 0),
         itemsCount: existing.itemsCount + 1
       });
     });
@@ -2157,17 +2246,19 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     return activeSections.map((section) => {
       const key = section.id || section.tempId;
       const totalsForSection = key ? map.get(key) : undefined;
+      const clientTotal = (key && pricing.sectionTotals.get(key)) || 0;
+      const internalTotal = totalsForSection?.internalTotal ?? 0;
 
       return {
         section,
-        clientTotal: totalsForSection?.clientTotal ?? 0,
-        internalTotal: totalsForSection?.internalTotal ?? 0,
-        profit: totalsForSection?.profit ?? 0,
+        clientTotal,
+        internalTotal,
+        profit: clientTotal - internalTotal,
         personnelTotal: totalsForSection?.personnelTotal ?? 0,
         itemsCount: totalsForSection?.itemsCount ?? 0
       };
     });
-  }, [activeSections, items]);
+  }, [activeSections, items, pricing]);
 
   const steps = useMemo(
     () => [
@@ -2187,6 +2278,26 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     []
   );
 
+  const selectedClient = clients.find((client) => client.id === budget.client_id) ?? null;
+  const reverseChargeApplied = isReverseChargeApplied(items, organizationVatRate);
+
+  // VAT rates are never changed by picking a client: 0 % items may be exempt rather than reverse charged, and
+  // a non-payer only gets a warning with a button to return the items to the default rate.
+  const selectClient = (client: ClientWithContacts | null) => {
+    setBudget((prev) =>
+      client
+        ? { ...prev, ...getBudgetClientFields(client) }
+        : { ...prev, client_id: null, client_name: '', client_email: '', contact_person: '' }
+    );
+  };
+
+  const selectClientContact = (contactId: string) => {
+    if (!selectedClient) return;
+
+    const contact = selectedClient.contacts.find((entry) => entry.id === contactId) ?? null;
+    setBudget((prev) => ({ ...prev, ...getBudgetClientFields(selectedClient, contact) }));
+  };
+
   const validateStep = (stepIndex: number) => {
     const errors: string[] = [];
 
@@ -2194,8 +2305,8 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
       if (!budget.name?.trim()) {
         errors.push('Vyplňte název zakázky.');
       }
-      if (!budget.client_name?.trim()) {
-        errors.push('Zadejte jméno klienta.');
+      if (!budget.client_id) {
+        errors.push('Vyberte klienta z adresáře.');
       }
     }
 
@@ -2274,29 +2385,11 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
     [totals.clientTotal, totals.profit]
   );
 
-  const projectedVatTotal = useMemo(
-    () => totals.clientTotal * 1.21,
-    [totals.clientTotal]
+  const vatSummary = useMemo(
+    () => calculateVatBreakdown(pricing.vatItems, organizationVatRate),
+    [pricing, organizationVatRate]
   );
 
-  const categoryBreakdown = useMemo(() => {
-    const map = new Map<string, { name: string; total: number }>();
-
-    items.forEach((item) => {
-      if (!item.category_id) return;
-      const category = categories.find((cat) => cat.id === item.category_id);
-      if (!category) return;
-
-      const existing = map.get(category.id);
-      const total = (item.total_price || 0) + (existing?.total || 0);
-      map.set(category.id, { name: category.name, total });
-    });
-
-    return Array.from(map.values())
-      .sort((a, b) => b.total - a.total)
-      .slice(0, 3);
-  }, [items, categories]);
-
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -2308,13 +2401,90 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
   return (
     <div className="w-full space-y-8 xl:flex xl:items-start xl:gap-8 xl:space-y-0">
       <div className="flex-1 space-y-6 lg:space-y-8">
-        <button
-          onClick={onBack}
-          className="inline-flex items-center gap-2 text-sm font-medium text-gray-600 transition hover:text-[#0a192f]"
-        >
-          <ArrowLeft className="h-4 w-4" />
-          <span>Zpět do přehledu rozpočtů</span>
-        </button>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <button
+            onClick={handleBack}
+            className="inline-flex items-center gap-2 text-sm font-medium text-gray-600 transition hover:text-[#0a192f]"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Zpět do přehledu rozpočtů</span>
+          </button>
+          <div className="flex flex-wrap items-center gap-3">
+            {otherEditors.length > 0 && (
+              <div className="flex items-center gap-2" aria-label="Kdo má rozpočet otevřený">
+                <div className="flex -space-x-2">
+                  {otherEditors.map((peer) => (
+                    <span
+                      key={peer.userId}
+                      className={`flex h-7 w-7 items-center justify-center rounded-full border-2 text-xs font-semibold text-white ${
+                        peer.activity === 'editing' ? 'border-amber-300 bg-amber-500' : 'border-white bg-[#0a192f]'
+                      }`}
+                      title={`${peer.name} – ${peer.activity === 'editing' ? 'upravuje' : 'prohlíží'}`}
+                    >
+                      {peer.name.charAt(0).toUpperCase()}
+                    </span>
+                  ))}
+                </div>
+                <span className="text-xs text-gray-600">
+                  {otherEditors.some((peer) => peer.activity === 'editing')
+                    ? `Upravuje také ${otherEditors
+                        .filter((peer) => peer.activity === 'editing')
+                        .map((peer) => peer.name)
+                        .join(', ')}`
+                    : `Prohlíží také ${otherEditors.map((peer) => peer.name).join(', ')}`}
+                </span>
+              </div>
+            )}
+            {hasUnsavedChanges && (
+              <span
+                className="inline-flex items-center gap-2 rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-xs font-semibold text-amber-700"
+                title="Změny se průběžně ukládají v tomto prohlížeči. Do databáze se uloží až tlačítkem Uložit."
+              >
+                <span className="h-2 w-2 rounded-full bg-amber-500" />
+                Neuložené změny
+                {draftSavedAt && (
+                  <span className="font-normal text-amber-600">
+                    · koncept uložen {new Date(draftSavedAt).toLocaleTimeString('cs-CZ', { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                )}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {recoverableDraft && (
+          <div className="flex flex-col gap-3 rounded-2xl border border-sky-200 bg-sky-50 p-4 text-sm text-sky-800 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-start gap-3">
+              <History className="mt-0.5 h-5 w-5 flex-shrink-0" />
+              <div>
+                <p className="font-semibold">
+                  Našli jsme neuloženou rozpracovanou verzi z {new Date(recoverableDraft.savedAt).toLocaleString('cs-CZ')}.
+                </p>
+                {budget.updated_at && new Date(budget.updated_at) > new Date(recoverableDraft.savedAt) && (
+                  <p className="text-xs text-sky-700">
+                    Rozpočet byl od té doby uložen. Obnovením nahradíte novější uloženou verzi.
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={discardDraft}
+                className="rounded-lg border border-sky-200 bg-white px-3 py-1.5 text-xs font-semibold text-sky-800 transition hover:bg-sky-100"
+              >
+                Zahodit
+              </button>
+              <button
+                type="button"
+                onClick={restoreDraft}
+                className="rounded-lg bg-[#0a192f] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[#0c2548]"
+              >
+                Obnovit rozpracovanou verzi
+              </button>
+            </div>
+          </div>
+        )}
 
         <div className="relative overflow-hidden rounded-3xl border border-[#0a192f]/10 bg-gradient-to-br from-[#0a192f] via-[#132c4d] to-[#1f4c7f] text-white shadow-xl">
           <div
@@ -2345,7 +2515,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                     <Wallet className="h-4 w-4 text-white" />
                   </div>
                   <p className="mt-3 text-xl font-semibold md:text-2xl">
-                    {totals.clientTotal.toLocaleString('cs-CZ')} Kč
+                    {formatMoney(totals.clientTotal)}
                   </p>
                   <p className="text-xs text-slate-200/80">bez DPH</p>
                 </div>
@@ -2355,7 +2525,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                     <PiggyBank className="h-4 w-4 text-white" />
                   </div>
                   <p className="mt-3 text-xl font-semibold md:text-2xl">
-                    {totals.profit.toLocaleString('cs-CZ')} Kč
+                    {formatMoney(totals.profit)}
                   </p>
                   <p className="text-xs text-slate-200/80">{marginPercentage.toFixed(1)} % marže</p>
                 </div>
@@ -2365,7 +2535,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                     <Users className="h-4 w-4 text-white" />
                   </div>
                   <p className="mt-3 text-xl font-semibold md:text-2xl">
-                    {totals.personnelTotal.toLocaleString('cs-CZ')} Kč
+                    {formatMoney(totals.personnelTotal)}
                   </p>
                   <p className="text-xs text-slate-200/80">aktuálně označený personál</p>
                 </div>
@@ -2432,6 +2602,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                 <div className="space-y-2">
                   <p className="text-xs font-semibold uppercase tracking-wide text-[#0a192f]/80">
                     {budgetId ? 'Úprava rozpočtu' : 'Nový rozpočet'}
+                    {budget.budget_number ? ` ${budget.budget_number}` : ''}
                   </p>
                   <h2 className="text-2xl font-bold text-[#0a192f] md:text-3xl">
                     {steps[currentStep].title}
@@ -2502,6 +2673,49 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
               <form onSubmit={handleSubmit} className="space-y-8">
                 {currentStep === 0 && (
                   <div className="space-y-6">
+                    {!budgetId && templates.length > 0 && (
+                      <div className="flex flex-col gap-3 rounded-2xl border border-dashed border-[#0a192f]/20 bg-white/80 p-5 shadow-sm sm:flex-row sm:items-end">
+                        <div className="flex-1 space-y-2">
+                          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                            <Copy className="h-4 w-4" />
+                            Začít ze šablony
+                          </label>
+                          <select
+                            value={selectedTemplateId}
+                            onChange={(e) => setSelectedTemplateId(e.target.value)}
+                            className="w-full rounded-xl border border-gray-200 px-4 py-3 text-sm shadow-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+                          >
+                            <option value="">Vyberte šablonu</option>
+                            {templates.map((template) => (
+                              <option key={template.id} value={template.id}>
+                                {template.name}
+                                {template.description ? ` – ${template.description}` : ''}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={applyTemplate}
+                            disabled={!selectedTemplateId}
+                            className="inline-flex items-center justify-center gap-2 rounded-xl bg-[#0a192f] px-4 py-3 text-sm font-medium text-white shadow-sm transition hover:bg-[#0c2548] disabled:cursor-not-allowed disabled:opacity-50"
+                          >
+                            Použít šablonu
+                          </button>
+                          <button
+                            type="button"
+                            onClick={handleDeleteTemplate}
+                            disabled={!selectedTemplateId}
+                            className="inline-flex items-center justify-center rounded-xl border border-gray-200 bg-white px-3 py-3 text-gray-500 shadow-sm transition hover:text-red-600 disabled:cursor-not-allowed disabled:opacity-50"
+                            aria-label="Smazat šablonu"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="grid gap-5 md:grid-cols-2">
                       <div className="space-y-2">
                         <label className="text-sm font-medium text-gray-700">Název zakázky *</label>
@@ -2515,16 +2729,68 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                       </div>
                       <div className="space-y-2">
                         <label className="text-sm font-medium text-gray-700">Klient *</label>
-                        <input
-                          type="text"
-                          value={budget.client_name || ''}
-                          onChange={(e) => setBudget({ ...budget, client_name: e.target.value })}
-                          placeholder="Jméno firmy nebo klienta"
-                          className="w-full rounded-xl border border-gray-200 px-4 py-3 text-sm shadow-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
-                        />
+                        <div className="flex gap-2">
+                          <select
+                            value={budget.client_id || ''}
+                            onChange={(e) => selectClient(clients.find((client) => client.id === e.target.value) ?? null)}
+                            className="w-full rounded-xl border border-gray-200 px-4 py-3 text-sm shadow-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+                          >
+                            <option value="">
+                              {!budget.client_id && budget.client_name
+                                ? `${budget.client_name} (není v adresáři)`
+                                : 'Vyberte klienta z adresáře'}
+                            </option>
+                            {clients.map((client) => (
+                              <option key={client.id} value={client.id}>
+                                {client.name}
+                                {client.company_id ? ` – IČO ${client.company_id}` : ''}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            onClick={() => setShowClientForm(true)}
+                            disabled={!organizationId}
+                            className="inline-flex items-center justify-center rounded-xl border border-gray-200 bg-white px-3 text-gray-600 shadow-sm transition hover:text-[#0a192f] disabled:cursor-not-allowed disabled:opacity-50"
+                            aria-label="Nový klient"
+                            title="Přidat nového klienta do adresáře"
+                          >
+                            <Plus className="h-4 w-4" />
+                          </button>
+                        </div>
                       </div>
                     </div>
 
+                    {selectedClient?.is_vat_payer && (
+                      <div className="rounded-2xl border border-gray-200 bg-gray-50 p-4 text-sm text-gray-700">
+                        <label className="flex items-center gap-2 font-medium text-[#0a192f]">
+                          <input
+                            type="checkbox"
+                            checked={reverseChargeApplied}
+                            onChange={(e) => setItems((prev) => applyReverseCharge(prev, e.target.checked))}
+                            className="h-4 w-4 rounded border-gray-300 text-[#0a192f] focus:ring-[#0a192f]"
+                          />
+                          Uplatnit přenesenou daňovou povinnost
+                        </label>
+                        <p className="mt-1 text-xs text-gray-500">
+                          Klient je plátce DPH{selectedClient.vat_id ? ` (DIČ ${selectedClient.vat_id})` : ''}. U stavebních a
+                          montážních prací daň přizná odběratel a všechny položky se vedou s 0 % DPH.
+                        </p>
+                      </div>
+                    )}
+                    {selectedClient?.is_vat_payer === false && reverseChargeApplied && (
+                      <div className="flex flex-col gap-2 rounded-2xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800 sm:flex-row sm:items-center sm:justify-between">
+                        <span>Klient není plátce DPH, přenesenou daňovou povinnost u něj nelze uplatnit.</span>
+                        <button
+                          type="button"
+                          onClick={() => setItems((prev) => applyReverseCharge(prev, false))}
+                          className="rounded-xl border border-amber-300 bg-white px-3 py-1.5 text-xs font-semibold text-amber-800 transition hover:bg-amber-100"
+                        >
+                          Použít výchozí sazbu
+                        </button>
+                      </div>
+                    )}
+
                     <div className="grid gap-5 md:grid-cols-2">
                       <div className="space-y-2">
                         <label className="text-sm font-medium text-gray-700">E-mail klienta</label>
@@ -2538,13 +2804,24 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                       </div>
                       <div className="space-y-2">
                         <label className="text-sm font-medium text-gray-700">Kontaktní osoba</label>
-                        <input
-                          type="text"
-                          value={budget.contact_person || ''}
-                          onChange={(e) => setBudget({ ...budget, contact_person: e.target.value })}
-                          placeholder="Kdo bude nabídku řešit"
-                          className="w-full rounded-xl border border-gray-200 px-4 py-3 text-sm shadow-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
-                        />
+                        <select
+                          value={selectedClient?.contacts.find((contact) => contact.name === budget.contact_person)?.id ?? ''}
+                          onChange={(e) => selectClientContact(e.target.value)}
+                          disabled={!selectedClient || selectedClient.contacts.length === 0}
+                          className="w-full rounded-xl border border-gray-200 px-4 py-3 text-sm shadow-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30 disabled:bg-gray-50 disabled:text-gray-400"
+                        >
+                          <option value="">
+                            {selectedClient && selectedClient.contacts.length > 0
+                              ? 'Bez kontaktní osoby'
+                              : budget.contact_person || 'Klient nemá uložené kontakty'}
+                          </option>
+                          {selectedClient?.contacts.map((contact) => (
+                            <option key={contact.id} value={contact.id}>
+                              {contact.name}
+                              {contact.role ? ` – ${contact.role}` : ''}
+                            </option>
+                          ))}
+                        </select>
                       </div>
                     </div>
 
@@ -2571,6 +2848,24 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                       </div>
                     </div>
 
+                    <div className="grid gap-5 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium text-gray-700">Měna rozpočtu</label>
+                        <select
+                          value={budgetCurrency}
+                          onChange={(e) => setBudget({ ...budget, currency: e.target.value })}
+                          className="w-full rounded-xl border border-gray-200 px-4 py-3 text-sm shadow-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+                        >
+                          {CURRENCY_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-gray-500">Všechny ceny položek i exporty budou v této měně.</p>
+                      </div>
+                    </div>
+
                     <div className="rounded-2xl border border-dashed border-gray-300 bg-gray-50/80 p-5">
                       <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                         <div>
@@ -2578,7 +2873,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           <p className="text-xs text-gray-500">Označte, v jaké fázi schvalování se nabídka nachází.</p>
                         </div>
                       </div>
-                      <div className="mt-4 grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+                      <div className="mt-4 grid gap-2 sm:grid-cols-2 lg:grid-cols-5">
                         {statusOptions.map((option) => {
                           const isActive = budget.status === option.value;
                           return (
@@ -2598,11 +2893,35 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           );
                         })}
                       </div>
+                      <div className="mt-4 flex flex-col gap-2 sm:flex-row sm:items-center">
+                        <label htmlFor="budget-valid-until" className="text-sm font-medium text-gray-700">
+                          Platnost nabídky do
+                        </label>
+                        <input
+                          id="budget-valid-until"
+                          type="date"
+                          value={budget.valid_until ?? ''}
+                          onChange={(e) => setBudget({ ...budget, valid_until: e.target.value || null })}
+                          className="rounded-xl border border-gray-200 px-4 py-2 text-sm shadow-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+                        />
+                        <p className="text-xs text-gray-500">
+                          {budget.valid_until
+                            ? 'Po tomto dni se odeslaný rozpočet automaticky označí jako propadlý.'
+                            : `Bez data platí nabídka ${organizationValidityDays} dní od odeslání klientovi.`}
+                        </p>
+                      </div>
                     </div>
                   </div>
                 )}
                 {currentStep === 1 && (
                   <div className="space-y-6">
+                    <datalist id="budget-alternative-groups">
+                      {optionalGroups
+                        .filter((group) => group.name)
+                        .map((group) => (
+                          <option key={group.name} value={group.name ?? ''} />
+                        ))}
+                    </datalist>
                     <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                       <div>
                         <h3 className="text-lg font-semibold text-[#0a192f]">Položky rozpočtu</h3>
@@ -2612,8 +2931,8 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                         <input
                           ref={excelInputRef}
                           type="file"
-                          accept=".xlsx,.xls"
-                          onChange={handleImportFromExcel}
+                          accept=".xlsx,.xls,.csv"
+                          onChange={handleImportFileSelected}
                           className="hidden"
                         />
                         <button
@@ -2631,7 +2950,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           ) : (
                             <FileSpreadsheet className="h-4 w-4" />
                           )}
-                          {importing ? 'Načítám…' : 'Import z Excelu'}
+                          {importing ? 'Načítám…' : 'Import z Excelu / CSV'}
                         </button>
                         <button
                           type="button"
@@ -2644,6 +2963,28 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           <Layers className="h-4 w-4" />
                           Spravovat kategorie
                         </button>
+                        <div className="inline-flex rounded-xl border border-[#0a192f]/10 bg-white shadow-sm">
+                          <button
+                            type="button"
+                            onClick={undo}
+                            disabled={!canUndo}
+                            className="rounded-l-xl px-3 py-2 text-[#0a192f] transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:text-gray-300"
+                            aria-label="Zpět"
+                            title="Zpět (Ctrl+Z)"
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={redo}
+                            disabled={!canRedo}
+                            className="rounded-r-xl border-l border-[#0a192f]/10 px-3 py-2 text-[#0a192f] transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:text-gray-300"
+                            aria-label="Znovu"
+                            title="Znovu (Ctrl+Shift+Z)"
+                          >
+                            <Redo2 className="h-4 w-4" />
+                          </button>
+                        </div>
                         <button
                           type="button"
                           onClick={addNewItem}
@@ -2655,6 +2996,21 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                       </div>
                     </div>
 
+                    {changedCatalogItemsCount > 0 && (
+                      <div className="flex flex-col gap-2 rounded-2xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800 sm:flex-row sm:items-center sm:justify-between">
+                        <span>
+                          U {changedCatalogItemsCount} položek se od jejich přidání změnila cena v ceníku.
+                        </span>
+                        <button
+                          type="button"
+                          onClick={updateAllCatalogPrices}
+                          className="rounded-xl border border-amber-300 bg-white px-3 py-1.5 text-xs font-semibold text-amber-800 transition hover:bg-amber-100"
+                        >
+                          Aktualizovat všechny ceny
+                        </button>
+                      </div>
+                    )}
+
                     {importSummary && (
                       <div className="rounded-2xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">
                         {importSummary}
@@ -2702,7 +3058,13 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                             ({ section, clientTotal, internalTotal, profit, personnelTotal, itemsCount }) => (
                             <div
                               key={section.tempId}
-                              className="space-y-4 rounded-2xl border border-gray-200 bg-white/90 p-4 shadow-sm"
+                              onDragOver={(e) => handleItemDragOver(e, section.id || section.tempId)}
+                              onDrop={(e) => handleSectionDrop(e, section.id || section.tempId)}
+                              className={`space-y-4 rounded-2xl border bg-white/90 p-4 shadow-sm transition ${
+                                dropTarget === (section.id || section.tempId)
+                                  ? 'border-sky-400 ring-2 ring-sky-200'
+                                  : 'border-gray-200'
+                              }`}
                             >
                               <div className="flex items-start justify-between gap-3">
                                 <div className="flex-1 space-y-3">
@@ -2742,7 +3104,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                   <div>
                                     <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Pro klienta</p>
                                     <p className="text-sm font-semibold text-[#0a192f]">
-                                      {clientTotal.toLocaleString('cs-CZ')} Kč
+                                      {formatMoney(clientTotal)}
                                     </p>
                                   </div>
                                 </div>
@@ -2751,7 +3113,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                   <div>
                                     <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Interně</p>
                                     <p className="text-sm font-semibold text-emerald-600">
-                                      {internalTotal.toLocaleString('cs-CZ')} Kč
+                                      {formatMoney(internalTotal)}
                                     </p>
                                   </div>
                                 </div>
@@ -2760,7 +3122,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                   <div>
                                     <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Personál</p>
                                     <p className="text-sm font-semibold text-sky-600">
-                                      {personnelTotal.toLocaleString('cs-CZ')} Kč
+                                      {formatMoney(personnelTotal)}
                                     </p>
                                   </div>
                                 </div>
@@ -2769,7 +3131,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                   <div>
                                     <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Marže</p>
                                     <p className={`text-sm font-semibold ${profit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
-                                      {profit.toLocaleString('cs-CZ')} Kč
+                                      {formatMoney(profit)}
                                     </p>
                                   </div>
                                 </div>
@@ -2780,13 +3142,39 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                       )}
                     </div>
 
+                    {selectedItemIndexes.length > 0 && (
+                      <BudgetItemsBulkBar
+                        selectedCount={selectedItemIndexes.length}
+                        categories={categories}
+                        sections={activeSections.map((section) => ({
+                          id: section.id || section.tempId,
+                          name: section.name || ''
+                        }))}
+                        onApply={applyBulkChanges}
+                        onAdjustPrices={adjustSelectedItemPrices}
+                        onDelete={removeSelectedItems}
+                        onClear={() => setSelectedItemIndexes([])}
+                      />
+                    )}
+
                     <div className="rounded-2xl border border-gray-200 bg-gray-50 shadow-sm lg:bg-white">
 
                       <div className="overflow-x-auto lg:block">
                         <table className="w-full table-auto divide-y divide-gray-200 text-sm">
                           <thead className="bg-gray-50 text-xs font-semibold uppercase tracking-wide text-gray-500">
                             <tr>
-                              <th className="px-4 py-3 text-left">#</th>
+                              <th className="px-4 py-3 text-left">
+                                <div className="flex items-center gap-2">
+                                  <input
+                                    type="checkbox"
+                                    checked={items.length > 0 && selectedItemIndexes.length === items.length}
+                                    onChange={(e) => toggleAllItemsSelection(e.target.checked)}
+                                    className="h-4 w-4 rounded border-gray-300 text-[#0a192f] focus:ring-[#0a192f]"
+                                    aria-label="Vybrat všechny položky"
+                                  />
+                                  #
+                                </div>
+                              </th>
                               <th className="px-4 py-3 text-left">Kategorie</th>
                               <th className="px-4 py-3 text-left">Pod-rozpočet</th>
                               <th className="px-4 py-3 text-left">Název položky</th>
@@ -2795,6 +3183,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                               <th className="px-4 py-3 text-left">Jednotka</th>
                               <th className="px-4 py-3 text-right">Cena / jednotka</th>
                               <th className="px-4 py-3 text-right">Celkem</th>
+                              <th className="px-4 py-3 text-left">DPH</th>
                               <th className="px-4 py-3 text-center text-gray-500">Náklad</th>
                               <th className="px-4 py-3 text-right text-gray-500">Interní počet</th>
                               <th className="px-4 py-3 text-right text-gray-500">Interní cena</th>
@@ -2807,7 +3196,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           <tbody className="divide-y divide-gray-100">
                             {items.length === 0 ? (
                               <tr>
-                                <td colSpan={16} className="px-4 py-6 text-center text-sm text-gray-500">
+                                <td colSpan={17} className="px-4 py-6 text-center text-sm text-gray-500">
                                   Přidejte první položku pomocí tlačítka „Přidat položku“.
                                 </td>
                               </tr>
@@ -2824,8 +3213,40 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                     : 'text-emerald-600';
 
                                 return (
-                                  <tr key={index} className="align-top transition hover:bg-slate-50">
-                                    <td className="px-4 py-3 text-sm font-medium text-gray-500">{index + 1}</td>
+                                  <tr
+                                    key={index}
+                                    onDragOver={(e) => handleItemDragOver(e, index)}
+                                    onDrop={(e) => handleItemDrop(e, index)}
+                                    className={`align-top transition ${
+                                      dropTarget === index
+                                        ? 'bg-sky-50 ring-2 ring-inset ring-sky-300'
+                                        : selectedItemIndexes.includes(index)
+                                        ? 'bg-[#0a192f]/5'
+                                        : 'hover:bg-slate-50'
+                                    } ${draggedItemIndex === index ? 'opacity-50' : ''}`}
+                                  >
+                                    <td className="px-4 py-3 text-sm font-medium text-gray-500">
+                                      <div className="flex items-center gap-2 pt-2">
+                                        <span
+                                          draggable
+                                          onDragStart={(e) => handleItemDragStart(e, index)}
+                                          onDragEnd={handleItemDragEnd}
+                                          className="cursor-grab text-gray-300 transition hover:text-[#0a192f] active:cursor-grabbing"
+                                          title="Přetáhněte pro změnu pořadí nebo pod-rozpočtu"
+                                        >
+                                          <GripVertical className="h-4 w-4" />
+                                        </span>
+                                        <input
+                                          type="checkbox"
+                                          checked={selectedItemIndexes.includes(index)}
+                                          onChange={(e) => toggleItemSelection(index, e.target.checked)}
+                                          className="h-4 w-4 rounded border-gray-300 text-[#0a192f] focus:ring-[#0a192f]"
+                                          aria-label={`Vybrat položku ${index + 1}`}
+                                        />
+                                        {index + 1}
+                                        {renderItemCommentsButton(item)}
+                                      </div>
+                                    </td>
                                     <td className="px-4 py-3">
                                       <select
                                         value={item.category_id || ''}
@@ -2855,13 +3276,17 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                       </select>
                                     </td>
                                     <td className="px-4 py-3">
-                                      <input
-                                        type="text"
+                                      <CatalogItemNameInput
                                         value={item.item_name || ''}
-                                        onChange={(e) => updateItem(index, 'item_name', e.target.value)}
+                                        catalogItems={availableCatalogItems}
+                                        onChange={(value) => updateItem(index, 'item_name', value)}
+                                        onSelect={(entry) => selectCatalogItem(index, entry)}
+                                        formatMoney={formatMoney}
                                         placeholder={`Položka ${index + 1}`}
                                         className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30 lg:min-w-[12rem]"
                                       />
+                                      {renderCatalogPriceChange(index)}
+                                      {renderOfferTypeInput(item, index)}
                                     </td>
                                     <td className="px-4 py-3">
                                       <textarea
@@ -2898,12 +3323,28 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                         onChange={(e) => updateItem(index, 'price_per_unit', parseFloat(e.target.value) || 0)}
                                         className="w-full rounded-lg border border-gray-200 px-3 py-2 text-right text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30 lg:min-w-[4.5rem]"
                                       />
+                                      {renderMarkupInput(item, index)}
                                     </td>
                                     <td className="px-4 py-3 lg:min-w-[5.5rem]">
                                       <div className="text-right font-semibold text-[#0a192f]">
-                                        {totalPrice.toLocaleString('cs-CZ')} Kč
+                                        {formatMoney(totalPrice)}
                                       </div>
                                     </td>
+                                    <td className="px-4 py-3">
+                                      <select
+                                        value={item.vat_rate ?? ''}
+                                        onChange={(e) => updateItem(index, 'vat_rate', e.target.value)}
+                                        className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30 lg:min-w-[7rem]"
+                                        title="Sazba DPH položky"
+                                      >
+                                        <option value="">Výchozí ({organizationVatRate} %)</option>
+                                        {VAT_RATE_OPTIONS.map((option) => (
+                                          <option key={option.value} value={option.value}>
+                                            {option.label}
+                                          </option>
+                                        ))}
+                                      </select>
+                                    </td>
                                     <td className="px-4 py-3">
                                       <div className="flex justify-center">
                                         <input
@@ -2955,12 +3396,12 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                     </td>
                                     <td className="px-4 py-3">
                                       <div className="text-right font-semibold text-emerald-600">
-                                        {internalTotal.toLocaleString('cs-CZ')} Kč
+                                        {formatMoney(internalTotal)}
                                       </div>
                                     </td>
                                     <td className="px-4 py-3">
                                       <div className={`text-right font-semibold ${profitColor}`}>
-                                        {profitValue.toLocaleString('cs-CZ')} Kč
+                                        {formatMoney(profitValue)}
                                       </div>
                                     </td>
                                     <td className="px-4 py-3">
@@ -2987,25 +3428,25 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                 Celkem pro klienta
                               </td>
                               <td className="px-4 py-3 text-right text-sm font-semibold text-[#0a192f]">
-                                {totals.clientTotal.toLocaleString('cs-CZ')} Kč
+                                {formatMoney(totals.clientTotal)}
                               </td>
-                              <td colSpan={4} className="px-4 py-3 text-right text-sm font-semibold text-[#0a192f]">
+                              <td colSpan={5} className="px-4 py-3 text-right text-sm font-semibold text-[#0a192f]">
                                 Interní náklady
                               </td>
                               <td className="px-4 py-3 text-right text-sm font-semibold text-[#0a192f]">
-                                {totals.internalTotal.toLocaleString('cs-CZ')} Kč
+                                {formatMoney(totals.internalTotal)}
                               </td>
                               <td className="px-4 py-3 text-right text-sm font-semibold text-emerald-600">
-                                {totals.profit.toLocaleString('cs-CZ')} Kč
+                                {formatMoney(totals.profit)}
                               </td>
                               <td className="px-4 py-3" />
                             </tr>
                             <tr>
-                              <td colSpan={13} className="px-4 py-2 text-right text-xs font-semibold uppercase tracking-wide text-[#0a192f]/80">
+                              <td colSpan={14} className="px-4 py-2 text-right text-xs font-semibold uppercase tracking-wide text-[#0a192f]/80">
                                 Personální náklady
                               </td>
                               <td colSpan={3} className="px-4 py-2 text-right text-sm font-semibold text-sky-600">
-                                {totals.personnelTotal.toLocaleString('cs-CZ')} Kč
+                                {formatMoney(totals.personnelTotal)}
                               </td>
                             </tr>
                           </tfoot>
@@ -3031,10 +3472,41 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                   : 'text-emerald-600';
 
                             return (
-                              <div key={index} className="space-y-4 rounded-2xl border border-gray-200 bg-white p-4 shadow-sm">
+                              <div
+                                key={index}
+                                data-item-card
+                                onDragOver={(e) => handleItemDragOver(e, index)}
+                                onDrop={(e) => handleItemDrop(e, index)}
+                                className={`space-y-4 rounded-2xl border bg-white p-4 shadow-sm ${
+                                  dropTarget === index
+                                    ? 'border-sky-400 ring-2 ring-sky-200'
+                                    : selectedItemIndexes.includes(index)
+                                    ? 'border-[#0a192f]/40'
+                                    : 'border-gray-200'
+                                } ${draggedItemIndex === index ? 'opacity-50' : ''}`}
+                              >
                                 <div className="flex items-start justify-between gap-3">
                                   <div>
-                                    <p className="text-xs font-semibold uppercase tracking-wide text-[#0a192f]/70">Položka {index + 1}</p>
+                                    <div className="flex items-center gap-2">
+                                      <span
+                                        draggable
+                                        onDragStart={(e) => handleItemDragStart(e, index)}
+                                        onDragEnd={handleItemDragEnd}
+                                        className="cursor-grab text-gray-300 transition hover:text-[#0a192f] active:cursor-grabbing"
+                                        title="Přetáhněte pro změnu pořadí nebo pod-rozpočtu"
+                                      >
+                                        <GripVertical className="h-4 w-4" />
+                                      </span>
+                                      <input
+                                        type="checkbox"
+                                        checked={selectedItemIndexes.includes(index)}
+                                        onChange={(e) => toggleItemSelection(index, e.target.checked)}
+                                        className="h-4 w-4 rounded border-gray-300 text-[#0a192f] focus:ring-[#0a192f]"
+                                        aria-label={`Vybrat položku ${index + 1}`}
+                                      />
+                                      <p className="text-xs font-semibold uppercase tracking-wide text-[#0a192f]/70">Položka {index + 1}</p>
+                                      {renderItemCommentsButton(item)}
+                                    </div>
 
                                     <p className="text-base font-semibold text-[#0a192f]">
                                       {item.item_name?.trim() || 'Nepojmenovaná položka'}
@@ -3086,13 +3558,17 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
 
                                   <div className="space-y-2">
                                     <label className="text-xs font-medium uppercase tracking-wide text-gray-500">Název položky</label>
-                                    <input
-                                      type="text"
+                                    <CatalogItemNameInput
                                       value={item.item_name || ''}
-                                      onChange={(e) => updateItem(index, 'item_name', e.target.value)}
+                                      catalogItems={availableCatalogItems}
+                                      onChange={(value) => updateItem(index, 'item_name', value)}
+                                      onSelect={(entry) => selectCatalogItem(index, entry)}
+                                      formatMoney={formatMoney}
                                       placeholder={`Položka ${index + 1}`}
                                       className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
                                     />
+                                    {renderCatalogPriceChange(index)}
+                                    {renderOfferTypeInput(item, index)}
                                   </div>
 
                                   <div className="space-y-2">
@@ -3139,16 +3615,33 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                         onChange={(e) => updateItem(index, 'price_per_unit', parseFloat(e.target.value) || 0)}
                                         className="w-full rounded-lg border border-gray-200 px-3 py-2 text-right text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
                                       />
+                                      {renderMarkupInput(item, index)}
                                     </div>
                                     <div className="space-y-2">
                                       <label className="text-xs font-medium uppercase tracking-wide text-gray-500">Celkem</label>
                                       <div className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-right text-sm font-semibold text-[#0a192f]">
 
-                                        {totalPrice.toLocaleString('cs-CZ')} Kč
+                                        {formatMoney(totalPrice)}
                                       </div>
                                     </div>
                                   </div>
 
+                                  <div className="space-y-2">
+                                    <label className="text-xs font-medium uppercase tracking-wide text-gray-500">Sazba DPH</label>
+                                    <select
+                                      value={item.vat_rate ?? ''}
+                                      onChange={(e) => updateItem(index, 'vat_rate', e.target.value)}
+                                      className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+                                    >
+                                      <option value="">Výchozí ({organizationVatRate} %)</option>
+                                      {VAT_RATE_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                          {option.label}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  </div>
+
                                   <div className="space-y-2">
                                     <span className="text-xs font-medium uppercase tracking-wide text-gray-500">Náklad</span>
                                     <label className="flex items-center gap-2 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
@@ -3210,13 +3703,13 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                     <div className="space-y-2">
                                       <label className="text-xs font-medium uppercase tracking-wide text-gray-500">Interní celkem</label>
                                       <div className="rounded-lg border border-emerald-200 bg-white px-3 py-2 text-right text-sm font-semibold text-emerald-600">
-                                        {internalTotal.toLocaleString('cs-CZ')} Kč
+                                        {formatMoney(internalTotal)}
                                       </div>
                                     </div>
                                     <div className="space-y-2">
                                       <label className="text-xs font-medium uppercase tracking-wide text-gray-500">Marže</label>
                                       <div className={`rounded-lg border px-3 py-2 text-right text-sm font-semibold ${profitColor}`}>
-                                        {profitValue.toLocaleString('cs-CZ')} Kč
+                                        {formatMoney(profitValue)}
                                       </div>
                                     </div>
 
@@ -3234,6 +3727,22 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
 
                 {currentStep === 2 && (
                   <div className="space-y-6">
+                    <BudgetAdjustmentsEditor
+                      adjustments={pricing.adjustments}
+                      sections={activeSections.map((section) => ({
+                        id: section.id || section.tempId,
+                        name: section.name?.trim() || ''
+                      }))}
+                      itemsTotal={pricing.itemsTotal}
+                      clientTotal={pricing.clientTotal}
+                      currency={budgetCurrency}
+                      formatMoney={formatMoney}
+                      createId={generateSectionId}
+                      onChange={(adjustments: BudgetPriceAdjustment[]) =>
+                        setBudget((prev) => ({ ...prev, price_adjustments: adjustments }))
+                      }
+                    />
+
                     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
                       <div className="rounded-2xl border border-gray-200 bg-white p-5 shadow-sm">
                         <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-gray-500">
@@ -3241,7 +3750,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           <Wallet className="h-4 w-4 text-[#0a192f]" />
                         </div>
                         <p className="mt-3 text-2xl font-semibold text-[#0a192f]">
-                          {totals.clientTotal.toLocaleString('cs-CZ')} Kč
+                          {formatMoney(totals.clientTotal)}
                         </p>
                         <p className="text-xs text-gray-500">bez DPH</p>
                       </div>
@@ -3251,7 +3760,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           <PiggyBank className="h-4 w-4 text-[#0a192f]" />
                         </div>
                         <p className="mt-3 text-2xl font-semibold text-[#0a192f]">
-                          {totals.internalTotal.toLocaleString('cs-CZ')} Kč
+                          {formatMoney(totals.internalTotal)}
                         </p>
                         <p className="text-xs text-gray-500">včetně interních zdrojů</p>
                       </div>
@@ -3261,7 +3770,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           <Users className="h-4 w-4 text-[#0a192f]" />
                         </div>
                         <p className="mt-3 text-2xl font-semibold text-[#0a192f]">
-                          {totals.personnelTotal.toLocaleString('cs-CZ')} Kč
+                          {formatMoney(totals.personnelTotal)}
                         </p>
                         <p className="text-xs text-gray-500">z interních výplat</p>
                       </div>
@@ -3271,7 +3780,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           <Target className="h-4 w-4 text-[#0a192f]" />
                         </div>
                         <p className="mt-3 text-2xl font-semibold text-[#0a192f]">
-                          {totals.profit.toLocaleString('cs-CZ')} Kč
+                          {formatMoney(totals.profit)}
                         </p>
                         <p className="text-xs text-gray-500">{marginPercentage.toFixed(1)} % z nabídky</p>
                       </div>
@@ -3285,15 +3794,27 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           </div>
                           <div>
                             <p className="text-sm font-semibold text-[#0a192f]">Podklady pro klienta</p>
-                            <p className="text-xs text-gray-500">Předpokládaná částka s 21 % DPH a rychlý přehled.</p>
+                            <p className="text-xs text-gray-500">Předpokládaná částka s DPH a rozpis podle sazeb.</p>
                           </div>
                         </div>
                         <div className="mt-4 rounded-2xl bg-gray-50 p-4">
                           <div className="text-xs font-semibold uppercase tracking-wide text-gray-500">S DPH</div>
                           <div className="text-2xl font-bold text-[#0a192f]">
-                            {projectedVatTotal.toLocaleString('cs-CZ')} Kč
+                            {formatMoney(vatSummary.total)}
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            včetně DPH {formatMoney(vatSummary.vat)}
+                          </p>
+                          <div className="mt-3 space-y-1 border-t border-gray-200 pt-3 text-xs text-gray-600">
+                            {vatSummary.lines.map((line) => (
+                              <div key={line.rate} className="flex justify-between gap-4">
+                                <span>
+                                  DPH {getVatRateLabel(line.rate)} ze základu {formatMoney(line.base)}
+                                </span>
+                                <span className="font-semibold text-[#0a192f]">{formatMoney(line.vat)}</span>
+                              </div>
+                            ))}
                           </div>
-                          <p className="text-xs text-gray-500">včetně 21 % DPH</p>
                         </div>
                         <ul className="mt-4 space-y-2 text-sm text-gray-600">
                           <li>• Přidejte krycí dopis s přehledem klíčových bodů.</li>
@@ -3337,25 +3858,25 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                                   <div className="rounded-lg border border-gray-200 bg-white p-3">
                                     <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Pro klienta</p>
                                     <p className="text-sm font-semibold text-[#0a192f]">
-                                      {clientTotal.toLocaleString('cs-CZ')} Kč
+                                      {formatMoney(clientTotal)}
                                     </p>
                                   </div>
                                   <div className="rounded-lg border border-gray-200 bg-white p-3">
                                     <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Interně</p>
                                     <p className="text-sm font-semibold text-emerald-600">
-                                      {internalTotal.toLocaleString('cs-CZ')} Kč
+                                      {formatMoney(internalTotal)}
                                     </p>
                                   </div>
                                   <div className="rounded-lg border border-gray-200 bg-white p-3">
                                     <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Personál</p>
                                     <p className="text-sm font-semibold text-sky-600">
-                                      {personnelTotal.toLocaleString('cs-CZ')} Kč
+                                      {formatMoney(personnelTotal)}
                                     </p>
                                   </div>
                                   <div className="rounded-lg border border-gray-200 bg-white p-3">
                                     <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Marže</p>
                                     <p className={`text-sm font-semibold ${profit >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
-                                      {profit.toLocaleString('cs-CZ')} Kč
+                                      {formatMoney(profit)}
                                     </p>
                                   </div>
                                 </div>
@@ -3382,7 +3903,7 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           </div>
                           <div className="rounded-xl bg-white/80 p-3 text-sm text-gray-600 shadow-sm">
                             <p className="font-semibold text-[#0a192f]">Průměrná položka</p>
-                            <p>{averageItemValue.toLocaleString('cs-CZ')} Kč</p>
+                            <p>{formatMoney(averageItemValue)}</p>
                           </div>
                         </div>
                       </div>
@@ -3449,6 +3970,19 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
                           <FileSpreadsheet className="h-4 w-4" />
                           Excel interní
                         </button>
+                        <button
+                          type="button"
+                          onClick={() => setShowEmailModal(true)}
+                          disabled={!budgetId}
+                          className={`inline-flex items-center gap-2 rounded-xl border border-[#0a192f]/20 px-4 py-2 text-sm font-medium transition ${
+                            budgetId
+                              ? 'bg-white text-[#0a192f] hover:border-[#0a192f] hover:bg-white shadow-sm'
+                              : 'cursor-not-allowed bg-gray-100 text-gray-400'
+                          }`}
+                        >
+                          <Mail className="h-4 w-4" />
+                          Odeslat e-mailem
+                        </button>
                       </>
                     )}
 
@@ -3474,6 +4008,19 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
               </form>
             </div>
           </div>
+
+          {budgetId && isValidUuid(budgetId) && (
+            <div ref={commentsRef} className="scroll-mt-6">
+              <BudgetComments
+                budgetId={budgetId}
+                organizationId={organizationId}
+                items={commentableItems}
+                selectedItemId={commentItemId}
+                onSelectedItemChange={setCommentItemId}
+                onCountsChange={setCommentCounts}
+              />
+            </div>
+          )}
         </div>
         </div>
       </div>
@@ -3604,6 +4151,75 @@ export default function BudgetEditor({ budgetId, onBack, onSaved, activeOrganiza
         </div>
       )}
 
+      {showClientForm && organizationId && (
+        <ClientFormModal
+          organizationId={organizationId}
+          onClose={() => setShowClientForm(false)}
+          onSaved={async (clientId) => {
+            setShowClientForm(false);
+
+            try {
+              const clientList = await fetchClients(organizationId);
+              setClients(clientList);
+              selectClient(clientList.find((client) => client.id === clientId) ?? null);
+            } catch (error) {
+              console.error('Error loading clients:', error);
+            }
+          }}
+        />
+      )}
+
+      {saveConflict && (
+        <BudgetSaveConflictModal
+          savedBy={saveConflict.savedBy}
+          savedAt={saveConflict.remote.budget.updated_at ?? null}
+          mergeConflicts={saveConflict.merged.conflicts}
+          busy={saving}
+          onMerge={mergeConflictingChanges}
+          onOverwrite={overwriteConflictingChanges}
+          onReload={reloadStoredVersion}
+          onClose={() => setSaveConflict(null)}
+        />
+      )}
+
+      {showEmailModal && budgetId && (
+        <SendBudgetEmailModal
+          budgetId={budgetId}
+          budget={budget}
+          organizationName={organizationName}
+          totalLabel={formatMoney(totals.clientTotal)}
+          buildAttachment={buildClientEmailAttachment}
+          onClose={() => setShowEmailModal(false)}
+          onSent={async () => {
+            if (budget.status !== 'draft' || !budgetId) return;
+
+            // Sending marks the draft as sent on the server, which also moves its updated_at and sets valid_until.
+            const { data } = await supabase
+              .from('budgets')
+              .select('updated_at, valid_until')
+              .eq('id', budgetId)
+              .maybeSingle();
+            setBudget((prev) => ({
+              ...prev,
+              status: 'sent',
+              updated_at: data?.updated_at ?? prev.updated_at,
+              valid_until: data ? data.valid_until : prev.valid_until
+            }));
+          }}
+        />
+      )}
+
+      {importSource && (
+        <BudgetImportWizard
+          fileName={importSource.fileName}
+          sheets={importSource.sheets}
+          organizationId={organizationId}
+          formatMoney={formatMoney}
+          onClose={() => setImportSource(null)}
+          onImport={applyImportedItems}
+        />
+      )}
+
     </div>
   );
 }
@@ -0,0 +1,420 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, FileSpreadsheet, Loader2, Save, Trash2, X } from 'lucide-react';
+
+import {
+  IMPORT_FIELDS,
+  ImportColumnMapping,
+  ImportDraftItem,
+  ImportSheet,
+  applyImportProfile,
+  deleteImportProfile,
+  detectHeaderRow,
+  fetchImportProfiles,
+  getColumnLabel,
+  guessColumnMapping,
+  parseImportRows,
+  saveImportProfile,
+  toProfileMapping
+} from '../lib/budgetImport';
+import { BudgetImportField, BudgetImportProfile } from '../types/database';
+
+interface BudgetImportWizardProps {
+  fileName: string;
+  sheets: ImportSheet[];
+  organizationId: string | null;
+  formatMoney: (value: number) => string;
+  onClose: () => void;
+  onImport: (items: ImportDraftItem[], currencies: string[]) => Promise<void>;
+}
+
+const PREVIEW_LIMIT = 50;
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-200 px-3 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30';
+
+export default function BudgetImportWizard({
+  fileName,
+  sheets,
+  organizationId,
+  formatMoney,
+  onClose,
+  onImport
+}: BudgetImportWizardProps) {
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRowIndex, setHeaderRowIndex] = useState(() => detectHeaderRow(sheets[0]?.rows ?? []));
+  const [mapping, setMapping] = useState<ImportColumnMapping>(() =>
+    guessColumnMapping(sheets[0]?.rows[detectHeaderRow(sheets[0]?.rows ?? [])] ?? [])
+  );
+  const [profiles, setProfiles] = useState<BudgetImportProfile[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = useMemo(() => sheets[sheetIndex]?.rows ?? [], [sheets, sheetIndex]);
+  const headerRow = useMemo(() => rows[headerRowIndex] ?? [], [rows, headerRowIndex]);
+  const columnCount = useMemo(() => rows.reduce((max, row) => Math.max(max, row.length), 0), [rows]);
+  const results = useMemo(() => parseImportRows(rows, headerRowIndex, mapping), [rows, headerRowIndex, mapping]);
+  const validResults = results.filter((result) => result.draft);
+  const invalidCount = results.length - validResults.length;
+
+  useEffect(() => {
+    if (!organizationId) return;
+
+    fetchImportProfiles(organizationId)
+      .then(setProfiles)
+      .catch((err) => console.error('Error loading import profiles:', err));
+  }, [organizationId]);
+
+  const resetMapping = (nextRows: string[][], nextHeaderRowIndex: number, nextProfileId: string) => {
+    const nextHeader = nextRows[nextHeaderRowIndex] ?? [];
+    const profile = profiles.find((entry) => entry.id === nextProfileId);
+    setMapping(profile ? applyImportProfile(profile, nextHeader) : guessColumnMapping(nextHeader));
+  };
+
+  const handleSheetChange = (index: number) => {
+    const nextRows = sheets[index]?.rows ?? [];
+    const nextHeaderRowIndex = detectHeaderRow(nextRows);
+    setSheetIndex(index);
+    setHeaderRowIndex(nextHeaderRowIndex);
+    resetMapping(nextRows, nextHeaderRowIndex, profileId);
+  };
+
+  const handleHeaderRowChange = (rowNumber: number) => {
+    const nextHeaderRowIndex = Math.min(Math.max(rowNumber - 1, 0), Math.max(rows.length - 1, 0));
+    setHeaderRowIndex(nextHeaderRowIndex);
+    resetMapping(rows, nextHeaderRowIndex, profileId);
+  };
+
+  const handleProfileChange = (nextProfileId: string) => {
+    setProfileId(nextProfileId);
+    setProfileName(profiles.find((entry) => entry.id === nextProfileId)?.name ?? '');
+    resetMapping(rows, headerRowIndex, nextProfileId);
+  };
+
+  const updateMapping = (field: BudgetImportField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleSaveProfile = async () => {
+    if (!organizationId || !profileName.trim()) return;
+
+    try {
+      setSavingProfile(true);
+      setError(null);
+      const existing = profiles.find(
+        (entry) => entry.id === profileId || entry.name.toLowerCase() === profileName.trim().toLowerCase()
+      );
+      const saved = await saveImportProfile(
+        organizationId,
+        profileName,
+        toProfileMapping(mapping, headerRow),
+        existing?.id
+      );
+      setProfiles((prev) =>
+        [...prev.filter((entry) => entry.id !== saved.id), saved].sort((left, right) => left.name.localeCompare(right.name))
+      );
+      setProfileId(saved.id);
+    } catch (err) {
+      console.error('Error saving import profile:', err);
+      setError('Mapování se nepodařilo uložit. Zkuste to prosím znovu.');
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    const profile = profiles.find((entry) => entry.id === profileId);
+    if (!profile || !confirm(`Smazat uložené mapování „${profile.name}“?`)) return;
+
+    try {
+      await deleteImportProfile(profile.id);
+      setProfiles((prev) => prev.filter((entry) => entry.id !== profile.id));
+      setProfileId('');
+      setProfileName('');
+    } catch (err) {
+      console.error('Error deleting import profile:', err);
+      setError('Mapování se nepodařilo smazat.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (mapping.itemName === undefined) {
+      setError('Přiřaďte sloupec s názvem položky.');
+      return;
+    }
+
+    if (invalidCount > 0 && !skipInvalid) {
+      setError('Některé řádky obsahují chyby. Opravte mapování, nebo je při importu přeskočte.');
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setError(null);
+      await onImport(
+        validResults.map((result) => result.draft as ImportDraftItem),
+        Array.from(new Set(validResults.flatMap((result) => result.currencies)))
+      );
+    } catch (err) {
+      console.error('Error importing budget items:', err);
+      setError(err instanceof Error ? err.message : 'Během importu došlo k neočekávané chybě.');
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4 py-6 backdrop-blur-sm"
+      onClick={() => (importing ? null : onClose())}
+    >
+      <div
+        className="flex max-h-full w-full max-w-6xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3 border-b border-gray-100 p-6">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-gray-100 text-[#0a192f]">
+              <FileSpreadsheet className="h-5 w-5" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-[#0a192f]">Import položek</h3>
+              <p className="text-sm text-gray-600">
+                {fileName} – zkontrolujte přiřazení sloupců. Stávající položky rozpočtu budou nahrazeny.
+              </p>
+            </div>
+          </div>
+          <button
+            type="button"
+            className="rounded-full border border-gray-200 p-1 text-gray-500 transition hover:border-gray-300 hover:text-gray-700"
+            onClick={onClose}
+            disabled={importing}
+            aria-label="Zavřít import"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-6 overflow-y-auto p-6">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">List</label>
+              <select
+                value={sheetIndex}
+                onChange={(e) => handleSheetChange(Number(e.target.value))}
+                className={inputClassName}
+                disabled={sheets.length < 2}
+              >
+                {sheets.map((sheet, index) => (
+                  <option key={sheet.name} value={index}>
+                    {sheet.name} ({sheet.rows.length} řádků)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">Řádek s hlavičkou</label>
+              <input
+                type="number"
+                min={1}
+                max={Math.max(rows.length, 1)}
+                value={headerRowIndex + 1}
+                onChange={(e) => handleHeaderRowChange(Number(e.target.value) || 1)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">Uložené mapování</label>
+              <div className="flex gap-2">
+                <select
+                  value={profileId}
+                  onChange={(e) => handleProfileChange(e.target.value)}
+                  className={inputClassName}
+                  disabled={!organizationId}
+                >
+                  <option value="">Rozpoznat automaticky</option>
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </select>
+                {profileId && (
+                  <button
+                    type="button"
+                    onClick={handleDeleteProfile}
+                    className="rounded-lg p-2 text-red-600 transition hover:bg-red-50"
+                    title="Smazat mapování"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="rounded-2xl border border-gray-200 p-4">
+            <p className="text-sm font-semibold text-[#0a192f]">Přiřazení sloupců</p>
+            <div className="mt-3 grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label className="mb-1 block text-xs font-medium uppercase tracking-wide text-gray-500">
+                    {field.label}
+                    {field.key === 'itemName' && ' *'}
+                  </label>
+                  <select
+                    value={mapping[field.key] ?? ''}
+                    onChange={(e) => updateMapping(field.key, e.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value="">— nepoužít —</option>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <option key={index} value={index}>
+                        {getColumnLabel(index)}: {headerRow[index] || '(bez názvu)'}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="mt-4 flex flex-col gap-2 border-t border-gray-100 pt-4 sm:flex-row sm:items-center">
+              <input
+                type="text"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Název mapování, např. dodavatel"
+                className={`${inputClassName} sm:max-w-xs`}
+                disabled={!organizationId}
+              />
+              <button
+                type="button"
+                onClick={handleSaveProfile}
+                disabled={!organizationId || !profileName.trim() || savingProfile}
+                className="inline-flex items-center justify-center gap-2 rounded-lg border border-gray-200 px-3 py-2 text-sm font-medium text-[#0a192f] transition hover:bg-gray-50 disabled:opacity-60"
+              >
+                {savingProfile ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Uložit mapování
+              </button>
+              <p className="text-xs text-gray-500">Sloupce se pamatují podle názvu v hlavičce, ne podle pořadí.</p>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm font-semibold text-[#0a192f]">Náhled</p>
+              <p className="text-sm text-gray-600">
+                {validResults.length} řádků připraveno
+                {invalidCount > 0 && <span className="text-red-600">, {invalidCount} s chybami</span>}
+              </p>
+            </div>
+            <div className="mt-2 overflow-x-auto rounded-xl border border-gray-200">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Řádek</th>
+                    <th className="px-3 py-2 font-medium">Položka</th>
+                    <th className="px-3 py-2 font-medium">Kategorie</th>
+                    <th className="px-3 py-2 font-medium">Pod-rozpočet</th>
+                    <th className="px-3 py-2 text-right font-medium">Počet</th>
+                    <th className="px-3 py-2 text-right font-medium">Cena / jednotka</th>
+                    <th className="px-3 py-2 text-right font-medium">Celkem</th>
+                    <th className="px-3 py-2 text-right font-medium">Interní náklad</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {results.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="px-3 py-6 text-center text-gray-500">
+                        Pod hlavičkou nejsou žádné řádky s daty.
+                      </td>
+                    </tr>
+                  ) : (
+                    results.slice(0, PREVIEW_LIMIT).map((result) =>
+                      result.draft ? (
+                        <tr key={result.rowNumber}>
+                          <td className="px-3 py-2 text-gray-500">{result.rowNumber}</td>
+                          <td className="px-3 py-2 font-medium text-[#0a192f]">{result.draft.itemName}</td>
+                          <td className="px-3 py-2 text-gray-600">{result.draft.categoryName || '—'}</td>
+                          <td className="px-3 py-2 text-gray-600">{result.draft.sectionName || '—'}</td>
+                          <td className="px-3 py-2 text-right text-gray-600">
+                            {result.draft.quantity.toLocaleString('cs-CZ')} {result.draft.unit}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-600">{formatMoney(result.draft.pricePerUnit)}</td>
+                          <td className="px-3 py-2 text-right font-semibold text-[#0a192f]">
+                            {formatMoney(result.draft.totalPrice)}
+                          </td>
+                          <td className="px-3 py-2 text-right text-emerald-600">
+                            {formatMoney(result.draft.internalTotal)}
+                          </td>
+                        </tr>
+                      ) : (
+                        <tr key={result.rowNumber} className="bg-red-50">
+                          <td className="px-3 py-2 text-red-700">{result.rowNumber}</td>
+                          <td colSpan={7} className="px-3 py-2 text-red-700">
+                            {result.errors.join(' ')}
+                          </td>
+                        </tr>
+                      )
+                    )
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {results.length > PREVIEW_LIMIT && (
+              <p className="mt-2 text-xs text-gray-500">
+                Zobrazeno prvních {PREVIEW_LIMIT} z {results.length} řádků.
+                {invalidCount > 0 &&
+                  ` Řádky s chybami: ${results
+                    .filter((result) => !result.draft)
+                    .map((result) => result.rowNumber)
+                    .join(', ')}.`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-3 border-t border-gray-100 p-6 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-1">
+            {invalidCount > 0 && (
+              <label className="flex items-center gap-2 text-sm text-amber-700">
+                <input type="checkbox" checked={skipInvalid} onChange={(e) => setSkipInvalid(e.target.checked)} />
+                <AlertTriangle className="h-4 w-4" />
+                Přeskočit {invalidCount} řádků s chybami
+              </label>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+          <div className="flex flex-col-reverse gap-3 sm:flex-row">
+            <button
+              type="button"
+              className="rounded-xl border border-gray-200 bg-white px-5 py-2 text-sm font-medium text-gray-600 transition hover:bg-gray-100"
+              onClick={onClose}
+              disabled={importing}
+            >
+              Zrušit
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || validResults.length === 0 || (invalidCount > 0 && !skipInvalid)}
+              className="inline-flex items-center justify-center gap-2 rounded-xl bg-[#0a192f] px-5 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-opacity-90 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileSpreadsheet className="h-4 w-4" />}
+              Importovat {validResults.length} položek
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { CheckSquare, Percent, Trash2, X } from 'lucide-react';
+
+import { BulkItemChanges } from '../lib/budgetItemOperations';
+import { OPTIONAL_ITEM_KIND_LABELS, OptionalItemKind } from '../lib/budgetPricing';
+
+interface BudgetItemsBulkBarProps {
+  selectedCount: number;
+  categories: { id: string; name: string }[];
+  sections: { id: string; name: string }[];
+  onApply: (changes: BulkItemChanges) => void;
+  onAdjustPrices: (percent: number) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const NO_SECTION = '__none__';
+
+const FLAG_ACTIONS: { value: string; label: string; changes: BulkItemChanges }[] = [
+  { value: 'cost-on', label: 'Označit jako náklad', changes: { is_cost: true } },
+  { value: 'cost-off', label: 'Zrušit označení náklad', changes: { is_cost: false } },
+  { value: 'personnel-on', label: 'Označit jako personál', changes: { is_personnel: true } },
+  { value: 'personnel-off', label: 'Zrušit označení personál', changes: { is_personnel: false } },
+  ...(Object.keys(OPTIONAL_ITEM_KIND_LABELS) as OptionalItemKind[]).map(kind => ({
+    value: `offer-${kind}`,
+    label: `Typ nabídky: ${OPTIONAL_ITEM_KIND_LABELS[kind]}`,
+    changes: { offer_kind: kind }
+  }))
+];
+
+const selectClassName =
+  'rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30';
+
+export default function BudgetItemsBulkBar({
+  selectedCount,
+  categories,
+  sections,
+  onApply,
+  onAdjustPrices,
+  onDelete,
+  onClear
+}: BudgetItemsBulkBarProps) {
+  const [percent, setPercent] = useState('');
+  const percentValue = Number(percent.replace(',', '.'));
+  const canAdjustPrices = percent.trim() !== '' && Number.isFinite(percentValue) && percentValue !== 0 && percentValue > -100;
+
+  return (
+    <div className="sticky top-0 z-10 flex flex-col gap-3 rounded-2xl border border-[#0a192f]/20 bg-white/95 p-4 shadow-sm backdrop-blur xl:flex-row xl:items-center xl:justify-between">
+      <div className="flex items-center gap-2 text-sm font-semibold text-[#0a192f]">
+        <CheckSquare className="h-4 w-4" />
+        Vybráno {selectedCount} {selectedCount === 1 ? 'položka' : selectedCount < 5 ? 'položky' : 'položek'}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value=""
+          onChange={(e) => onApply({ category_id: e.target.value })}
+          className={selectClassName}
+          aria-label="Změnit kategorii vybraných položek"
+        >
+          <option value="" disabled>
+            Změnit kategorii…
+          </option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value=""
+          onChange={(e) => onApply({ section_id: e.target.value === NO_SECTION ? '' : e.target.value })}
+          className={selectClassName}
+          aria-label="Přesunout vybrané položky do pod-rozpočtu"
+        >
+          <option value="" disabled>
+            Přesunout do pod-rozpočtu…
+          </option>
+          <option value={NO_SECTION}>Bez pod-rozpočtu</option>
+          {sections.map((section) => (
+            <option key={section.id} value={section.id}>
+              {section.name || 'Pod-rozpočet'}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value=""
+          onChange={(e) => {
+            const action = FLAG_ACTIONS.find((entry) => entry.value === e.target.value);
+            if (action) onApply(action.changes);
+          }}
+          className={selectClassName}
+          aria-label="Nastavit příznak vybraných položek"
+        >
+          <option value="" disabled>
+            Nastavit příznak…
+          </option>
+          {FLAG_ACTIONS.map((action) => (
+            <option key={action.value} value={action.value}>
+              {action.label}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex items-center gap-1">
+          <div className="relative">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={percent}
+              onChange={(e) => setPercent(e.target.value)}
+              placeholder="+10"
+              className="w-20 rounded-lg border border-gray-200 py-2 pl-3 pr-7 text-right text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+              aria-label="Změna ceny v procentech"
+            />
+            <Percent className="pointer-events-none absolute right-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-gray-400" />
+          </div>
+          <button
+            type="button"
+            disabled={!canAdjustPrices}
+            onClick={() => {
+              onAdjustPrices(percentValue);
+              setPercent('');
+            }}
+            className="rounded-lg border border-[#0a192f]/20 px-3 py-2 text-sm font-medium text-[#0a192f] transition hover:bg-[#0a192f]/5 disabled:cursor-not-allowed disabled:opacity-50"
+            title="Změní cenu pro klienta za jednotku o zadané procento"
+          >
+            Upravit ceny
+          </button>
+        </div>
+
+        <button
+          type="button"
+          onClick={onDelete}
+          className="inline-flex items-center gap-2 rounded-lg border border-red-100 px-3 py-2 text-sm font-medium text-red-600 transition hover:bg-red-50"
+        >
+          <Trash2 className="h-4 w-4" />
+          Smazat
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          className="rounded-lg p-2 text-gray-500 transition hover:bg-gray-100"
+          aria-label="Zrušit výběr"
+          title="Zrušit výběr"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -14,11 +14,22 @@ import {
   Trash2,
   AlertTriangle,
   X,
-  Pencil
+  Pencil,
+  Copy,
+  GitBranch,
+  CalendarClock,
+  CalendarPlus,
+  CalendarX,
+  Search
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { ensureUserOrganization } from '../lib/organization';
 import { Budget } from '../types/database';
+import { CurrencyConverter, DEFAULT_CURRENCY, formatCurrency, loadCurrencyConverter } from '../lib/currency';
+import { fetchCatalogItems, getCatalogPriceChange } from '../lib/catalog';
+import { calculateBudgetPricing } from '../lib/budgetPricing';
+import { extendBudgetValidity, formatValidUntil, getBudgetValidityState } from '../lib/budgetValidity';
+import DuplicateBudgetModal from './DuplicateBudgetModal';
 
 interface BudgetListProps {
   onCreateNew: () => void;
@@ -33,15 +44,19 @@ interface BudgetWithStats extends Budget {
   internal_cost?: number;
   profit?: number;
   items_count?: number;
+  catalog_changes_count?: number;
 }
 
 export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, refreshSignal, activeOrganizationId }: BudgetListProps) {
   const [budgets, setBudgets] = useState<BudgetWithStats[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'draft' | 'sent' | 'approved' | 'rejected' | 'archived'>('all');
+  const [filter, setFilter] = useState<'all' | 'draft' | 'sent' | 'approved' | 'rejected' | 'expired' | 'archived'>('all');
   const [updatingBudgetId, setUpdatingBudgetId] = useState<string | null>(null);
   const [budgetToDelete, setBudgetToDelete] = useState<BudgetWithStats | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
+  const [budgetToDuplicate, setBudgetToDuplicate] = useState<BudgetWithStats | null>(null);
+  const [converter, setConverter] = useState<CurrencyConverter | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
 
   useEffect(() => {
     loadBudgets();
@@ -60,6 +75,8 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
       }
 
       const organizationId = await ensureUserOrganization(user.id, activeOrganizationId);
+      setConverter(await loadCurrencyConverter(organizationId));
+
       const { data: budgetsData, error: budgetsError } = await supabase
         .from('budgets')
         .select('*')
@@ -68,6 +85,10 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
 
       if (budgetsError) throw budgetsError;
 
+      const catalogById = new Map(
+        (await fetchCatalogItems(organizationId).catch(() => [])).map((entry) => [entry.id, entry])
+      );
+
       const budgetsWithStats = await Promise.all(
         (budgetsData || []).map(async (budget) => {
           const { data: items } = await supabase
@@ -75,10 +96,15 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
             .select('*')
             .eq('budget_id', budget.id);
 
-          const total_amount = items?.reduce((sum, item) => sum + (item.total_price || 0), 0) || 0;
-          const internal_cost = items?.reduce((sum, item) => sum + (item.internal_total_price || 0), 0) || 0;
-          const profit = total_amount - internal_cost;
+          const pricing = calculateBudgetPricing(items || [], budget.price_adjustments ?? []);
+          const total_amount = pricing.clientTotal;
+          const internal_cost = pricing.internalTotal;
+          const profit = pricing.profit;
           const items_count = items?.length || 0;
+          const catalog_changes_count =
+            budget.status === 'draft'
+              ? items?.filter((item) => getCatalogPriceChange(item, catalogById)).length || 0
+              : 0;
 
           return {
             ...budget,
@@ -87,7 +113,8 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
             total_amount,
             internal_cost,
             profit,
-            items_count
+            items_count,
+            catalog_changes_count
           };
         })
       );
@@ -106,6 +133,7 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
       case 'sent': return 'bg-blue-100 text-blue-800';
       case 'approved': return 'bg-green-100 text-green-800';
       case 'rejected': return 'bg-red-100 text-red-800';
+      case 'expired': return 'bg-amber-100 text-amber-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -116,6 +144,7 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
       case 'sent': return 'Odesláno';
       case 'approved': return 'Schváleno';
       case 'rejected': return 'Zamítnuto';
+      case 'expired': return 'Propadlo';
       default: return status;
     }
   };
@@ -126,6 +155,7 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
       case 'sent': return <Clock className="w-4 h-4" />;
       case 'approved': return <CheckCircle className="w-4 h-4" />;
       case 'rejected': return <FileText className="w-4 h-4" />;
+      case 'expired': return <CalendarX className="w-4 h-4" />;
       default: return <FileText className="w-4 h-4" />;
     }
   };
@@ -160,6 +190,26 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
     }
   };
 
+  const handleExtendValidity = async (budgetId: string) => {
+    try {
+      setUpdatingBudgetId(budgetId);
+      const updated = await extendBudgetValidity(budgetId);
+
+      setBudgets((prev) =>
+        prev.map((budget) =>
+          budget.id === budgetId
+            ? { ...budget, status: updated.status, valid_until: updated.valid_until, updated_at: updated.updated_at }
+            : budget
+        )
+      );
+    } catch (error) {
+      console.error('Error extending budget validity:', error);
+      alert('Nepodařilo se prodloužit platnost rozpočtu. Zkuste to prosím znovu.');
+    } finally {
+      setUpdatingBudgetId(null);
+    }
+  };
+
   const handleDeleteBudget = async () => {
     if (!budgetToDelete) return;
 
@@ -190,20 +240,42 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
     }
   };
 
+  const budgetNames = new Map(budgets.map((budget) => [budget.id, budget.name]));
   const activeBudgets = budgets.filter((budget) => !budget.archived);
   const archivedBudgets = budgets.filter((budget) => budget.archived);
 
-  const filteredBudgets = filter === 'archived'
+  const statusBudgets = filter === 'archived'
     ? archivedBudgets
     : filter === 'all'
       ? activeBudgets
       : activeBudgets.filter((budget) => budget.status === filter);
 
-  const totalRevenue = activeBudgets.reduce((sum, b) => sum + (b.total_amount || 0), 0);
-  const totalCosts = activeBudgets.reduce((sum, b) => sum + (b.internal_cost || 0), 0);
+  const normalizedSearch = searchTerm.trim().toLocaleLowerCase('cs');
+  const filteredBudgets = normalizedSearch
+    ? statusBudgets.filter((budget) =>
+        [budget.budget_number, budget.name, budget.client_name]
+          .filter(Boolean)
+          .some((value) => (value as string).toLocaleLowerCase('cs').includes(normalizedSearch))
+      )
+    : statusBudgets;
+  const hasNoSearchResults = Boolean(normalizedSearch) && statusBudgets.length > 0 && filteredBudgets.length === 0;
+
+  const baseCurrency = converter?.baseCurrency ?? DEFAULT_CURRENCY;
+  const convertibleBudgets = activeBudgets.filter(
+    (budget) => (converter?.convert(1, budget.currency, budget.created_at) ?? null) !== null
+  );
+  const unconvertedBudgetsCount = activeBudgets.length - convertibleBudgets.length;
+  const toBase = (budget: BudgetWithStats, amount: number) =>
+    converter?.convert(amount, budget.currency, budget.created_at) ?? 0;
+
+  const totalRevenue = convertibleBudgets.reduce((sum, b) => sum + toBase(b, b.total_amount || 0), 0);
+  const totalCosts = convertibleBudgets.reduce((sum, b) => sum + toBase(b, b.internal_cost || 0), 0);
   const totalProfit = totalRevenue - totalCosts;
 
   const emptyStateTitle = (() => {
+    if (hasNoSearchResults) {
+      return 'Žádný rozpočet neodpovídá hledání';
+    }
     if (filter === 'all') {
       return 'Zatím nemáte žádné rozpočty';
     }
@@ -241,8 +313,13 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
             <DollarSign className="w-5 h-5 text-green-600" />
           </div>
           <div className="text-2xl font-bold text-[#0a192f]">
-            {totalRevenue.toLocaleString('cs-CZ')} Kč
+            {formatCurrency(totalRevenue, baseCurrency)}
           </div>
+          {unconvertedBudgetsCount > 0 && (
+            <p className="mt-1 text-xs text-amber-600">
+              {unconvertedBudgetsCount} rozpočtů v cizí měně bez kurzu není započteno
+            </p>
+          )}
         </div>
 
         <div className="bg-white rounded-lg shadow p-6">
@@ -251,7 +328,7 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
             <TrendingUp className="w-5 h-5 text-red-600" />
           </div>
           <div className="text-2xl font-bold text-[#0a192f]">
-            {totalCosts.toLocaleString('cs-CZ')} Kč
+            {formatCurrency(totalCosts, baseCurrency)}
           </div>
         </div>
 
@@ -261,7 +338,7 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
             <TrendingUp className="w-5 h-5 text-blue-600" />
           </div>
           <div className="text-2xl font-bold text-green-600">
-            {totalProfit.toLocaleString('cs-CZ')} Kč
+            {formatCurrency(totalProfit, baseCurrency)}
           </div>
         </div>
 
@@ -328,6 +405,16 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
           >
             Zamítnuté ({activeBudgets.filter(b => b.status === 'rejected').length})
           </button>
+          <button
+            onClick={() => setFilter('expired')}
+            className={`px-4 py-2 rounded-lg transition ${
+              filter === 'expired'
+                ? 'bg-[#0a192f] text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Propadlé ({activeBudgets.filter(b => b.status === 'expired').length})
+          </button>
           <button
             onClick={() => setFilter('archived')}
             className={`px-4 py-2 rounded-lg transition ${
@@ -339,6 +426,16 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
             Archivované ({archivedBudgets.length})
           </button>
         </div>
+        <div className="relative mt-4">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Hledat podle čísla, názvu nebo klienta"
+            className="w-full rounded-lg border border-gray-300 py-2 pl-9 pr-4 focus:border-transparent focus:ring-2 focus:ring-[#0a192f]"
+          />
+        </div>
       </div>
 
       {filteredBudgets.length === 0 ? (
@@ -346,9 +443,11 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
           <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">{emptyStateTitle}</h3>
           <p className="text-gray-600 mb-6">
-            {filter === 'archived'
-              ? 'Archivujte hotové rozpočty pro přehlednější práci s aktivními zakázkami.'
-              : 'Vytvořte svůj první rozpočet a začněte spravovat zakázky'}
+            {hasNoSearchResults
+              ? 'Zkuste zadat jinou část čísla, názvu nebo jména klienta.'
+              : filter === 'archived'
+                ? 'Archivujte hotové rozpočty pro přehlednější práci s aktivními zakázkami.'
+                : 'Vytvořte svůj první rozpočet a začněte spravovat zakázky'}
           </p>
           <button
             onClick={onCreateNew}
@@ -359,132 +458,201 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
         </div>
       ) : (
         <div className="grid gap-4">
-          {filteredBudgets.map((budget) => (
-            <div
-              key={budget.id}
-              className="bg-white rounded-lg shadow hover:shadow-lg transition p-6 cursor-pointer"
-              onClick={() => onViewBudget(budget.id)}
-            >
-              <div className="flex justify-between items-start mb-4 gap-4">
-                <div className="flex-1">
-                  <div className="flex flex-wrap items-center gap-3 mb-2">
-                    <h3 className="text-xl font-semibold text-[#0a192f]">
-                      {budget.name}
-                    </h3>
-                    <span
-                      className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(budget.status)}`}
-                    >
-                      {getStatusIcon(budget.status)}
-                      {getStatusText(budget.status)}
-                    </span>
-                    {budget.archived && (
-                      <span className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
-                        <Archive className="w-4 h-4" />
-                        Archivováno
+          {filteredBudgets.map((budget) => {
+            const validity = getBudgetValidityState(budget);
+
+            return (
+              <div
+                key={budget.id}
+                className="bg-white rounded-lg shadow hover:shadow-lg transition p-6 cursor-pointer"
+                onClick={() => onViewBudget(budget.id)}
+              >
+                <div className="flex justify-between items-start mb-4 gap-4">
+                  <div className="flex-1">
+                    <div className="flex flex-wrap items-center gap-3 mb-2">
+                      {budget.budget_number && (
+                        <span className="font-mono text-sm text-gray-500">{budget.budget_number}</span>
+                      )}
+                      <h3 className="text-xl font-semibold text-[#0a192f]">
+                        {budget.name}
+                      </h3>
+                      <span
+                        className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(budget.status)}`}
+                      >
+                        {getStatusIcon(budget.status)}
+                        {getStatusText(budget.status)}
                       </span>
-                    )}
-                  </div>
-
-                  <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-4">
-                    <div className="flex items-center gap-2">
-                      <User className="w-4 h-4" />
-                      <span>{budget.client_name}</span>
+                      {budget.archived && (
+                        <span className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                          <Archive className="w-4 h-4" />
+                          Archivováno
+                        </span>
+                      )}
+                      {budget.revision_of && (
+                        <span
+                          className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800"
+                          title={
+                            budgetNames.get(budget.revision_of)
+                              ? `Revize rozpočtu „${budgetNames.get(budget.revision_of)}“`
+                              : 'Revize jiného rozpočtu'
+                          }
+                        >
+                          <GitBranch className="w-4 h-4" />
+                          Revize
+                        </span>
+                      )}
+                      {(budget.catalog_changes_count ?? 0) > 0 && (
+                        <span
+                          className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                          title="Ceny v ceníku se změnily od přidání položek do rozpočtu."
+                        >
+                          <AlertTriangle className="w-4 h-4" />
+                          Změna ceníku ({budget.catalog_changes_count})
+                        </span>
+                      )}
                     </div>
 
-                    {budget.client_email && (
+                    <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-4">
                       <div className="flex items-center gap-2">
-                        <span>{budget.client_email}</span>
+                        <User className="w-4 h-4" />
+                        <span>{budget.client_name}</span>
                       </div>
-                    )}
 
-                    <div className="flex items-center gap-2">
-                      <Calendar className="w-4 h-4" />
-                      <span>{new Date(budget.created_at).toLocaleDateString('cs-CZ')}</span>
-                    </div>
+                      {budget.client_email && (
+                        <div className="flex items-center gap-2">
+                          <span>{budget.client_email}</span>
+                        </div>
+                      )}
+
+                      <div className="flex items-center gap-2">
+                        <Calendar className="w-4 h-4" />
+                        <span>{new Date(budget.created_at).toLocaleDateString('cs-CZ')}</span>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        <FileText className="w-4 h-4" />
+                        <span>{budget.items_count} položek</span>
+                      </div>
 
-                    <div className="flex items-center gap-2">
-                      <FileText className="w-4 h-4" />
-                      <span>{budget.items_count} položek</span>
+                      {validity && budget.valid_until && (
+                        <div
+                          className={`flex items-center gap-2 ${
+                            validity === 'expired'
+                              ? 'text-red-600'
+                              : validity === 'expiring'
+                                ? 'font-medium text-amber-700'
+                                : ''
+                          }`}
+                        >
+                          <CalendarClock className="w-4 h-4" />
+                          <span>
+                            {validity === 'expired' ? 'Platnost vypršela' : 'Platí do'} {formatValidUntil(budget.valid_until)}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   </div>
-                </div>
 
-                <div className="flex gap-2">
-                  <button
-                    className="text-[#0a192f] hover:bg-gray-100 p-2 rounded-lg transition"
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      onViewBudget(budget.id);
-                    }}
-                    title="Zobrazit detail"
-                  >
-                    <Eye className="w-5 h-5" />
-                  </button>
-                  <button
-                    className="text-[#0a192f] hover:bg-gray-100 p-2 rounded-lg transition"
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      onEditBudget(budget.id);
-                    }}
-                    title="Upravit rozpočet"
-                  >
-                    <Pencil className="w-5 h-5" />
-                  </button>
-                  <button
-                    className="text-red-600 hover:bg-red-50 p-2 rounded-lg transition"
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      setBudgetToDelete(budget);
-                    }}
-                    title="Smazat rozpočet"
-                  >
-                    <Trash2 className="w-5 h-5" />
-                  </button>
-                  <button
-                    className="text-[#0a192f] hover:bg-gray-100 p-2 rounded-lg transition disabled:opacity-50"
-                    onClick={(event) => {
-                      event.stopPropagation();
-                      handleArchiveToggle(budget.id, !budget.archived);
-                    }}
-                    disabled={updatingBudgetId === budget.id}
-                    title={budget.archived ? 'Obnovit rozpočet' : 'Archivovat rozpočet'}
-                  >
-                    {budget.archived ? <ArchiveRestore className="w-5 h-5" /> : <Archive className="w-5 h-5" />}
-                  </button>
+                  <div className="flex gap-2">
+                    {(validity === 'expiring' || validity === 'expired') && (
+                      <button
+                        className="text-amber-700 hover:bg-amber-50 p-2 rounded-lg transition disabled:opacity-50"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          handleExtendValidity(budget.id);
+                        }}
+                        disabled={updatingBudgetId === budget.id}
+                        title="Prodloužit platnost nabídky"
+                      >
+                        <CalendarPlus className="w-5 h-5" />
+                      </button>
+                    )}
+                    <button
+                      className="text-[#0a192f] hover:bg-gray-100 p-2 rounded-lg transition"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        onViewBudget(budget.id);
+                      }}
+                      title="Zobrazit detail"
+                    >
+                      <Eye className="w-5 h-5" />
+                    </button>
+                    <button
+                      className="text-[#0a192f] hover:bg-gray-100 p-2 rounded-lg transition"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        onEditBudget(budget.id);
+                      }}
+                      title="Upravit rozpočet"
+                    >
+                      <Pencil className="w-5 h-5" />
+                    </button>
+                    <button
+                      className="text-[#0a192f] hover:bg-gray-100 p-2 rounded-lg transition"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        setBudgetToDuplicate(budget);
+                      }}
+                      title="Duplikovat rozpočet"
+                    >
+                      <Copy className="w-5 h-5" />
+                    </button>
+                    <button
+                      className="text-red-600 hover:bg-red-50 p-2 rounded-lg transition"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        setBudgetToDelete(budget);
+                      }}
+                      title="Smazat rozpočet"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                    <button
+                      className="text-[#0a192f] hover:bg-gray-100 p-2 rounded-lg transition disabled:opacity-50"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        handleArchiveToggle(budget.id, !budget.archived);
+                      }}
+                      disabled={updatingBudgetId === budget.id}
+                      title={budget.archived ? 'Obnovit rozpočet' : 'Archivovat rozpočet'}
+                    >
+                      {budget.archived ? <ArchiveRestore className="w-5 h-5" /> : <Archive className="w-5 h-5" />}
+                    </button>
+                  </div>
                 </div>
-              </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg">
-                <div>
-                  <div className="text-xs text-gray-600 mb-1">Cena pro klienta</div>
-                  <div className="text-lg font-bold text-[#0a192f]">
-                    {(budget.total_amount || 0).toLocaleString('cs-CZ')} Kč
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <div className="text-xs text-gray-600 mb-1">Cena pro klienta</div>
+                    <div className="text-lg font-bold text-[#0a192f]">
+                      {formatCurrency(budget.total_amount || 0, budget.currency)}
+                    </div>
                   </div>
-                </div>
 
-                <div>
-                  <div className="text-xs text-gray-600 mb-1">Interní náklady</div>
-                  <div className="text-lg font-bold text-red-600">
-                    {(budget.internal_cost || 0).toLocaleString('cs-CZ')} Kč
+                  <div>
+                    <div className="text-xs text-gray-600 mb-1">Interní náklady</div>
+                    <div className="text-lg font-bold text-red-600">
+                      {formatCurrency(budget.internal_cost || 0, budget.currency)}
+                    </div>
                   </div>
-                </div>
 
-                <div>
-                  <div className="text-xs text-gray-600 mb-1">Zisk</div>
-                  <div className="text-lg font-bold text-green-600">
-                    {(budget.profit || 0).toLocaleString('cs-CZ')} Kč
+                  <div>
+                    <div className="text-xs text-gray-600 mb-1">Zisk</div>
+                    <div className="text-lg font-bold text-green-600">
+                      {formatCurrency(budget.profit || 0, budget.currency)}
+                    </div>
                   </div>
-                </div>
 
-                <div>
-                  <div className="text-xs text-gray-600 mb-1">Marže</div>
-                  <div className="text-lg font-bold text-blue-600">
-                    {budget.total_amount ? ((budget.profit || 0) / budget.total_amount * 100).toFixed(1) : 0}%
+                  <div>
+                    <div className="text-xs text-gray-600 mb-1">Marže</div>
+                    <div className="text-lg font-bold text-blue-600">
+                      {budget.total_amount ? ((budget.profit || 0) / budget.total_amount * 100).toFixed(1) : 0}%
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
 
@@ -525,7 +693,7 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
                 <div className="rounded-lg border border-gray-200 bg-white p-3">
                   <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Celková částka</p>
                   <p className="text-sm font-semibold text-[#0a192f]">
-                    {(budgetToDelete.total_amount || 0).toLocaleString('cs-CZ')} Kč
+                    {formatCurrency(budgetToDelete.total_amount || 0, budgetToDelete.currency)}
                   </p>
                 </div>
                 <div className="rounded-lg border border-gray-200 bg-white p-3">
@@ -561,6 +729,17 @@ export default function BudgetList({ onCreateNew, onEditBudget, onViewBudget, re
           </div>
         </div>
       )}
+
+      {budgetToDuplicate && (
+        <DuplicateBudgetModal
+          budget={budgetToDuplicate}
+          onClose={() => setBudgetToDuplicate(null)}
+          onDuplicated={(budgetId) => {
+            setBudgetToDuplicate(null);
+            onEditBudget(budgetId);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,113 @@
+import { AlertTriangle, GitMerge, RotateCcw, Save, X } from 'lucide-react';
+
+interface BudgetSaveConflictModalProps {
+  savedBy: string | null;
+  savedAt: string | null;
+  /** Places both sides changed; merging keeps the local version of them. */
+  mergeConflicts: string[];
+  busy: boolean;
+  onMerge: () => void;
+  onOverwrite: () => void;
+  onReload: () => void;
+  onClose: () => void;
+}
+
+const MAX_LISTED_CONFLICTS = 8;
+
+export default function BudgetSaveConflictModal({
+  savedBy,
+  savedAt,
+  mergeConflicts,
+  busy,
+  onMerge,
+  onOverwrite,
+  onReload,
+  onClose
+}: BudgetSaveConflictModalProps) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4 py-6 backdrop-blur-sm"
+      onClick={() => (busy ? null : onClose())}
+    >
+      <div className="w-full max-w-xl rounded-2xl bg-white p-6 shadow-2xl" onClick={(event) => event.stopPropagation()}>
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-amber-100 text-amber-700">
+              <AlertTriangle className="h-5 w-5" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-[#0a192f]">Rozpočet mezitím uložil někdo jiný</h3>
+              <p className="text-sm text-gray-600">
+                {savedBy || 'Jiný uživatel'}
+                {savedAt ? ` – ${new Date(savedAt).toLocaleString('cs-CZ')}` : ''}. Vaše uložení by jeho změny
+                přepsalo.
+              </p>
+            </div>
+          </div>
+          <button
+            type="button"
+            className="rounded-full border border-gray-200 p-1 text-gray-500 transition hover:border-gray-300 hover:text-gray-700"
+            onClick={onClose}
+            disabled={busy}
+            aria-label="Zavřít"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="mt-6 space-y-3">
+          <button
+            type="button"
+            onClick={onMerge}
+            disabled={busy}
+            className="flex w-full items-start gap-3 rounded-xl border border-[#0a192f]/20 p-4 text-left transition hover:border-[#0a192f] hover:bg-[#0a192f]/5 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <GitMerge className="mt-0.5 h-5 w-5 flex-shrink-0 text-[#0a192f]" />
+            <span className="space-y-1">
+              <span className="block text-sm font-semibold text-[#0a192f]">Sloučit změny</span>
+              <span className="block text-xs text-gray-600">
+                Převezme uložené změny a ponechá vaše úpravy. Výsledek zkontrolujte a uložte znovu.
+              </span>
+              {mergeConflicts.length > 0 && (
+                <span className="block rounded-lg bg-amber-50 p-2 text-xs text-amber-800">
+                  Stejná místa jste upravili oba, ponechána bude vaše verze:
+                  <span className="mt-1 block">
+                    {mergeConflicts.slice(0, MAX_LISTED_CONFLICTS).join(', ')}
+                    {mergeConflicts.length > MAX_LISTED_CONFLICTS &&
+                      ` a dalších ${mergeConflicts.length - MAX_LISTED_CONFLICTS}`}
+                  </span>
+                </span>
+              )}
+            </span>
+          </button>
+
+          <button
+            type="button"
+            onClick={onOverwrite}
+            disabled={busy}
+            className="flex w-full items-start gap-3 rounded-xl border border-red-100 p-4 text-left transition hover:border-red-300 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <Save className="mt-0.5 h-5 w-5 flex-shrink-0 text-red-600" />
+            <span className="space-y-1">
+              <span className="block text-sm font-semibold text-red-700">Přepsat mou verzí</span>
+              <span className="block text-xs text-gray-600">Uloží rozpočet tak, jak je teď v editoru. Cizí změny se ztratí.</span>
+            </span>
+          </button>
+
+          <button
+            type="button"
+            onClick={onReload}
+            disabled={busy}
+            className="flex w-full items-start gap-3 rounded-xl border border-gray-200 p-4 text-left transition hover:border-gray-300 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <RotateCcw className="mt-0.5 h-5 w-5 flex-shrink-0 text-gray-600" />
+            <span className="space-y-1">
+              <span className="block text-sm font-semibold text-gray-800">Zahodit mé změny</span>
+              <span className="block text-xs text-gray-600">Načte uloženou verzi rozpočtu do editoru.</span>
+            </span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Ban, CheckCircle, Copy, Link2, Loader2, MessageSquare, Plus, XCircle } from 'lucide-react';
+
+import {
+  createBudgetShareLink,
+  fetchBudgetClientFeedback,
+  fetchBudgetShareLinks,
+  getShareUrl,
+  isShareLinkActive,
+  revokeBudgetShareLink
+} from '../lib/budgetSharing';
+import { formatCurrency } from '../lib/currency';
+import { Budget, BudgetClientFeedback, BudgetShareLink } from '../types/database';
+
+interface BudgetShareLinksProps {
+  budget: Budget;
+  onStatusChanged: () => void;
+}
+
+const feedbackIcons: Record<BudgetClientFeedback['kind'], JSX.Element> = {
+  comment: <MessageSquare className="h-4 w-4 text-gray-400" />,
+  approved: <CheckCircle className="h-4 w-4 text-green-600" />,
+  rejected: <XCircle className="h-4 w-4 text-red-600" />
+};
+
+const feedbackLabels: Record<BudgetClientFeedback['kind'], string> = {
+  comment: 'Komentář',
+  approved: 'Schválil(a) rozpočet',
+  rejected: 'Zamítl(a) rozpočet'
+};
+
+export default function BudgetShareLinks({ budget, onStatusChanged }: BudgetShareLinksProps) {
+  const [links, setLinks] = useState<BudgetShareLink[]>([]);
+  const [feedback, setFeedback] = useState<BudgetClientFeedback[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [linkList, feedbackList] = await Promise.all([
+        fetchBudgetShareLinks(budget.id),
+        fetchBudgetClientFeedback(budget.id)
+      ]);
+
+      setLinks(linkList);
+      setFeedback(feedbackList);
+    } catch (err) {
+      console.error('Error loading share links:', err);
+      setError('Nepodařilo se načíst odkazy pro klienta.');
+    } finally {
+      setLoading(false);
+    }
+  }, [budget.id]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true);
+      await createBudgetShareLink(budget.id);
+      await loadLinks();
+
+      if (budget.status === 'draft') {
+        onStatusChanged();
+      }
+    } catch (err) {
+      console.error('Error creating share link:', err);
+      alert('Odkaz se nepodařilo vytvořit. Zkuste to prosím znovu.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: BudgetShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.token));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(current => (current === link.id ? null : current)), 2000);
+    } catch (err) {
+      console.error('Error copying share link:', err);
+      prompt('Zkopírujte odkaz:', getShareUrl(link.token));
+    }
+  };
+
+  const handleRevoke = async (link: BudgetShareLink) => {
+    if (!confirm('Opravdu chcete odkaz zneplatnit? Klient jej už nebude moci otevřít.')) return;
+
+    try {
+      await revokeBudgetShareLink(link.id);
+      await loadLinks();
+    } catch (err) {
+      console.error('Error revoking share link:', err);
+      alert('Odkaz se nepodařilo zneplatnit.');
+    }
+  };
+
+  return (
+    <div className="rounded-xl bg-white shadow">
+      <div className="flex flex-col gap-3 border-b border-gray-100 px-6 py-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <Link2 className="h-5 w-5 text-[#0a192f]" />
+          <h2 className="text-lg font-semibold text-[#0a192f]">Schválení klientem</h2>
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={creating}
+          className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          Vytvořit odkaz pro klienta
+        </button>
+      </div>
+
+      {budget.client_decision_at && (
+        <div
+          className={`px-6 py-3 text-sm ${
+            budget.status === 'approved' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          Klient {budget.client_decision_by || '—'}
+          {budget.client_decision_email ? ` (${budget.client_decision_email})` : ''}{' '}
+          {budget.status === 'approved' ? 'schválil' : 'zamítl'} rozpočet{' '}
+          {new Date(budget.client_decision_at).toLocaleString('cs-CZ')}
+          {budget.status === 'approved' && budget.client_approved_total !== null && budget.client_approved_total !== undefined
+            ? ` v částce ${formatCurrency(budget.client_approved_total, budget.currency)} bez DPH`
+            : ''}
+          .
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center px-6 py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-[#0a192f]" />
+        </div>
+      ) : error ? (
+        <div className="px-6 py-5 text-sm text-red-700">{error}</div>
+      ) : (
+        <>
+          {links.length === 0 ? (
+            <div className="px-6 py-5 text-sm text-gray-500">
+              Zatím nebyl vytvořen žádný odkaz. Klient na odkazu uvidí rozpočet bez interních nákladů a může jej schválit,
+              zamítnout nebo okomentovat.
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {links.map(link => {
+                const active = isShareLinkActive(link);
+
+                return (
+                  <div key={link.id} className="flex flex-col gap-2 px-6 py-3 text-sm sm:flex-row sm:items-center sm:justify-between">
+                    <div>
+                      <div className={`font-mono text-xs ${active ? 'text-[#0a192f]' : 'text-gray-400 line-through'}`}>
+                        {getShareUrl(link.token)}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Vytvořeno {new Date(link.created_at).toLocaleDateString('cs-CZ')} ·{' '}
+                        {link.revoked_at
+                          ? `zneplatněno ${new Date(link.revoked_at).toLocaleDateString('cs-CZ')}`
+                          : `${active ? 'platí do' : 'platnost vypršela'} ${new Date(link.expires_at).toLocaleDateString('cs-CZ')}`}
+                      </div>
+                    </div>
+                    {active && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleCopy(link)}
+                          className="inline-flex items-center gap-1 rounded-lg border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 transition hover:bg-gray-50"
+                        >
+                          <Copy className="h-3.5 w-3.5" />
+                          {copiedId === link.id ? 'Zkopírováno' : 'Kopírovat'}
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(link)}
+                          className="inline-flex items-center gap-1 rounded-lg border border-red-200 px-3 py-1.5 text-xs font-medium text-red-700 transition hover:bg-red-50"
+                        >
+                          <Ban className="h-3.5 w-3.5" />
+                          Zneplatnit
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {feedback.length > 0 && (
+            <div className="border-t border-gray-100 px-6 py-4 space-y-3">
+              <h3 className="text-sm font-semibold text-[#0a192f]">Reakce klienta</h3>
+              {feedback.map(entry => (
+                <div key={entry.id} className="flex gap-3 text-sm">
+                  {feedbackIcons[entry.kind]}
+                  <div>
+                    <div className="text-gray-500">
+                      <span className="font-medium text-[#0a192f]">{entry.author_name}</span>
+                      {entry.author_email ? ` (${entry.author_email})` : ''} · {feedbackLabels[entry.kind]} ·{' '}
+                      {new Date(entry.created_at).toLocaleString('cs-CZ')}
+                    </div>
+                    {entry.message && <p className="mt-1 text-gray-700">{entry.message}</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,436 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowRight, GitCompare, History, Loader2, RotateCcw, X } from 'lucide-react';
+
+import { supabase } from '../lib/supabase';
+import { DEFAULT_CURRENCY, formatCurrency } from '../lib/currency';
+import {
+  BudgetItemChange,
+  BudgetVersionDiff,
+  BudgetVersionSummary,
+  ComparedItemField,
+  diffBudgetSnapshots,
+  fetchBudgetVersion,
+  fetchBudgetVersions,
+  restoreBudgetVersion
+} from '../lib/budgetVersions';
+import { Budget, BudgetItem, BudgetSnapshot } from '../types/database';
+
+interface BudgetVersionHistoryProps {
+  budgetId: string;
+  activeOrganizationId: string | null;
+  onRestored: () => void;
+}
+
+interface ComparedVersions {
+  base: BudgetVersionSummary & { snapshot: BudgetSnapshot };
+  target: BudgetVersionSummary & { snapshot: BudgetSnapshot };
+  diff: BudgetVersionDiff;
+  baseCurrency: string;
+  targetCurrency: string;
+}
+
+const formatSignedCurrency = (value: number, currency: string) => `${value > 0 ? '+' : ''}${formatCurrency(value, currency)}`;
+
+const statusLabels: Record<Budget['status'], string> = {
+  draft: 'Koncept',
+  sent: 'Odesláno',
+  approved: 'Schváleno',
+  rejected: 'Zamítnuto',
+  expired: 'Propadlo'
+};
+
+const fieldLabels: Record<ComparedItemField, string> = {
+  item_name: 'Název',
+  section_id: 'Sekce',
+  category_id: 'Kategorie',
+  unit: 'Jednotka',
+  quantity: 'Množství',
+  price_per_unit: 'Cena / jednotka',
+  total_price: 'Cena celkem',
+  internal_quantity: 'Interní množství',
+  internal_price_per_unit: 'Interní cena / jednotka',
+  internal_total_price: 'Interní náklady',
+  vat_rate: 'Sazba DPH',
+  markup_percent: 'Přirážka (%)',
+  is_optional: 'Volitelná',
+  alternative_group: 'Skupina variant',
+  client_selected: 'Vybráno klientem',
+  notes: 'Poznámka',
+  is_cost: 'Náklad',
+  is_personnel: 'Personální'
+};
+
+const currencyFields: ComparedItemField[] = [
+  'price_per_unit',
+  'total_price',
+  'internal_price_per_unit',
+  'internal_total_price'
+];
+
+export default function BudgetVersionHistory({ budgetId, activeOrganizationId, onRestored }: BudgetVersionHistoryProps) {
+  const [versions, setVersions] = useState<BudgetVersionSummary[]>([]);
+  const [authorEmails, setAuthorEmails] = useState<Map<string, string | null>>(new Map());
+  const [categoryNames, setCategoryNames] = useState<Map<string, string>>(new Map());
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<ComparedVersions | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comparing, setComparing] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const data = await fetchBudgetVersions(budgetId);
+      setVersions(data);
+
+      const authorIds = Array.from(new Set(data.map(version => version.created_by).filter(Boolean))) as string[];
+
+      if (authorIds.length > 0) {
+        const { data: emailsData, error: emailsError } = await supabase.rpc('get_users_emails', {
+          user_ids: authorIds
+        });
+
+        if (emailsError) {
+          console.error('Error loading version authors:', emailsError);
+        }
+
+        setAuthorEmails(
+          new Map(
+            ((emailsData ?? []) as { user_id: string; email: string | null }[]).map(entry => [
+              entry.user_id,
+              entry.email
+            ])
+          )
+        );
+      }
+    } catch (err) {
+      console.error('Error loading budget versions:', err);
+      setError('Nepodařilo se načíst historii verzí.');
+    } finally {
+      setLoading(false);
+    }
+  }, [budgetId]);
+
+  useEffect(() => {
+    setSelectedIds([]);
+    setComparison(null);
+    loadVersions();
+  }, [loadVersions]);
+
+  useEffect(() => {
+    if (!activeOrganizationId) return;
+
+    const loadCategories = async () => {
+      const { data, error: categoriesError } = await supabase
+        .from('categories')
+        .select('id, name')
+        .eq('organization_id', activeOrganizationId);
+
+      if (categoriesError) {
+        console.error('Error loading categories:', categoriesError);
+        return;
+      }
+
+      setCategoryNames(new Map(((data ?? []) as { id: string; name: string }[]).map(category => [category.id, category.name])));
+    };
+
+    loadCategories();
+  }, [activeOrganizationId]);
+
+  const latestVersionId = versions[0]?.id ?? null;
+
+  const toggleSelection = (versionId: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(versionId)) {
+        return prev.filter(id => id !== versionId);
+      }
+
+      return [...prev, versionId].slice(-2);
+    });
+  };
+
+  const handleCompare = async () => {
+    if (selectedIds.length !== 2) return;
+
+    try {
+      setComparing(true);
+
+      const [first, second] = await Promise.all(selectedIds.map(fetchBudgetVersion));
+      const [base, target] = first.version_number < second.version_number ? [first, second] : [second, first];
+
+      setComparison({
+        base,
+        target,
+        diff: diffBudgetSnapshots(base.snapshot, target.snapshot),
+        baseCurrency: base.currency ?? DEFAULT_CURRENCY,
+        targetCurrency: target.currency ?? DEFAULT_CURRENCY
+      });
+    } catch (err) {
+      console.error('Error comparing budget versions:', err);
+      alert('Nepodařilo se porovnat vybrané verze.');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleRestore = async (version: BudgetVersionSummary) => {
+    if (!confirm(`Obnovit rozpočet na verzi ${version.version_number}? Stav rozpočtu se nezmění a aktuální obsah zůstane uložen v historii.`)) {
+      return;
+    }
+
+    try {
+      setRestoringId(version.id);
+      await restoreBudgetVersion(version.id);
+      setSelectedIds([]);
+      setComparison(null);
+      await loadVersions();
+      onRestored();
+    } catch (err) {
+      console.error('Error restoring budget version:', err);
+      alert('Nepodařilo se obnovit vybranou verzi.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const formatFieldValue = useCallback(
+    (item: BudgetItem, field: ComparedItemField, snapshot: BudgetSnapshot) => {
+      const value = item[field];
+
+      if (field === 'vat_rate') {
+        return value === null || value === undefined ? 'Výchozí' : `${Number(value).toLocaleString('cs-CZ')} %`;
+      }
+      if (value === null || value === undefined || value === '') return '—';
+      if (typeof value === 'boolean') return value ? 'Ano' : 'Ne';
+      if (field === 'section_id') {
+        return snapshot.sections.find(section => section.id === value)?.name ?? '—';
+      }
+      if (field === 'category_id') {
+        return categoryNames.get(String(value)) ?? '—';
+      }
+      if (currencyFields.includes(field)) {
+        return formatCurrency(Number(value), snapshot.budget.currency ?? DEFAULT_CURRENCY);
+      }
+      if (typeof value === 'number') return value.toLocaleString('cs-CZ');
+
+      return String(value);
+    },
+    [categoryNames]
+  );
+
+  const totalsDelta = useMemo(() => {
+    if (!comparison) return null;
+
+    const { before, after } = comparison.diff;
+
+    return {
+      clientTotal: after.clientTotal - before.clientTotal,
+      margin: after.margin - before.margin
+    };
+  }, [comparison]);
+
+  const renderChange = (change: BudgetItemChange) => {
+    if (!comparison) return null;
+
+    return (
+      <div key={change.after.id} className="rounded-lg border border-amber-200 bg-amber-50/40">
+        <div className="border-b border-amber-100 px-4 py-2 text-sm font-semibold text-[#0a192f]">
+          {change.after.item_name || change.before.item_name}
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+              <th className="px-4 py-2 font-medium">Pole</th>
+              <th className="px-4 py-2 font-medium">Verze {comparison.base.version_number}</th>
+              <th className="px-4 py-2 font-medium">Verze {comparison.target.version_number}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-amber-100">
+            {change.fields.map(field => (
+              <tr key={field}>
+                <td className="px-4 py-2 text-gray-600">{fieldLabels[field]}</td>
+                <td className="px-4 py-2 text-red-700 line-through decoration-red-300">
+                  {formatFieldValue(change.before, field, comparison.base.snapshot)}
+                </td>
+                <td className="px-4 py-2 font-medium text-green-700">
+                  {formatFieldValue(change.after, field, comparison.target.snapshot)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded-xl bg-white shadow">
+      <div className="flex flex-col gap-3 border-b border-gray-100 px-6 py-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-[#0a192f]" />
+          <h2 className="text-lg font-semibold text-[#0a192f]">Historie verzí</h2>
+        </div>
+        <button
+          onClick={handleCompare}
+          disabled={selectedIds.length !== 2 || comparing}
+          className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {comparing ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitCompare className="h-4 w-4" />}
+          Porovnat vybrané ({selectedIds.length}/2)
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center px-6 py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-[#0a192f]" />
+        </div>
+      ) : error ? (
+        <div className="px-6 py-5 text-sm text-red-700">{error}</div>
+      ) : versions.length === 0 ? (
+        <div className="px-6 py-5 text-sm text-gray-500">
+          Zatím nebyla uložena žádná verze. Verze vznikne při každém uložení rozpočtu.
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {versions.map(version => (
+            <div key={version.id} className="flex flex-col gap-3 px-6 py-4 md:flex-row md:items-center md:justify-between">
+              <label className="flex flex-1 cursor-pointer items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(version.id)}
+                  onChange={() => toggleSelection(version.id)}
+                  className="h-4 w-4 rounded border-gray-300 text-[#0a192f] focus:ring-[#0a192f]"
+                />
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-[#0a192f]">Verze {version.version_number}</span>
+                    <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                      {statusLabels[version.status] ?? version.status}
+                    </span>
+                    {version.id === latestVersionId && (
+                      <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">Aktuální</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {new Date(version.created_at).toLocaleString('cs-CZ')}
+                    {version.created_by && authorEmails.get(version.created_by)
+                      ? ` · ${authorEmails.get(version.created_by)}`
+                      : ''}
+                  </p>
+                </div>
+              </label>
+              <div className="flex items-center gap-4">
+                <span className="text-sm font-semibold text-[#0a192f]">{formatCurrency(Number(version.client_total), version.currency ?? DEFAULT_CURRENCY)}</span>
+                {version.id !== latestVersionId && (
+                  <button
+                    onClick={() => handleRestore(version)}
+                    disabled={restoringId !== null}
+                    className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {restoringId === version.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4" />
+                    )}
+                    Obnovit
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {comparison && totalsDelta && (
+        <div className="space-y-4 border-t border-gray-100 px-6 py-5">
+          <div className="flex items-center justify-between">
+            <h3 className="flex items-center gap-2 text-base font-semibold text-[#0a192f]">
+              Verze {comparison.base.version_number}
+              <ArrowRight className="h-4 w-4" />
+              Verze {comparison.target.version_number}
+            </h3>
+            <button
+              onClick={() => setComparison(null)}
+              className="rounded-lg p-1 text-gray-500 transition hover:bg-gray-100"
+              aria-label="Zavřít porovnání"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-xs uppercase tracking-wide text-gray-500">Cena pro klienta</p>
+              <p className="mt-1 text-sm text-gray-600">
+                {formatCurrency(comparison.diff.before.clientTotal, comparison.baseCurrency)} →{' '}
+                {formatCurrency(comparison.diff.after.clientTotal, comparison.targetCurrency)}
+              </p>
+              <p className={`text-lg font-bold ${totalsDelta.clientTotal >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatSignedCurrency(totalsDelta.clientTotal, comparison.targetCurrency)}
+              </p>
+              {comparison.baseCurrency !== comparison.targetCurrency && (
+                <p className="mt-1 text-xs text-amber-700">Verze mají rozdílnou měnu, rozdíl není přepočten kurzem.</p>
+              )}
+            </div>
+            <div className="rounded-lg bg-gray-50 p-4">
+              <p className="text-xs uppercase tracking-wide text-gray-500">Marže</p>
+              <p className="mt-1 text-sm text-gray-600">
+                {comparison.diff.before.margin.toFixed(1)}% → {comparison.diff.after.margin.toFixed(1)}%
+              </p>
+              <p className={`text-lg font-bold ${totalsDelta.margin >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {totalsDelta.margin > 0 ? '+' : ''}
+                {totalsDelta.margin.toFixed(1)} p. b.
+              </p>
+            </div>
+          </div>
+
+          {comparison.diff.added.length === 0 &&
+          comparison.diff.removed.length === 0 &&
+          comparison.diff.changed.length === 0 ? (
+            <p className="text-sm text-gray-500">Položky se mezi verzemi nezměnily.</p>
+          ) : (
+            <div className="space-y-4">
+              {comparison.diff.added.length > 0 && (
+                <div>
+                  <p className="mb-2 text-sm font-semibold text-green-700">Přidané položky ({comparison.diff.added.length})</p>
+                  <ul className="divide-y divide-green-100 rounded-lg border border-green-200 bg-green-50/40 text-sm">
+                    {comparison.diff.added.map(item => (
+                      <li key={item.id} className="flex justify-between px-4 py-2">
+                        <span className="text-[#0a192f]">{item.item_name}</span>
+                        <span className="font-medium text-green-700">{formatCurrency(Number(item.total_price ?? 0), comparison.targetCurrency)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {comparison.diff.removed.length > 0 && (
+                <div>
+                  <p className="mb-2 text-sm font-semibold text-red-700">Odebrané položky ({comparison.diff.removed.length})</p>
+                  <ul className="divide-y divide-red-100 rounded-lg border border-red-200 bg-red-50/40 text-sm">
+                    {comparison.diff.removed.map(item => (
+                      <li key={item.id} className="flex justify-between px-4 py-2">
+                        <span className="text-[#0a192f] line-through">{item.item_name}</span>
+                        <span className="font-medium text-red-700">{formatCurrency(Number(item.total_price ?? 0), comparison.baseCurrency)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {comparison.diff.changed.length > 0 && (
+                <div>
+                  <p className="mb-2 text-sm font-semibold text-amber-700">Změněné položky ({comparison.diff.changed.length})</p>
+                  <div className="space-y-3">{comparison.diff.changed.map(renderChange)}</div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
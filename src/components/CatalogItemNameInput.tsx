@@ -0,0 +1,94 @@
+import { useMemo, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+
+import { searchCatalogItems } from '../lib/catalog';
+import { CatalogItem } from '../types/database';
+
+interface CatalogItemNameInputProps {
+  value: string;
+  catalogItems: CatalogItem[];
+  onChange: (value: string) => void;
+  onSelect: (entry: CatalogItem) => void;
+  formatMoney: (value: number) => string;
+  placeholder?: string;
+  className?: string;
+}
+
+export default function CatalogItemNameInput({
+  value,
+  catalogItems,
+  onChange,
+  onSelect,
+  formatMoney,
+  placeholder,
+  className
+}: CatalogItemNameInputProps) {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const suggestions = useMemo(() => searchCatalogItems(catalogItems, value), [catalogItems, value]);
+  const showSuggestions = open && suggestions.length > 0;
+
+  const select = (entry: CatalogItem) => {
+    onSelect(entry);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((prev) => (prev + step + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      select(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={className}
+        autoComplete="off"
+      />
+      {showSuggestions && (
+        <ul className="absolute left-0 right-0 z-20 mt-1 max-h-64 overflow-y-auto rounded-lg border border-gray-200 bg-white py-1 text-sm shadow-lg lg:min-w-[18rem]">
+          {suggestions.map((entry, index) => (
+            <li key={entry.id}>
+              <button
+                type="button"
+                // Selecting on mouse down keeps the input from losing focus and closing the list first.
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  select(entry);
+                }}
+                className={`flex w-full items-center justify-between gap-3 px-3 py-2 text-left ${
+                  index === highlighted ? 'bg-[#0a192f]/5 text-[#0a192f]' : 'text-gray-700'
+                }`}
+              >
+                <span className="font-medium">{entry.name}</span>
+                <span className="whitespace-nowrap text-xs text-gray-500">
+                  {formatMoney(entry.price_per_unit)} / {entry.unit}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
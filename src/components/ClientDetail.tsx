@@ -0,0 +1,344 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Briefcase, Building2, FileText, Loader2, Mail, Pencil, Phone, Receipt, Star, Trash2 } from 'lucide-react';
+
+import {
+  ClientActivity,
+  ClientRevenue,
+  ClientWithContacts,
+  deleteClient,
+  fetchClient,
+  fetchClientActivity,
+  formatClientAddress,
+  summarizeClientRevenue
+} from '../lib/clients';
+import { formatCurrency, loadCurrencyConverter } from '../lib/currency';
+import { Budget, Project } from '../types/database';
+import ClientFormModal from './ClientFormModal';
+
+interface ClientDetailProps {
+  clientId: string;
+  organizationId: string;
+  onBack: () => void;
+  onViewBudget: (budgetId: string) => void;
+  onChanged: () => void;
+}
+
+const budgetStatusMeta: Record<Budget['status'], { label: string; className: string }> = {
+  draft: { label: 'Koncept', className: 'bg-gray-100 text-gray-800' },
+  sent: { label: 'Odesláno', className: 'bg-blue-100 text-blue-800' },
+  approved: { label: 'Schváleno', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Zamítnuto', className: 'bg-red-100 text-red-800' },
+  expired: { label: 'Propadlo', className: 'bg-amber-100 text-amber-800' }
+};
+
+const projectStatusMeta: Record<Project['status'], { label: string; className: string }> = {
+  planning: { label: 'Plánování', className: 'bg-gray-100 text-gray-800' },
+  active: { label: 'Aktivní', className: 'bg-blue-100 text-blue-800' },
+  completed: { label: 'Dokončeno', className: 'bg-green-100 text-green-800' },
+  'on-hold': { label: 'Pozastaveno', className: 'bg-yellow-100 text-yellow-800' },
+  cancelled: { label: 'Zrušeno', className: 'bg-red-100 text-red-800' }
+};
+
+export default function ClientDetail({ clientId, organizationId, onBack, onViewBudget, onChanged }: ClientDetailProps) {
+  const [client, setClient] = useState<ClientWithContacts | null>(null);
+  const [activity, setActivity] = useState<ClientActivity | null>(null);
+  const [revenue, setRevenue] = useState<ClientRevenue | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState('CZK');
+  const [showForm, setShowForm] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadClient = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [clientData, activityData, converter] = await Promise.all([
+        fetchClient(clientId),
+        fetchClientActivity(clientId),
+        loadCurrencyConverter(organizationId)
+      ]);
+
+      setClient(clientData);
+      setActivity(activityData);
+      setRevenue(summarizeClientRevenue(activityData.invoices, converter));
+      setBaseCurrency(converter.baseCurrency);
+    } catch (err) {
+      console.error('Error loading client:', err);
+      setError('Klienta se nepodařilo načíst.');
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId, organizationId]);
+
+  useEffect(() => {
+    loadClient();
+  }, [loadClient]);
+
+  const handleDelete = async () => {
+    if (!client) return;
+    if (!confirm(`Opravdu chcete klienta „${client.name}“ smazat? Rozpočty a projekty zůstanou, jen bez vazby na klienta.`)) {
+      return;
+    }
+
+    try {
+      await deleteClient(client.id);
+      onChanged();
+      onBack();
+    } catch (err) {
+      console.error('Error deleting client:', err);
+      alert('Klienta se nepodařilo smazat. Mazat mohou jen vlastníci a správci týmu.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-[#0a192f]" />
+      </div>
+    );
+  }
+
+  if (error || !client || !activity) {
+    return (
+      <div className="space-y-4">
+        <button onClick={onBack} className="inline-flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-[#0a192f]">
+          <ArrowLeft className="h-4 w-4" />
+          Zpět na klienty
+        </button>
+        <div className="rounded-xl border border-red-200 bg-red-50 p-6 text-red-700">{error ?? 'Klient nebyl nalezen.'}</div>
+      </div>
+    );
+  }
+
+  const address = formatClientAddress(client);
+  const billedTotals = activity.billedExpenses.reduce<Record<string, number>>((totals, expense) => {
+    const currency = expense.currency || 'CZK';
+    totals[currency] = (totals[currency] ?? 0) + (Number(expense.amount) || 0);
+    return totals;
+  }, {});
+
+  return (
+    <div className="space-y-6">
+      <button onClick={onBack} className="inline-flex items-center gap-2 text-sm font-medium text-gray-600 hover:text-[#0a192f]">
+        <ArrowLeft className="h-4 w-4" />
+        Zpět na klienty
+      </button>
+
+      <div className="rounded-xl bg-white p-6 shadow">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div className="flex items-start gap-4">
+            <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-[#0a192f]/10 text-[#0a192f]">
+              <Building2 className="h-6 w-6" />
+            </div>
+            <div className="space-y-1">
+              <h1 className="text-2xl font-bold text-[#0a192f]">{client.name}</h1>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                {client.company_id && <span>IČO {client.company_id}</span>}
+                {client.vat_id && <span>DIČ {client.vat_id}</span>}
+                {client.is_vat_payer !== null && client.is_vat_payer !== undefined && (
+                  <span>{client.is_vat_payer ? 'Plátce DPH' : 'Neplátce DPH'}</span>
+                )}
+                {address && <span>{address}</span>}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                {client.email && (
+                  <a href={`mailto:${client.email}`} className="inline-flex items-center gap-1 hover:text-[#0a192f]">
+                    <Mail className="h-4 w-4" />
+                    {client.email}
+                  </a>
+                )}
+                {client.phone && (
+                  <span className="inline-flex items-center gap-1">
+                    <Phone className="h-4 w-4" />
+                    {client.phone}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowForm(true)}
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-gray-50"
+            >
+              <Pencil className="h-4 w-4" />
+              Upravit
+            </button>
+            <button
+              onClick={handleDelete}
+              className="rounded-lg border border-red-200 p-2 text-red-600 transition hover:bg-red-50"
+              aria-label="Smazat klienta"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        {client.notes && <p className="mt-4 whitespace-pre-wrap border-t border-gray-100 pt-4 text-sm text-gray-700">{client.notes}</p>}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="rounded-xl bg-white p-5 shadow">
+          <p className="text-sm text-gray-500">Celkové tržby</p>
+          <p className="mt-1 text-2xl font-bold text-emerald-600">{formatCurrency(revenue?.revenue ?? 0, baseCurrency)}</p>
+          <p className="text-xs text-gray-500">Uhrazené faktury vč. DPH</p>
+        </div>
+        <div className="rounded-xl bg-white p-5 shadow">
+          <p className="text-sm text-gray-500">Neuhrazeno</p>
+          <p className="mt-1 text-2xl font-bold text-amber-600">{formatCurrency(revenue?.outstanding ?? 0, baseCurrency)}</p>
+          <p className="text-xs text-gray-500">
+            {revenue?.unconverted
+              ? `${revenue.unconverted} faktur bez kurzu není započteno`
+              : `${activity.invoices.length} faktur celkem`}
+          </p>
+        </div>
+        <div className="rounded-xl bg-white p-5 shadow">
+          <p className="text-sm text-gray-500">Rozpočty</p>
+          <p className="mt-1 text-2xl font-bold text-[#0a192f]">{activity.budgets.length}</p>
+          <p className="text-xs text-gray-500">
+            {activity.budgets.filter(budget => budget.status === 'approved').length} schválených
+          </p>
+        </div>
+        <div className="rounded-xl bg-white p-5 shadow">
+          <p className="text-sm text-gray-500">Projekty</p>
+          <p className="mt-1 text-2xl font-bold text-[#0a192f]">{activity.projects.length}</p>
+          <p className="text-xs text-gray-500">
+            {activity.projects.filter(project => project.status === 'active').length} aktivních
+          </p>
+        </div>
+      </div>
+
+      {client.contacts.length > 0 && (
+        <div className="rounded-xl bg-white shadow">
+          <div className="border-b border-gray-100 px-6 py-4">
+            <h2 className="text-lg font-semibold text-[#0a192f]">Kontaktní osoby</h2>
+          </div>
+          <div className="grid gap-4 p-6 sm:grid-cols-2">
+            {client.contacts.map(contact => (
+              <div key={contact.id} className="rounded-lg border border-gray-200 p-4 text-sm">
+                <div className="flex items-center gap-2 font-medium text-[#0a192f]">
+                  {contact.name}
+                  {contact.is_primary && <Star className="h-4 w-4 fill-amber-400 text-amber-500" aria-label="Hlavní kontakt" />}
+                </div>
+                {contact.role && <div className="text-gray-500">{contact.role}</div>}
+                {contact.email && (
+                  <a href={`mailto:${contact.email}`} className="block text-gray-700 hover:text-[#0a192f]">
+                    {contact.email}
+                  </a>
+                )}
+                {contact.phone && <div className="text-gray-700">{contact.phone}</div>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-xl bg-white shadow">
+        <div className="flex items-center gap-2 border-b border-gray-100 px-6 py-4">
+          <FileText className="h-5 w-5 text-[#0a192f]" />
+          <h2 className="text-lg font-semibold text-[#0a192f]">Rozpočty</h2>
+        </div>
+        {activity.budgets.length === 0 ? (
+          <div className="px-6 py-5 text-sm text-gray-500">Klient zatím nemá žádný rozpočet.</div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {activity.budgets.map(budget => (
+              <button
+                key={budget.id}
+                onClick={() => onViewBudget(budget.id)}
+                className="flex w-full items-center justify-between gap-3 px-6 py-3 text-left text-sm transition hover:bg-gray-50"
+              >
+                <span>
+                  <span className="font-medium text-[#0a192f]">{budget.name}</span>
+                  <span className="block text-xs text-gray-500">
+                    {budget.budget_number ? `${budget.budget_number} · ` : ''}
+                    {new Date(budget.created_at).toLocaleDateString('cs-CZ')}
+                    {budget.archived ? ' · archivováno' : ''}
+                  </span>
+                </span>
+                <span className={`rounded-full px-3 py-1 text-xs font-medium ${budgetStatusMeta[budget.status].className}`}>
+                  {budgetStatusMeta[budget.status].label}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-xl bg-white shadow">
+        <div className="flex items-center gap-2 border-b border-gray-100 px-6 py-4">
+          <Briefcase className="h-5 w-5 text-[#0a192f]" />
+          <h2 className="text-lg font-semibold text-[#0a192f]">Projekty</h2>
+        </div>
+        {activity.projects.length === 0 ? (
+          <div className="px-6 py-5 text-sm text-gray-500">Klient zatím nemá žádný projekt.</div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {activity.projects.map(project => (
+              <div key={project.id} className="flex items-center justify-between gap-3 px-6 py-3 text-sm">
+                <span>
+                  <span className="font-medium text-[#0a192f]">{project.name}</span>
+                  <span className="block text-xs text-gray-500">
+                    Rozpočet projektu {formatCurrency(project.total_budget || 0)}
+                  </span>
+                </span>
+                <span className={`rounded-full px-3 py-1 text-xs font-medium ${projectStatusMeta[project.status].className}`}>
+                  {projectStatusMeta[project.status].label}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-xl bg-white shadow">
+        <div className="flex flex-col gap-1 border-b border-gray-100 px-6 py-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2">
+            <Receipt className="h-5 w-5 text-[#0a192f]" />
+            <h2 className="text-lg font-semibold text-[#0a192f]">Vyfakturované náklady</h2>
+          </div>
+          {Object.keys(billedTotals).length > 0 && (
+            <span className="text-sm text-gray-600">
+              Celkem{' '}
+              {Object.entries(billedTotals)
+                .map(([currency, amount]) => formatCurrency(amount, currency))
+                .join(' + ')}
+            </span>
+          )}
+        </div>
+        {activity.billedExpenses.length === 0 ? (
+          <div className="px-6 py-5 text-sm text-gray-500">Klientovi zatím nebyly přefakturovány žádné náklady.</div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {activity.billedExpenses.map(expense => (
+              <div key={expense.id} className="flex items-center justify-between gap-3 px-6 py-3 text-sm">
+                <span>
+                  <span className="font-medium text-[#0a192f]">{expense.name}</span>
+                  <span className="block text-xs text-gray-500">
+                    {new Date(expense.date).toLocaleDateString('cs-CZ')}
+                    {expense.billed_date ? ` · vyfakturováno ${new Date(expense.billed_date).toLocaleDateString('cs-CZ')}` : ''}
+                  </span>
+                </span>
+                <span className="font-medium text-gray-900">{formatCurrency(expense.amount, expense.currency)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <ClientFormModal
+          organizationId={organizationId}
+          client={client}
+          onClose={() => setShowForm(false)}
+          onSaved={() => {
+            setShowForm(false);
+            onChanged();
+            loadClient();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { Loader2, Plus, Search, Star, Trash2, X } from 'lucide-react';
+
+import { ClientContactInput, ClientWithContacts, isValidCompanyId, saveClient } from '../lib/clients';
+import { getClientFieldsFromRegistry, lookupCompany } from '../lib/companyRegistry';
+
+interface ClientFormModalProps {
+  organizationId: string;
+  /** Client to edit; a new client is created when omitted. */
+  client?: ClientWithContacts | null;
+  /** Prefills the name of a new client, e.g. with what was typed into a search. */
+  initialName?: string;
+  onClose: () => void;
+  onSaved: (clientId: string) => void;
+}
+
+const emptyContact = (): ClientContactInput => ({ name: '', role: '', email: '', phone: '', is_primary: false });
+
+const inputClassName =
+  'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-[#0a192f]';
+
+export default function ClientFormModal({ organizationId, client, initialName = '', onClose, onSaved }: ClientFormModalProps) {
+  const [formData, setFormData] = useState({
+    name: client?.name ?? initialName,
+    company_id: client?.company_id ?? '',
+    vat_id: client?.vat_id ?? '',
+    billing_street: client?.billing_street ?? '',
+    billing_city: client?.billing_city ?? '',
+    billing_postal_code: client?.billing_postal_code ?? '',
+    billing_country: client?.billing_country ?? 'CZ',
+    email: client?.email ?? '',
+    phone: client?.phone ?? '',
+    notes: client?.notes ?? '',
+    is_vat_payer: client?.is_vat_payer ?? null,
+    registry_checked_at: client?.registry_checked_at ?? null
+  });
+  const [contacts, setContacts] = useState<ClientContactInput[]>(
+    client?.contacts.map(contact => ({
+      id: contact.id,
+      name: contact.name,
+      role: contact.role ?? '',
+      email: contact.email ?? '',
+      phone: contact.phone ?? '',
+      is_primary: contact.is_primary
+    })) ?? []
+  );
+  const [saving, setSaving] = useState(false);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateField = (field: Exclude<keyof typeof formData, 'is_vat_payer' | 'registry_checked_at'>, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleLookup = async () => {
+    if (!isValidCompanyId(formData.company_id)) {
+      setError('Zadejte platné IČO, podle kterého se mají údaje načíst.');
+      return;
+    }
+
+    try {
+      setLookingUp(true);
+      setError(null);
+      const record = await lookupCompany(formData.company_id);
+
+      if (!record) {
+        setError('Firma s tímto IČO nebyla v registru nalezena.');
+        return;
+      }
+
+      setFormData(prev => ({ ...prev, ...getClientFieldsFromRegistry(record) }));
+    } catch (err) {
+      console.error('Error looking up company:', err);
+      setError('Registr firem je momentálně nedostupný, údaje vyplňte ručně nebo to zkuste později.');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const updateContact = (index: number, changes: Partial<ClientContactInput>) => {
+    setContacts(prev =>
+      prev.map((contact, contactIndex) => {
+        if (contactIndex === index) return { ...contact, ...changes };
+        return changes.is_primary ? { ...contact, is_primary: false } : contact;
+      })
+    );
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    if (!formData.name.trim()) {
+      setError('Vyplňte název klienta.');
+      return;
+    }
+
+    if (formData.company_id.trim() && !isValidCompanyId(formData.company_id)) {
+      setError('IČO nemá platný formát, zkontrolujte jej prosím.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const clientId = await saveClient({ ...formData, id: client?.id, organization_id: organizationId }, contacts);
+      onSaved(clientId);
+    } catch (err) {
+      console.error('Error saving client:', err);
+      const code = (err as { code?: string } | null)?.code;
+      setError(
+        code === '23505'
+          ? 'Klient se stejným IČO už v adresáři je.'
+          : 'Klienta se nepodařilo uložit. Zkuste to prosím znovu.'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4 py-6 backdrop-blur-sm"
+      onClick={() => (saving ? null : onClose())}
+    >
+      <form
+        onSubmit={handleSubmit}
+        onClick={(event) => event.stopPropagation()}
+        className="max-h-full w-full max-w-2xl overflow-y-auto rounded-2xl bg-white p-6 shadow-2xl"
+      >
+        <div className="mb-4 flex items-start justify-between gap-3">
+          <h3 className="text-lg font-semibold text-[#0a192f]">{client ? 'Upravit klienta' : 'Nový klient'}</h3>
+          <button
+            type="button"
+            className="rounded-full border border-gray-200 p-1 text-gray-500 transition hover:border-gray-300 hover:text-gray-700"
+            onClick={onClose}
+            disabled={saving}
+            aria-label="Zavřít"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Název firmy nebo jméno *</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => updateField('name', e.target.value)}
+              className={inputClassName}
+              autoFocus
+              required
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">IČO</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.company_id}
+                  onChange={(e) => updateField('company_id', e.target.value)}
+                  className={inputClassName}
+                  placeholder="12345678"
+                />
+                <button
+                  type="button"
+                  onClick={handleLookup}
+                  disabled={lookingUp || saving || !formData.company_id.trim()}
+                  className="inline-flex items-center gap-1 whitespace-nowrap rounded-lg border border-gray-300 px-3 py-2 text-sm text-[#0a192f] transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  title="Načíst název, adresu a DIČ z registru ARES"
+                >
+                  {lookingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                  ARES
+                </button>
+              </div>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">DIČ</label>
+              <input
+                type="text"
+                value={formData.vat_id}
+                onChange={(e) => updateField('vat_id', e.target.value)}
+                className={inputClassName}
+                placeholder="CZ12345678"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Registrace k DPH</label>
+            <select
+              value={formData.is_vat_payer === null ? '' : String(formData.is_vat_payer)}
+              onChange={(e) =>
+                setFormData(prev => ({ ...prev, is_vat_payer: e.target.value === '' ? null : e.target.value === 'true' }))
+              }
+              className={inputClassName}
+            >
+              <option value="">Neověřeno</option>
+              <option value="true">Plátce DPH</option>
+              <option value="false">Neplátce DPH</option>
+            </select>
+            {formData.registry_checked_at && (
+              <p className="mt-1 text-xs text-gray-500">
+                Ověřeno v registru {new Date(formData.registry_checked_at).toLocaleDateString('cs-CZ')}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Fakturační adresa</label>
+            <input
+              type="text"
+              value={formData.billing_street}
+              onChange={(e) => updateField('billing_street', e.target.value)}
+              className={inputClassName}
+              placeholder="Ulice a číslo popisné"
+            />
+            <div className="mt-2 grid gap-2 sm:grid-cols-[8rem_1fr_6rem]">
+              <input
+                type="text"
+                value={formData.billing_postal_code}
+                onChange={(e) => updateField('billing_postal_code', e.target.value)}
+                className={inputClassName}
+                placeholder="PSČ"
+              />
+              <input
+                type="text"
+                value={formData.billing_city}
+                onChange={(e) => updateField('billing_city', e.target.value)}
+                className={inputClassName}
+                placeholder="Město"
+              />
+              <input
+                type="text"
+                value={formData.billing_country}
+                onChange={(e) => updateField('billing_country', e.target.value.toUpperCase())}
+                className={inputClassName}
+                placeholder="Země"
+                maxLength={2}
+                aria-label="Kód země"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">E-mail</label>
+              <input
+                type="email"
+                value={formData.email}
+                onChange={(e) => updateField('email', e.target.value)}
+                className={inputClassName}
+                placeholder="info@firma.cz"
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">Telefon</label>
+              <input
+                type="tel"
+                value={formData.phone}
+                onChange={(e) => updateField('phone', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <label className="text-sm font-medium text-gray-700">Kontaktní osoby</label>
+              <button
+                type="button"
+                onClick={() => setContacts(prev => [...prev, { ...emptyContact(), is_primary: prev.length === 0 }])}
+                className="inline-flex items-center gap-1 text-sm font-medium text-[#0a192f] hover:underline"
+              >
+                <Plus className="h-4 w-4" />
+                Přidat kontakt
+              </button>
+            </div>
+
+            {contacts.length === 0 ? (
+              <p className="text-sm text-gray-500">Zatím žádné kontakty.</p>
+            ) : (
+              <div className="space-y-2">
+                {contacts.map((contact, index) => (
+                  <div key={contact.id ?? `new-${index}`} className="rounded-lg border border-gray-200 p-3">
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      <input
+                        type="text"
+                        value={contact.name}
+                        onChange={(e) => updateContact(index, { name: e.target.value })}
+                        className={inputClassName}
+                        placeholder="Jméno *"
+                      />
+                      <input
+                        type="text"
+                        value={contact.role ?? ''}
+                        onChange={(e) => updateContact(index, { role: e.target.value })}
+                        className={inputClassName}
+                        placeholder="Pozice"
+                      />
+                      <input
+                        type="email"
+                        value={contact.email ?? ''}
+                        onChange={(e) => updateContact(index, { email: e.target.value })}
+                        className={inputClassName}
+                        placeholder="E-mail"
+                      />
+                      <input
+                        type="tel"
+                        value={contact.phone ?? ''}
+                        onChange={(e) => updateContact(index, { phone: e.target.value })}
+                        className={inputClassName}
+                        placeholder="Telefon"
+                      />
+                    </div>
+                    <div className="mt-2 flex items-center justify-between text-sm">
+                      <button
+                        type="button"
+                        onClick={() => updateContact(index, { is_primary: true })}
+                        className={`inline-flex items-center gap-1 ${
+                          contact.is_primary ? 'font-medium text-amber-700' : 'text-gray-500 hover:text-[#0a192f]'
+                        }`}
+                      >
+                        <Star className={`h-4 w-4 ${contact.is_primary ? 'fill-amber-400 text-amber-500' : ''}`} />
+                        {contact.is_primary ? 'Hlavní kontakt' : 'Nastavit jako hlavní'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setContacts(prev => prev.filter((_, contactIndex) => contactIndex !== index))}
+                        className="rounded p-1 text-red-500 transition hover:bg-red-50"
+                        aria-label="Odebrat kontakt"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Poznámky</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => updateField('notes', e.target.value)}
+              className={inputClassName}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={saving}
+            className="rounded-lg border border-gray-300 px-5 py-2 text-sm transition hover:bg-gray-50"
+          >
+            Zrušit
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center gap-2 rounded-lg bg-[#0a192f] px-5 py-2 text-sm text-white transition hover:bg-opacity-90 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            {client ? 'Uložit změny' : 'Přidat klienta'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
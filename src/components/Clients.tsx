@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Building2, Loader2, Mail, Plus, Search, User } from 'lucide-react';
+
+import { supabase } from '../lib/supabase';
+import { ensureUserOrganization } from '../lib/organization';
+import { ClientWithContacts, fetchClients, formatClientAddress, getPrimaryContact } from '../lib/clients';
+import ClientDetail from './ClientDetail';
+import ClientFormModal from './ClientFormModal';
+
+interface ClientsProps {
+  activeOrganizationId: string | null;
+  onViewBudget: (budgetId: string) => void;
+}
+
+export default function Clients({ activeOrganizationId, onViewBudget }: ClientsProps) {
+  const [clients, setClients] = useState<ClientWithContacts[]>([]);
+  const [budgetCounts, setBudgetCounts] = useState<Record<string, number>>({});
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const loadClients = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const {
+        data: { user }
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        setClients([]);
+        setOrganizationId(null);
+        return;
+      }
+
+      const orgId = await ensureUserOrganization(user.id, activeOrganizationId);
+      setOrganizationId(orgId);
+
+      const [clientList, budgetsRes] = await Promise.all([
+        fetchClients(orgId),
+        supabase.from('budgets').select('client_id').eq('organization_id', orgId).not('client_id', 'is', null)
+      ]);
+
+      if (budgetsRes.error) throw budgetsRes.error;
+
+      setClients(clientList);
+      setBudgetCounts(
+        (budgetsRes.data ?? []).reduce<Record<string, number>>((counts, budget) => {
+          counts[budget.client_id] = (counts[budget.client_id] ?? 0) + 1;
+          return counts;
+        }, {})
+      );
+    } catch (error) {
+      console.error('Error loading clients:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeOrganizationId]);
+
+  useEffect(() => {
+    loadClients();
+  }, [loadClients]);
+
+  const filteredClients = useMemo(() => {
+    const term = searchTerm.trim().toLocaleLowerCase('cs');
+    if (!term) return clients;
+
+    return clients.filter(client =>
+      [client.name, client.company_id, client.vat_id, client.email, client.billing_city, ...client.contacts.map(contact => contact.name)]
+        .filter(Boolean)
+        .some(value => (value as string).toLocaleLowerCase('cs').includes(term))
+    );
+  }, [clients, searchTerm]);
+
+  if (selectedClientId && organizationId) {
+    return (
+      <ClientDetail
+        clientId={selectedClientId}
+        organizationId={organizationId}
+        onBack={() => setSelectedClientId(null)}
+        onViewBudget={onViewBudget}
+        onChanged={loadClients}
+      />
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-[#0a192f]" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-[#0a192f]">Klienti</h1>
+          <p className="text-sm text-gray-600">Adresář firem a kontaktů, ke kterým se vážou rozpočty a projekty.</p>
+        </div>
+        <button
+          onClick={() => setShowForm(true)}
+          disabled={!organizationId}
+          className="flex items-center gap-2 rounded-lg bg-[#0a192f] px-6 py-3 text-white transition hover:bg-opacity-90 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <Plus className="h-5 w-5" />
+          <span>Přidat klienta</span>
+        </button>
+      </div>
+
+      <div className="relative">
+        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Hledat podle názvu, IČO, města nebo kontaktu"
+          className="w-full rounded-lg border border-gray-300 py-2 pl-9 pr-4 focus:border-transparent focus:ring-2 focus:ring-[#0a192f]"
+        />
+      </div>
+
+      {clients.length === 0 ? (
+        <div className="rounded-lg bg-white p-12 text-center shadow">
+          <Building2 className="mx-auto mb-4 h-12 w-12 text-gray-300" />
+          <p className="mb-4 text-gray-600">Zatím nemáte žádné klienty</p>
+          <button onClick={() => setShowForm(true)} className="font-medium text-[#0a192f] hover:underline">
+            Přidat prvního klienta
+          </button>
+        </div>
+      ) : filteredClients.length === 0 ? (
+        <div className="rounded-lg bg-white p-8 text-center text-gray-600 shadow">Žádný klient neodpovídá hledání.</div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {filteredClients.map(client => {
+            const primaryContact = getPrimaryContact(client);
+            const address = formatClientAddress(client);
+
+            return (
+              <button
+                key={client.id}
+                onClick={() => setSelectedClientId(client.id)}
+                className="rounded-lg bg-white p-6 text-left shadow transition hover:shadow-md"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <h3 className="text-lg font-semibold text-[#0a192f]">{client.name}</h3>
+                  <span className="whitespace-nowrap rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+                    {budgetCounts[client.id] ?? 0} rozpočtů
+                  </span>
+                </div>
+                {client.company_id && <p className="text-sm text-gray-500">IČO {client.company_id}</p>}
+                {address && <p className="mt-2 text-sm text-gray-600">{address}</p>}
+                <div className="mt-3 space-y-1 text-sm text-gray-600">
+                  {primaryContact && (
+                    <div className="flex items-center gap-2">
+                      <User className="h-4 w-4 text-gray-400" />
+                      {primaryContact.name}
+                      {client.contacts.length > 1 && (
+                        <span className="text-xs text-gray-400">+{client.contacts.length - 1}</span>
+                      )}
+                    </div>
+                  )}
+                  {(primaryContact?.email || client.email) && (
+                    <div className="flex items-center gap-2">
+                      <Mail className="h-4 w-4 text-gray-400" />
+                      {primaryContact?.email || client.email}
+                    </div>
+                  )}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {showForm && organizationId && (
+        <ClientFormModal
+          organizationId={organizationId}
+          initialName={searchTerm.trim()}
+          onClose={() => setShowForm(false)}
+          onSaved={(clientId) => {
+            setShowForm(false);
+            loadClients();
+            setSelectedClientId(clientId);
+          }}
+        />
+      )}
+    </div>
+  );
+}
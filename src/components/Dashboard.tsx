@@ -10,10 +10,19 @@ import {
   CheckCircle,
   Clock,
   Plus,
-  ArrowRight
+  ArrowRight,
+  CalendarPlus
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { ensureUserOrganization } from '../lib/organization';
+import { DEFAULT_CURRENCY, formatCurrency as formatAmount, loadCurrencyConverter } from '../lib/currency';
+import {
+  extendBudgetValidity,
+  formatValidUntil,
+  getBudgetValidityState,
+  getDaysUntilExpiry
+} from '../lib/budgetValidity';
+import { fetchCommentMembers, fetchCommentMentions } from '../lib/budgetComments';
 
 interface DashboardStats {
   totalBudgets: number;
@@ -42,6 +51,8 @@ interface Notification {
   type: 'warning' | 'info' | 'success';
   message: string;
   timestamp: string;
+  /** Set for quotes whose validity can be extended right from the notification. */
+  extendBudgetId?: string;
 }
 
 interface DashboardProps {
@@ -68,6 +79,8 @@ export default function Dashboard({ onNavigate, activeOrganizationId }: Dashboar
   const [recentActivities, setRecentActivities] = useState<RecentActivity[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
+  const [extendingBudgetId, setExtendingBudgetId] = useState<string | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
 
   useEffect(() => {
     loadDashboardData();
@@ -95,7 +108,7 @@ export default function Dashboard({ onNavigate, activeOrganizationId }: Dashboar
       const sixtyDaysAgo = new Date();
       sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
 
-      const [budgetsRes, expensesRes, projectsRes, employeesRes, recentBudgetsRes, expensesLast30, expensesPrevious30] = await Promise.all([
+      const [budgetsRes, expensesRes, projectsRes, employeesRes, recentBudgetsRes, expensesLast30, expensesPrevious30, converter, mentions, members] = await Promise.all([
         supabase
           .from('budgets')
           .select('*')
@@ -113,15 +126,18 @@ export default function Dashboard({ onNavigate, activeOrganizationId }: Dashboar
           .limit(5),
         supabase
           .from('expenses')
-          .select('amount')
+          .select('amount, currency, date')
           .eq('organization_id', organizationId)
           .gte('created_at', thirtyDaysAgo.toISOString()),
         supabase
           .from('expenses')
-          .select('amount')
+          .select('amount, currency, date')
           .eq('organization_id', organizationId)
           .gte('created_at', sixtyDaysAgo.toISOString())
-          .lt('created_at', thirtyDaysAgo.toISOString())
+          .lt('created_at', thirtyDaysAgo.toISOString()),
+        loadCurrencyConverter(organizationId),
+        fetchCommentMentions(organizationId),
+        fetchCommentMembers(organizationId)
       ]);
 
       if (budgetsRes.error) throw budgetsRes.error;
@@ -137,14 +153,30 @@ export default function Dashboard({ onNavigate, activeOrganizationId }: Dashboar
       const activeBudgets = budgets.filter(b => b.status === 'approved' || b.status === 'sent').length;
       const activeProjects = projects.filter(p => p.status === 'active').length;
 
+      const missingRateCurrencies = new Set<string>();
+      const toBase = (amount: number, currency?: string | null, date?: string | null) => {
+        const converted = converter.convert(amount, currency, date);
+        if (converted === null) {
+          missingRateCurrencies.add(currency || DEFAULT_CURRENCY);
+          return 0;
+        }
+        return converted;
+      };
+
       const totalRevenue = budgets
         .filter(b => b.status === 'approved')
-        .reduce((sum, b) => sum + (b.total_revenue || 0), 0);
-
-      const totalExpenses = expenses.reduce((sum, e) => sum + e.amount, 0);
-
-      const expensesLast30Total = (expensesLast30.data || []).reduce((sum, e) => sum + e.amount, 0);
-      const expensesPrevious30Total = (expensesPrevious30.data || []).reduce((sum, e) => sum + e.amount, 0);
+        .reduce((sum, b) => sum + toBase(b.total_revenue || 0, b.currency, b.created_at), 0);
+
+      const totalExpenses = expenses.reduce((sum, e) => sum + toBase(e.amount, e.currency, e.date), 0);
+
+      const expensesLast30Total = (expensesLast30.data || []).reduce(
+        (sum, e) => sum + toBase(e.amount, e.currency, e.date),
+        0
+      );
+      const expensesPrevious30Total = (expensesPrevious30.data || []).reduce(
+        (sum, e) => sum + toBase(e.amount, e.currency, e.date),
+        0
+      );
       const expensesChange = expensesPrevious30Total > 0
         ? ((expensesLast30Total - expensesPrevious30Total) / expensesPrevious30Total) * 100
         : 0;
@@ -162,6 +194,22 @@ export default function Dashboard({ onNavigate, activeOrganizationId }: Dashboar
 
       const alerts: Notification[] = [];
 
+      const memberNames = new Map(members.map(member => [member.userId, member.name]));
+
+      mentions.forEach(mention => {
+        const author = (mention.authorId && memberNames.get(mention.authorId)) || 'Kolega';
+        const target = mention.itemName
+          ? `u položky "${mention.itemName}" rozpočtu "${mention.budgetName}"`
+          : `v rozpočtu "${mention.budgetName}"`;
+
+        alerts.push({
+          id: mention.commentId,
+          type: 'info',
+          message: `${author} vás zmínil(a) ${target}: ${mention.body}`,
+          timestamp: mention.createdAt
+        });
+      });
+
       projects.forEach(project => {
         if (project.total_budget > 0 && project.spent_amount > project.total_budget * 0.9) {
           alerts.push({
@@ -173,8 +221,40 @@ export default function Dashboard({ onNavigate, activeOrganizationId }: Dashboar
         }
       });
 
+      if (missingRateCurrencies.size > 0) {
+        alerts.push({
+          id: 'missing-exchange-rates',
+          type: 'warning',
+          message: `Chybí kurz pro ${Array.from(missingRateCurrencies).join(', ')}, částky v těchto měnách nejsou v přehledu započteny`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
       budgets.forEach(budget => {
-        if (budget.status === 'sent') {
+        const validity = getBudgetValidityState(budget);
+
+        if (validity === 'expired') {
+          alerts.push({
+            id: budget.id,
+            type: 'warning',
+            message: budget.valid_until
+              ? `Platnost rozpočtu "${budget.name}" vypršela ${formatValidUntil(budget.valid_until)}`
+              : `Platnost rozpočtu "${budget.name}" vypršela`,
+            timestamp: budget.updated_at,
+            extendBudgetId: budget.id
+          });
+        } else if (validity === 'expiring' && budget.valid_until) {
+          const days = getDaysUntilExpiry(budget.valid_until);
+          alerts.push({
+            id: budget.id,
+            type: 'warning',
+            message: `Platnost rozpočtu "${budget.name}" končí ${
+              days === 0 ? 'dnes' : `za ${days} ${days === 1 ? 'den' : days < 5 ? 'dny' : 'dní'}`
+            } (${formatValidUntil(budget.valid_until)})`,
+            timestamp: budget.updated_at,
+            extendBudgetId: budget.id
+          });
+        } else if (budget.status === 'sent') {
           alerts.push({
             id: budget.id,
             type: 'info',
@@ -198,6 +278,7 @@ export default function Dashboard({ onNavigate, activeOrganizationId }: Dashboar
         profitMargin
       });
 
+      setBaseCurrency(converter.baseCurrency);
       setRecentActivities(activities);
       setNotifications(alerts);
     } catch (error) {
@@ -207,13 +288,23 @@ export default function Dashboard({ onNavigate, activeOrganizationId }: Dashboar
     }
   };
 
+  const handleExtendValidity = async (budgetId?: string) => {
+    if (!budgetId) return;
+
+    try {
+      setExtendingBudgetId(budgetId);
+      await extendBudgetValidity(budgetId);
+      await loadDashboardData();
+    } catch (error) {
+      console.error('Error extending budget validity:', error);
+      alert('Nepodařilo se prodloužit platnost rozpočtu. Zkuste to prosím znovu.');
+    } finally {
+      setExtendingBudgetId(null);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('cs-CZ', {
-      style: 'currency',
-      currency: 'CZK',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount);
+    return formatAmount(amount, baseCurrency, { maximumFractionDigits: 0 });
   };
 
   const formatPercentage = (value: number) => {
@@ -441,6 +532,16 @@ export default function Dashboard({ onNavigate, activeOrganizationId }: Dashboar
                     <p className="text-xs text-gray-500 mt-1">
                       {new Date(notification.timestamp).toLocaleString('cs-CZ')}
                     </p>
+                    {notification.extendBudgetId && (
+                      <button
+                        onClick={() => handleExtendValidity(notification.extendBudgetId)}
+                        disabled={extendingBudgetId === notification.extendBudgetId}
+                        className="mt-2 inline-flex items-center gap-1 text-xs font-medium text-[#0a192f] hover:underline disabled:opacity-50"
+                      >
+                        <CalendarPlus className="w-3.5 h-3.5" />
+                        Prodloužit platnost
+                      </button>
+                    )}
                   </div>
                 </div>
               ))
@@ -0,0 +1,154 @@
+import { FormEvent, useState } from 'react';
+import { Copy, X } from 'lucide-react';
+
+import { duplicateBudget } from '../lib/budgets';
+import { Budget } from '../types/database';
+
+interface DuplicateBudgetModalProps {
+  budget: Pick<Budget, 'id' | 'name' | 'client_name'>;
+  onClose: () => void;
+  onDuplicated: (budgetId: string) => void;
+}
+
+const copyName = (name: string, asRevision: boolean) => `${name} (${asRevision ? 'revize' : 'kopie'})`;
+
+export default function DuplicateBudgetModal({ budget, onClose, onDuplicated }: DuplicateBudgetModalProps) {
+  const [name, setName] = useState(copyName(budget.name, false));
+  const [clientName, setClientName] = useState(budget.client_name);
+  const [asRevision, setAsRevision] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRevisionChange = (checked: boolean) => {
+    setAsRevision(checked);
+    // Keep the suggested name in step with the checkbox unless the user already typed their own.
+    if (name === copyName(budget.name, !checked)) {
+      setName(copyName(budget.name, checked));
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    if (!name.trim() || !clientName.trim()) {
+      setError('Vyplňte název rozpočtu a klienta.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const budgetId = await duplicateBudget({
+        budgetId: budget.id,
+        name: name.trim(),
+        clientName: clientName.trim(),
+        asRevision
+      });
+      onDuplicated(budgetId);
+    } catch (err) {
+      console.error('Error duplicating budget:', err);
+      setError('Rozpočet se nepodařilo zkopírovat. Zkuste to prosím znovu.');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4 py-6 backdrop-blur-sm"
+      onClick={() => (saving ? null : onClose())}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-lg rounded-2xl bg-white p-6 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="flex h-10 w-10 items-center justify-center rounded-full bg-gray-100 text-[#0a192f]">
+              <Copy className="h-5 w-5" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-[#0a192f]">Duplikovat rozpočet</h3>
+              <p className="text-sm text-gray-600">
+                Vznikne nový koncept se stejnými sekcemi a položkami jako „{budget.name}“.
+              </p>
+            </div>
+          </div>
+          <button
+            type="button"
+            className="rounded-full border border-gray-200 p-1 text-gray-500 transition hover:border-gray-300 hover:text-gray-700"
+            onClick={onClose}
+            disabled={saving}
+            aria-label="Zavřít duplikování"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="mt-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Název nového rozpočtu</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Klient</label>
+            <input
+              type="text"
+              value={clientName}
+              onChange={(e) => setClientName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+              required
+            />
+            {clientName.trim() !== budget.client_name && (
+              <p className="mt-1 text-xs text-gray-500">U nového klienta se kontaktní údaje nepřenesou.</p>
+            )}
+          </div>
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={asRevision}
+              onChange={(e) => handleRevisionChange(e.target.checked)}
+              className="mt-0.5"
+            />
+            <span>
+              Označit jako revizi původního rozpočtu
+              <span className="block text-xs text-gray-500">Oba rozpočty se navzájem odkážou v detailu.</span>
+            </span>
+          </label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="mt-6 flex flex-col-reverse gap-3 sm:flex-row sm:justify-end">
+          <button
+            type="button"
+            className="rounded-xl border border-gray-200 bg-white px-5 py-2 text-sm font-medium text-gray-600 transition hover:bg-gray-100"
+            onClick={onClose}
+            disabled={saving}
+          >
+            Zrušit
+          </button>
+          <button
+            type="submit"
+            className="inline-flex items-center justify-center gap-2 rounded-xl bg-[#0a192f] px-5 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-opacity-90 disabled:cursor-not-allowed disabled:opacity-60"
+            disabled={saving}
+          >
+            {saving ? (
+              'Kopíruji…'
+            ) : (
+              <>
+                <Copy className="h-4 w-4" />
+                Duplikovat
+              </>
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+import { supabase } from '../lib/supabase';
+import { CURRENCY_OPTIONS, fetchExchangeRates } from '../lib/currency';
+import { ExchangeRate } from '../types/database';
+
+interface ExchangeRatesSettingsProps {
+  organizationId: string;
+  baseCurrency: string;
+  canManage: boolean;
+}
+
+const createInitialForm = (baseCurrency: string) => ({
+  currency: CURRENCY_OPTIONS.find(option => option.value !== baseCurrency)?.value ?? '',
+  rate: '',
+  valid_from: new Date().toISOString().split('T')[0]
+});
+
+export default function ExchangeRatesSettings({ organizationId, baseCurrency, canManage }: ExchangeRatesSettingsProps) {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(() => createInitialForm(baseCurrency));
+
+  const loadRates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRates(await fetchExchangeRates(organizationId));
+    } catch (err) {
+      console.error('Error loading exchange rates:', err);
+      setError('Nepodařilo se načíst kurzy měn.');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  useEffect(() => {
+    setForm(createInitialForm(baseCurrency));
+  }, [baseCurrency]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    const rate = parseFloat(form.rate.replace(',', '.'));
+
+    if (!form.currency || !Number.isFinite(rate) || rate <= 0) {
+      setError('Zadejte měnu a kladný kurz.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const { error: upsertError } = await supabase.from('exchange_rates').upsert(
+        {
+          organization_id: organizationId,
+          currency: form.currency,
+          base_currency: baseCurrency,
+          rate,
+          valid_from: form.valid_from
+        },
+        { onConflict: 'organization_id,currency,base_currency,valid_from' }
+      );
+
+      if (upsertError) throw upsertError;
+
+      setForm(createInitialForm(baseCurrency));
+      await loadRates();
+    } catch (err) {
+      console.error('Error saving exchange rate:', err);
+      setError('Kurz se nepodařilo uložit.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rateId: string) => {
+    if (!confirm('Opravdu chcete smazat tento kurz?')) return;
+
+    const { error: deleteError } = await supabase.from('exchange_rates').delete().eq('id', rateId);
+
+    if (deleteError) {
+      console.error('Error deleting exchange rate:', deleteError);
+      alert('Kurz se nepodařilo smazat.');
+      return;
+    }
+
+    setRates(prev => prev.filter(rate => rate.id !== rateId));
+  };
+
+  return (
+    <div className="border-t border-gray-100 pt-4">
+      <h4 className="text-sm font-semibold text-[#0a192f]">Kurzy měn</h4>
+      <p className="text-xs text-gray-500 mb-3">
+        Kurz udává, kolik {baseCurrency} odpovídá jedné jednotce cizí měny. Použije se poslední kurz platný k datu dokladu.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Načítání kurzů...</p>
+      ) : rates.length === 0 ? (
+        <p className="text-sm text-gray-500">Zatím nejsou zadány žádné kurzy.</p>
+      ) : (
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+              <th className="py-2 font-medium">Měna</th>
+              <th className="py-2 font-medium text-right">Kurz</th>
+              <th className="py-2 font-medium">Platí od</th>
+              {canManage && <th className="py-2" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rates.map(rate => (
+              <tr key={rate.id}>
+                <td className="py-2 text-[#0a192f]">
+                  1 {rate.currency}
+                </td>
+                <td className="py-2 text-right text-[#0a192f]">
+                  {Number(rate.rate).toLocaleString('cs-CZ', { maximumFractionDigits: 6 })} {rate.base_currency}
+                </td>
+                <td className="py-2 text-gray-600">{new Date(rate.valid_from).toLocaleDateString('cs-CZ')}</td>
+                {canManage && (
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => handleDelete(rate.id)}
+                      className="p-1 text-red-500 hover:bg-red-50 rounded"
+                      title="Smazat kurz"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3 sm:flex-row sm:items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Měna</label>
+            <select
+              value={form.currency}
+              onChange={event => setForm({ ...form, currency: event.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+            >
+              {CURRENCY_OPTIONS.filter(option => option.value !== baseCurrency).map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.value}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Kurz ({baseCurrency})</label>
+            <input
+              type="number"
+              step="0.000001"
+              min="0"
+              value={form.rate}
+              onChange={event => setForm({ ...form, rate: event.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+              placeholder="Např. 25,20"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Platí od</label>
+            <input
+              type="date"
+              value={form.valid_from}
+              onChange={event => setForm({ ...form, valid_from: event.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center justify-center gap-2 rounded-lg border border-[#0a192f] px-4 py-2 text-sm text-[#0a192f] transition hover:bg-gray-50 disabled:opacity-60"
+          >
+            <Plus className="w-4 h-4" />
+            {saving ? 'Ukládání...' : 'Přidat kurz'}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -17,6 +17,19 @@ import {
 import { supabase } from '../lib/supabase';
 import { Expense, Category, Project } from '../types/database';
 import { ensureUserOrganization } from '../lib/organization';
+import {
+  BudgetLineOption,
+  fetchBudgetLineOptions,
+  getBudgetLineValue,
+  parseBudgetLineValue
+} from '../lib/budgetVariance';
+import {
+  CURRENCY_OPTIONS,
+  CurrencyConverter,
+  DEFAULT_CURRENCY,
+  formatCurrency,
+  loadCurrencyConverter
+} from '../lib/currency';
 
 interface ExpensesListProps {
   activeOrganizationId: string | null;
@@ -28,12 +41,16 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
   const [projects, setProjects] = useState<Project[]>([]);
   const [showForm, setShowForm] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [converter, setConverter] = useState<CurrencyConverter | null>(null);
+  const [budgetLines, setBudgetLines] = useState<BudgetLineOption[]>([]);
   const createInitialFormState = () => ({
     name: '',
     amount: '',
+    currency: converter?.baseCurrency ?? DEFAULT_CURRENCY,
     date: new Date().toISOString().split('T')[0],
     category_id: '',
     project_id: '',
+    budget_line: '',
     notes: '',
     is_recurring: false,
     recurring_frequency: 'monthly' as 'weekly' | 'monthly' | 'quarterly' | 'yearly',
@@ -62,13 +79,6 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
     return parsed.toLocaleDateString('cs-CZ');
   };
 
-  const formatCurrency = (value: number) =>
-    new Intl.NumberFormat('cs-CZ', {
-      style: 'currency',
-      currency: 'CZK',
-      maximumFractionDigits: 0
-    }).format(value);
-
   useEffect(() => {
     const fetchOrganization = async () => {
       const {
@@ -103,6 +113,36 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
     loadProjects();
   }, [organizationId]);
 
+  useEffect(() => {
+    if (!organizationId) {
+      setConverter(null);
+      return;
+    }
+
+    loadCurrencyConverter(organizationId)
+      .then(setConverter)
+      .catch((error) => {
+        console.error('Error loading exchange rates:', error);
+        setConverter(null);
+      });
+  }, [organizationId]);
+
+  const selectedBudgetId = projects.find((p) => p.id === formData.project_id)?.budget_id ?? null;
+
+  useEffect(() => {
+    if (!selectedBudgetId) {
+      setBudgetLines([]);
+      return;
+    }
+
+    fetchBudgetLineOptions(selectedBudgetId)
+      .then(setBudgetLines)
+      .catch((error) => {
+        console.error('Error loading budget lines:', error);
+        setBudgetLines([]);
+      });
+  }, [selectedBudgetId]);
+
   const loadExpenses = async () => {
     if (!organizationId) return;
     const { data, error } = await supabase
@@ -192,9 +232,12 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
           const { error: insertError } = await supabase.from('expenses').insert({
             name: expense.name,
             amount: expense.amount,
+            currency: expense.currency,
             date: occurrence,
             category_id: expense.category_id,
             project_id: expense.project_id ?? null,
+            budget_item_id: expense.budget_item_id ?? null,
+            budget_section_id: expense.budget_section_id ?? null,
             notes: expense.notes ?? null,
             is_recurring: false,
             recurring_frequency: null,
@@ -246,9 +289,13 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
       const expenseData = {
         name: formData.name,
         amount: normalizedAmount,
+        currency: formData.currency,
         date: formData.date,
         category_id: formData.category_id,
         project_id: formData.project_id || null,
+        ...(selectedBudgetId && budgetLines.some((line) => line.value === formData.budget_line)
+          ? { ...parseBudgetLineValue(formData.budget_line), budget_id: selectedBudgetId }
+          : parseBudgetLineValue('')),
         notes: formData.notes,
         is_recurring: formData.is_recurring,
         recurring_frequency: formData.is_recurring ? formData.recurring_frequency : null,
@@ -289,9 +336,11 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
     setFormData({
       name: expense.name,
       amount: expense.amount.toString(),
+      currency: expense.currency || DEFAULT_CURRENCY,
       date: expense.date,
       category_id: expense.category_id,
       project_id: expense.project_id || '',
+      budget_line: getBudgetLineValue(expense),
       notes: expense.notes || '',
       is_recurring: expense.is_recurring || false,
       recurring_frequency: expense.recurring_frequency || 'monthly',
@@ -398,7 +447,22 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
   const expiredDomains = domainExpenses.filter((item) => item.status === 'expired');
   const upcomingDomains = domainExpenses.filter((item) => item.status === 'upcoming');
 
-  const totalExpenses = expenses.reduce((sum, exp) => sum + exp.amount, 0);
+  const baseCurrency = converter?.baseCurrency ?? DEFAULT_CURRENCY;
+  let unconvertedExpenses = 0;
+  const totalExpenses = expenses.reduce((sum, exp) => {
+    const converted = converter
+      ? converter.convert(exp.amount, exp.currency, exp.date)
+      : (exp.currency || DEFAULT_CURRENCY) === baseCurrency
+        ? exp.amount
+        : null;
+
+    if (converted === null) {
+      unconvertedExpenses += 1;
+      return sum;
+    }
+
+    return sum + converted;
+  }, 0);
 
   return (
     <div>
@@ -406,8 +470,13 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
         <div>
           <h2 className="text-2xl font-bold text-[#0a192f]">Náklady</h2>
           <p className="text-gray-600 mt-1">
-            Celkem: <span className="font-semibold">{totalExpenses.toFixed(2)} Kč</span>
+            Celkem: <span className="font-semibold">{formatCurrency(totalExpenses, baseCurrency, { minimumFractionDigits: 2 })}</span>
           </p>
+          {unconvertedExpenses > 0 && (
+            <p className="text-xs text-amber-600 mt-1">
+              {unconvertedExpenses} nákladů v cizí měně není započteno, chybí kurz v nastavení organizace.
+            </p>
+          )}
         </div>
         <button
           onClick={() => {
@@ -535,7 +604,7 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
                           <div className="text-xs text-gray-500">{item.categoryName}</div>
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap">
-                          <span className="font-semibold text-[#0a192f]">{formatCurrency(item.expense.amount)}</span>
+                          <span className="font-semibold text-[#0a192f]">{formatCurrency(item.expense.amount, item.expense.currency, { maximumFractionDigits: 0 })}</span>
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap">{purchaseLabel}</td>
                         <td className="px-4 py-3 whitespace-nowrap">{renewalLabel}</td>
@@ -599,16 +668,30 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Částka (Kč) *
+                  Částka *
                 </label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.amount}
-                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
-                  required
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                    required
+                  />
+                  <select
+                    value={formData.currency}
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                    aria-label="Měna"
+                  >
+                    {CURRENCY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.value}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div>
@@ -630,7 +713,7 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
                 </label>
                 <select
                   value={formData.project_id}
-                  onChange={(e) => setFormData({ ...formData, project_id: e.target.value })}
+                  onChange={(e) => setFormData({ ...formData, project_id: e.target.value, budget_line: '' })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
                 >
                   <option value="">-- Bez projektu --</option>
@@ -641,6 +724,26 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
                   ))}
                 </select>
               </div>
+
+              {budgetLines.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Položka rozpočtu
+                  </label>
+                  <select
+                    value={formData.budget_line}
+                    onChange={(e) => setFormData({ ...formData, budget_line: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                  >
+                    <option value="">-- Nezapočítávat do položky --</option>
+                    {budgetLines.map((line) => (
+                      <option key={line.value} value={line.value}>
+                        {line.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
 
             <div className="border-t border-gray-200 pt-4">
@@ -797,7 +900,7 @@ export default function ExpensesList({ activeOrganizationId }: ExpensesListProps
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className="text-sm font-semibold text-[#0a192f]">
-                    {expense.amount.toFixed(2)} Kč
+                    {formatCurrency(expense.amount, expense.currency, { minimumFractionDigits: 2 })}
                   </span>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
@@ -0,0 +1,573 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, FileText, Printer, Receipt, RotateCcw, Trash2, Wallet } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { ensureUserOrganization, fetchOrganization } from '../lib/organization';
+import { formatCurrency } from '../lib/currency';
+import {
+  createInvoiceFromBudget,
+  createInvoiceFromExpenses,
+  fetchInvoice,
+  fetchInvoices,
+  getDefaultDueDate,
+  isInvoiceOverdue,
+  setInvoicePaid
+} from '../lib/invoices';
+import { printInvoice } from '../lib/invoicePrint';
+import { ClientWithContacts, fetchClients, getBudgetClientFields } from '../lib/clients';
+import { Budget, Expense, Invoice, Organization } from '../types/database';
+
+interface InvoicesProps {
+  activeOrganizationId: string | null;
+}
+
+type InvoiceFilter = 'all' | 'unpaid' | 'overdue' | 'paid';
+type CreateMode = 'budget' | 'expenses' | null;
+
+const filterLabels: Record<InvoiceFilter, string> = {
+  all: 'Vše',
+  unpaid: 'Neuhrazené',
+  overdue: 'Po splatnosti',
+  paid: 'Uhrazené'
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error && typeof error === 'object' && 'message' in error && typeof error.message === 'string'
+    ? `${fallback} ${error.message}`
+    : fallback;
+
+export default function Invoices({ activeOrganizationId }: InvoicesProps) {
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [approvedBudgets, setApprovedBudgets] = useState<Budget[]>([]);
+  const [billableExpenses, setBillableExpenses] = useState<Expense[]>([]);
+  const [clients, setClients] = useState<ClientWithContacts[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<InvoiceFilter>('all');
+  const [createMode, setCreateMode] = useState<CreateMode>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [budgetForm, setBudgetForm] = useState({ budget_id: '', due_date: getDefaultDueDate() });
+  const [expenseForm, setExpenseForm] = useState({
+    expense_ids: [] as string[],
+    client_id: '',
+    client_email: '',
+    due_date: getDefaultDueDate()
+  });
+
+  useEffect(() => {
+    const resolveOrganization = async () => {
+      const {
+        data: { user }
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        setOrganizationId(null);
+        return;
+      }
+
+      const orgId = await ensureUserOrganization(user.id, activeOrganizationId);
+      setOrganizationId(orgId);
+    };
+
+    resolveOrganization();
+  }, [activeOrganizationId]);
+
+  const loadData = useCallback(async (orgId: string) => {
+    try {
+      setLoading(true);
+
+      const [invoiceList, organizationData, budgetsRes, expensesRes, clientList] = await Promise.all([
+        fetchInvoices(orgId),
+        fetchOrganization(orgId),
+        supabase
+          .from('budgets')
+          .select('*')
+          .eq('organization_id', orgId)
+          .eq('status', 'approved')
+          .eq('archived', false)
+          .order('updated_at', { ascending: false }),
+        supabase
+          .from('expenses')
+          .select('*')
+          .eq('organization_id', orgId)
+          .eq('is_billable', true)
+          .eq('is_billed', false)
+          .order('date', { ascending: false }),
+        fetchClients(orgId)
+      ]);
+
+      if (budgetsRes.error) throw budgetsRes.error;
+      if (expensesRes.error) throw expensesRes.error;
+
+      setInvoices(invoiceList);
+      setOrganization(organizationData);
+      setApprovedBudgets((budgetsRes.data as Budget[]) || []);
+      setBillableExpenses((expensesRes.data as Expense[]) || []);
+      setClients(clientList);
+    } catch (error) {
+      console.error('Error loading invoices:', error);
+      setInvoices([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!organizationId) {
+      setInvoices([]);
+      setApprovedBudgets([]);
+      setBillableExpenses([]);
+      setClients([]);
+      setOrganization(null);
+      setLoading(false);
+      return;
+    }
+
+    loadData(organizationId);
+  }, [organizationId, loadData]);
+
+  const invoicedBudgetIds = new Set(invoices.map((invoice) => invoice.budget_id).filter(Boolean));
+
+  const filteredInvoices = invoices.filter((invoice) => {
+    switch (filter) {
+      case 'unpaid':
+        return invoice.status === 'unpaid';
+      case 'overdue':
+        return isInvoiceOverdue(invoice);
+      case 'paid':
+        return invoice.status === 'paid';
+      default:
+        return true;
+    }
+  });
+
+  const unpaidInvoices = invoices.filter((invoice) => invoice.status === 'unpaid');
+  const overdueInvoices = invoices.filter((invoice) => isInvoiceOverdue(invoice));
+  const paidInvoices = invoices.filter((invoice) => invoice.status === 'paid');
+
+  const selectedExpenses = billableExpenses.filter((expense) => expenseForm.expense_ids.includes(expense.id));
+  const selectedCurrencies = new Set(selectedExpenses.map((expense) => expense.currency));
+
+  const closeCreateForm = () => {
+    setCreateMode(null);
+    setBudgetForm({ budget_id: '', due_date: getDefaultDueDate() });
+    setExpenseForm({ expense_ids: [], client_id: '', client_email: '', due_date: getDefaultDueDate() });
+  };
+
+  const handlePrint = async (invoiceId: string) => {
+    try {
+      const invoice = await fetchInvoice(invoiceId);
+      printInvoice(invoice, organization);
+    } catch (error) {
+      console.error('Error loading invoice:', error);
+      alert('Fakturu se nepodařilo načíst.');
+    }
+  };
+
+  const handleCreateFromBudget = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!organizationId || !budgetForm.budget_id) return;
+
+    try {
+      setSubmitting(true);
+      await createInvoiceFromBudget(budgetForm.budget_id, budgetForm.due_date);
+      closeCreateForm();
+      await loadData(organizationId);
+    } catch (error) {
+      console.error('Error creating invoice from budget:', error);
+      alert(getErrorMessage(error, 'Fakturu se nepodařilo vystavit.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCreateFromExpenses = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!organizationId || expenseForm.expense_ids.length === 0 || !expenseForm.client_id) return;
+
+    if (selectedCurrencies.size > 1) {
+      alert('Vybrané náklady musí být ve stejné měně.');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await createInvoiceFromExpenses(
+        expenseForm.expense_ids,
+        { id: expenseForm.client_id, email: expenseForm.client_email.trim() || null },
+        expenseForm.due_date
+      );
+      closeCreateForm();
+      await loadData(organizationId);
+    } catch (error) {
+      console.error('Error creating invoice from expenses:', error);
+      alert(getErrorMessage(error, 'Fakturu se nepodařilo vystavit.'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleTogglePaid = async (invoice: Invoice) => {
+    if (!organizationId) return;
+
+    const markAsPaid = invoice.status !== 'paid';
+    if (!markAsPaid && !confirm('Opravdu chcete fakturu vrátit mezi neuhrazené?')) return;
+
+    try {
+      setProcessingId(invoice.id);
+      await setInvoicePaid(invoice.id, markAsPaid);
+      await loadData(organizationId);
+    } catch (error) {
+      console.error('Error updating invoice payment:', error);
+      alert('Stav úhrady se nepodařilo změnit.');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleDelete = async (invoice: Invoice) => {
+    if (!organizationId) return;
+    if (!confirm(`Opravdu chcete smazat fakturu ${invoice.invoice_number}?`)) return;
+
+    const { error } = await supabase.from('invoices').delete().eq('id', invoice.id);
+
+    if (error) {
+      console.error('Error deleting invoice:', error);
+      alert('Fakturu se nepodařilo smazat. Mazat mohou pouze vlastníci a správci týmu.');
+      return;
+    }
+
+    await loadData(organizationId);
+  };
+
+  const toggleExpense = (expenseId: string) => {
+    setExpenseForm((prev) => ({
+      ...prev,
+      expense_ids: prev.expense_ids.includes(expenseId)
+        ? prev.expense_ids.filter((id) => id !== expenseId)
+        : [...prev.expense_ids, expenseId]
+    }));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-600">Načítání...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-[#0a192f]">Faktury</h2>
+          <p className="text-gray-600 mt-1">Vystavené doklady ze schválených rozpočtů a přefakturovaných nákladů</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setCreateMode(createMode === 'budget' ? null : 'budget')}
+            className="flex items-center gap-2 bg-[#0a192f] text-white px-6 py-3 rounded-lg hover:bg-opacity-90 transition"
+          >
+            <FileText className="w-5 h-5" />
+            <span>Z rozpočtu</span>
+          </button>
+          <button
+            onClick={() => setCreateMode(createMode === 'expenses' ? null : 'expenses')}
+            className="flex items-center gap-2 border border-[#0a192f] text-[#0a192f] px-6 py-3 rounded-lg hover:bg-gray-50 transition"
+          >
+            <Wallet className="w-5 h-5" />
+            <span>Z nákladů</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-600">Neuhrazené</p>
+          <p className="text-2xl font-bold text-[#0a192f] mt-1">{unpaidInvoices.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-600">Po splatnosti</p>
+          <p className={`text-2xl font-bold mt-1 ${overdueInvoices.length > 0 ? 'text-red-600' : 'text-[#0a192f]'}`}>
+            {overdueInvoices.length}
+          </p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-600">Uhrazené</p>
+          <p className="text-2xl font-bold text-[#0a192f] mt-1">{paidInvoices.length}</p>
+        </div>
+      </div>
+
+      {createMode === 'budget' && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h3 className="text-lg font-semibold text-[#0a192f] mb-4">Vystavit fakturu ze schváleného rozpočtu</h3>
+          {approvedBudgets.length === 0 ? (
+            <p className="text-sm text-gray-600">Žádný rozpočet zatím není ve stavu „Schváleno“.</p>
+          ) : (
+            <form onSubmit={handleCreateFromBudget} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Rozpočet *</label>
+                  <select
+                    value={budgetForm.budget_id}
+                    onChange={(e) => setBudgetForm({ ...budgetForm, budget_id: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                    required
+                  >
+                    <option value="">Vyberte rozpočet</option>
+                    {approvedBudgets.map((budget) => (
+                      <option key={budget.id} value={budget.id}>
+                        {budget.name} – {budget.client_name}
+                        {invoicedBudgetIds.has(budget.id) ? ' (již fakturováno)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Datum splatnosti *</label>
+                  <input
+                    type="date"
+                    value={budgetForm.due_date}
+                    onChange={(e) => setBudgetForm({ ...budgetForm, due_date: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                    required
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="bg-[#0a192f] text-white px-6 py-2 rounded-lg hover:bg-opacity-90 transition disabled:opacity-60"
+                >
+                  {submitting ? 'Vystavuji...' : 'Vystavit fakturu'}
+                </button>
+                <button
+                  type="button"
+                  onClick={closeCreateForm}
+                  className="border border-gray-300 text-gray-700 px-6 py-2 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Zrušit
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+
+      {createMode === 'expenses' && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h3 className="text-lg font-semibold text-[#0a192f] mb-4">Vystavit fakturu z nákladů k přefakturaci</h3>
+          {billableExpenses.length === 0 ? (
+            <p className="text-sm text-gray-600">Nemáte žádné nevyfakturované náklady označené k přefakturaci.</p>
+          ) : (
+            <form onSubmit={handleCreateFromExpenses} className="space-y-4">
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-72 overflow-y-auto">
+                {billableExpenses.map((expense) => (
+                  <label key={expense.id} className="flex items-center justify-between gap-4 px-4 py-3 hover:bg-gray-50 cursor-pointer">
+                    <span className="flex items-center gap-3">
+                      <input
+                        type="checkbox"
+                        checked={expenseForm.expense_ids.includes(expense.id)}
+                        onChange={() => toggleExpense(expense.id)}
+                        className="w-4 h-4 text-[#0a192f] border-gray-300 rounded focus:ring-[#0a192f]"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium text-gray-900">{expense.name}</span>
+                        <span className="block text-xs text-gray-500">
+                          {new Date(expense.date).toLocaleDateString('cs-CZ')}
+                        </span>
+                      </span>
+                    </span>
+                    <span className="text-sm font-semibold text-[#0a192f]">
+                      {formatCurrency(expense.amount, expense.currency, { minimumFractionDigits: 2 })}
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              {selectedCurrencies.size > 1 && (
+                <p className="flex items-center gap-2 text-sm text-amber-600">
+                  <AlertTriangle className="w-4 h-4" />
+                  Vybrané náklady jsou v různých měnách, na jednu fakturu je nelze sloučit.
+                </p>
+              )}
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Odběratel *</label>
+                  <select
+                    value={expenseForm.client_id}
+                    onChange={(e) => {
+                      const client = clients.find((entry) => entry.id === e.target.value);
+                      setExpenseForm({
+                        ...expenseForm,
+                        client_id: e.target.value,
+                        client_email: client ? getBudgetClientFields(client).client_email : ''
+                      });
+                    }}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                    required
+                  >
+                    <option value="">-- Vyberte klienta --</option>
+                    {clients.map((client) => (
+                      <option key={client.id} value={client.id}>
+                        {client.name}
+                      </option>
+                    ))}
+                  </select>
+                  {clients.length === 0 && (
+                    <p className="mt-1 text-xs text-gray-500">Nejprve přidejte klienta v sekci Klienti.</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">E-mail odběratele</label>
+                  <input
+                    type="email"
+                    value={expenseForm.client_email}
+                    onChange={(e) => setExpenseForm({ ...expenseForm, client_email: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Datum splatnosti *</label>
+                  <input
+                    type="date"
+                    value={expenseForm.due_date}
+                    onChange={(e) => setExpenseForm({ ...expenseForm, due_date: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={
+                    submitting || expenseForm.expense_ids.length === 0 || !expenseForm.client_id || selectedCurrencies.size > 1
+                  }
+                  className="bg-[#0a192f] text-white px-6 py-2 rounded-lg hover:bg-opacity-90 transition disabled:opacity-60"
+                >
+                  {submitting ? 'Vystavuji...' : `Vystavit fakturu (${expenseForm.expense_ids.length})`}
+                </button>
+                <button
+                  type="button"
+                  onClick={closeCreateForm}
+                  className="border border-gray-300 text-gray-700 px-6 py-2 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Zrušit
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        {(Object.keys(filterLabels) as InvoiceFilter[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setFilter(key)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
+              filter === key ? 'bg-[#0a192f] text-white' : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-200'
+            }`}
+          >
+            {filterLabels[key]}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Číslo</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Odběratel</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Vystaveno</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Splatnost</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Celkem s DPH</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">Stav</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-700 uppercase tracking-wider">Akce</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {filteredInvoices.map((invoice) => {
+              const overdue = isInvoiceOverdue(invoice);
+
+              return (
+                <tr key={invoice.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center gap-2">
+                      <Receipt className="w-4 h-4 text-gray-400" />
+                      <span className="text-sm font-medium text-gray-900">{invoice.invoice_number}</span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{invoice.client_name || '—'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {new Date(invoice.issue_date).toLocaleDateString('cs-CZ')}
+                  </td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${overdue ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                    {new Date(invoice.due_date).toLocaleDateString('cs-CZ')}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-semibold text-[#0a192f]">
+                    {formatCurrency(invoice.total, invoice.currency, { minimumFractionDigits: 2 })}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${
+                        invoice.status === 'paid'
+                          ? 'bg-emerald-100 text-emerald-700'
+                          : overdue
+                            ? 'bg-red-100 text-red-700'
+                            : 'bg-amber-100 text-amber-700'
+                      }`}
+                    >
+                      {invoice.status === 'paid'
+                        ? `Uhrazeno ${invoice.paid_date ? new Date(invoice.paid_date).toLocaleDateString('cs-CZ') : ''}`.trim()
+                        : overdue
+                          ? 'Po splatnosti'
+                          : 'Neuhrazeno'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => handlePrint(invoice.id)}
+                      className="text-[#0a192f] hover:bg-gray-100 p-2 rounded-lg transition inline-flex mr-2"
+                      title="Tisk faktury"
+                    >
+                      <Printer className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleTogglePaid(invoice)}
+                      disabled={processingId === invoice.id}
+                      className="text-[#0a192f] hover:bg-gray-100 p-2 rounded-lg transition inline-flex mr-2 disabled:opacity-50"
+                      title={invoice.status === 'paid' ? 'Vrátit mezi neuhrazené' : 'Označit jako uhrazené'}
+                    >
+                      {invoice.status === 'paid' ? <RotateCcw className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(invoice)}
+                      className="text-red-600 hover:bg-red-50 p-2 rounded-lg transition inline-flex"
+                      title="Smazat fakturu"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {filteredInvoices.length === 0 && (
+          <div className="text-center py-12 text-gray-500">
+            {invoices.length === 0 ? 'Zatím nemáte vystavené žádné faktury' : 'Žádné faktury neodpovídají filtru'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
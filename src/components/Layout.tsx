@@ -4,6 +4,7 @@ import {
   FileText,
   TrendingUp,
   DollarSign,
+  Receipt,
   Users,
   Briefcase,
   Home,
@@ -12,7 +13,8 @@ import {
   Calendar as CalendarIcon,
   UserCircle,
   UserCog,
-  ChevronDown
+  ChevronDown,
+  Building2
 } from 'lucide-react';
 import type { LucideIcon } from 'lucide-react';
 import { supabase } from '../lib/supabase';
@@ -20,7 +22,9 @@ import { supabase } from '../lib/supabase';
 type ViewName =
   | 'dashboard'
   | 'budgets'
+  | 'clients'
   | 'expenses'
+  | 'invoices'
   | 'analytics'
   | 'employees'
   | 'projects'
@@ -122,12 +126,24 @@ export default function Layout({
               isActive={currentView === 'budgets'}
               onClick={() => onViewChange('budgets')}
             />
+            <SidebarButton
+              icon={Building2}
+              label="Klienti"
+              isActive={currentView === 'clients'}
+              onClick={() => onViewChange('clients')}
+            />
             <SidebarButton
               icon={DollarSign}
               label="Náklady"
               isActive={currentView === 'expenses'}
               onClick={() => onViewChange('expenses')}
             />
+            <SidebarButton
+              icon={Receipt}
+              label="Faktury"
+              isActive={currentView === 'invoices'}
+              onClick={() => onViewChange('invoices')}
+            />
             <SidebarButton
               icon={TrendingUp}
               label="Analytika"
@@ -0,0 +1,325 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { Archive, ArchiveRestore, BookOpen, Pencil, Plus } from 'lucide-react';
+
+import { supabase } from '../lib/supabase';
+import { fetchCatalogItems, saveCatalogItem, setCatalogItemArchived } from '../lib/catalog';
+import { formatCurrency } from '../lib/currency';
+import { VAT_RATE_OPTIONS } from '../lib/vat';
+import { CatalogItem, Category } from '../types/database';
+
+interface PriceCatalogSettingsProps {
+  organizationId: string;
+  currency: string;
+  canManage: boolean;
+}
+
+const emptyForm = {
+  name: '',
+  unit: 'ks',
+  price_per_unit: '',
+  internal_price_per_unit: '',
+  category_id: '',
+  vat_rate: '',
+  is_cost: false,
+  is_personnel: false
+};
+
+const parseAmount = (value: string) => parseFloat(value.replace(/\s+/g, '').replace(',', '.'));
+
+export default function PriceCatalogSettings({ organizationId, currency, canManage }: PriceCatalogSettingsProps) {
+  const [entries, setEntries] = useState<CatalogItem[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const loadCatalog = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [catalog, categoriesRes] = await Promise.all([
+        fetchCatalogItems(organizationId),
+        supabase.from('categories').select('*').eq('organization_id', organizationId).order('name')
+      ]);
+
+      setEntries(catalog);
+      setCategories(categoriesRes.data || []);
+    } catch (err) {
+      console.error('Error loading price catalog:', err);
+      setError('Nepodařilo se načíst ceník.');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  const startEditing = (entry: CatalogItem) => {
+    setEditingId(entry.id);
+    setError(null);
+    setForm({
+      name: entry.name,
+      unit: entry.unit,
+      price_per_unit: String(entry.price_per_unit),
+      internal_price_per_unit: String(entry.internal_price_per_unit),
+      category_id: entry.category_id ?? '',
+      vat_rate: entry.vat_rate === null || entry.vat_rate === undefined ? '' : String(entry.vat_rate),
+      is_cost: entry.is_cost,
+      is_personnel: entry.is_personnel
+    });
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    const price = parseAmount(form.price_per_unit);
+    const internalPrice = form.internal_price_per_unit.trim() ? parseAmount(form.internal_price_per_unit) : 0;
+
+    if (!form.name.trim() || !Number.isFinite(price) || price < 0 || !Number.isFinite(internalPrice) || internalPrice < 0) {
+      setError('Zadejte název položky a nezáporné ceny.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      await saveCatalogItem(
+        organizationId,
+        {
+          name: form.name,
+          unit: form.unit,
+          price_per_unit: price,
+          internal_price_per_unit: internalPrice,
+          category_id: form.category_id || null,
+          vat_rate: form.vat_rate === '' ? null : Number(form.vat_rate),
+          is_cost: form.is_cost,
+          is_personnel: form.is_personnel
+        },
+        editingId
+      );
+
+      resetForm();
+      await loadCatalog();
+    } catch (err) {
+      console.error('Error saving catalog item:', err);
+      setError('Položku ceníku se nepodařilo uložit. Název a jednotka musí být v ceníku jedinečné.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchiveToggle = async (entry: CatalogItem) => {
+    try {
+      await setCatalogItemArchived(entry.id, !entry.archived);
+      setEntries(prev => prev.map(item => (item.id === entry.id ? { ...item, archived: !entry.archived } : item)));
+    } catch (err) {
+      console.error('Error archiving catalog item:', err);
+      alert('Položku ceníku se nepodařilo upravit.');
+    }
+  };
+
+  const visibleEntries = entries.filter(entry => showArchived || !entry.archived);
+  const categoryName = (categoryId?: string | null) =>
+    categories.find(category => category.id === categoryId)?.name ?? '—';
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between mb-4">
+        <div>
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-[#0a192f]">
+            <BookOpen className="w-5 h-5" />
+            Ceník položek
+          </h3>
+          <p className="text-sm text-gray-500">
+            Standardní položky se nabízejí při psaní názvu v rozpočtu. Ceny jsou v {currency} bez DPH. Změnu ceny uvidíte
+            u rozpracovaných rozpočtů, které položku používají.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600 whitespace-nowrap">
+          <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+          Zobrazit archivované
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Načítání ceníku...</p>
+      ) : visibleEntries.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">Ceník je zatím prázdný.</p>
+      ) : (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+                <th className="py-2 font-medium">Položka</th>
+                <th className="py-2 font-medium">Kategorie</th>
+                <th className="py-2 font-medium text-right">Cena pro klienta</th>
+                <th className="py-2 font-medium text-right">Interní cena</th>
+                {canManage && <th className="py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visibleEntries.map(entry => (
+                <tr key={entry.id} className={entry.archived ? 'text-gray-400' : 'text-[#0a192f]'}>
+                  <td className="py-2">
+                    {entry.name}
+                    <span className="text-xs text-gray-500"> / {entry.unit}</span>
+                    {(entry.is_cost || entry.is_personnel) && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        {[entry.is_cost && 'náklad', entry.is_personnel && 'personální'].filter(Boolean).join(', ')}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 text-gray-600">{categoryName(entry.category_id)}</td>
+                  <td className="py-2 text-right">{formatCurrency(entry.price_per_unit, currency)}</td>
+                  <td className="py-2 text-right">{formatCurrency(entry.internal_price_per_unit, currency)}</td>
+                  {canManage && (
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => startEditing(entry)}
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded"
+                        title="Upravit položku"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleArchiveToggle(entry)}
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded"
+                        title={entry.archived ? 'Obnovit položku' : 'Archivovat položku'}
+                      >
+                        {entry.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canManage && (
+        <form onSubmit={handleSubmit} className="border-t border-gray-100 pt-4 space-y-3">
+          <h4 className="text-sm font-semibold text-[#0a192f]">{editingId ? 'Upravit položku ceníku' : 'Nová položka ceníku'}</h4>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="lg:col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Název</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Jednotka</label>
+              <input
+                type="text"
+                value={form.unit}
+                onChange={e => setForm({ ...form, unit: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Kategorie</label>
+              <select
+                value={form.category_id}
+                onChange={e => setForm({ ...form, category_id: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+              >
+                <option value="">Bez kategorie</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Cena pro klienta ({currency})</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={form.price_per_unit}
+                onChange={e => setForm({ ...form, price_per_unit: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Interní cena ({currency})</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={form.internal_price_per_unit}
+                onChange={e => setForm({ ...form, internal_price_per_unit: e.target.value })}
+                disabled={form.is_cost}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent disabled:bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">DPH</label>
+              <select
+                value={form.vat_rate}
+                onChange={e => setForm({ ...form, vat_rate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+              >
+                <option value="">Výchozí sazba</option>
+                {VAT_RATE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col justify-end gap-1 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={form.is_cost} onChange={e => setForm({ ...form, is_cost: e.target.checked })} />
+                Interní náklad
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.is_personnel}
+                  onChange={e => setForm({ ...form, is_personnel: e.target.checked })}
+                />
+                Personální náklad
+              </label>
+            </div>
+          </div>
+          <div className="flex justify-end gap-3">
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition"
+              >
+                Zrušit
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-[#0a192f] text-white rounded-lg hover:bg-opacity-90 transition disabled:opacity-60"
+            >
+              <Plus className="w-4 h-4" />
+              {saving ? 'Ukládání...' : editingId ? 'Uložit změny' : 'Přidat do ceníku'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
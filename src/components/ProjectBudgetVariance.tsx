@@ -0,0 +1,176 @@
+import { AlertTriangle, TrendingDown, TrendingUp } from 'lucide-react';
+
+import {
+  BudgetVarianceReport,
+  BudgetVarianceTotals,
+  getCostVariance,
+  getMarginPercent,
+  getPlannedMargin,
+  getRealizedMargin,
+  isCostOverrun
+} from '../lib/budgetVariance';
+import { formatCurrency } from '../lib/currency';
+
+interface ProjectBudgetVarianceProps {
+  report: BudgetVarianceReport;
+  currency: string;
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${value.toLocaleString('cs-CZ', { maximumFractionDigits: 1 })} %`;
+
+const formatHours = (value: number) => `${value.toLocaleString('cs-CZ', { maximumFractionDigits: 1 })} h`;
+
+export default function ProjectBudgetVariance({ report, currency }: ProjectBudgetVarianceProps) {
+  const money = (value: number) => formatCurrency(value, currency);
+  const plannedMargin = getPlannedMargin(report);
+  const realizedMargin = getRealizedMargin(report);
+  const overrunLines = report.sections.reduce(
+    (count, section) => count + section.lines.filter(isCostOverrun).length,
+    0
+  );
+
+  const renderFigures = (totals: BudgetVarianceTotals) => {
+    const variance = getCostVariance(totals);
+    const overrun = isCostOverrun(totals);
+    const planned = getPlannedMargin(totals);
+    const realized = getRealizedMargin(totals);
+
+    return (
+      <>
+        <td className="px-4 py-2 text-right whitespace-nowrap">{money(totals.revenue)}</td>
+        <td className="px-4 py-2 text-right whitespace-nowrap">{money(totals.plannedCost)}</td>
+        <td className="px-4 py-2 text-right whitespace-nowrap">
+          {money(totals.actualCost)}
+          {totals.actualHours > 0 && (
+            <div className="text-xs text-gray-500">
+              {formatHours(totals.actualHours)} / {formatHours(totals.plannedHours)}
+            </div>
+          )}
+        </td>
+        <td className={`px-4 py-2 text-right whitespace-nowrap font-medium ${overrun ? 'text-red-600' : 'text-green-700'}`}>
+          {variance > 0 ? '+' : ''}
+          {money(variance)}
+        </td>
+        <td className="px-4 py-2 text-right whitespace-nowrap">
+          {money(planned)}
+          <div className="text-xs text-gray-500">{formatPercent(getMarginPercent(planned, totals.revenue))}</div>
+        </td>
+        <td className={`px-4 py-2 text-right whitespace-nowrap ${realized < planned ? 'text-red-600' : 'text-[#0a192f]'}`}>
+          {money(realized)}
+          <div className="text-xs opacity-75">{formatPercent(getMarginPercent(realized, totals.revenue))}</div>
+        </td>
+      </>
+    );
+  };
+
+  const summary = [
+    { label: 'Plánované náklady', value: money(report.plannedCost), helper: `Tržba ${money(report.revenue)}` },
+    {
+      label: 'Skutečné náklady',
+      value: money(report.actualCost),
+      helper: `z toho práce ${money(report.labourCost)}`,
+      accentClass: isCostOverrun(report) ? 'text-red-600' : 'text-[#0a192f]'
+    },
+    {
+      label: 'Plánovaná marže',
+      value: money(plannedMargin),
+      helper: formatPercent(getMarginPercent(plannedMargin, report.revenue))
+    },
+    {
+      label: 'Dosažená marže',
+      value: money(realizedMargin),
+      helper: formatPercent(getMarginPercent(realizedMargin, report.revenue)),
+      accentClass: realizedMargin < plannedMargin ? 'text-red-600' : 'text-green-700'
+    }
+  ];
+
+  return (
+    <div className="mb-6 rounded-3xl bg-white p-6 shadow">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-[#0a192f]">Plán vs. skutečnost</h3>
+        {overrunLines > 0 ? (
+          <span className="flex items-center gap-1 rounded-full bg-red-100 px-3 py-1 text-xs font-medium text-red-700">
+            <TrendingUp className="h-3 w-3" />
+            Překročeno u {overrunLines} položek
+          </span>
+        ) : (
+          <span className="flex items-center gap-1 rounded-full bg-green-100 px-3 py-1 text-xs font-medium text-green-700">
+            <TrendingDown className="h-3 w-3" />
+            Bez překročení
+          </span>
+        )}
+      </div>
+
+      <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-4">
+        {summary.map(card => (
+          <div key={card.label} className="rounded-2xl border border-gray-100 bg-gray-50 p-4">
+            <div className="text-sm text-gray-600">{card.label}</div>
+            <div className={`mt-1 text-xl font-bold ${card.accentClass ?? 'text-[#0a192f]'}`}>{card.value}</div>
+            <div className="mt-1 text-xs text-gray-500">{card.helper}</div>
+          </div>
+        ))}
+      </div>
+
+      {report.sections.length === 0 ? (
+        <p className="py-4 text-center text-sm text-gray-500">Rozpočet nemá žádné položky</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-xs uppercase tracking-wider text-gray-700">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">Položka</th>
+                <th className="px-4 py-2 text-right font-medium">Cena</th>
+                <th className="px-4 py-2 text-right font-medium">Plán nákladů</th>
+                <th className="px-4 py-2 text-right font-medium">Skutečnost</th>
+                <th className="px-4 py-2 text-right font-medium">Rozdíl</th>
+                <th className="px-4 py-2 text-right font-medium">Plánovaná marže</th>
+                <th className="px-4 py-2 text-right font-medium">Dosažená marže</th>
+              </tr>
+            </thead>
+            {report.sections.map(section => (
+              <tbody key={section.section?.id ?? 'unsectioned'} className="divide-y divide-gray-100">
+                <tr className={`font-semibold ${isCostOverrun(section) ? 'bg-red-50' : 'bg-gray-100'} text-[#0a192f]`}>
+                  <td className="px-4 py-2">{section.section?.name ?? 'Bez oddílu'}</td>
+                  {renderFigures(section)}
+                </tr>
+                {section.lines.map(line => (
+                  <tr key={line.item.id} className={isCostOverrun(line) ? 'bg-red-50' : undefined}>
+                    <td className="px-4 py-2 pl-8">
+                      <div className="flex items-center gap-2">
+                        {isCostOverrun(line) && <AlertTriangle className="h-4 w-4 flex-shrink-0 text-red-600" />}
+                        <span>{line.item.item_name}</span>
+                      </div>
+                    </td>
+                    {renderFigures(line)}
+                  </tr>
+                ))}
+                {section.sectionCost !== 0 && (
+                  <tr>
+                    <td className="px-4 py-2 pl-8 italic text-gray-600">Náklady na celý oddíl</td>
+                    <td colSpan={2} />
+                    <td className="px-4 py-2 text-right whitespace-nowrap text-gray-600">{money(section.sectionCost)}</td>
+                    <td colSpan={3} />
+                  </tr>
+                )}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      )}
+
+      {(report.unattributedCost !== 0 || report.unconverted > 0) && (
+        <div className="mt-4 space-y-1 text-xs text-gray-500">
+          {report.unattributedCost !== 0 && (
+            <div>Náklady projektu nepřiřazené k rozpočtu: {money(report.unattributedCost)}</div>
+          )}
+          {report.unconverted > 0 && (
+            <div className="text-amber-700">
+              {report.unconverted} nákladů nebo úkolů není započteno, chybí kurz do měny {currency}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
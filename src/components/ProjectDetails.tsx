@@ -14,7 +14,17 @@ import {
   GitBranchPlus
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { fetchClient, getBudgetClientFields } from '../lib/clients';
+import {
+  BudgetVarianceSource,
+  calculateBudgetVariance,
+  fetchBudgetVarianceSource,
+  getBudgetLineOptions,
+  getBudgetLineValue,
+  parseBudgetLineValue
+} from '../lib/budgetVariance';
 import { Project, Employee, ProjectAssignment, Task, Budget } from '../types/database';
+import ProjectBudgetVariance from './ProjectBudgetVariance';
 
 interface ProjectDetailsProps {
   project: Project;
@@ -29,6 +39,7 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
   const [parentProject, setParentProject] = useState<Project | null>(null);
   const [childProjects, setChildProjects] = useState<Project[]>([]);
   const [linkedBudget, setLinkedBudget] = useState<Budget | null>(null);
+  const [varianceSource, setVarianceSource] = useState<BudgetVarianceSource | null>(null);
   const [showAssignmentForm, setShowAssignmentForm] = useState(false);
   const [showTaskForm, setShowTaskForm] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
@@ -49,7 +60,8 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
     estimated_hours: 0,
     actual_hours: 0,
     deadline: '',
-    status: 'todo' as Task['status']
+    status: 'todo' as Task['status'],
+    budget_line: ''
   });
 
   useEffect(() => {
@@ -102,12 +114,16 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
           .limit(1);
 
         if (!budgetError && budgetRows && budgetRows.length > 0) {
-          setLinkedBudget(budgetRows[0] as Budget);
+          const budget = budgetRows[0] as Budget;
+          setLinkedBudget(budget);
+          setVarianceSource(await fetchBudgetVarianceSource(budget, project.id));
         } else {
           setLinkedBudget(null);
+          setVarianceSource(null);
         }
       } else {
         setLinkedBudget(null);
+        setVarianceSource(null);
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -159,8 +175,10 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      const { budget_line, ...taskFields } = taskForm;
       const taskData = {
-        ...taskForm,
+        ...taskFields,
+        ...parseBudgetLineValue(budget_line),
         project_id: project.id,
         assigned_to: taskForm.assigned_to || null,
         deadline: taskForm.deadline || null,
@@ -197,7 +215,10 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
       estimated_hours: task.estimated_hours,
       actual_hours: task.actual_hours,
       deadline: task.deadline || '',
-      status: task.status
+      status: task.status,
+      budget_line: budgetLineOptions.some(option => option.value === getBudgetLineValue(task))
+        ? getBudgetLineValue(task)
+        : ''
     });
     setShowTaskForm(true);
   };
@@ -246,12 +267,19 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
       estimated_hours: 0,
       actual_hours: 0,
       deadline: '',
-      status: 'todo'
+      status: 'todo',
+      budget_line: ''
     });
     setEditingTask(null);
     setShowTaskForm(false);
   };
 
+  const budgetLineOptions = varianceSource ? getBudgetLineOptions(varianceSource.sections, varianceSource.items) : [];
+  const varianceReport = varianceSource ? calculateBudgetVariance(varianceSource, tasks, employees) : null;
+
+  const getBudgetLineLabel = (task: Task) =>
+    budgetLineOptions.find(option => option.value === getBudgetLineValue(task))?.label.trim() ?? null;
+
   const getEmployeeName = (employeeId: string) => {
     const employee = employees.find(e => e.id === employeeId);
     return employee ? `${employee.first_name} ${employee.last_name}` : 'N/A';
@@ -466,11 +494,13 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
       }
       const defaultCategoryId = categories[0].id;
 
+      const client = project.client_id ? await fetchClient(project.client_id) : null;
+
       const { data: newBudget, error: budgetError } = await supabase
         .from('budgets')
         .insert({
           name: `Rozpočet - ${project.name}`,
-          client_name: project.name,
+          ...(client ? getBudgetClientFields(client) : { client_name: '' }),
           status: 'draft',
           user_id: user.id,
           organization_id: project.organization_id
@@ -516,17 +546,33 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
         })
       );
 
-      const { error: itemsError } = await supabase
+      const { data: insertedItems, error: itemsError } = await supabase
         .from('budget_items')
-        .insert(budgetItems);
+        .insert(budgetItems)
+        .select('id, task_id');
 
       if (itemsError) throw itemsError;
 
-      await supabase
+      const { error: projectError } = await supabase
         .from('projects')
         .update({ budget_id: newBudget.id })
         .eq('id', project.id);
 
+      if (projectError) throw projectError;
+
+      // Hours logged on the tasks are then charged to the lines generated from them.
+      const taskResults = await Promise.all(
+        (insertedItems ?? []).map(item =>
+          supabase
+            .from('tasks')
+            .update({ budget_item_id: item.id, budget_section_id: null })
+            .eq('id', item.task_id)
+        )
+      );
+
+      const taskError = taskResults.find(result => result.error)?.error;
+      if (taskError) throw taskError;
+
       alert(`Rozpočet byl úspěšně vytvořen s ${budgetItems.length} položkami!`);
       onUpdate();
     } catch (error) {
@@ -758,6 +804,10 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
         </div>
       )}
 
+      {linkedBudget && varianceReport && (
+        <ProjectBudgetVariance report={varianceReport} currency={linkedBudget.currency} />
+      )}
+
       <div className="mb-6 grid grid-cols-1 gap-6 lg:grid-cols-2 xl:grid-cols-4">
         <div className="rounded-lg bg-white p-6 shadow">
           <div className="mb-4 flex items-center justify-between">
@@ -969,6 +1019,16 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
                   onChange={(e) => setTaskForm({ ...taskForm, estimated_hours: parseFloat(e.target.value) || 0 })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
                 />
+                <input
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  placeholder="Odpracované hodiny"
+                  title="Odpracované hodiny"
+                  value={taskForm.actual_hours}
+                  onChange={(e) => setTaskForm({ ...taskForm, actual_hours: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
                 <input
                   type="date"
                   placeholder="Deadline"
@@ -976,6 +1036,20 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
                   onChange={(e) => setTaskForm({ ...taskForm, deadline: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
                 />
+                {budgetLineOptions.length > 0 && (
+                  <select
+                    value={taskForm.budget_line}
+                    onChange={(e) => setTaskForm({ ...taskForm, budget_line: e.target.value })}
+                    className="col-span-2 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    <option value="">-- Nezapočítávat do položky rozpočtu --</option>
+                    {budgetLineOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
               </div>
               <div className="flex gap-2">
                 <button type="submit" className="px-4 py-2 bg-[#0a192f] text-white rounded-lg text-sm hover:bg-opacity-90">
@@ -1057,6 +1131,11 @@ export default function ProjectDetails({ project, onBack, onUpdate }: ProjectDet
                     <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full">
                       {task.estimated_hours}h / {task.actual_hours}h
                     </span>
+                    {getBudgetLineLabel(task) && (
+                      <span className="px-2 py-1 bg-purple-100 text-purple-800 rounded-full">
+                        {getBudgetLineLabel(task)}
+                      </span>
+                    )}
                   </div>
                 </div>
               ))
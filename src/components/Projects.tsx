@@ -18,11 +18,14 @@ import {
   NotebookPen,
   Search,
   GitBranch,
-  GitBranchPlus
+  GitBranchPlus,
+  Building2
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { ensureUserOrganization } from '../lib/organization';
-import { Project, Budget } from '../types/database';
+import { ClientWithContacts, fetchClients } from '../lib/clients';
+import { calculateBudgetPricing } from '../lib/budgetPricing';
+import { Project, Budget, BudgetItem } from '../types/database';
 import ProjectDetails from './ProjectDetails';
 
 type StatusFilter = 'all' | Project['status'];
@@ -39,6 +42,7 @@ interface BudgetWithTotals extends Budget {
 export default function Projects({ activeOrganizationId }: ProjectsProps) {
   const [projects, setProjects] = useState<Project[]>([]);
   const [budgets, setBudgets] = useState<BudgetWithTotals[]>([]);
+  const [clients, setClients] = useState<ClientWithContacts[]>([]);
   const [loading, setLoading] = useState(true);
   const [organizationId, setOrganizationId] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
@@ -66,6 +70,7 @@ export default function Projects({ activeOrganizationId }: ProjectsProps) {
     name: '',
     description: '',
     budget_id: '',
+    client_id: '',
     parent_project_id: '',
     start_date: '',
     end_date: '',
@@ -118,7 +123,7 @@ export default function Projects({ activeOrganizationId }: ProjectsProps) {
 
       const orgId = await ensureUserOrganization(user.id, activeOrganizationId);
 
-      const [projectsRes, budgetsRes] = await Promise.all([
+      const [projectsRes, budgetsRes, clientList] = await Promise.all([
         supabase
           .from('projects')
           .select('*')
@@ -129,7 +134,8 @@ export default function Projects({ activeOrganizationId }: ProjectsProps) {
           .select('*')
           .eq('organization_id', orgId)
           .eq('archived', false)
-          .order('name')
+          .order('name'),
+        fetchClients(orgId)
       ]);
 
       if (projectsRes.error) throw projectsRes.error;
@@ -147,31 +153,30 @@ export default function Projects({ activeOrganizationId }: ProjectsProps) {
         const budgetIds = budgetsData.map((budget) => budget.id);
         const { data: budgetItemsData, error: budgetItemsError } = await supabase
           .from('budget_items')
-          .select('budget_id,total_price,internal_total_price')
+          .select('budget_id,section_id,total_price,internal_total_price,vat_rate,is_optional,alternative_group,client_selected')
           .in('budget_id', budgetIds);
 
         if (budgetItemsError) throw budgetItemsError;
 
-        const totalsMap = new Map<string, { total: number; internal: number }>();
+        const itemsByBudget = new Map<string, BudgetItem[]>();
 
-        (budgetItemsData || []).forEach((item) => {
-          const existing = totalsMap.get(item.budget_id) || { total: 0, internal: 0 };
-          existing.total += Number(item.total_price) || 0;
-          existing.internal += Number(item.internal_total_price) || 0;
-          totalsMap.set(item.budget_id, existing);
+        ((budgetItemsData || []) as BudgetItem[]).forEach((item) => {
+          itemsByBudget.set(item.budget_id, [...(itemsByBudget.get(item.budget_id) ?? []), item]);
         });
 
+        // Same totals as the budget list: selected options only, with discounts and surcharges applied.
         budgetsWithTotals = budgetsData.map((budget) => {
-          const totals = totalsMap.get(budget.id);
+          const pricing = calculateBudgetPricing(itemsByBudget.get(budget.id) ?? [], budget.price_adjustments ?? []);
           return {
             ...budget,
-            total_amount: totals?.total ?? 0,
-            internal_cost: totals?.internal ?? 0
+            total_amount: pricing.clientTotal,
+            internal_cost: pricing.internalTotal
           };
         });
       }
 
       setOrganizationId(orgId);
+      setClients(clientList);
       const loadedProjects = projectsRes.data || [];
       setProjects(loadedProjects);
       setBudgets(budgetsRes.data || []);
@@ -216,6 +221,7 @@ export default function Projects({ activeOrganizationId }: ProjectsProps) {
       const projectData = {
         ...formData,
         budget_id: formData.budget_id || null,
+        client_id: formData.client_id || null,
         parent_project_id: formData.parent_project_id || null,
         start_date: formData.start_date || null,
         end_date: formData.end_date || null,
@@ -328,6 +334,7 @@ export default function Projects({ activeOrganizationId }: ProjectsProps) {
       name: project.name,
       description: project.description || '',
       budget_id: project.budget_id || '',
+      client_id: project.client_id || '',
       parent_project_id: project.parent_project_id || '',
       start_date: project.start_date || '',
       end_date: project.end_date || '',
@@ -344,6 +351,7 @@ export default function Projects({ activeOrganizationId }: ProjectsProps) {
       name: '',
       description: '',
       budget_id: '',
+      client_id: '',
       parent_project_id: '',
       start_date: '',
       end_date: '',
@@ -846,11 +854,30 @@ export default function Projects({ activeOrganizationId }: ProjectsProps) {
                         className="w-full rounded-xl border border-gray-200 px-4 py-3 text-base shadow-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/40"
                       />
                     </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-gray-700">Klient</label>
+                      <select
+                        value={formData.client_id}
+                        onChange={(e) => setFormData({ ...formData, client_id: e.target.value })}
+                        className="w-full rounded-xl border border-gray-200 px-4 py-3 text-base shadow-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/40"
+                      >
+                        <option value="">-- Bez klienta --</option>
+                        {clients.map((client) => (
+                          <option key={client.id} value={client.id}>
+                            {client.name}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500">Klienty spravujete v sekci Klienti.</p>
+                    </div>
                     <div className="space-y-2">
                       <label className="text-sm font-medium text-gray-700">Navázaný rozpočet</label>
                       <select
                         value={formData.budget_id}
-                        onChange={(e) => setFormData({ ...formData, budget_id: e.target.value })}
+                        onChange={(e) => {
+                          const linkedClientId = budgets.find((budget) => budget.id === e.target.value)?.client_id;
+                          setFormData({ ...formData, budget_id: e.target.value, client_id: formData.client_id || linkedClientId || '' });
+                        }}
                         className="w-full rounded-xl border border-gray-200 px-4 py-3 text-base shadow-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/40"
                       >
                         <option value="">-- Vyberte rozpočet --</option>
@@ -1170,6 +1197,9 @@ export default function Projects({ activeOrganizationId }: ProjectsProps) {
             const parentProjectName = project.parent_project_id
               ? projectsById.get(project.parent_project_id)?.name
               : undefined;
+            const clientName = project.client_id
+              ? clients.find((client) => client.id === project.client_id)?.name
+              : undefined;
 
             return (
               <div
@@ -1188,8 +1218,14 @@ export default function Projects({ activeOrganizationId }: ProjectsProps) {
                 <div className="mb-4 flex items-start justify-between gap-4">
                   <div className="flex-1">
                     <h3 className="mb-2 text-xl font-semibold text-[#0a192f]">{project.name}</h3>
-                    {(linkedBudget || parentProjectName || childCount > 0) && (
+                    {(clientName || linkedBudget || parentProjectName || childCount > 0) && (
                       <div className="mb-3 flex flex-wrap items-center gap-2 text-xs font-semibold">
+                        {clientName && (
+                          <span className="inline-flex items-center gap-2 rounded-full bg-gray-100 px-3 py-1 text-gray-700">
+                            <Building2 className="h-4 w-4" />
+                            <span>{clientName}</span>
+                          </span>
+                        )}
                         {parentProjectName && (
                           <span className="inline-flex items-center gap-2 rounded-full bg-purple-50 px-3 py-1 text-purple-700">
                             <GitBranch className="h-4 w-4" />
@@ -0,0 +1,496 @@
+import { FormEvent, useCallback, useEffect, useMemo, useState } from 'react';
+import { CalendarX, CheckCircle, Clock, ListPlus, Loader2, MessageSquare, XCircle } from 'lucide-react';
+
+import { isValidUuid } from '../lib/uuid';
+import { formatCurrency } from '../lib/currency';
+import { formatValidUntil } from '../lib/budgetValidity';
+import { calculateVatBreakdown, getVatRateLabel } from '../lib/vat';
+import {
+  calculateBudgetPricing,
+  describePriceAdjustment,
+  groupOptionalItems,
+  isOptionalItem,
+  toggleOptionalItem
+} from '../lib/budgetPricing';
+import { SharedBudget, fetchSharedBudget, respondToSharedBudget } from '../lib/budgetSharing';
+import { BudgetClientFeedback, BudgetPriceAdjustment } from '../types/database';
+
+interface PublicBudgetViewProps {
+  token: string | null;
+}
+
+type SharedItem = SharedBudget['items'][number];
+
+const feedbackLabels: Record<BudgetClientFeedback['kind'], string> = {
+  comment: 'Komentář',
+  approved: 'Schváleno',
+  rejected: 'Zamítnuto'
+};
+
+export default function PublicBudgetView({ token }: PublicBudgetViewProps) {
+  const [sharedBudget, setSharedBudget] = useState<SharedBudget | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitStatus, setSubmitStatus] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: '', email: '', message: '' });
+  const [selectedOptionIds, setSelectedOptionIds] = useState<string[]>([]);
+
+  const loadSharedBudget = useCallback(async () => {
+    if (!token || !isValidUuid(token)) {
+      setError('Odkaz není platný.');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const data = await fetchSharedBudget(token);
+
+      if (!data) {
+        setError('Platnost odkazu vypršela nebo byl zrušen. Požádejte prosím o nový odkaz.');
+        setSharedBudget(null);
+        return;
+      }
+
+      setSharedBudget(data);
+      setSelectedOptionIds(data.items.filter(item => isOptionalItem(item) && item.client_selected).map(item => item.id));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading shared budget:', err);
+      setError('Rozpočet se nepodařilo načíst. Zkuste to prosím znovu.');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadSharedBudget();
+  }, [loadSharedBudget]);
+
+  // Until the budget is decided the totals follow the client's current choice of options.
+  const items = useMemo(
+    () =>
+      (sharedBudget?.items ?? []).map(item =>
+        isOptionalItem(item) ? { ...item, client_selected: selectedOptionIds.includes(item.id) } : item
+      ),
+    [sharedBudget, selectedOptionIds]
+  );
+
+  const pricing = useMemo(
+    () =>
+      calculateBudgetPricing(
+        items,
+        sharedBudget?.budget.price_adjustments ?? [],
+        sharedBudget?.organization.default_vat_rate
+      ),
+    [items, sharedBudget]
+  );
+
+  const vatSummary = useMemo(
+    () => calculateVatBreakdown(pricing.vatItems, sharedBudget?.organization.default_vat_rate),
+    [pricing, sharedBudget]
+  );
+
+  const groupedSections = useMemo(() => {
+    const coreItems = items.filter(item => !isOptionalItem(item));
+    const sectionIds = new Set((sharedBudget?.sections ?? []).map(section => section.id));
+
+    return {
+      sections: (sharedBudget?.sections ?? []).map(section => ({
+        section,
+        items: coreItems.filter(item => item.section_id === section.id)
+      })),
+      unassigned: coreItems.filter(item => !item.section_id || !sectionIds.has(item.section_id)),
+      options: groupOptionalItems(items)
+    };
+  }, [items, sharedBudget]);
+
+  const toggleOption = (itemId: string, selected: boolean) => {
+    const updated = toggleOptionalItem(items, items.findIndex(item => item.id === itemId), selected);
+    setSelectedOptionIds(updated.filter(item => isOptionalItem(item) && item.client_selected).map(item => item.id));
+  };
+
+  const handleRespond = async (kind: BudgetClientFeedback['kind'], event?: FormEvent) => {
+    event?.preventDefault();
+    if (!token) return;
+
+    if (!form.name.trim()) {
+      setSubmitError('Vyplňte prosím své jméno.');
+      return;
+    }
+
+    if (kind === 'comment' && !form.message.trim()) {
+      setSubmitError('Napište prosím komentář.');
+      return;
+    }
+
+    if (kind !== 'comment') {
+      const question =
+        kind === 'approved'
+          ? `Opravdu chcete rozpočet schválit v částce ${formatCurrency(
+              pricing.clientTotal,
+              sharedBudget?.budget.currency ?? 'CZK'
+            )} bez DPH?`
+          : 'Opravdu chcete rozpočet zamítnout?';
+      if (!confirm(question)) return;
+    }
+
+    try {
+      setSubmitting(true);
+      setSubmitError(null);
+      await respondToSharedBudget(token, {
+        kind,
+        authorName: form.name.trim(),
+        authorEmail: form.email.trim() || null,
+        message: form.message.trim(),
+        selectedItemIds: selectedOptionIds
+      });
+      setForm(prev => ({ ...prev, message: '' }));
+      setSubmitStatus(
+        kind === 'comment' ? 'Děkujeme, komentář byl odeslán.' : 'Děkujeme, vaše rozhodnutí bylo zaznamenáno.'
+      );
+      await loadSharedBudget();
+    } catch (err) {
+      console.error('Error responding to shared budget:', err);
+      setSubmitError('Odpověď se nepodařilo odeslat. Zkuste to prosím znovu.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-[#0a192f]" />
+      </div>
+    );
+  }
+
+  if (error || !sharedBudget) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
+          <h1 className="text-2xl font-bold text-[#0a192f] mb-2">Rozpočet není dostupný</h1>
+          <p className="text-gray-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { budget, organization, feedback } = sharedBudget;
+  const formatMoney = (value: number) => formatCurrency(value, budget.currency);
+  const canDecide = budget.status === 'draft' || budget.status === 'sent';
+  const decisionDetails = [
+    budget.client_decision_by,
+    budget.client_decision_at ? new Date(budget.client_decision_at).toLocaleString('cs-CZ') : null
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  const sectionAdjustments = (sectionId: string) =>
+    pricing.adjustments.filter(adjustment => adjustment.section_id === sectionId);
+  const budgetAdjustments = pricing.adjustments.filter(adjustment => !adjustment.section_id);
+
+  const renderAdjustmentRows = (adjustments: BudgetPriceAdjustment[]) =>
+    adjustments.map(adjustment => (
+      <tr key={adjustment.id} className="bg-gray-50/60">
+        <td colSpan={4} className="px-6 py-3 text-right text-gray-600">
+          {describePriceAdjustment(adjustment)}
+        </td>
+        <td className="px-6 py-3 text-right font-semibold text-[#0a192f]">{formatMoney(adjustment.amount)}</td>
+      </tr>
+    ));
+
+  const renderItemsTable = (items: SharedItem[], adjustments: BudgetPriceAdjustment[] = []) => (
+    <table className="w-full text-sm">
+      <thead className="bg-gray-50">
+        <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+          <th className="px-6 py-3 font-medium">Položka</th>
+          <th className="px-6 py-3 text-right font-medium">Množství</th>
+          <th className="px-6 py-3 text-right font-medium">Cena / jednotka</th>
+          <th className="px-6 py-3 text-right font-medium">DPH</th>
+          <th className="px-6 py-3 text-right font-medium">Celkem bez DPH</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {items.map(item => (
+          <tr key={item.id}>
+            <td className="px-6 py-3">
+              <div className="font-medium text-[#0a192f]">{item.item_name}</div>
+              {item.notes && <div className="text-xs text-gray-500">{item.notes}</div>}
+            </td>
+            <td className="px-6 py-3 text-right text-gray-600">
+              {Number(item.quantity ?? 0).toLocaleString('cs-CZ')} {item.unit}
+            </td>
+            <td className="px-6 py-3 text-right text-gray-600">{formatMoney(item.price_per_unit ?? 0)}</td>
+            <td className="px-6 py-3 text-right text-gray-600">
+              {Number(item.vat_rate ?? organization.default_vat_rate).toLocaleString('cs-CZ')} %
+            </td>
+            <td className="px-6 py-3 text-right font-semibold text-[#0a192f]">{formatMoney(item.total_price ?? 0)}</td>
+          </tr>
+        ))}
+        {renderAdjustmentRows(adjustments)}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-10">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="rounded-xl bg-[#0a192f] p-8 text-white shadow">
+          <p className="text-sm text-white/60">{organization.name}</p>
+          <h1 className="mt-1 text-3xl font-bold">{budget.name}</h1>
+          <p className="mt-2 text-white/80">Připraveno pro {budget.client_name || '—'}</p>
+          <p className="mt-4 inline-flex items-center gap-2 text-xs text-white/60">
+            <Clock className="h-4 w-4" />
+            Odkaz platí do {new Date(sharedBudget.expires_at).toLocaleDateString('cs-CZ')}
+            {budget.valid_until && budget.status !== 'expired' && ` · nabídka platí do ${formatValidUntil(budget.valid_until)}`}
+          </p>
+        </div>
+
+        {budget.status === 'approved' || budget.status === 'rejected' ? (
+          <div
+            className={`flex items-center gap-3 rounded-xl p-4 ${
+              budget.status === 'approved' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+            }`}
+          >
+            {budget.status === 'approved' ? <CheckCircle className="h-5 w-5" /> : <XCircle className="h-5 w-5" />}
+            <span>
+              Rozpočet byl {budget.status === 'approved' ? 'schválen' : 'zamítnut'}
+              {budget.status === 'approved' && budget.client_approved_total !== null && budget.client_approved_total !== undefined
+                ? ` v částce ${formatMoney(budget.client_approved_total)} bez DPH`
+                : ''}
+              {decisionDetails ? ` (${decisionDetails})` : ''}.
+            </span>
+          </div>
+        ) : budget.status === 'expired' ? (
+          <div className="flex items-center gap-3 rounded-xl bg-amber-50 p-4 text-amber-800">
+            <CalendarX className="h-5 w-5" />
+            <span>
+              Platnost nabídky vypršela{budget.valid_until ? ` ${formatValidUntil(budget.valid_until)}` : ''}. Pro
+              její obnovení kontaktujte {budget.manager_email || budget.project_manager || organization.name}.
+            </span>
+          </div>
+        ) : null}
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="rounded-xl bg-white p-6 shadow">
+            <p className="text-sm text-gray-500">Celkem bez DPH</p>
+            <p className="mt-2 text-2xl font-bold text-[#0a192f]">{formatMoney(vatSummary.base)}</p>
+          </div>
+          <div className="rounded-xl bg-white p-6 shadow">
+            <p className="text-sm text-gray-500">DPH</p>
+            <p className="mt-2 text-2xl font-bold text-[#0a192f]">{formatMoney(vatSummary.vat)}</p>
+          </div>
+          <div className="rounded-xl bg-white p-6 shadow">
+            <p className="text-sm text-gray-500">Celkem s DPH</p>
+            <p className="mt-2 text-2xl font-bold text-[#0a192f]">{formatMoney(vatSummary.total)}</p>
+          </div>
+        </div>
+
+        {groupedSections.sections
+          .filter(({ items }) => items.length > 0)
+          .map(({ section, items }) => (
+            <div key={section.id} className="overflow-hidden rounded-xl bg-white shadow">
+              <div className="border-b border-gray-100 bg-gray-50 px-6 py-4">
+                <h2 className="text-lg font-semibold text-[#0a192f]">{section.name}</h2>
+                {section.description && <p className="text-sm text-gray-600">{section.description}</p>}
+              </div>
+              {renderItemsTable(items, sectionAdjustments(section.id))}
+            </div>
+          ))}
+
+        {groupedSections.unassigned.length > 0 && (
+          <div className="overflow-hidden rounded-xl bg-white shadow">
+            <div className="border-b border-gray-100 bg-gray-50 px-6 py-4">
+              <h2 className="text-lg font-semibold text-[#0a192f]">Položky rozpočtu</h2>
+            </div>
+            {renderItemsTable(groupedSections.unassigned)}
+          </div>
+        )}
+
+        {groupedSections.options.length > 0 && (
+          <div className="overflow-hidden rounded-xl bg-white shadow">
+            <div className="flex items-start justify-between gap-3 border-b border-gray-100 bg-gray-50 px-6 py-4">
+              <div>
+                <h2 className="text-lg font-semibold text-[#0a192f]">Volitelné položky a varianty</h2>
+                <p className="text-sm text-gray-600">
+                  {canDecide
+                    ? 'Zaškrtněte, co chcete objednat. Celková cena se průběžně přepočítá.'
+                    : 'Vybrané položky jsou zahrnuty v celkové ceně.'}
+                </p>
+              </div>
+              <ListPlus className="h-5 w-5 text-gray-400" />
+            </div>
+            <div className="divide-y divide-gray-100">
+              {groupedSections.options.map(group => (
+                <div key={group.name ?? ''} className="px-6 py-4">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    {group.name ? `${group.name} – vyberte nejvýše jednu variantu` : 'Volitelné položky'}
+                  </p>
+                  <div className="mt-2 space-y-2">
+                    {group.items.map(item => (
+                      <label
+                        key={item.id}
+                        className={`flex items-start justify-between gap-4 text-sm ${canDecide ? 'cursor-pointer' : ''}`}
+                      >
+                        <span className="flex items-start gap-3">
+                          <input
+                            type="checkbox"
+                            checked={Boolean(item.client_selected)}
+                            onChange={event => toggleOption(item.id, event.target.checked)}
+                            disabled={!canDecide || submitting}
+                            className="mt-0.5 h-4 w-4 rounded border-gray-300 text-[#0a192f] focus:ring-[#0a192f]"
+                          />
+                          <span>
+                            <span className="font-medium text-[#0a192f]">{item.item_name}</span>
+                            <span className="ml-2 text-gray-500">
+                              {Number(item.quantity ?? 0).toLocaleString('cs-CZ')} {item.unit} ×{' '}
+                              {formatMoney(item.price_per_unit ?? 0)}
+                            </span>
+                            {item.notes && <span className="block text-xs text-gray-500">{item.notes}</span>}
+                          </span>
+                        </span>
+                        <span className="whitespace-nowrap font-semibold text-[#0a192f]">
+                          {formatMoney(item.total_price ?? 0)}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {budgetAdjustments.length > 0 && (
+          <div className="overflow-hidden rounded-xl bg-white shadow">
+            <div className="border-b border-gray-100 bg-gray-50 px-6 py-4">
+              <h2 className="text-lg font-semibold text-[#0a192f]">Slevy a příplatky</h2>
+            </div>
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-100">
+                <tr>
+                  <td colSpan={4} className="px-6 py-3 text-right text-gray-600">
+                    Mezisoučet položek
+                  </td>
+                  <td className="px-6 py-3 text-right font-semibold text-[#0a192f]">
+                    {formatMoney(pricing.clientTotal - budgetAdjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0))}
+                  </td>
+                </tr>
+                {renderAdjustmentRows(budgetAdjustments)}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="rounded-xl bg-white p-6 shadow">
+          <h2 className="text-lg font-semibold text-[#0a192f]">Rozpis DPH</h2>
+          <div className="mt-3 space-y-1 text-sm text-gray-600">
+            {vatSummary.lines.map(line => (
+              <p key={line.rate}>
+                DPH {getVatRateLabel(line.rate)}: {formatMoney(line.vat)} (základ {formatMoney(line.base)})
+              </p>
+            ))}
+            {vatSummary.hasReverseCharge && (
+              <p className="text-xs text-gray-500">
+                U položek s 0 % DPH se uplatní přenesená daňová povinnost, daň přizná a zaplatí odběratel.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="rounded-xl bg-white p-6 shadow">
+          <h2 className="text-lg font-semibold text-[#0a192f]">Vaše odpověď</h2>
+          <form onSubmit={event => handleRespond('comment', event)} className="mt-4 space-y-4">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Jméno *</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={event => setForm({ ...form, name: event.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">E-mail</label>
+                <input
+                  type="email"
+                  value={form.email}
+                  onChange={event => setForm({ ...form, email: event.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Komentář</label>
+              <textarea
+                value={form.message}
+                onChange={event => setForm({ ...form, message: event.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent"
+                rows={3}
+              />
+            </div>
+
+            {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+            {submitStatus && <p className="text-sm text-green-600">{submitStatus}</p>}
+
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="submit"
+                disabled={submitting}
+                className="inline-flex items-center gap-2 border border-gray-300 text-gray-700 px-6 py-2 rounded-lg hover:bg-gray-50 transition disabled:opacity-60"
+              >
+                <MessageSquare className="h-4 w-4" />
+                Odeslat komentář
+              </button>
+              {canDecide && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => handleRespond('approved')}
+                    disabled={submitting}
+                    className="inline-flex items-center gap-2 bg-[#0a192f] text-white px-6 py-2 rounded-lg hover:bg-opacity-90 transition disabled:opacity-60"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    Schválit rozpočet
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRespond('rejected')}
+                    disabled={submitting}
+                    className="inline-flex items-center gap-2 border border-red-200 text-red-700 px-6 py-2 rounded-lg hover:bg-red-50 transition disabled:opacity-60"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    Zamítnout
+                  </button>
+                </>
+              )}
+            </div>
+          </form>
+
+          {feedback.length > 0 && (
+            <div className="mt-6 border-t border-gray-100 pt-4 space-y-3">
+              {feedback.map(entry => (
+                <div key={entry.id} className="text-sm">
+                  <div className="flex items-center gap-2 text-gray-500">
+                    <span className="font-medium text-[#0a192f]">{entry.author_name}</span>
+                    <span>·</span>
+                    <span>{feedbackLabels[entry.kind]}</span>
+                    <span>·</span>
+                    <span>{new Date(entry.created_at).toLocaleString('cs-CZ')}</span>
+                  </div>
+                  {entry.message && <p className="mt-1 text-gray-700">{entry.message}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { Loader2, Mail, Send, X } from 'lucide-react';
+
+import {
+  ATTACHMENT_FORMAT_LABELS,
+  BudgetEmailAttachment,
+  BudgetEmailAttachmentFormat,
+  buildBudgetEmailTemplate,
+  fetchBudgetEmailLog,
+  isValidEmail,
+  sendBudgetEmail
+} from '../lib/budgetEmail';
+import { Budget, BudgetEmailLog } from '../types/database';
+
+interface SendBudgetEmailModalProps {
+  budgetId: string;
+  budget: Partial<Budget>;
+  organizationName: string | null;
+  totalLabel: string;
+  buildAttachment: (format: BudgetEmailAttachmentFormat) => Promise<BudgetEmailAttachment>;
+  onClose: () => void;
+  onSent: () => void;
+}
+
+export default function SendBudgetEmailModal({
+  budgetId,
+  budget,
+  organizationName,
+  totalLabel,
+  buildAttachment,
+  onClose,
+  onSent
+}: SendBudgetEmailModalProps) {
+  const [form, setForm] = useState(() => {
+    const template = buildBudgetEmailTemplate({
+      budget: {
+        name: budget.name ?? '',
+        client_name: budget.client_name ?? '',
+        contact_person: budget.contact_person,
+        project_manager: budget.project_manager,
+        manager_email: budget.manager_email
+      },
+      organizationName,
+      totalLabel
+    });
+
+    return {
+      to: budget.client_email ?? '',
+      subject: template.subject,
+      message: template.message,
+      attachment: 'pdf' as BudgetEmailAttachmentFormat | 'none'
+    };
+  });
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [log, setLog] = useState<BudgetEmailLog[]>([]);
+
+  const loadLog = useCallback(async () => {
+    try {
+      setLog(await fetchBudgetEmailLog(budgetId));
+    } catch (err) {
+      console.error('Error loading budget e-mail log:', err);
+    }
+  }, [budgetId]);
+
+  useEffect(() => {
+    loadLog();
+  }, [loadLog]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    if (!isValidEmail(form.to)) {
+      setError('Zadejte platný e-mail příjemce.');
+      return;
+    }
+
+    if (!form.subject.trim() || !form.message.trim()) {
+      setError('Vyplňte předmět i text zprávy.');
+      return;
+    }
+
+    try {
+      setSending(true);
+      setError(null);
+
+      await sendBudgetEmail({
+        budgetId,
+        to: form.to.trim(),
+        subject: form.subject.trim(),
+        message: form.message,
+        replyTo: budget.manager_email || null,
+        attachment: form.attachment === 'none' ? null : await buildAttachment(form.attachment)
+      });
+
+      onSent();
+      onClose();
+    } catch (err) {
+      console.error('Error sending budget e-mail:', err);
+      setError('E-mail se nepodařilo odeslat. Zkuste to prosím znovu.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 px-4 py-8 backdrop-blur-sm">
+      <div className="w-full max-w-2xl rounded-2xl bg-white p-6 shadow-2xl">
+        <div className="mb-4 flex items-start justify-between gap-3">
+          <div>
+            <h3 className="flex items-center gap-2 text-lg font-semibold text-[#0a192f]">
+              <Mail className="h-5 w-5" />
+              Odeslat rozpočet klientovi
+            </h3>
+            <p className="text-sm text-gray-500">
+              Klient obdrží klientskou verzi bez interních nákladů. Odesláním se rozpočet ve stavu Koncept přepne na Odesláno.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-gray-200 p-1 text-gray-500 transition hover:border-[#0a192f]/30 hover:text-[#0a192f]"
+            aria-label="Zavřít odeslání e-mailem"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-gray-500">Příjemce</label>
+            <input
+              type="email"
+              value={form.to}
+              onChange={(e) => setForm({ ...form, to: e.target.value })}
+              placeholder="klient@firma.cz"
+              className="w-full rounded-xl border border-gray-300 px-4 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-gray-500">Předmět</label>
+            <input
+              type="text"
+              value={form.subject}
+              onChange={(e) => setForm({ ...form, subject: e.target.value })}
+              className="w-full rounded-xl border border-gray-300 px-4 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-gray-500">Zpráva</label>
+            <textarea
+              value={form.message}
+              onChange={(e) => setForm({ ...form, message: e.target.value })}
+              rows={9}
+              className="w-full rounded-xl border border-gray-300 px-4 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-semibold uppercase tracking-wide text-gray-500">Příloha</label>
+            <select
+              value={form.attachment}
+              onChange={(e) =>
+                setForm({ ...form, attachment: e.target.value as BudgetEmailAttachmentFormat | 'none' })
+              }
+              className="w-full rounded-xl border border-gray-300 px-4 py-2 text-sm focus:border-[#0a192f] focus:outline-none focus:ring-2 focus:ring-[#0a192f]/30"
+            >
+              {(Object.keys(ATTACHMENT_FORMAT_LABELS) as BudgetEmailAttachmentFormat[]).map((format) => (
+                <option key={format} value={format}>
+                  {ATTACHMENT_FORMAT_LABELS[format]}
+                </option>
+              ))}
+              <option value="none">Bez přílohy</option>
+            </select>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-xl border border-gray-200 bg-white px-4 py-2 text-sm font-medium text-gray-600 transition hover:bg-gray-100"
+            >
+              Zrušit
+            </button>
+            <button
+              type="submit"
+              disabled={sending}
+              className="inline-flex items-center gap-2 rounded-xl bg-[#0a192f] px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-[#0a192f]/90 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              Odeslat
+            </button>
+          </div>
+        </form>
+
+        {log.length > 0 && (
+          <div className="mt-6 border-t border-gray-100 pt-4">
+            <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">Dříve odesláno</h4>
+            <ul className="max-h-40 space-y-1 overflow-y-auto text-sm text-gray-600">
+              {log.map((entry) => (
+                <li key={entry.id}>
+                  {new Date(entry.sent_at).toLocaleString('cs-CZ')} · {entry.recipient}
+                  {entry.attachment_name ? ` · ${entry.attachment_name}` : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
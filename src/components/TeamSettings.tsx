@@ -3,6 +3,19 @@ import { UserPlus, Trash2, Mail, Shield, X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { OrganizationMember, Invitation, ResourcePermission, Organization } from '../types/database';
 import { getStoredActiveOrganizationId } from '../lib/organization';
+import { DEFAULT_VAT_RATE, VAT_RATE_OPTIONS } from '../lib/vat';
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY } from '../lib/currency';
+import { formatIban, isValidIban, normalizeIban } from '../lib/spayd';
+import { DEFAULT_SHARE_LINK_VALIDITY_DAYS } from '../lib/budgetSharing';
+import { DEFAULT_BUDGET_VALIDITY_DAYS } from '../lib/budgetValidity';
+import {
+  BUDGET_NUMBER_PATTERN_MAX_LENGTH,
+  DEFAULT_BUDGET_NUMBER_PATTERN,
+  formatBudgetNumber,
+  isValidBudgetNumberPattern
+} from '../lib/budgetNumbering';
+import ExchangeRatesSettings from './ExchangeRatesSettings';
+import PriceCatalogSettings from './PriceCatalogSettings';
 
 type PermissionKey = ResourcePermission['resource_type'];
 
@@ -53,6 +66,12 @@ export default function TeamSettings({ activeOrganizationId, onOrganizationUpdat
   const [selectedMember, setSelectedMember] = useState<OrganizationMember | null>(null);
   const [currentUserRole, setCurrentUserRole] = useState<OrganizationMember['role'] | null>(null);
   const [organizationName, setOrganizationName] = useState('');
+  const [organizationVatRate, setOrganizationVatRate] = useState(DEFAULT_VAT_RATE);
+  const [organizationCurrency, setOrganizationCurrency] = useState(DEFAULT_CURRENCY);
+  const [organizationIban, setOrganizationIban] = useState('');
+  const [shareLinkValidityDays, setShareLinkValidityDays] = useState(DEFAULT_SHARE_LINK_VALIDITY_DAYS);
+  const [budgetValidityDays, setBudgetValidityDays] = useState(DEFAULT_BUDGET_VALIDITY_DAYS);
+  const [budgetNumberPattern, setBudgetNumberPattern] = useState(DEFAULT_BUDGET_NUMBER_PATTERN);
   const [savingOrganization, setSavingOrganization] = useState(false);
   const [organizationStatus, setOrganizationStatus] = useState<string | null>(null);
   const [organizationError, setOrganizationError] = useState<string | null>(null);
@@ -134,6 +153,12 @@ export default function TeamSettings({ activeOrganizationId, onOrganizationUpdat
       if (orgRes.data) {
         setOrganization(orgRes.data);
         setOrganizationName(orgRes.data.name ?? '');
+        setOrganizationVatRate(Number(orgRes.data.default_vat_rate ?? DEFAULT_VAT_RATE));
+        setOrganizationCurrency(orgRes.data.base_currency || DEFAULT_CURRENCY);
+        setOrganizationIban(orgRes.data.iban ? formatIban(orgRes.data.iban) : '');
+        setShareLinkValidityDays(orgRes.data.share_link_validity_days ?? DEFAULT_SHARE_LINK_VALIDITY_DAYS);
+        setBudgetValidityDays(orgRes.data.budget_validity_days ?? DEFAULT_BUDGET_VALIDITY_DAYS);
+        setBudgetNumberPattern(orgRes.data.budget_number_pattern || DEFAULT_BUDGET_NUMBER_PATTERN);
         setOrganizationStatus(null);
         setOrganizationError(null);
       }
@@ -214,7 +239,45 @@ export default function TeamSettings({ activeOrganizationId, onOrganizationUpdat
       return;
     }
 
-    if (trimmedName === organization.name) {
+    const iban = normalizeIban(organizationIban);
+
+    if (iban && !isValidIban(iban)) {
+      setOrganizationError('Zadaný IBAN není platný.');
+      setOrganizationStatus(null);
+      return;
+    }
+
+    if (!Number.isInteger(shareLinkValidityDays) || shareLinkValidityDays < 1 || shareLinkValidityDays > 365) {
+      setOrganizationError('Platnost odkazu pro klienta musí být 1 až 365 dní.');
+      setOrganizationStatus(null);
+      return;
+    }
+
+    if (!Number.isInteger(budgetValidityDays) || budgetValidityDays < 1 || budgetValidityDays > 365) {
+      setOrganizationError('Platnost nabídky musí být 1 až 365 dní.');
+      setOrganizationStatus(null);
+      return;
+    }
+
+    const trimmedNumberPattern = budgetNumberPattern.trim();
+
+    if (!isValidBudgetNumberPattern(trimmedNumberPattern)) {
+      setOrganizationError(
+        `Formát čísla rozpočtu musí obsahovat pořadí {seq} nebo {seq:4} a mít nejvýše ${BUDGET_NUMBER_PATTERN_MAX_LENGTH} znaků.`
+      );
+      setOrganizationStatus(null);
+      return;
+    }
+
+    if (
+      trimmedName === organization.name &&
+      organizationVatRate === Number(organization.default_vat_rate) &&
+      organizationCurrency === organization.base_currency &&
+      iban === (organization.iban ?? '') &&
+      shareLinkValidityDays === organization.share_link_validity_days &&
+      budgetValidityDays === organization.budget_validity_days &&
+      trimmedNumberPattern === organization.budget_number_pattern
+    ) {
       setOrganizationStatus('Žádné změny k uložení.');
       setOrganizationError(null);
       return;
@@ -227,7 +290,16 @@ export default function TeamSettings({ activeOrganizationId, onOrganizationUpdat
 
       const { data, error } = await supabase
         .from('organizations')
-        .update({ name: trimmedName, updated_at: new Date().toISOString() })
+        .update({
+          name: trimmedName,
+          default_vat_rate: organizationVatRate,
+          base_currency: organizationCurrency,
+          iban: iban || null,
+          share_link_validity_days: shareLinkValidityDays,
+          budget_validity_days: budgetValidityDays,
+          budget_number_pattern: trimmedNumberPattern,
+          updated_at: new Date().toISOString()
+        })
         .eq('id', organization.id)
         .select()
         .single();
@@ -238,7 +310,13 @@ export default function TeamSettings({ activeOrganizationId, onOrganizationUpdat
         const updated = data as Organization;
         setOrganization(updated);
         setOrganizationName(updated.name ?? '');
-        setOrganizationStatus('Název organizace byl aktualizován.');
+        setOrganizationVatRate(Number(updated.default_vat_rate ?? DEFAULT_VAT_RATE));
+        setOrganizationCurrency(updated.base_currency || DEFAULT_CURRENCY);
+        setOrganizationIban(updated.iban ? formatIban(updated.iban) : '');
+        setShareLinkValidityDays(updated.share_link_validity_days ?? DEFAULT_SHARE_LINK_VALIDITY_DAYS);
+        setBudgetValidityDays(updated.budget_validity_days ?? DEFAULT_BUDGET_VALIDITY_DAYS);
+        setBudgetNumberPattern(updated.budget_number_pattern || DEFAULT_BUDGET_NUMBER_PATTERN);
+        setOrganizationStatus('Nastavení organizace bylo aktualizováno.');
         onOrganizationUpdated?.(updated);
       }
     } catch (error) {
@@ -428,11 +506,11 @@ export default function TeamSettings({ activeOrganizationId, onOrganizationUpdat
             <div>
               <h3 className="text-lg font-semibold text-[#0a192f]">Nastavení organizace</h3>
               <p className="text-sm text-gray-500">
-                Změňte název svého týmu. Tento název se zobrazuje v horní liště aplikace.
+                Změňte název svého týmu, výchozí sazbu DPH, hlavní měnu pro přehledy, bankovní účet pro QR platby, číslování a platnost nabídek a platnost odkazů pro klienty. Název se zobrazuje v horní liště aplikace.
               </p>
             </div>
 
-            <form onSubmit={handleOrganizationSave} className="flex flex-col gap-4 sm:flex-row sm:items-end">
+            <form onSubmit={handleOrganizationSave} className="flex flex-col gap-4 sm:flex-row sm:flex-wrap sm:items-end">
               <div className="flex-1">
                 <label className="block text-sm font-medium text-gray-700 mb-2">Název organizace</label>
                 <input
@@ -450,6 +528,122 @@ export default function TeamSettings({ activeOrganizationId, onOrganizationUpdat
                 />
               </div>
 
+              <div className="sm:w-72">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Výchozí sazba DPH</label>
+                <select
+                  value={organizationVatRate}
+                  onChange={event => setOrganizationVatRate(Number(event.target.value))}
+                  disabled={savingOrganization || !canManageOrganization}
+                  className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent ${
+                    canManageOrganization
+                      ? 'border-gray-300'
+                      : 'border-gray-200 bg-gray-50 text-gray-500 cursor-not-allowed'
+                  }`}
+                >
+                  {VAT_RATE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="sm:w-56">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Hlavní měna</label>
+                <select
+                  value={organizationCurrency}
+                  onChange={event => setOrganizationCurrency(event.target.value)}
+                  disabled={savingOrganization || !canManageOrganization}
+                  className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent ${
+                    canManageOrganization
+                      ? 'border-gray-300'
+                      : 'border-gray-200 bg-gray-50 text-gray-500 cursor-not-allowed'
+                  }`}
+                >
+                  {CURRENCY_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="sm:w-80">
+                <label className="block text-sm font-medium text-gray-700 mb-2">IBAN pro QR platby</label>
+                <input
+                  type="text"
+                  value={organizationIban}
+                  onChange={event => setOrganizationIban(event.target.value)}
+                  readOnly={!canManageOrganization}
+                  disabled={savingOrganization || !canManageOrganization}
+                  className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent ${
+                    canManageOrganization
+                      ? 'border-gray-300'
+                      : 'border-gray-200 bg-gray-50 text-gray-500 cursor-not-allowed'
+                  }`}
+                  placeholder="CZ65 0800 0000 1920 0014 5399"
+                />
+              </div>
+
+              <div className="sm:w-48">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Platnost odkazu (dny)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={shareLinkValidityDays}
+                  onChange={event => setShareLinkValidityDays(Number(event.target.value))}
+                  readOnly={!canManageOrganization}
+                  disabled={savingOrganization || !canManageOrganization}
+                  className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent ${
+                    canManageOrganization
+                      ? 'border-gray-300'
+                      : 'border-gray-200 bg-gray-50 text-gray-500 cursor-not-allowed'
+                  }`}
+                />
+              </div>
+
+              <div className="sm:w-48">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Platnost nabídky (dny)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={budgetValidityDays}
+                  onChange={event => setBudgetValidityDays(Number(event.target.value))}
+                  readOnly={!canManageOrganization}
+                  disabled={savingOrganization || !canManageOrganization}
+                  className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-[#0a192f] focus:border-transparent ${
+                    canManageOrganization
+                      ? 'border-gray-300'
+                      : 'border-gray-200 bg-gray-50 text-gray-500 cursor-not-allowed'
+                  }`}
+                />
+              </div>
+
+              <div className="flex-1 min-w-[220px]">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Číslo rozpočtu</label>
+                <input
+                  type="text"
+                  value={budgetNumberPattern}
+                  onChange={event => setBudgetNumberPattern(event.target.value)}
+                  maxLength={BUDGET_NUMBER_PATTERN_MAX_LENGTH}
+                  readOnly={!canManageOrganization}
+                  disabled={savingOrganization || !canManageOrganization}
+                  className={`w-full px-4 py-2 border rounded-lg font-mono focus:ring-2 focus:ring-[#0a192f] focus:border-transparent ${
+                    canManageOrganization
+                      ? 'border-gray-300'
+                      : 'border-gray-200 bg-gray-50 text-gray-500 cursor-not-allowed'
+                  }`}
+                  placeholder={DEFAULT_BUDGET_NUMBER_PATTERN}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  {isValidBudgetNumberPattern(budgetNumberPattern.trim())
+                    ? `Např. ${formatBudgetNumber(budgetNumberPattern.trim(), new Date(), 42)} · {YYYY}, {YY}, {MM}, {seq:4}`
+                    : 'Použijte {YYYY}, {YY}, {MM} a povinně {seq} nebo {seq:4}.'}
+                </p>
+              </div>
+
               {canManageOrganization && (
                 <button
                   type="submit"
@@ -471,13 +665,27 @@ export default function TeamSettings({ activeOrganizationId, onOrganizationUpdat
 
             {!canManageOrganization && (
               <p className="text-xs text-gray-500">
-                Pouze vlastníci nebo správci mohou upravovat název organizace.
+                Pouze vlastníci nebo správci mohou upravovat nastavení organizace.
               </p>
             )}
+
+            <ExchangeRatesSettings
+              organizationId={organization.id}
+              baseCurrency={organization.base_currency || DEFAULT_CURRENCY}
+              canManage={canManageOrganization}
+            />
           </div>
         </div>
       )}
 
+      {organization && (
+        <PriceCatalogSettings
+          organizationId={organization.id}
+          currency={organization.base_currency || DEFAULT_CURRENCY}
+          canManage={canManageOrganization}
+        />
+      )}
+
       {showInviteForm && (
         <div className="bg-white rounded-lg shadow p-6 mb-6">
           <h3 className="text-lg font-semibold text-[#0a192f] mb-4">Pozvat nového člena</h3>
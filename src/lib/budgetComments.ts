@@ -0,0 +1,232 @@
+import { supabase } from './supabase';
+import { BudgetComment } from '../types/database';
+
+export interface CommentMember {
+  userId: string;
+  name: string;
+  email: string | null;
+}
+
+export interface CommentThread {
+  root: BudgetComment;
+  replies: BudgetComment[];
+}
+
+/** A comment in an open thread that mentions the current user. */
+export interface CommentMention {
+  commentId: string;
+  budgetId: string;
+  budgetName: string;
+  itemName: string | null;
+  body: string;
+  authorId: string | null;
+  createdAt: string;
+}
+
+export interface NewBudgetComment {
+  budgetId: string;
+  itemId?: string | null;
+  parentId?: string | null;
+  body: string;
+  mentions: string[];
+}
+
+export async function fetchBudgetComments(budgetId: string): Promise<BudgetComment[]> {
+  const { data, error } = await supabase
+    .from('budget_comments')
+    .select('*')
+    .eq('budget_id', budgetId)
+    .order('created_at');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as BudgetComment[]) ?? [];
+}
+
+export async function createBudgetComment(comment: NewBudgetComment): Promise<BudgetComment> {
+  const {
+    data: { user }
+  } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('budget_comments')
+    .insert({
+      budget_id: comment.budgetId,
+      item_id: comment.itemId ?? null,
+      parent_id: comment.parentId ?? null,
+      body: comment.body.trim(),
+      mentions: comment.mentions,
+      author_id: user?.id
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as BudgetComment;
+}
+
+export async function updateBudgetComment(commentId: string, body: string, mentions: string[]): Promise<BudgetComment> {
+  const { data, error } = await supabase
+    .from('budget_comments')
+    .update({ body: body.trim(), mentions, updated_at: new Date().toISOString() })
+    .eq('id', commentId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as BudgetComment;
+}
+
+export async function deleteBudgetComment(commentId: string): Promise<void> {
+  const { error } = await supabase.from('budget_comments').delete().eq('id', commentId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function setBudgetCommentResolved(commentId: string, resolved: boolean): Promise<BudgetComment> {
+  const { data, error } = await supabase.rpc('set_budget_comment_resolved', {
+    p_comment_id: commentId,
+    p_resolved: resolved
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as BudgetComment;
+}
+
+export async function fetchCommentMentions(organizationId: string): Promise<CommentMention[]> {
+  const { data, error } = await supabase.rpc('get_budget_comment_mentions', {
+    p_organization_id: organizationId
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as {
+    comment_id: string;
+    budget_id: string;
+    budget_name: string;
+    item_name: string | null;
+    body: string;
+    author_id: string | null;
+    created_at: string;
+  }[]).map(row => ({
+    commentId: row.comment_id,
+    budgetId: row.budget_id,
+    budgetName: row.budget_name,
+    itemName: row.item_name,
+    body: row.body,
+    authorId: row.author_id,
+    createdAt: row.created_at
+  }));
+}
+
+/** Organization members who can be mentioned, named by their profile or e-mail. */
+export async function fetchCommentMembers(organizationId: string): Promise<CommentMember[]> {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id, user:profiles(full_name)')
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    throw error;
+  }
+
+  const members = (data ?? []) as unknown as { user_id: string; user: { full_name: string | null } | null }[];
+  if (members.length === 0) {
+    return [];
+  }
+
+  const { data: emailsData, error: emailsError } = await supabase.rpc('get_users_emails', {
+    user_ids: members.map(member => member.user_id)
+  });
+
+  if (emailsError) {
+    console.error('Error loading member emails:', emailsError);
+  }
+
+  const emails = new Map(
+    ((emailsData ?? []) as { user_id: string; email: string | null }[]).map(entry => [entry.user_id, entry.email])
+  );
+
+  return members
+    .map(member => {
+      const email = emails.get(member.user_id) ?? null;
+      return {
+        userId: member.user_id,
+        name: member.user?.full_name?.trim() || email || 'Neznámý uživatel',
+        email
+      };
+    })
+    .sort((left, right) => left.name.localeCompare(right.name, 'cs'));
+}
+
+/** Threads in order of their first comment, replies in the order they were written. */
+export function buildCommentThreads(comments: BudgetComment[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>();
+
+  comments
+    .filter(comment => !comment.parent_id)
+    .forEach(comment => threads.set(comment.id, { root: comment, replies: [] }));
+
+  comments
+    .filter(comment => comment.parent_id)
+    .forEach(comment => threads.get(comment.parent_id as string)?.replies.push(comment));
+
+  return Array.from(threads.values());
+}
+
+/** Members whose `@name` appears in the text. */
+export function findMentionedMembers(body: string, members: CommentMember[]): string[] {
+  const text = body.toLocaleLowerCase('cs');
+  return members.filter(member => text.includes(`@${member.name.toLocaleLowerCase('cs')}`)).map(member => member.userId);
+}
+
+/** The text typed after an unfinished `@` right before the caret, or `null` when the caret is not in a mention. */
+export function getMentionQuery(text: string, caret: number): string | null {
+  const match = /(^|\s)@([^\s@]{0,30}(?: [^\s@]{0,30})?)$/.exec(text.slice(0, caret));
+  return match ? match[2] : null;
+}
+
+/** Replaces the unfinished mention before the caret with the member's name and returns the new text and caret. */
+export function insertMention(text: string, caret: number, member: CommentMember) {
+  const query = getMentionQuery(text, caret) ?? '';
+  const start = caret - query.length - 1;
+  const mention = `@${member.name} `;
+
+  return {
+    text: `${text.slice(0, start)}${mention}${text.slice(caret)}`,
+    caret: start + mention.length
+  };
+}
+
+/** Splits a comment into plain text and the mentions of known members, for highlighting. */
+export function splitCommentMentions(body: string, members: CommentMember[]): { text: string; mention: boolean }[] {
+  const names = members
+    .map(member => member.name)
+    .sort((left, right) => right.length - left.length)
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+
+  if (names.length === 0) {
+    return [{ text: body, mention: false }];
+  }
+
+  // The capturing group puts every mention at an odd index of the split.
+  return body
+    .split(new RegExp(`(@(?:${names.join('|')}))`, 'iu'))
+    .map((part, index) => ({ text: part, mention: index % 2 === 1 }))
+    .filter(part => part.text.length > 0);
+}
@@ -0,0 +1,66 @@
+import { Budget, BudgetItem, BudgetSection } from '../types/database';
+
+const STORAGE_PREFIX = 'budget_draft:';
+
+export const UNSAVED_BUDGET_CHANGES_MESSAGE =
+  'Rozpočet má neuložené změny. Opravdu chcete odejít? Rozpracovaná verze zůstane uložená v tomto prohlížeči.';
+
+/** Editor state kept in local storage until the budget is saved, so a closed tab does not lose the work. */
+export interface BudgetDraft<TSection extends Partial<BudgetSection> = Partial<BudgetSection>> {
+  savedAt: string;
+  budget: Partial<Budget>;
+  sections: TSection[];
+  items: Partial<BudgetItem>[];
+}
+
+function isBrowser() {
+  return typeof window !== 'undefined' && typeof window.localStorage !== 'undefined';
+}
+
+/** New, not yet saved budgets share one draft slot. */
+const getStorageKey = (budgetId: string | null) => `${STORAGE_PREFIX}${budgetId ?? 'new'}`;
+
+export function loadBudgetDraft<TSection extends Partial<BudgetSection>>(
+  budgetId: string | null
+): BudgetDraft<TSection> | null {
+  if (!isBrowser()) return null;
+
+  try {
+    const stored = window.localStorage.getItem(getStorageKey(budgetId));
+    if (!stored) return null;
+
+    const draft = JSON.parse(stored) as BudgetDraft<TSection>;
+    return draft && Array.isArray(draft.items) && Array.isArray(draft.sections) ? draft : null;
+  } catch (error) {
+    console.error('Failed to read budget draft from storage:', error);
+    return null;
+  }
+}
+
+export function saveBudgetDraft<TSection extends Partial<BudgetSection>>(
+  budgetId: string | null,
+  draft: Omit<BudgetDraft<TSection>, 'savedAt'>
+): string | null {
+  if (!isBrowser()) return null;
+
+  const savedAt = new Date().toISOString();
+
+  try {
+    window.localStorage.setItem(getStorageKey(budgetId), JSON.stringify({ ...draft, savedAt }));
+    return savedAt;
+  } catch (error) {
+    // Usually a full storage quota; the editor keeps working, only without the local copy.
+    console.error('Failed to persist budget draft:', error);
+    return null;
+  }
+}
+
+export function clearBudgetDraft(budgetId: string | null) {
+  if (!isBrowser()) return;
+
+  try {
+    window.localStorage.removeItem(getStorageKey(budgetId));
+  } catch (error) {
+    console.error('Failed to remove budget draft:', error);
+  }
+}
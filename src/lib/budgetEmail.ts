@@ -0,0 +1,77 @@
+import { supabase } from './supabase';
+import { Budget, BudgetEmailLog } from '../types/database';
+
+export type BudgetEmailAttachmentFormat = 'pdf' | 'xlsx';
+
+export const ATTACHMENT_FORMAT_LABELS: Record<BudgetEmailAttachmentFormat, string> = {
+  pdf: 'PDF pro klienta',
+  xlsx: 'Excel pro klienta'
+};
+
+export interface BudgetEmailAttachment {
+  filename: string;
+  /** Base64 encoded file content. */
+  content: string;
+  contentType: string;
+}
+
+export interface BudgetEmailRequest {
+  budgetId: string;
+  to: string;
+  subject: string;
+  message: string;
+  replyTo?: string | null;
+  attachment?: BudgetEmailAttachment | null;
+}
+
+interface BudgetEmailTemplateContext {
+  budget: Pick<Budget, 'name' | 'client_name' | 'contact_person' | 'project_manager' | 'manager_email'>;
+  organizationName?: string | null;
+  totalLabel: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(value: string): boolean {
+  return EMAIL_PATTERN.test(value.trim());
+}
+
+export function buildBudgetEmailTemplate({ budget, organizationName, totalLabel }: BudgetEmailTemplateContext) {
+  const projectName = budget.name?.trim() || 'projekt';
+  const greeting = budget.contact_person?.trim() ? `Dobrý den, ${budget.contact_person.trim()},` : 'Dobrý den,';
+  const signature = [budget.project_manager?.trim(), organizationName?.trim()].filter(Boolean).join('\n');
+
+  return {
+    subject: `Rozpočet: ${projectName}`,
+    message: [
+      greeting,
+      `v příloze vám zasíláme rozpočet pro ${projectName} v celkové výši ${totalLabel} bez DPH.`,
+      'V případě dotazů nebo požadavků na úpravy nám prosím odpovězte na tento e-mail.',
+      `S pozdravem${signature ? `\n${signature}` : ''}`
+    ].join('\n\n')
+  };
+}
+
+export async function sendBudgetEmail(request: BudgetEmailRequest): Promise<BudgetEmailLog | null> {
+  const { data, error } = await supabase.functions.invoke('send-budget-email', { body: request });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data?.log as BudgetEmailLog | null) ?? null;
+}
+
+export async function fetchBudgetEmailLog(budgetId: string): Promise<BudgetEmailLog[]> {
+  const { data, error } = await supabase
+    .from('budget_email_log')
+    .select('*')
+    .eq('budget_id', budgetId)
+    .order('sent_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as BudgetEmailLog[]) ?? [];
+}
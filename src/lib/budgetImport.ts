@@ -0,0 +1,335 @@
+import * as XLSX from 'xlsx';
+
+import { supabase } from './supabase';
+import { detectCurrency } from './currency';
+import { BudgetImportField, BudgetImportProfile } from '../types/database';
+
+export interface ImportSheet {
+  name: string;
+  rows: string[][];
+}
+
+/** Source column index for every mapped field. */
+export type ImportColumnMapping = Partial<Record<BudgetImportField, number>>;
+
+export interface ImportDraftItem {
+  categoryName: string;
+  sectionName: string;
+  itemName: string;
+  notes: string;
+  unit: string;
+  quantity: number;
+  pricePerUnit: number;
+  totalPrice: number;
+  vatRate: number | null;
+  internalQuantity: number;
+  internalPrice: number;
+  internalTotal: number;
+  isCost: boolean;
+}
+
+export interface ImportRowResult {
+  /** Row number as shown by the spreadsheet application. */
+  rowNumber: number;
+  draft: ImportDraftItem | null;
+  errors: string[];
+  currencies: string[];
+}
+
+export const IMPORT_FIELDS: { key: BudgetImportField; label: string; synonyms: string[] }[] = [
+  { key: 'itemName', label: 'Název položky', synonyms: ['Položka', 'Název položky', 'Nazev polozky', 'Item', 'Item name'] },
+  { key: 'category', label: 'Kategorie', synonyms: ['Kategorie', 'Category'] },
+  { key: 'section', label: 'Pod-rozpočet', synonyms: ['Pod-rozpočet', 'Podrozpočet', 'Podrozpocet', 'Section', 'Subbudget'] },
+  { key: 'quantity', label: 'Počet', synonyms: ['Počet', 'Pocet', 'Množství', 'Quantity', 'Qty'] },
+  { key: 'unit', label: 'Jednotka', synonyms: ['Jednotka', 'MJ', 'Unit'] },
+  { key: 'pricePerUnit', label: 'Cena za jednotku', synonyms: ['Cena za jednotku', 'Cena / jednotka', 'Cena/jednotka', 'Jednotková cena', 'Unit price'] },
+  { key: 'totalPrice', label: 'Cena celkem', synonyms: ['Cena pro klienta', 'Cena celkem', 'Celkem', 'Total'] },
+  { key: 'vatRate', label: 'Sazba DPH', synonyms: ['Sazba DPH', 'DPH', 'VAT'] },
+  { key: 'internalQuantity', label: 'Interní počet', synonyms: ['Interní počet', 'Interni pocet', 'Internal quantity'] },
+  { key: 'internalPrice', label: 'Interní cena', synonyms: ['Interní cena', 'Interni cena', 'Internal price', 'Internal unit price'] },
+  { key: 'internalTotal', label: 'Interní náklad', synonyms: ['Interní náklad', 'Interni naklad', 'Interní celkem', 'Interni celkem', 'Internal total'] },
+  { key: 'isCost', label: 'Náklad', synonyms: ['Náklad', 'Naklad', 'Is cost', 'Cost'] },
+  { key: 'notes', label: 'Poznámka', synonyms: ['Poznámka', 'Poznamka', 'Poznámky', 'Notes'] }
+];
+
+const NUMERIC_FIELDS: BudgetImportField[] = [
+  'quantity',
+  'pricePerUnit',
+  'totalPrice',
+  'vatRate',
+  'internalQuantity',
+  'internalPrice',
+  'internalTotal'
+];
+
+const fieldLabel = (field: BudgetImportField) => IMPORT_FIELDS.find(entry => entry.key === field)?.label ?? field;
+
+export const normalizeHeaderText = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+const synonymLookup = new Map<string, BudgetImportField>(
+  IMPORT_FIELDS.flatMap(field => field.synonyms.map(label => [normalizeHeaderText(label), field.key] as const))
+);
+
+/** Parses numbers written with Czech or English separators and currency marks; `NaN` means the cell is not a number. */
+export function parseImportNumber(value: string): number {
+  const sanitized = value
+    .replace(/\u00A0/g, ' ')
+    .replace(/k[cč]|czk|eur|usd|€|\$|,-|%/gi, '')
+    .replace(/\s+/g, '')
+    .trim();
+
+  if (!sanitized) {
+    return 0;
+  }
+
+  const replacedSeparators = sanitized.replace(/,/g, '.');
+  const lastDotIndex = replacedSeparators.lastIndexOf('.');
+  const normalized =
+    (replacedSeparators.match(/\./g) || []).length > 1
+      ? replacedSeparators.slice(0, lastDotIndex).replace(/\./g, '') + replacedSeparators.slice(lastDotIndex)
+      : replacedSeparators;
+
+  return /^-?\d*\.?\d+$/.test(normalized) ? Number(normalized) : NaN;
+}
+
+const parseImportBoolean = (value: string) => ['ano', 'yes', 'true', '1', 'y', 'x'].includes(normalizeHeaderText(value));
+
+const detectCsvDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim()) ?? '';
+  const counts = [';', ',', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  return counts.reduce((best, entry) => (entry.count > best.count ? entry : best)).delimiter;
+};
+
+// CSV exports from Czech Excel are usually in Windows-1250 rather than UTF-8.
+const decodeCsv = (buffer: ArrayBuffer) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('windows-1250').decode(buffer);
+  }
+};
+
+export async function readImportFile(file: File): Promise<ImportSheet[]> {
+  const buffer = await file.arrayBuffer();
+  const isCsv = /\.(csv|txt)$/i.test(file.name) || file.type === 'text/csv';
+
+  const workbook = isCsv
+    ? (() => {
+        const text = decodeCsv(buffer);
+        return XLSX.read(text, { type: 'string', raw: true, FS: detectCsvDelimiter(text) });
+      })()
+    : XLSX.read(buffer, { type: 'array' });
+
+  // Blank rows are kept and reading starts at the first row of the sheet, so row indexes match the spreadsheet.
+  return workbook.SheetNames.map(name => ({
+    name,
+    rows: XLSX.utils
+      .sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: false, blankrows: true, defval: '', range: 0 })
+      .map(row => row.map(cell => String(cell ?? '').trim()))
+  })).filter(sheet => sheet.rows.some(row => row.some(Boolean)));
+}
+
+/** The first row that names at least two known columns, or the first row of the sheet. */
+export function detectHeaderRow(rows: string[][]): number {
+  const index = rows.findIndex(
+    row => row.filter(cell => synonymLookup.has(normalizeHeaderText(cell))).length >= 2
+  );
+
+  return Math.max(index, 0);
+}
+
+export function guessColumnMapping(headerRow: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+
+  headerRow.forEach((cell, index) => {
+    const field = synonymLookup.get(normalizeHeaderText(cell));
+    if (field && mapping[field] === undefined) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+}
+
+/** Resolves a saved profile against the header of the current file; columns that are missing stay unmapped. */
+export function applyImportProfile(
+  profile: Pick<BudgetImportProfile, 'mapping'>,
+  headerRow: string[]
+): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  const normalizedHeader = headerRow.map(normalizeHeaderText);
+
+  (Object.entries(profile.mapping) as [BudgetImportField, string][]).forEach(([field, header]) => {
+    const index = normalizedHeader.indexOf(normalizeHeaderText(header));
+    if (index >= 0) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+}
+
+export function toProfileMapping(
+  mapping: ImportColumnMapping,
+  headerRow: string[]
+): Partial<Record<BudgetImportField, string>> {
+  return Object.fromEntries(
+    (Object.entries(mapping) as [BudgetImportField, number][])
+      .filter(([, index]) => headerRow[index]?.trim())
+      .map(([field, index]) => [field, headerRow[index].trim()])
+  );
+}
+
+export function getColumnLabel(index: number): string {
+  return XLSX.utils.encode_col(index);
+}
+
+const isSummaryRow = (row: string[]) => {
+  const firstCell = normalizeHeaderText(row[0] ?? '');
+  return firstCell.startsWith('souhrn') || firstCell.startsWith('poznamka');
+};
+
+/**
+ * Turns the rows under the header into draft items. Missing quantities, unit prices or totals are derived from
+ * the other two; rows without any content and the summary rows of our own export are left out.
+ */
+export function parseImportRows(
+  rows: string[][],
+  headerRowIndex: number,
+  mapping: ImportColumnMapping
+): ImportRowResult[] {
+  const results: ImportRowResult[] = [];
+
+  rows.slice(headerRowIndex + 1).forEach((row, offset) => {
+    if (!row.some(cell => cell.trim()) || isSummaryRow(row)) {
+      return;
+    }
+
+    const errors: string[] = [];
+    const text = (field: BudgetImportField) => (mapping[field] !== undefined ? row[mapping[field] as number] ?? '' : '');
+    const numbers = Object.fromEntries(
+      NUMERIC_FIELDS.map(field => {
+        const value = parseImportNumber(text(field));
+        if (Number.isNaN(value)) {
+          errors.push(`Neplatné číslo ve sloupci „${fieldLabel(field)}“.`);
+        }
+        return [field, Number.isNaN(value) ? 0 : value];
+      })
+    ) as Record<BudgetImportField, number>;
+
+    const itemName = text('itemName').trim();
+    if (!itemName) {
+      errors.push('Chybí název položky.');
+    }
+
+    let { quantity, pricePerUnit, totalPrice } = numbers;
+
+    if (!quantity && pricePerUnit && totalPrice) {
+      quantity = totalPrice / pricePerUnit;
+    }
+
+    if (!pricePerUnit && quantity && totalPrice) {
+      pricePerUnit = totalPrice / quantity;
+    }
+
+    if (!totalPrice) {
+      totalPrice = quantity * pricePerUnit;
+    }
+
+    if (!quantity && totalPrice) {
+      quantity = 1;
+      pricePerUnit = pricePerUnit || totalPrice;
+    }
+
+    if (quantity < 0) {
+      errors.push('Počet nesmí být záporný.');
+    }
+
+    const vatRate = text('vatRate').trim() ? numbers.vatRate : null;
+    if (vatRate !== null && (vatRate < 0 || vatRate > 100)) {
+      errors.push('Sazba DPH musí být mezi 0 a 100 %.');
+    }
+
+    const internalTotal = numbers.internalTotal || numbers.internalQuantity * numbers.internalPrice;
+
+    results.push({
+      rowNumber: headerRowIndex + offset + 2,
+      errors,
+      currencies: [text('pricePerUnit'), text('totalPrice')]
+        .map(detectCurrency)
+        .filter((currency): currency is string => Boolean(currency)),
+      draft:
+        errors.length > 0
+          ? null
+          : {
+              categoryName: text('category').trim(),
+              sectionName: text('section').trim(),
+              itemName,
+              notes: text('notes').trim(),
+              unit: text('unit').trim() || 'ks',
+              quantity,
+              pricePerUnit,
+              totalPrice,
+              vatRate,
+              internalQuantity: numbers.internalQuantity,
+              internalPrice: numbers.internalPrice,
+              internalTotal,
+              isCost: parseImportBoolean(text('isCost'))
+            }
+    });
+  });
+
+  return results;
+}
+
+export async function fetchImportProfiles(organizationId: string): Promise<BudgetImportProfile[]> {
+  const { data, error } = await supabase
+    .from('budget_import_profiles')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('name');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as BudgetImportProfile[]) ?? [];
+}
+
+export async function saveImportProfile(
+  organizationId: string,
+  name: string,
+  mapping: BudgetImportProfile['mapping'],
+  profileId?: string | null
+): Promise<BudgetImportProfile> {
+  const payload = { name: name.trim(), mapping, updated_at: new Date().toISOString() };
+
+  const { data, error } = profileId
+    ? await supabase.from('budget_import_profiles').update(payload).eq('id', profileId).select().single()
+    : await supabase
+        .from('budget_import_profiles')
+        .insert({ ...payload, organization_id: organizationId })
+        .select()
+        .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as BudgetImportProfile;
+}
+
+export async function deleteImportProfile(profileId: string): Promise<void> {
+  const { error } = await supabase.from('budget_import_profiles').delete().eq('id', profileId);
+
+  if (error) {
+    throw error;
+  }
+}
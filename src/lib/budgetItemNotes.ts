@@ -0,0 +1,50 @@
+import { BudgetItem } from '../types/database';
+
+// Before `is_cost` and `is_personnel` became columns they were stored as JSON behind this prefix.
+export const LEGACY_NOTES_METADATA_PREFIX = '__budget_meta__:';
+
+export interface DecodedItemNotes {
+  text: string;
+  isCost: boolean;
+  isPersonnel: boolean;
+}
+
+export function decodeItemNotes(rawNotes?: string | null): DecodedItemNotes {
+  if (!rawNotes) {
+    return { text: '', isCost: false, isPersonnel: false };
+  }
+
+  if (!rawNotes.startsWith(LEGACY_NOTES_METADATA_PREFIX)) {
+    return { text: rawNotes, isCost: false, isPersonnel: false };
+  }
+
+  try {
+    const parsed = JSON.parse(rawNotes.slice(LEGACY_NOTES_METADATA_PREFIX.length));
+    const text =
+      typeof parsed?.note === 'string'
+        ? parsed.note
+        : typeof parsed?.text === 'string'
+          ? parsed.text
+          : '';
+
+    return {
+      text,
+      isCost: Boolean(parsed?.isCost),
+      isPersonnel: Boolean(parsed?.isPersonnel)
+    };
+  } catch (error) {
+    console.warn('Failed to parse legacy budget item metadata, falling back to raw notes.', error);
+    return { text: rawNotes, isCost: false, isPersonnel: false };
+  }
+}
+
+export function normalizeBudgetItem<T extends Partial<BudgetItem>>(item: T): T {
+  const { text, isCost, isPersonnel } = decodeItemNotes(item.notes);
+
+  return {
+    ...item,
+    notes: text,
+    is_cost: Boolean(item.is_cost) || isCost,
+    is_personnel: Boolean(item.is_personnel) || isPersonnel
+  };
+}
@@ -0,0 +1,120 @@
+import { BudgetItem } from '../types/database';
+import { getMarkupPricePerUnit, OptionalItemKind } from './budgetPricing';
+
+type EditableItem = Partial<BudgetItem>;
+
+export interface BulkItemChanges {
+  category_id?: string;
+  /** Empty string moves the items out of their pod-rozpočet. */
+  section_id?: string;
+  is_cost?: boolean;
+  is_personnel?: boolean;
+  offer_kind?: OptionalItemKind;
+}
+
+export interface MovedItems<T> {
+  items: T[];
+  /** New positions of the moved items, in their original order. */
+  indexes: number[];
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const withOrderIndex = <T extends EditableItem>(items: T[]) =>
+  items.map((item, orderIndex) => (item.order_index === orderIndex ? item : { ...item, order_index: orderIndex }));
+
+/** Keeps cost rows in step with their client price and recomputes markup price, totals and profit. */
+export function recalculateBudgetItem<T extends EditableItem>(source: T): T {
+  const item = { ...source };
+
+  if (item.is_cost) {
+    item.internal_quantity = Number(item.quantity) || 0;
+    item.internal_price_per_unit = Number(item.price_per_unit) || 0;
+  }
+
+  const markupPrice = getMarkupPricePerUnit(item);
+  if (markupPrice !== null) {
+    item.price_per_unit = markupPrice;
+  }
+
+  item.total_price = (Number(item.quantity) || 0) * (Number(item.price_per_unit) || 0);
+  item.internal_total_price = (Number(item.internal_quantity) || 0) * (Number(item.internal_price_per_unit) || 0);
+  item.profit = (item.total_price || 0) - (item.internal_total_price || 0);
+
+  return item;
+}
+
+/**
+ * Moves the items at `indexes` in front of the item at `targetIndex` (or to the end when it equals the length),
+ * keeping their relative order. `changes` are applied to the moved items, e.g. the pod-rozpočet of the drop target.
+ */
+export function moveBudgetItems<T extends EditableItem>(
+  items: T[],
+  indexes: number[],
+  targetIndex: number,
+  changes: Partial<T> = {}
+): MovedItems<T> {
+  const selected = new Set(indexes);
+  const moved = items.filter((_, index) => selected.has(index)).map(item => ({ ...item, ...changes }));
+  const remaining = items.filter((_, index) => !selected.has(index));
+  const insertAt = targetIndex - indexes.filter(index => index < targetIndex).length;
+
+  remaining.splice(insertAt, 0, ...moved);
+
+  return {
+    items: withOrderIndex(remaining),
+    indexes: moved.map((_, offset) => insertAt + offset)
+  };
+}
+
+export function removeBudgetItems<T extends EditableItem>(items: T[], indexes: number[]): T[] {
+  const selected = new Set(indexes);
+  return withOrderIndex(items.filter((_, index) => !selected.has(index)));
+}
+
+export function applyBulkItemChanges<T extends EditableItem>(
+  items: T[],
+  indexes: number[],
+  changes: BulkItemChanges
+): T[] {
+  const selected = new Set(indexes);
+
+  return items.map((item, index) => {
+    if (!selected.has(index)) return item;
+
+    const updated: T = { ...item };
+
+    if (changes.category_id !== undefined) updated.category_id = changes.category_id;
+    if (changes.section_id !== undefined) updated.section_id = changes.section_id || undefined;
+    if (changes.is_cost !== undefined) updated.is_cost = changes.is_cost;
+    if (changes.is_personnel !== undefined) updated.is_personnel = changes.is_personnel;
+
+    if (changes.offer_kind !== undefined) {
+      updated.is_optional = changes.offer_kind !== 'core';
+      updated.alternative_group =
+        changes.offer_kind === 'alternative' ? item.alternative_group || 'Varianta A/B' : null;
+      updated.client_selected = changes.offer_kind === 'core' ? false : item.client_selected;
+    }
+
+    return recalculateBudgetItem(updated);
+  });
+}
+
+/**
+ * Raises (or with a negative percentage lowers) the client unit price of the items. The new price is set by
+ * hand, so a markup rule on the row is dropped; cost rows follow with their internal price.
+ */
+export function adjustBudgetItemPrices<T extends EditableItem>(items: T[], indexes: number[], percent: number): T[] {
+  const selected = new Set(indexes);
+  const factor = 1 + percent / 100;
+
+  return items.map((item, index) =>
+    selected.has(index)
+      ? recalculateBudgetItem({
+          ...item,
+          price_per_unit: roundCurrency((Number(item.price_per_unit) || 0) * factor),
+          markup_percent: null
+        })
+      : item
+  );
+}
@@ -0,0 +1,158 @@
+import { Budget, BudgetItem, BudgetSection } from '../types/database';
+
+export interface BudgetMergeInput<TSection extends Partial<BudgetSection>> {
+  budget: Partial<Budget>;
+  sections: TSection[];
+  items: Partial<BudgetItem>[];
+}
+
+export interface BudgetMergeResult<TSection extends Partial<BudgetSection>> extends BudgetMergeInput<TSection> {
+  /** Places both sides changed differently; the local version was kept for each of them. */
+  conflicts: string[];
+}
+
+type Row = { id?: string | null };
+
+const BUDGET_FIELD_LABELS: Partial<Record<keyof Budget, string>> = {
+  name: 'název',
+  client_id: 'klient',
+  client_name: 'klient',
+  client_email: 'e-mail klienta',
+  contact_person: 'kontaktní osoba',
+  project_manager: 'projektový manažer',
+  manager_email: 'e-mail manažera',
+  status: 'stav',
+  valid_until: 'platnost',
+  currency: 'měna',
+  price_adjustments: 'slevy a příplatky'
+};
+
+// Bookkeeping columns are always taken from the stored version.
+const IGNORED_FIELDS = new Set(['updated_at', 'updated_by', 'created_at', 'order_index', 'tempId', 'isNew', 'isDeleted']);
+
+const isSame = (left: unknown, right: unknown) => JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+
+/** Field-level three-way merge: a field changed locally keeps the local value, otherwise the stored one wins. */
+function mergeRecord<T extends object>(base: T | undefined, local: T, remote: T) {
+  const merged = { ...remote, ...local } as T;
+  const conflicts: string[] = [];
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  keys.forEach(key => {
+    if (IGNORED_FIELDS.has(key)) return;
+
+    const field = key as keyof T;
+    const localChanged = !isSame(local[field], base?.[field]);
+    const remoteChanged = !isSame(remote[field], base?.[field]);
+
+    if (!localChanged) {
+      merged[field] = remote[field];
+    } else if (remoteChanged && !isSame(local[field], remote[field])) {
+      conflicts.push(key);
+    }
+  });
+
+  return { merged, conflicts };
+}
+
+const rowChanged = <T extends object>(base: T, other: T) =>
+  Object.keys({ ...base, ...other }).some(
+    key => !IGNORED_FIELDS.has(key) && !isSame(other[key as keyof T], base[key as keyof T])
+  );
+
+/**
+ * Merges rows by ID. Rows added on either side are kept, a row deleted on one side is dropped unless the
+ * other side changed it, and the local order is kept with rows added remotely placed after their predecessor.
+ */
+function mergeRows<T extends Row>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  describe: (row: T) => string,
+  conflicts: string[]
+): T[] {
+  const baseById = new Map(base.filter(row => row.id).map(row => [row.id as string, row]));
+  const remoteById = new Map(remote.filter(row => row.id).map(row => [row.id as string, row]));
+  const localIds = new Set(local.map(row => row.id).filter(Boolean));
+  const merged: T[] = [];
+
+  local.forEach(row => {
+    const baseRow = row.id ? baseById.get(row.id) : undefined;
+    const remoteRow = row.id ? remoteById.get(row.id) : undefined;
+
+    if (!baseRow) {
+      merged.push(row);
+    } else if (remoteRow) {
+      const result = mergeRecord(baseRow, row, remoteRow);
+      if (result.conflicts.length > 0) {
+        conflicts.push(describe(row));
+      }
+      merged.push(result.merged);
+    } else if (rowChanged(baseRow, row)) {
+      conflicts.push(`${describe(row)} – smazáno kolegou, ponecháno`);
+      merged.push(row);
+    }
+  });
+
+  baseById.forEach((baseRow, id) => {
+    const remoteRow = remoteById.get(id);
+    if (!localIds.has(id) && remoteRow && rowChanged(baseRow, remoteRow)) {
+      conflicts.push(`${describe(remoteRow)} – upraveno kolegou, vámi smazáno`);
+    }
+  });
+
+  remote.forEach((row, index) => {
+    if (!row.id || baseById.has(row.id)) return;
+
+    const predecessor = remote
+      .slice(0, index)
+      .reverse()
+      .find(candidate => merged.some(entry => entry.id && entry.id === candidate.id));
+    const position = predecessor ? merged.findIndex(entry => entry.id === predecessor.id) + 1 : merged.length;
+    merged.splice(position, 0, row);
+  });
+
+  return merged;
+}
+
+/**
+ * Combines local editor changes with a version somebody else saved since `base` was loaded. The result carries
+ * the stored `updated_at`, so saving it again is not reported as a conflict.
+ */
+export function mergeBudgetChanges<TSection extends Partial<BudgetSection>>(
+  base: BudgetMergeInput<TSection>,
+  local: BudgetMergeInput<TSection>,
+  remote: BudgetMergeInput<TSection>
+): BudgetMergeResult<TSection> {
+  const conflicts: string[] = [];
+  const budgetResult = mergeRecord(base.budget, local.budget, remote.budget);
+
+  budgetResult.conflicts.forEach(field => {
+    const label = `Rozpočet – ${BUDGET_FIELD_LABELS[field as keyof Budget] ?? field}`;
+    if (!conflicts.includes(label)) {
+      conflicts.push(label);
+    }
+  });
+
+  const sections = mergeRows(
+    base.sections,
+    local.sections,
+    remote.sections,
+    section => `Pod-rozpočet „${section.name || 'bez názvu'}“`,
+    conflicts
+  );
+  const items = mergeRows(
+    base.items,
+    local.items,
+    remote.items,
+    item => `Položka „${item.item_name || 'bez názvu'}“`,
+    conflicts
+  ).map((item, orderIndex) => ({ ...item, order_index: orderIndex }));
+
+  return {
+    budget: { ...budgetResult.merged, updated_at: remote.budget.updated_at, updated_by: remote.budget.updated_by },
+    sections,
+    items,
+    conflicts
+  };
+}
@@ -0,0 +1,32 @@
+import { Budget } from '../types/database';
+
+export const DEFAULT_BUDGET_NUMBER_PATTERN = 'NAB-{YYYY}-{seq:4}';
+
+export const BUDGET_NUMBER_PATTERN_MAX_LENGTH = 40;
+
+const SEQUENCE_TOKEN = /\{seq(?::([1-9]))?\}/;
+
+/** Fills the pattern the same way `format_budget_number` does on the server; used to preview the setting. */
+export function formatBudgetNumber(pattern: string, date: Date, sequence: number): string {
+  const width = Number(pattern.match(SEQUENCE_TOKEN)?.[1] ?? 1);
+  const year = String(date.getFullYear());
+
+  return pattern
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'))
+    .replace(new RegExp(SEQUENCE_TOKEN.source, 'g'), String(sequence).padStart(width, '0'));
+}
+
+export function isValidBudgetNumberPattern(pattern: string): boolean {
+  return SEQUENCE_TOKEN.test(pattern) && pattern.length <= BUDGET_NUMBER_PATTERN_MAX_LENGTH;
+}
+
+// Characters that are not allowed in file names on common systems.
+const sanitizeFileName = (value: string) => value.replace(/[\\/:*?"<>|]+/g, '-').trim();
+
+/** Base of export file names, e.g. `NAB-2025-0042_Rekonstrukce kanceláří`. */
+export function getBudgetFileBaseName(budget: Pick<Partial<Budget>, 'name' | 'budget_number'>): string {
+  const parts = [budget.budget_number?.trim(), budget.name?.trim()].filter(Boolean) as string[];
+  return sanitizeFileName(parts.join('_')) || 'Rozpocet';
+}
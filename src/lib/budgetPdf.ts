@@ -0,0 +1,448 @@
+import type { Content, TableCell, TDocumentDefinitions } from 'pdfmake/interfaces';
+
+import { Budget, BudgetItem, BudgetPriceAdjustment, BudgetSection, Category, Organization } from '../types/database';
+import { buildSpaydPayload, formatIban, getBudgetVariableSymbol, isValidIban } from './spayd';
+import { DEFAULT_VAT_RATE, calculateVatBreakdown, getVatRateLabel, resolveItemVatRate } from './vat';
+import { calculateBudgetPricing, describePriceAdjustment, groupOptionalItems, isItemIncluded, isOptionalItem } from './budgetPricing';
+import { DEFAULT_BUDGET_VALIDITY_DAYS, getValidityNote } from './budgetValidity';
+import { getBudgetFileBaseName } from './budgetNumbering';
+
+export interface BudgetPdfData {
+  budget: Pick<
+    Partial<Budget>,
+    | 'id'
+    | 'budget_number'
+    | 'name'
+    | 'client_name'
+    | 'client_email'
+    | 'contact_person'
+    | 'project_manager'
+    | 'manager_email'
+    | 'status'
+    | 'created_at'
+    | 'valid_until'
+  >;
+  organization: Pick<Organization, 'name' | 'iban'> | null;
+  sections: Pick<BudgetSection, 'id' | 'name' | 'description'>[];
+  items: Pick<
+    Partial<BudgetItem>,
+    | 'category_id'
+    | 'section_id'
+    | 'item_name'
+    | 'unit'
+    | 'quantity'
+    | 'price_per_unit'
+    | 'total_price'
+    | 'vat_rate'
+    | 'notes'
+    | 'is_optional'
+    | 'alternative_group'
+    | 'client_selected'
+  >[];
+  adjustments?: BudgetPriceAdjustment[];
+  categories: Pick<Category, 'id' | 'name'>[];
+  currency: string;
+  defaultVatRate?: number;
+  /** Used for the validity note while the budget has no `valid_until` yet. */
+  validityDays?: number;
+  generatedAt?: Date;
+}
+
+const PRIMARY_COLOR = '#0a192f';
+const MUTED_COLOR = '#64748b';
+const BORDER_COLOR = '#ced9e6';
+const ZEBRA_COLOR = '#f3f8ff';
+
+const statusLabels: Record<Budget['status'], string> = {
+  draft: 'Koncept',
+  sent: 'Odesláno',
+  approved: 'Schváleno',
+  rejected: 'Zamítnuto',
+  expired: 'Propadlo'
+};
+
+// Roboto bundled with pdfmake has no glyph for the narrow no-break space Intl uses in cs-CZ.
+const formatAmount = (value: number, currency: string) =>
+  new Intl.NumberFormat('cs-CZ', { style: 'currency', currency, minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    .format(Number(value) || 0)
+    .replace(/\u202f/g, '\u00a0');
+
+const formatNumber = (value: number) => (Number(value) || 0).toLocaleString('cs-CZ').replace(/\u202f/g, '\u00a0');
+
+const tableLayout = {
+  hLineWidth: () => 0.5,
+  vLineWidth: () => 0,
+  hLineColor: () => BORDER_COLOR,
+  fillColor: (rowIndex: number) => (rowIndex === 0 ? PRIMARY_COLOR : rowIndex % 2 === 0 ? ZEBRA_COLOR : null),
+  paddingTop: () => 4,
+  paddingBottom: () => 4
+};
+
+/**
+ * Builds the client version of a budget as a pdfmake document definition. The function has no browser
+ * dependencies, so the same layout can be rendered by pdfmake in the app or in an edge function.
+ */
+export function buildBudgetPdfDocument({
+  budget,
+  organization,
+  sections,
+  items: allItems,
+  adjustments = [],
+  categories,
+  currency,
+  defaultVatRate = DEFAULT_VAT_RATE,
+  validityDays = DEFAULT_BUDGET_VALIDITY_DAYS,
+  generatedAt = new Date()
+}: BudgetPdfData): TDocumentDefinitions {
+  const money = (value: number) => formatAmount(value, currency);
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+  const pricing = calculateBudgetPricing(allItems, adjustments, defaultVatRate);
+  const items = allItems.filter(isItemIncluded);
+  const optionalGroups = groupOptionalItems(allItems.filter(item => isOptionalItem(item) && !item.client_selected));
+  const vatSummary = calculateVatBreakdown(pricing.vatItems, defaultVatRate);
+  const formattedDate = generatedAt.toLocaleDateString('cs-CZ');
+
+  const itemRow = (item: BudgetPdfData['items'][number]): TableCell[] => [
+    { text: item.item_name || '—' },
+    { text: item.unit || '—' },
+    { text: formatNumber(item.quantity ?? 0), alignment: 'right' },
+    { text: money(item.price_per_unit ?? 0), alignment: 'right' },
+    { text: `${formatNumber(resolveItemVatRate(item, defaultVatRate))} %`, alignment: 'right' },
+    { text: money(item.total_price ?? 0), alignment: 'right' }
+  ];
+
+  const itemsTable = (groupItems: BudgetPdfData['items']): Content => {
+    const byCategory = new Map<string, BudgetPdfData['items']>();
+    groupItems.forEach(item => {
+      const key = item.category_id ?? '';
+      byCategory.set(key, [...(byCategory.get(key) ?? []), item]);
+    });
+
+    const body: TableCell[][] = [
+      ['Položka', 'Jednotka', 'Počet', 'Cena / jednotka', 'DPH', 'Celkem bez DPH'].map((label, index) => ({
+        text: label,
+        bold: true,
+        color: '#ffffff',
+        alignment: index >= 2 ? 'right' : 'left'
+      }))
+    ];
+
+    byCategory.forEach((categoryItems, categoryId) => {
+      body.push([
+        { text: categoryNames.get(categoryId) || 'Bez kategorie', bold: true, colSpan: 6, color: PRIMARY_COLOR },
+        '',
+        '',
+        '',
+        '',
+        ''
+      ]);
+
+      categoryItems.forEach(item => {
+        body.push(itemRow(item));
+        if (item.notes?.trim()) {
+          body.push([{ text: item.notes.trim(), colSpan: 6, italics: true, color: MUTED_COLOR, fontSize: 8 }, '', '', '', '', '']);
+        }
+      });
+
+      const subtotal = categoryItems.reduce((sum, item) => sum + Number(item.total_price ?? 0), 0);
+      body.push([
+        { text: `Mezisoučet ${categoryNames.get(categoryId) || 'bez kategorie'}`, colSpan: 5, alignment: 'right', italics: true },
+        '',
+        '',
+        '',
+        '',
+        { text: money(subtotal), alignment: 'right', bold: true }
+      ]);
+    });
+
+    return {
+      table: { headerRows: 1, widths: ['*', 50, 45, 75, 40, 85], body },
+      layout: tableLayout,
+      margin: [0, 4, 0, 12]
+    };
+  };
+
+  const adjustmentsTable = (rows: BudgetPriceAdjustment[], subtotal: number): Content => ({
+    table: {
+      widths: ['*', 85],
+      body: [
+        [
+          { text: 'Mezisoučet položek', alignment: 'right', italics: true },
+          { text: money(subtotal), alignment: 'right' }
+        ],
+        ...rows.map(adjustment => [
+          { text: describePriceAdjustment(adjustment), alignment: 'right' },
+          { text: money(adjustment.amount), alignment: 'right' }
+        ]),
+        [
+          { text: 'Celkem bez DPH', alignment: 'right', bold: true },
+          { text: money(subtotal + rows.reduce((sum, adjustment) => sum + adjustment.amount, 0)), alignment: 'right', bold: true }
+        ]
+      ] as TableCell[][]
+    },
+    layout: 'lightHorizontalLines',
+    margin: [0, 0, 0, 12]
+  });
+
+  const sectionIds = new Set(sections.map(section => section.id));
+  const groups = [
+    ...sections.map(section => ({
+      id: section.id as string | null,
+      title: section.name,
+      description: section.description,
+      items: items.filter(item => item.section_id === section.id)
+    })),
+    {
+      id: null,
+      title: sections.length > 0 ? 'Ostatní položky' : 'Položky rozpočtu',
+      description: null,
+      items: items.filter(item => !item.section_id || !sectionIds.has(item.section_id))
+    }
+  ].filter(group => group.items.length > 0);
+
+  const sectionContent: Content[] =
+    groups.length > 0
+      ? groups.flatMap(group => {
+          const subtotal = group.items.reduce((sum, item) => sum + Number(item.total_price ?? 0), 0);
+          const groupAdjustments = group.id
+            ? pricing.adjustments.filter(adjustment => adjustment.section_id === group.id)
+            : [];
+          return [
+            {
+              columns: [
+                { text: group.title, style: 'sectionTitle' },
+                {
+                  text: money(group.id ? pricing.sectionTotals.get(group.id) ?? subtotal : subtotal),
+                  style: 'sectionTitle',
+                  alignment: 'right',
+                  width: 'auto'
+                }
+              ]
+            },
+            ...(group.description ? [{ text: group.description, color: MUTED_COLOR, margin: [0, 0, 0, 4] } as Content] : []),
+            itemsTable(group.items),
+            ...(groupAdjustments.length > 0 ? [adjustmentsTable(groupAdjustments, subtotal)] : [])
+          ];
+        })
+      : [{ text: 'Zatím nebyly přidány žádné položky rozpočtu.', italics: true, color: MUTED_COLOR, margin: [0, 8, 0, 8] }];
+
+  const optionsTable: Content = {
+    table: {
+      headerRows: 1,
+      widths: ['*', 50, 45, 75, 40, 85],
+      body: [
+        ['Položka', 'Jednotka', 'Počet', 'Cena / jednotka', 'DPH', 'Celkem bez DPH'].map((label, index) => ({
+          text: label,
+          bold: true,
+          color: '#ffffff',
+          alignment: index >= 2 ? 'right' : 'left'
+        })),
+        ...optionalGroups.flatMap(group => [
+          [
+            {
+              text: group.name ? `Varianta ${group.name} – lze zvolit jednu z možností` : 'Volitelné položky',
+              bold: true,
+              colSpan: 6,
+              color: PRIMARY_COLOR
+            },
+            '',
+            '',
+            '',
+            '',
+            ''
+          ],
+          ...group.items.map(itemRow)
+        ])
+      ] as TableCell[][]
+    },
+    layout: tableLayout,
+    margin: [0, 4, 0, 12]
+  };
+
+  const budgetAdjustments = pricing.adjustments.filter(adjustment => !adjustment.section_id);
+  const budgetAdjustmentsTotal = budgetAdjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0);
+
+  const vatTable: Content = {
+    table: {
+      widths: ['*', 90, 90, 90],
+      body: [
+        ['Sazba DPH', 'Základ', 'DPH', 'Celkem'].map((label, index) => ({
+          text: label,
+          bold: true,
+          color: '#ffffff',
+          alignment: index > 0 ? 'right' : 'left'
+        })),
+        ...vatSummary.lines.map(line => [
+          { text: getVatRateLabel(line.rate) },
+          { text: money(line.base), alignment: 'right' },
+          { text: money(line.vat), alignment: 'right' },
+          { text: money(line.total), alignment: 'right' }
+        ]),
+        [
+          { text: 'Celkem', bold: true },
+          { text: money(vatSummary.base), alignment: 'right', bold: true },
+          { text: money(vatSummary.vat), alignment: 'right', bold: true },
+          { text: money(vatSummary.total), alignment: 'right', bold: true }
+        ]
+      ] as TableCell[][]
+    },
+    layout: tableLayout,
+    margin: [0, 4, 0, 4]
+  };
+
+  const variableSymbol =
+    budget.id && budget.created_at ? getBudgetVariableSymbol({ id: budget.id, created_at: budget.created_at }) : null;
+  const iban = organization?.iban && isValidIban(organization.iban) ? organization.iban : null;
+  const paymentContent: Content[] =
+    iban && vatSummary.total > 0
+      ? [
+          { text: 'QR platba', style: 'sectionTitle', margin: [0, 12, 0, 6] },
+          {
+            columns: [
+              {
+                qr: buildSpaydPayload({
+                  iban,
+                  amount: vatSummary.total,
+                  currency,
+                  variableSymbol,
+                  message: budget.client_name
+                }),
+                fit: 110,
+                eccLevel: 'M',
+                width: 'auto'
+              },
+              {
+                stack: [
+                  { text: [{ text: 'Částka s DPH: ', bold: true }, money(vatSummary.total)] },
+                  { text: [{ text: 'Účet: ', bold: true }, formatIban(iban)] },
+                  ...(variableSymbol ? [{ text: [{ text: 'Variabilní symbol: ', bold: true }, variableSymbol] }] : [])
+                ],
+                margin: [16, 8, 0, 0]
+              }
+            ]
+          }
+        ]
+      : [];
+
+  const detail = (label: string, value?: string | null): Content => ({
+    stack: [
+      { text: label.toUpperCase(), fontSize: 7, color: MUTED_COLOR, bold: true },
+      { text: value?.trim() || '—', margin: [0, 1, 0, 6] }
+    ]
+  });
+
+  return {
+    pageSize: 'A4',
+    pageMargins: [40, 90, 40, 50],
+    info: { title: budget.name?.trim() || 'Rozpočet pro klienta', author: organization?.name },
+    defaultStyle: { font: 'Roboto', fontSize: 9, color: '#1f2933' },
+    styles: {
+      title: { fontSize: 18, bold: true, color: PRIMARY_COLOR },
+      sectionTitle: { fontSize: 12, bold: true, color: PRIMARY_COLOR, margin: [0, 8, 0, 2] }
+    },
+    header: {
+      margin: [40, 30, 40, 0],
+      stack: [
+        {
+          columns: [
+            { text: organization?.name || 'Rozpočet', fontSize: 14, bold: true, color: PRIMARY_COLOR },
+            {
+              text: [budget.project_manager, budget.manager_email].filter(Boolean).join(' · '),
+              alignment: 'right',
+              color: MUTED_COLOR,
+              margin: [0, 4, 0, 0]
+            }
+          ]
+        },
+        { canvas: [{ type: 'line', x1: 0, y1: 8, x2: 515, y2: 8, lineWidth: 1.5, lineColor: PRIMARY_COLOR }] }
+      ]
+    },
+    footer: (currentPage, pageCount) => ({
+      columns: [
+        { text: `Vystaveno ${formattedDate}`, color: MUTED_COLOR, fontSize: 8 },
+        { text: `Strana ${currentPage} z ${pageCount}`, alignment: 'right', color: MUTED_COLOR, fontSize: 8 }
+      ],
+      margin: [40, 20, 40, 0]
+    }),
+    content: [
+      { text: budget.name?.trim() || 'Rozpočet pro klienta', style: 'title' },
+      {
+        text: [budget.budget_number ? `Nabídka č. ${budget.budget_number}` : null, `Připraveno pro ${budget.client_name?.trim() || '—'}`]
+          .filter(Boolean)
+          .join(' · '),
+        color: MUTED_COLOR,
+        margin: [0, 2, 0, 12]
+      },
+      {
+        columns: [
+          detail('Klient', budget.client_name),
+          detail('Kontaktní osoba', budget.contact_person),
+          detail('E-mail', budget.client_email)
+        ]
+      },
+      {
+        columns: [
+          detail('Projektový manažer', budget.project_manager),
+          detail('Stav rozpočtu', budget.status ? statusLabels[budget.status] : null),
+          detail('Datum', formattedDate)
+        ],
+        margin: [0, 0, 0, 8]
+      },
+      ...sectionContent,
+      ...(optionalGroups.length > 0
+        ? [
+            { text: 'Volitelné položky a varianty', style: 'sectionTitle' } as Content,
+            { text: 'Nejsou zahrnuty v celkové ceně.', color: MUTED_COLOR, margin: [0, 0, 0, 4] } as Content,
+            optionsTable
+          ]
+        : []),
+      ...(budgetAdjustments.length > 0
+        ? [
+            { text: 'Slevy a příplatky', style: 'sectionTitle' } as Content,
+            adjustmentsTable(budgetAdjustments, pricing.clientTotal - budgetAdjustmentsTotal)
+          ]
+        : []),
+      { text: 'Rekapitulace DPH', style: 'sectionTitle', margin: [0, 12, 0, 2] },
+      vatTable,
+      ...(vatSummary.hasReverseCharge
+        ? [
+            {
+              text: 'U položek s 0 % DPH se uplatní přenesená daňová povinnost, daň přizná a zaplatí odběratel.',
+              italics: true,
+              color: MUTED_COLOR
+            } as Content
+          ]
+        : []),
+      { text: getValidityNote(budget.valid_until, validityDays), margin: [0, 8, 0, 0] },
+      ...paymentContent
+    ]
+  };
+}
+
+const loadPdfMake = async () => {
+  const [{ default: pdfMake }, { default: vfs }] = await Promise.all([
+    import('pdfmake/build/pdfmake'),
+    import('pdfmake/build/vfs_fonts')
+  ]);
+
+  pdfMake.vfs = vfs;
+  return pdfMake;
+};
+
+export function getBudgetPdfFileName(budget: Pick<Partial<Budget>, 'name' | 'budget_number'>): string {
+  return `${getBudgetFileBaseName(budget)}_klient.pdf`;
+}
+
+export async function downloadBudgetPdf(data: BudgetPdfData): Promise<void> {
+  const pdfMake = await loadPdfMake();
+  pdfMake.createPdf(buildBudgetPdfDocument(data)).download(getBudgetPdfFileName(data.budget));
+}
+
+/** Base64 encoded PDF, e.g. for e-mail attachments. */
+export async function createBudgetPdfBase64(data: BudgetPdfData): Promise<string> {
+  const pdfMake = await loadPdfMake();
+
+  return new Promise(resolve => {
+    pdfMake.createPdf(buildBudgetPdfDocument(data)).getBase64(resolve);
+  });
+}
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { supabase } from './supabase';
+
+export type BudgetPresenceActivity = 'viewing' | 'editing';
+
+export interface BudgetPresencePeer {
+  /** One per open editor; the same user may have the budget open in several tabs. */
+  sessionId: string;
+  userId: string;
+  name: string;
+  activity: BudgetPresenceActivity;
+  since: string;
+}
+
+interface BudgetPresenceChannel {
+  track: (peer: BudgetPresencePeer) => void;
+  leave: () => void;
+}
+
+/** Opens the presence channel of a budget; `onSync` receives everybody present, the caller included. */
+function openPresenceChannel(
+  budgetId: string,
+  onSync: (peers: BudgetPresencePeer[]) => void
+): BudgetPresenceChannel {
+  const channel = supabase.channel(`budget-presence:${budgetId}`);
+  let subscribed = false;
+  let pending: BudgetPresencePeer | null = null;
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      onSync(Object.values(channel.presenceState<BudgetPresencePeer>()).flat());
+    })
+    .subscribe((status) => {
+      subscribed = status === 'SUBSCRIBED';
+      if (subscribed && pending) {
+        void channel.track(pending);
+      }
+    });
+
+  return {
+    track: (peer) => {
+      pending = peer;
+      if (subscribed) {
+        void channel.track(peer);
+      }
+    },
+    leave: () => {
+      void supabase.removeChannel(channel);
+    }
+  };
+}
+
+/**
+ * Announces the current user in the budget and returns the other people who have it open. Nothing is announced
+ * until both the budget and the user are known.
+ */
+export function useBudgetPresence(
+  budgetId: string | null,
+  user: { id: string; name: string } | null,
+  activity: BudgetPresenceActivity
+): BudgetPresencePeer[] {
+  const [peers, setPeers] = useState<BudgetPresencePeer[]>([]);
+  const channelRef = useRef<BudgetPresenceChannel | null>(null);
+  const sessionIdRef = useRef(`${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`);
+  const sinceRef = useRef(new Date().toISOString());
+  const userId = user?.id ?? null;
+  const userName = user?.name ?? '';
+
+  useEffect(() => {
+    if (!budgetId || !userId) {
+      setPeers([]);
+      return;
+    }
+
+    const channel = openPresenceChannel(budgetId, (present) =>
+      setPeers(present.filter((peer) => peer.sessionId !== sessionIdRef.current))
+    );
+    channelRef.current = channel;
+
+    return () => {
+      channel.leave();
+      channelRef.current = null;
+      setPeers([]);
+    };
+  }, [budgetId, userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    channelRef.current?.track({
+      sessionId: sessionIdRef.current,
+      userId,
+      name: userName,
+      activity,
+      since: sinceRef.current
+    });
+  }, [budgetId, userId, userName, activity]);
+
+  return peers;
+}
@@ -0,0 +1,273 @@
+import { BudgetItem, BudgetPriceAdjustment, BudgetPriceAdjustmentLine } from '../types/database';
+import { DEFAULT_VAT_RATE, resolveItemVatRate } from './vat';
+
+export type PricedItem = Pick<
+  Partial<BudgetItem>,
+  | 'section_id'
+  | 'total_price'
+  | 'internal_total_price'
+  | 'vat_rate'
+  | 'is_optional'
+  | 'alternative_group'
+  | 'client_selected'
+>;
+
+export type OptionalItemFlags = Pick<Partial<BudgetItem>, 'is_optional' | 'alternative_group' | 'client_selected'>;
+
+export interface OptionalItemGroup<T> {
+  /** Alternative group name, or `null` for the add-ons that can be taken independently. */
+  name: string | null;
+  items: T[];
+}
+
+export interface BudgetPricing {
+  /** Core items plus the options the client selected. */
+  itemsTotal: number;
+  internalTotal: number;
+  /** Item subtotal of every section after its own adjustments, keyed by section ID. */
+  sectionTotals: Map<string, number>;
+  /** The input adjustments with `amount` and `vat_lines` filled in, in the same order. */
+  adjustments: BudgetPriceAdjustment[];
+  adjustmentsTotal: number;
+  clientTotal: number;
+  profit: number;
+  margin: number;
+  /** Items plus one line per adjustment and VAT rate, ready for `calculateVatBreakdown`. */
+  vatItems: Pick<Partial<BudgetItem>, 'total_price' | 'vat_rate'>[];
+}
+
+export type OptionalItemKind = 'core' | 'optional' | 'alternative';
+
+export const OPTIONAL_ITEM_KIND_LABELS: Record<OptionalItemKind, string> = {
+  core: 'Základní',
+  optional: 'Volitelná',
+  alternative: 'Varianta'
+};
+
+export const ADJUSTMENT_KIND_LABELS: Record<BudgetPriceAdjustment['kind'], string> = {
+  discount: 'Sleva',
+  surcharge: 'Příplatek'
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function createPriceAdjustment(
+  id: string,
+  sectionId: string | null = null
+): BudgetPriceAdjustment {
+  return {
+    id,
+    label: '',
+    section_id: sectionId,
+    kind: 'discount',
+    mode: 'percent',
+    value: 0,
+    amount: 0,
+    vat_lines: []
+  };
+}
+
+export function describePriceAdjustment(
+  adjustment: Pick<BudgetPriceAdjustment, 'label' | 'kind' | 'mode' | 'value'>
+): string {
+  const label = adjustment.label.trim() || ADJUSTMENT_KIND_LABELS[adjustment.kind];
+
+  return adjustment.mode === 'percent'
+    ? `${label} (${(Number(adjustment.value) || 0).toLocaleString('cs-CZ')} %)`
+    : label;
+}
+
+/** Client unit price derived from the internal one, or `null` when the row is priced by hand. */
+export function getMarkupPricePerUnit(
+  item: Pick<Partial<BudgetItem>, 'markup_percent' | 'internal_price_per_unit' | 'is_cost'>
+): number | null {
+  if (item.is_cost || item.markup_percent === null || item.markup_percent === undefined) {
+    return null;
+  }
+
+  const internalPrice = Number(item.internal_price_per_unit) || 0;
+  return roundCurrency(internalPrice * (1 + (Number(item.markup_percent) || 0) / 100));
+}
+
+export function getOptionalItemKind(item: OptionalItemFlags): OptionalItemKind {
+  if (item.alternative_group?.trim()) return 'alternative';
+  return item.is_optional ? 'optional' : 'core';
+}
+
+/** Optional add-ons and alternative variants are offered to the client instead of being part of the price. */
+export const isOptionalItem = (item: OptionalItemFlags) => getOptionalItemKind(item) !== 'core';
+
+export const isItemIncluded = (item: OptionalItemFlags) => !isOptionalItem(item) || Boolean(item.client_selected);
+
+/** Standalone add-ons first, then one group per alternative name in order of appearance. */
+export function groupOptionalItems<T extends OptionalItemFlags>(items: T[]): OptionalItemGroup<T>[] {
+  const addOns: T[] = [];
+  const alternatives = new Map<string, T[]>();
+
+  items.forEach(item => {
+    const kind = getOptionalItemKind(item);
+    if (kind === 'optional') {
+      addOns.push(item);
+    } else if (kind === 'alternative') {
+      const name = (item.alternative_group as string).trim();
+      alternatives.set(name, [...(alternatives.get(name) ?? []), item]);
+    }
+  });
+
+  return [
+    ...(addOns.length > 0 ? [{ name: null, items: addOns }] : []),
+    ...Array.from(alternatives.entries()).map(([name, groupItems]) => ({ name, items: groupItems }))
+  ];
+}
+
+/** Toggles the client's choice of one option; choosing a variant drops the other variants of its group. */
+export function toggleOptionalItem<T extends OptionalItemFlags>(items: T[], index: number, selected: boolean): T[] {
+  const target = items[index];
+  const group = target?.alternative_group?.trim();
+
+  return items.map((item, itemIndex) => {
+    if (itemIndex === index) {
+      return { ...item, client_selected: selected };
+    }
+    if (selected && group && item.alternative_group?.trim() === group && item.client_selected) {
+      return { ...item, client_selected: false };
+    }
+    return item;
+  });
+}
+
+const sumBasesByRate = (items: Pick<Partial<BudgetItem>, 'total_price' | 'vat_rate'>[], defaultRate: number) => {
+  const bases = new Map<number, number>();
+
+  items.forEach(item => {
+    const rate = resolveItemVatRate(item, defaultRate);
+    bases.set(rate, (bases.get(rate) ?? 0) + Number(item.total_price ?? 0));
+  });
+
+  return bases;
+};
+
+// An adjustment is spread over the VAT rates of the rows it applies to, in proportion to their bases, so a
+// discount on a budget with mixed rates lowers every rate's base rather than only one of them.
+const splitByVatRate = (amount: number, bases: Map<number, number>, defaultRate: number): BudgetPriceAdjustmentLine[] => {
+  const entries = Array.from(bases.entries()).filter(([, base]) => base !== 0);
+  const baseTotal = entries.reduce((sum, [, base]) => sum + base, 0);
+
+  if (amount === 0) {
+    return [];
+  }
+
+  if (baseTotal === 0) {
+    return [{ rate: defaultRate, amount }];
+  }
+
+  const lines = entries
+    .sort(([left], [right]) => right - left)
+    .map(([rate, base]) => ({ rate, amount: roundCurrency((amount * base) / baseTotal) }));
+
+  // Rounding leftovers go to the line with the largest base so the lines always add up to the amount.
+  const largest = lines.reduce(
+    (best, line, index) =>
+      Math.abs(bases.get(line.rate) ?? 0) > Math.abs(bases.get(lines[best].rate) ?? 0) ? index : best,
+    0
+  );
+  const remainder = roundCurrency(amount - lines.reduce((sum, line) => sum + line.amount, 0));
+  lines[largest] = { ...lines[largest], amount: roundCurrency(lines[largest].amount + remainder) };
+
+  return lines.filter(line => line.amount !== 0);
+};
+
+const resolveAmount = (adjustment: BudgetPriceAdjustment, base: number) => {
+  const value = Math.abs(Number(adjustment.value) || 0);
+  const amount = adjustment.mode === 'percent' ? roundCurrency((base * value) / 100) : roundCurrency(value);
+  return adjustment.kind === 'discount' ? -amount : amount;
+};
+
+/**
+ * Applies section adjustments to their section subtotal first, then budget-wide adjustments to the subtotal
+ * after section adjustments. Several percentages on the same level share one base instead of compounding.
+ *
+ * Adjustments are computed from core items only, so the client's choice of options never changes them;
+ * selected options are added at their own price and unselected ones are left out of every total.
+ */
+export function calculateBudgetPricing(
+  allItems: PricedItem[],
+  adjustments: BudgetPriceAdjustment[] = [],
+  defaultRate: number = DEFAULT_VAT_RATE
+): BudgetPricing {
+  const includedItems = allItems.filter(isItemIncluded);
+  const items = includedItems.filter(item => !isOptionalItem(item));
+  const itemsTotal = includedItems.reduce((sum, item) => sum + Number(item.total_price ?? 0), 0);
+  const internalTotal = includedItems.reduce((sum, item) => sum + Number(item.internal_total_price ?? 0), 0);
+  const sectionTotals = new Map<string, number>();
+
+  items.forEach(item => {
+    if (item.section_id) {
+      sectionTotals.set(item.section_id, (sectionTotals.get(item.section_id) ?? 0) + Number(item.total_price ?? 0));
+    }
+  });
+
+  const sectionBases = new Map(sectionTotals);
+  const computed = new Map<string, BudgetPriceAdjustment>();
+
+  adjustments
+    .filter(adjustment => adjustment.section_id)
+    .forEach(adjustment => {
+      const sectionId = adjustment.section_id as string;
+      const sectionItems = items.filter(item => item.section_id === sectionId);
+      const amount = resolveAmount(adjustment, sectionBases.get(sectionId) ?? 0);
+
+      sectionTotals.set(sectionId, (sectionTotals.get(sectionId) ?? 0) + amount);
+      computed.set(adjustment.id, {
+        ...adjustment,
+        amount,
+        vat_lines: splitByVatRate(amount, sumBasesByRate(sectionItems, defaultRate), defaultRate)
+      });
+    });
+
+  const sectionLines = Array.from(computed.values()).flatMap(adjustment =>
+    adjustment.vat_lines.map(line => ({ total_price: line.amount, vat_rate: line.rate }))
+  );
+  const budgetBaseItems = [...items, ...sectionLines];
+  const budgetBase = budgetBaseItems.reduce((sum, item) => sum + Number(item.total_price ?? 0), 0);
+  const budgetBases = sumBasesByRate(budgetBaseItems, defaultRate);
+
+  adjustments
+    .filter(adjustment => !adjustment.section_id)
+    .forEach(adjustment => {
+      const amount = resolveAmount(adjustment, budgetBase);
+      computed.set(adjustment.id, {
+        ...adjustment,
+        amount,
+        vat_lines: splitByVatRate(amount, budgetBases, defaultRate)
+      });
+    });
+
+  includedItems.filter(isOptionalItem).forEach(item => {
+    if (item.section_id) {
+      sectionTotals.set(item.section_id, (sectionTotals.get(item.section_id) ?? 0) + Number(item.total_price ?? 0));
+    }
+  });
+
+  const resolved = adjustments.map(adjustment => computed.get(adjustment.id) ?? adjustment);
+  const adjustmentsTotal = roundCurrency(resolved.reduce((sum, adjustment) => sum + adjustment.amount, 0));
+  const clientTotal = itemsTotal + adjustmentsTotal;
+  const profit = clientTotal - internalTotal;
+
+  return {
+    itemsTotal,
+    internalTotal,
+    sectionTotals,
+    adjustments: resolved,
+    adjustmentsTotal,
+    clientTotal,
+    profit,
+    margin: clientTotal > 0 ? (profit / clientTotal) * 100 : 0,
+    vatItems: [
+      ...includedItems,
+      ...resolved.flatMap(adjustment =>
+        adjustment.vat_lines.map(line => ({ total_price: line.amount, vat_rate: line.rate }))
+      )
+    ]
+  };
+}
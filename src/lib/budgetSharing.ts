@@ -0,0 +1,140 @@
+import { supabase } from './supabase';
+import { Budget, BudgetClientFeedback, BudgetItem, BudgetSection, BudgetShareLink } from '../types/database';
+
+export const DEFAULT_SHARE_LINK_VALIDITY_DAYS = 14;
+
+export const SHARE_QUERY_PARAM = 'share';
+
+// The public payload deliberately leaves out internal prices and the budget/item owners.
+export interface SharedBudget {
+  expires_at: string;
+  budget: Pick<
+    Budget,
+    | 'name'
+    | 'client_name'
+    | 'contact_person'
+    | 'project_manager'
+    | 'manager_email'
+    | 'status'
+    | 'valid_until'
+    | 'currency'
+    | 'created_at'
+    | 'client_decision_at'
+    | 'client_decision_by'
+    | 'price_adjustments'
+    | 'client_approved_total'
+  >;
+  organization: { name: string; default_vat_rate: number };
+  sections: Pick<BudgetSection, 'id' | 'name' | 'description'>[];
+  items: Pick<
+    BudgetItem,
+    | 'id'
+    | 'section_id'
+    | 'item_name'
+    | 'unit'
+    | 'quantity'
+    | 'price_per_unit'
+    | 'total_price'
+    | 'vat_rate'
+    | 'notes'
+    | 'is_optional'
+    | 'alternative_group'
+    | 'client_selected'
+  >[];
+  feedback: Pick<BudgetClientFeedback, 'id' | 'kind' | 'author_name' | 'message' | 'created_at'>[];
+}
+
+export interface SharedBudgetResponse {
+  kind: BudgetClientFeedback['kind'];
+  authorName: string;
+  authorEmail?: string | null;
+  message?: string;
+  /** Optional items and variants the client chose; only used when approving. */
+  selectedItemIds?: string[];
+}
+
+export function getShareUrl(token: string): string {
+  const url = new URL(window.location.origin + window.location.pathname);
+  url.searchParams.set(SHARE_QUERY_PARAM, token);
+  return url.toString();
+}
+
+export function isShareLinkActive(link: Pick<BudgetShareLink, 'expires_at' | 'revoked_at'>): boolean {
+  return !link.revoked_at && new Date(link.expires_at).getTime() > Date.now();
+}
+
+export async function fetchBudgetShareLinks(budgetId: string): Promise<BudgetShareLink[]> {
+  const { data, error } = await supabase
+    .from('budget_share_links')
+    .select('*')
+    .eq('budget_id', budgetId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as BudgetShareLink[]) ?? [];
+}
+
+export async function fetchBudgetClientFeedback(budgetId: string): Promise<BudgetClientFeedback[]> {
+  const { data, error } = await supabase
+    .from('budget_client_feedback')
+    .select('*')
+    .eq('budget_id', budgetId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as BudgetClientFeedback[]) ?? [];
+}
+
+// A draft budget is moved to "sent" by the RPC, because sharing the link is how it gets sent.
+export async function createBudgetShareLink(budgetId: string): Promise<BudgetShareLink> {
+  const { data, error } = await supabase.rpc('create_budget_share_link', { p_budget_id: budgetId });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as BudgetShareLink;
+}
+
+export async function revokeBudgetShareLink(linkId: string): Promise<void> {
+  const { error } = await supabase
+    .from('budget_share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/** Resolves to `null` when the token is unknown, revoked or expired. */
+export async function fetchSharedBudget(token: string): Promise<SharedBudget | null> {
+  const { data, error } = await supabase.rpc('get_shared_budget', { p_token: token });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as SharedBudget | null) ?? null;
+}
+
+export async function respondToSharedBudget(token: string, response: SharedBudgetResponse): Promise<void> {
+  const { error } = await supabase.rpc('respond_to_shared_budget', {
+    p_token: token,
+    p_kind: response.kind,
+    p_author_name: response.authorName,
+    p_author_email: response.authorEmail ?? null,
+    p_message: response.message ?? '',
+    p_selected_item_ids: response.kind === 'approved' ? response.selectedItemIds ?? [] : null
+  });
+
+  if (error) {
+    throw error;
+  }
+}
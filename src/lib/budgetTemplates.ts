@@ -0,0 +1,95 @@
+import { supabase } from './supabase';
+import { BudgetItem, BudgetSection, BudgetTemplate } from '../types/database';
+
+export interface InstantiatedBudgetTemplate {
+  sections: Pick<BudgetSection, 'id' | 'name' | 'description'>[];
+  items: Partial<BudgetItem>[];
+}
+
+export async function fetchBudgetTemplates(organizationId: string): Promise<BudgetTemplate[]> {
+  const { data, error } = await supabase
+    .from('budget_templates')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('name');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as BudgetTemplate[]) ?? [];
+}
+
+export async function createBudgetTemplateFromBudget(
+  budgetId: string,
+  name: string,
+  description?: string | null
+): Promise<BudgetTemplate> {
+  const { data, error } = await supabase.rpc('create_budget_template_from_budget', {
+    p_budget_id: budgetId,
+    p_name: name,
+    p_description: description ?? null
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as BudgetTemplate;
+}
+
+export async function deleteBudgetTemplate(templateId: string): Promise<void> {
+  const { error } = await supabase.from('budget_templates').delete().eq('id', templateId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Turns template content into editor rows. Sections get fresh IDs from `createId` so that the same template
+ * can be applied to any number of budgets, and item totals are recomputed from the default prices.
+ */
+export function instantiateBudgetTemplate(
+  template: Pick<BudgetTemplate, 'content'>,
+  createId: () => string
+): InstantiatedBudgetTemplate {
+  const sectionIds = new Map<string, string>();
+  const sections = (template.content.sections ?? []).map(section => {
+    const id = createId();
+    sectionIds.set(section.key, id);
+    return { id, name: section.name, description: section.description ?? '' };
+  });
+
+  const items = (template.content.items ?? []).map((item, index) => {
+    const quantity = Number(item.quantity) || 0;
+    const pricePerUnit = Number(item.price_per_unit) || 0;
+    const internalQuantity = item.is_cost ? quantity : Number(item.internal_quantity) || 0;
+    const internalPricePerUnit = item.is_cost ? pricePerUnit : Number(item.internal_price_per_unit) || 0;
+    const totalPrice = quantity * pricePerUnit;
+    const internalTotalPrice = internalQuantity * internalPricePerUnit;
+
+    return {
+      category_id: item.category_id ?? '',
+      section_id: item.section_key ? sectionIds.get(item.section_key) : undefined,
+      item_name: item.item_name ?? '',
+      unit: item.unit || 'ks',
+      quantity,
+      price_per_unit: pricePerUnit,
+      total_price: totalPrice,
+      internal_quantity: internalQuantity,
+      internal_price_per_unit: internalPricePerUnit,
+      internal_total_price: internalTotalPrice,
+      profit: totalPrice - internalTotalPrice,
+      is_cost: Boolean(item.is_cost),
+      is_personnel: Boolean(item.is_personnel),
+      vat_rate: item.vat_rate ?? null,
+      notes: item.notes ?? '',
+      is_optional: Boolean(item.is_optional),
+      alternative_group: item.alternative_group ?? null,
+      order_index: index
+    } as Partial<BudgetItem>;
+  });
+
+  return { sections, items };
+}
@@ -0,0 +1,60 @@
+import { supabase } from './supabase';
+import { Budget } from '../types/database';
+
+export const DEFAULT_BUDGET_VALIDITY_DAYS = 30;
+
+/** Sent budgets ending within this many days are flagged in the list and on the dashboard. */
+export const EXPIRING_SOON_DAYS = 7;
+
+export type BudgetValidityState = 'valid' | 'expiring' | 'expired';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// `valid_until` is a plain date, so whole calendar days are compared regardless of the time of day.
+export function getDaysUntilExpiry(validUntil: string, today: Date = new Date()): number {
+  const [year, month, day] = validUntil.split('-').map(Number);
+  const end = Date.UTC(year, month - 1, day);
+  const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((end - start) / DAY_MS);
+}
+
+/** Validity only matters while the quote waits for the client; other budgets resolve to `null`. */
+export function getBudgetValidityState(
+  budget: Pick<Budget, 'status' | 'valid_until'>,
+  today: Date = new Date()
+): BudgetValidityState | null {
+  if (budget.status === 'expired') return 'expired';
+  if (budget.status !== 'sent' || !budget.valid_until) return null;
+
+  const days = getDaysUntilExpiry(budget.valid_until, today);
+  if (days < 0) return 'expired';
+  return days <= EXPIRING_SOON_DAYS ? 'expiring' : 'valid';
+}
+
+export function formatValidUntil(validUntil: string): string {
+  return new Date(`${validUntil}T00:00:00`).toLocaleDateString('cs-CZ');
+}
+
+/** Validity sentence for exports; budgets not sent yet get the organization's period instead of a date. */
+export function getValidityNote(
+  validUntil: string | null | undefined,
+  validityDays: number = DEFAULT_BUDGET_VALIDITY_DAYS
+): string {
+  return validUntil
+    ? `Nabídka je platná do ${formatValidUntil(validUntil)}.`
+    : `Nabídka je platná ${validityDays} dní od data vystavení.`;
+}
+
+/** Extends by the organization's validity period when no number of days is given; expired budgets become sent again. */
+export async function extendBudgetValidity(budgetId: string, days?: number): Promise<Budget> {
+  const { data, error } = await supabase.rpc('extend_budget_validity', {
+    p_budget_id: budgetId,
+    p_days: days ?? null
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as Budget;
+}
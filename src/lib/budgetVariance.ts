@@ -0,0 +1,282 @@
+import { supabase } from './supabase';
+import { fetchOrganization } from './organization';
+import { CurrencyConverter, DEFAULT_CURRENCY, createCurrencyConverter, fetchExchangeRates } from './currency';
+import { isItemIncluded } from './budgetPricing';
+import { Budget, BudgetItem, BudgetSection, Employee, Expense, Task } from '../types/database';
+
+/** Planned and actual figures of a budget line, a section or the whole budget, in the budget currency. */
+export interface BudgetVarianceTotals {
+  revenue: number;
+  plannedCost: number;
+  actualCost: number;
+  /** Part of the actual cost that comes from hours logged on tasks. */
+  labourCost: number;
+  plannedHours: number;
+  actualHours: number;
+}
+
+export interface BudgetVarianceLine extends BudgetVarianceTotals {
+  item: BudgetItem;
+}
+
+export interface BudgetVarianceSection extends BudgetVarianceTotals {
+  /** `null` groups the lines that are not in any section. */
+  section: BudgetSection | null;
+  lines: BudgetVarianceLine[];
+  /** Costs charged to the section as a whole rather than to one of its lines. */
+  sectionCost: number;
+}
+
+export interface BudgetVarianceReport extends BudgetVarianceTotals {
+  sections: BudgetVarianceSection[];
+  /** Project costs not charged to any line or section of the budget. */
+  unattributedCost: number;
+  /** Expenses and tasks left out because no exchange rate to the budget currency has been entered. */
+  unconverted: number;
+}
+
+export interface BudgetVarianceSource {
+  sections: BudgetSection[];
+  items: BudgetItem[];
+  expenses: Expense[];
+  /** Converts into the budget currency. */
+  converter: CurrencyConverter;
+  /** Currency of employee hourly rates, i.e. the organization's base currency. */
+  labourCurrency: string;
+}
+
+const emptyTotals = (): BudgetVarianceTotals => ({
+  revenue: 0,
+  plannedCost: 0,
+  actualCost: 0,
+  labourCost: 0,
+  plannedHours: 0,
+  actualHours: 0
+});
+
+const addTotals = (target: BudgetVarianceTotals, source: BudgetVarianceTotals) => {
+  target.revenue += source.revenue;
+  target.plannedCost += source.plannedCost;
+  target.actualCost += source.actualCost;
+  target.labourCost += source.labourCost;
+  target.plannedHours += source.plannedHours;
+  target.actualHours += source.actualHours;
+};
+
+/** Lines, sections and the expenses of the project or its budget, with rates to convert them. */
+export async function fetchBudgetVarianceSource(budget: Budget, projectId: string): Promise<BudgetVarianceSource> {
+  const organizationId = budget.organization_id as string;
+  const [sectionsRes, itemsRes, expensesRes, organization, rates] = await Promise.all([
+    supabase.from('budget_sections').select('*').eq('budget_id', budget.id).order('created_at'),
+    supabase.from('budget_items').select('*').eq('budget_id', budget.id).order('order_index'),
+    supabase
+      .from('expenses')
+      .select('*')
+      .or(`project_id.eq.${projectId},budget_id.eq.${budget.id}`)
+      .order('date', { ascending: false }),
+    fetchOrganization(organizationId),
+    fetchExchangeRates(organizationId)
+  ]);
+
+  if (sectionsRes.error) throw sectionsRes.error;
+  if (itemsRes.error) throw itemsRes.error;
+  if (expensesRes.error) throw expensesRes.error;
+
+  return {
+    sections: (sectionsRes.data as BudgetSection[]) ?? [],
+    items: (itemsRes.data as BudgetItem[]) ?? [],
+    expenses: (expensesRes.data as Expense[]) ?? [],
+    converter: createCurrencyConverter(budget.currency || DEFAULT_CURRENCY, rates),
+    labourCurrency: organization?.base_currency || DEFAULT_CURRENCY
+  };
+}
+
+/**
+ * Compares the internal cost planned for each line with the expenses and task hours charged to it.
+ * Revenue is the line price before budget discounts and surcharges; options the client did not select
+ * are left out. Logged hours are valued at the current hourly rate of the assigned employee.
+ */
+export function calculateBudgetVariance(
+  { sections, items, expenses, converter, labourCurrency }: BudgetVarianceSource,
+  tasks: Task[],
+  employees: Employee[]
+): BudgetVarianceReport {
+  const report: BudgetVarianceReport = { ...emptyTotals(), sections: [], unattributedCost: 0, unconverted: 0 };
+  const lines = new Map<string, BudgetVarianceLine>();
+  const sectionCosts = new Map<string, number>();
+  const sectionLabour = new Map<string, number>();
+  const sectionHours = new Map<string, { planned: number; actual: number }>();
+  const hourlyRates = new Map(employees.map(employee => [employee.id, Number(employee.hourly_rate) || 0]));
+
+  items.filter(isItemIncluded).forEach(item => {
+    lines.set(item.id, {
+      ...emptyTotals(),
+      item,
+      revenue: Number(item.total_price) || 0,
+      plannedCost: Number(item.internal_total_price) || 0
+    });
+  });
+
+  const knownSectionIds = new Set(sections.map(section => section.id));
+
+  // Returns false when the cost is not charged to this budget, so the caller counts it as unattributed.
+  const charge = (
+    link: Pick<Expense, 'budget_item_id' | 'budget_section_id'>,
+    amount: number,
+    isLabour: boolean,
+    hours?: { planned: number; actual: number }
+  ) => {
+    const line = link.budget_item_id ? lines.get(link.budget_item_id) : undefined;
+
+    if (line) {
+      line.actualCost += amount;
+      if (isLabour) line.labourCost += amount;
+      if (hours) {
+        line.plannedHours += hours.planned;
+        line.actualHours += hours.actual;
+      }
+      return true;
+    }
+
+    const sectionId = link.budget_section_id;
+    if (!sectionId || !knownSectionIds.has(sectionId)) {
+      return false;
+    }
+
+    sectionCosts.set(sectionId, (sectionCosts.get(sectionId) ?? 0) + amount);
+    if (isLabour) sectionLabour.set(sectionId, (sectionLabour.get(sectionId) ?? 0) + amount);
+    if (hours) {
+      const current = sectionHours.get(sectionId) ?? { planned: 0, actual: 0 };
+      sectionHours.set(sectionId, { planned: current.planned + hours.planned, actual: current.actual + hours.actual });
+    }
+    return true;
+  };
+
+  expenses.forEach(expense => {
+    const amount = converter.convert(expense.amount, expense.currency, expense.date);
+
+    if (amount === null) {
+      report.unconverted += 1;
+      return;
+    }
+
+    if (!charge(expense, amount, false)) {
+      report.unattributedCost += amount;
+    }
+  });
+
+  tasks
+    .filter(task => task.status !== 'cancelled' || Number(task.actual_hours) > 0)
+    .forEach(task => {
+      const actualHours = Number(task.actual_hours) || 0;
+      const rate = task.assigned_to ? hourlyRates.get(task.assigned_to) ?? 0 : 0;
+      const labourCost = actualHours * rate;
+      // Tasks without logged cost need no rate, so they only add their planned hours.
+      const amount = labourCost === 0 ? 0 : converter.convert(labourCost, labourCurrency);
+
+      if (amount === null) {
+        report.unconverted += 1;
+        return;
+      }
+
+      const hours = { planned: Number(task.estimated_hours) || 0, actual: actualHours };
+
+      if (!charge(task, amount, true, hours)) {
+        report.unattributedCost += amount;
+      }
+    });
+
+  const groups: (BudgetSection | null)[] = [...sections, null];
+
+  groups.forEach(section => {
+    const sectionLines = Array.from(lines.values()).filter(line =>
+      section ? line.item.section_id === section.id : !line.item.section_id || !knownSectionIds.has(line.item.section_id)
+    );
+    const sectionCost = section ? sectionCosts.get(section.id) ?? 0 : 0;
+
+    if (sectionLines.length === 0 && sectionCost === 0) {
+      return;
+    }
+
+    const hours = section ? sectionHours.get(section.id) : undefined;
+    const totals: BudgetVarianceSection = {
+      ...emptyTotals(),
+      section,
+      lines: sectionLines,
+      sectionCost,
+      actualCost: sectionCost,
+      labourCost: section ? sectionLabour.get(section.id) ?? 0 : 0,
+      plannedHours: hours?.planned ?? 0,
+      actualHours: hours?.actual ?? 0
+    };
+
+    sectionLines.forEach(line => addTotals(totals, line));
+    addTotals(report, totals);
+    report.sections.push(totals);
+  });
+
+  return report;
+}
+
+export const getPlannedMargin = (totals: BudgetVarianceTotals) => totals.revenue - totals.plannedCost;
+
+export const getRealizedMargin = (totals: BudgetVarianceTotals) => totals.revenue - totals.actualCost;
+
+/** Margin as a share of revenue; `null` for lines without a price. */
+export const getMarginPercent = (margin: number, revenue: number) => (revenue > 0 ? (margin / revenue) * 100 : null);
+
+/** Positive when more was spent than planned. */
+export const getCostVariance = (totals: BudgetVarianceTotals) => totals.actualCost - totals.plannedCost;
+
+// Half a unit of tolerance so rounding of converted amounts does not flag a line.
+export const isCostOverrun = (totals: BudgetVarianceTotals) => getCostVariance(totals) > 0.5;
+
+export interface BudgetLineOption {
+  value: string;
+  label: string;
+}
+
+/** Select value for a cost link: `item:<id>`, `section:<id>` or an empty string. */
+export function getBudgetLineValue(link: Pick<Expense, 'budget_item_id' | 'budget_section_id'>): string {
+  if (link.budget_item_id) return `item:${link.budget_item_id}`;
+  if (link.budget_section_id) return `section:${link.budget_section_id}`;
+  return '';
+}
+
+export function parseBudgetLineValue(value: string): Required<Pick<Expense, 'budget_item_id' | 'budget_section_id'>> {
+  const [kind, id] = value.split(':');
+  return {
+    budget_item_id: kind === 'item' && id ? id : null,
+    budget_section_id: kind === 'section' && id ? id : null
+  };
+}
+
+/** Each section followed by its lines, then the lines outside sections; unselected options are left out. */
+export function getBudgetLineOptions(sections: BudgetSection[], allItems: BudgetItem[]): BudgetLineOption[] {
+  const items = allItems.filter(isItemIncluded);
+  const sectionIds = new Set(sections.map(section => section.id));
+  const toOption = (item: BudgetItem, indent: boolean) => ({
+    value: `item:${item.id}`,
+    label: `${indent ? '   ' : ''}${item.item_name}`
+  });
+
+  return [
+    ...sections.flatMap(section => [
+      { value: `section:${section.id}`, label: `Oddíl: ${section.name}` },
+      ...items.filter(item => item.section_id === section.id).map(item => toOption(item, true))
+    ]),
+    ...items.filter(item => !item.section_id || !sectionIds.has(item.section_id)).map(item => toOption(item, false))
+  ];
+}
+
+export async function fetchBudgetLineOptions(budgetId: string): Promise<BudgetLineOption[]> {
+  const [sectionsRes, itemsRes] = await Promise.all([
+    supabase.from('budget_sections').select('*').eq('budget_id', budgetId).order('created_at'),
+    supabase.from('budget_items').select('*').eq('budget_id', budgetId).order('order_index')
+  ]);
+
+  if (sectionsRes.error) throw sectionsRes.error;
+  if (itemsRes.error) throw itemsRes.error;
+
+  return getBudgetLineOptions((sectionsRes.data as BudgetSection[]) ?? [], (itemsRes.data as BudgetItem[]) ?? []);
+}
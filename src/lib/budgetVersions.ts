@@ -0,0 +1,156 @@
+import { supabase } from './supabase';
+import { calculateBudgetPricing } from './budgetPricing';
+import { isValidUuid } from './uuid';
+import { BudgetItem, BudgetSnapshot, BudgetVersion } from '../types/database';
+
+export type BudgetVersionSummary = Omit<BudgetVersion, 'snapshot'> & { currency: string | null };
+
+export interface SnapshotTotals {
+  clientTotal: number;
+  internalTotal: number;
+  profit: number;
+  margin: number;
+}
+
+export interface BudgetItemChange {
+  before: BudgetItem;
+  after: BudgetItem;
+  fields: ComparedItemField[];
+}
+
+export interface BudgetVersionDiff {
+  added: BudgetItem[];
+  removed: BudgetItem[];
+  changed: BudgetItemChange[];
+  unchangedCount: number;
+  before: SnapshotTotals;
+  after: SnapshotTotals;
+}
+
+export const COMPARED_ITEM_FIELDS = [
+  'item_name',
+  'section_id',
+  'category_id',
+  'unit',
+  'quantity',
+  'price_per_unit',
+  'total_price',
+  'internal_quantity',
+  'internal_price_per_unit',
+  'internal_total_price',
+  'vat_rate',
+  'markup_percent',
+  'is_optional',
+  'alternative_group',
+  'client_selected',
+  'notes',
+  'is_cost',
+  'is_personnel'
+] as const satisfies readonly (keyof BudgetItem)[];
+
+export type ComparedItemField = (typeof COMPARED_ITEM_FIELDS)[number];
+
+export async function fetchBudgetVersions(budgetId: string): Promise<BudgetVersionSummary[]> {
+  const { data, error } = await supabase
+    .from('budget_versions')
+    .select(
+      'id, budget_id, version_number, status, client_total, internal_total, created_by, created_at, currency:snapshot->budget->>currency'
+    )
+    .eq('budget_id', budgetId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as BudgetVersionSummary[]) ?? [];
+}
+
+export async function fetchBudgetVersion(versionId: string): Promise<BudgetVersion & { currency: string | null }> {
+  const { data, error } = await supabase
+    .from('budget_versions')
+    .select('*')
+    .eq('id', versionId)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const version = data as BudgetVersion;
+  return { ...version, currency: version.snapshot.budget.currency ?? null };
+}
+
+// Restoring goes through save_budget, so it is recorded as a new version rather than rewriting history.
+export async function restoreBudgetVersion(versionId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('restore_budget_version', { p_version_id: versionId });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!isValidUuid(data)) {
+    throw new Error('Obnovení verze nevrátilo platný identifikátor rozpočtu.');
+  }
+
+  return data;
+}
+
+export function summarizeSnapshot(snapshot: BudgetSnapshot): SnapshotTotals {
+  const { clientTotal, internalTotal, profit, margin } = calculateBudgetPricing(
+    snapshot.items,
+    snapshot.budget.price_adjustments ?? []
+  );
+
+  return { clientTotal, internalTotal, profit, margin };
+}
+
+const isSameValue = (left: unknown, right: unknown) => {
+  if (left === null || left === undefined || right === null || right === undefined) {
+    return (left ?? null) === (right ?? null);
+  }
+
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) === Number(right);
+  }
+
+  return left === right;
+};
+
+// Items are matched by ID, which save_budget keeps stable across saves.
+export function diffBudgetSnapshots(base: BudgetSnapshot, target: BudgetSnapshot): BudgetVersionDiff {
+  const baseItems = new Map(base.items.map(item => [item.id, item]));
+  const targetIds = new Set(target.items.map(item => item.id));
+
+  const added: BudgetItem[] = [];
+  const changed: BudgetItemChange[] = [];
+  let unchangedCount = 0;
+
+  target.items.forEach(item => {
+    const previous = baseItems.get(item.id);
+
+    if (!previous) {
+      added.push(item);
+      return;
+    }
+
+    const fields = COMPARED_ITEM_FIELDS.filter(field => !isSameValue(previous[field], item[field]));
+
+    if (fields.length > 0) {
+      changed.push({ before: previous, after: item, fields });
+    } else {
+      unchangedCount += 1;
+    }
+  });
+
+  const removed = base.items.filter(item => !targetIds.has(item.id));
+
+  return {
+    added,
+    removed,
+    changed,
+    unchangedCount,
+    before: summarizeSnapshot(base),
+    after: summarizeSnapshot(target)
+  };
+}
@@ -0,0 +1,118 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+import { supabase } from './supabase';
+import { isValidUuid } from './uuid';
+import { Budget, BudgetItem, BudgetSection } from '../types/database';
+
+export interface PersistBudgetInput {
+  budget: Partial<Budget>;
+  sections: Partial<BudgetSection>[];
+  items: Partial<BudgetItem>[];
+}
+
+/** SQLSTATE raised by `save_budget` when the budget was saved by somebody else after it was loaded. */
+export const BUDGET_SAVE_CONFLICT_CODE = '40001';
+
+export const isBudgetSaveConflict = (error: unknown) =>
+  (error as PostgrestError | null)?.code === BUDGET_SAVE_CONFLICT_CODE;
+
+const toPersistedId = (value: unknown) => (isValidUuid(value) ? value : null);
+
+// The RPC diffs the payload against stored rows in one transaction, so existing rows keep their IDs.
+// `budget.updated_at` is the version the changes are based on; a newer stored budget fails the save.
+export async function persistBudget({ budget, sections, items }: PersistBudgetInput): Promise<string> {
+  const budgetPayload = {
+    id: toPersistedId(budget.id),
+    name: budget.name ?? '',
+    client_id: toPersistedId(budget.client_id),
+    client_name: budget.client_name ?? '',
+    client_email: budget.client_email ?? null,
+    contact_person: budget.contact_person ?? null,
+    project_manager: budget.project_manager ?? null,
+    manager_email: budget.manager_email ?? null,
+    status: budget.status ?? 'draft',
+    archived: budget.archived ?? false,
+    archived_at: budget.archived_at ?? null,
+    valid_until: budget.valid_until ?? null,
+    organization_id: budget.organization_id ?? null,
+    currency: budget.currency ?? null,
+    price_adjustments: budget.price_adjustments ?? [],
+    expected_updated_at: budget.updated_at ?? null
+  };
+
+  const sectionsPayload = sections.map((section) => ({
+    id: toPersistedId(section.id),
+    name: section.name ?? '',
+    description: section.description ?? null,
+    created_at: section.created_at ?? null
+  }));
+
+  const itemsPayload = items.map((item, index) => ({
+    ...item,
+    id: toPersistedId(item.id),
+    section_id: toPersistedId(item.section_id),
+    order_index: index
+  }));
+
+  const { data, error } = await supabase.rpc('save_budget', {
+    p_budget: budgetPayload,
+    p_sections: sectionsPayload,
+    p_items: itemsPayload
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!isValidUuid(data)) {
+    throw new Error('Uložení rozpočtu nevrátilo platný identifikátor.');
+  }
+
+  return data;
+}
+
+export async function fetchBudgetContent(budgetId: string): Promise<PersistBudgetInput> {
+  const [budgetResponse, sectionsResponse, itemsResponse] = await Promise.all([
+    supabase.from('budgets').select('*').eq('id', budgetId).single(),
+    supabase.from('budget_sections').select('*').eq('budget_id', budgetId).order('created_at'),
+    supabase.from('budget_items').select('*').eq('budget_id', budgetId).order('order_index')
+  ]);
+
+  const error = budgetResponse.error ?? sectionsResponse.error ?? itemsResponse.error;
+  if (error) {
+    throw error;
+  }
+
+  return {
+    budget: budgetResponse.data as Budget,
+    sections: (sectionsResponse.data as BudgetSection[]) ?? [],
+    items: (itemsResponse.data as BudgetItem[]) ?? []
+  };
+}
+
+export interface DuplicateBudgetInput {
+  budgetId: string;
+  name: string;
+  clientName?: string | null;
+  asRevision?: boolean;
+}
+
+// Sections, items and their order are copied server-side; the copy always starts as a draft of the current user.
+export async function duplicateBudget({ budgetId, name, clientName, asRevision }: DuplicateBudgetInput): Promise<string> {
+  const { data, error } = await supabase.rpc('duplicate_budget', {
+    p_budget_id: budgetId,
+    p_name: name,
+    p_client_name: clientName ?? null,
+    p_as_revision: asRevision ?? false
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!isValidUuid(data)) {
+    throw new Error('Kopírování rozpočtu nevrátilo platný identifikátor.');
+  }
+
+  return data;
+}
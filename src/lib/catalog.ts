@@ -0,0 +1,173 @@
+import { supabase } from './supabase';
+import { BudgetItem, CatalogItem } from '../types/database';
+
+export type CatalogItemInput = Pick<
+  CatalogItem,
+  'name' | 'unit' | 'price_per_unit' | 'internal_price_per_unit' | 'category_id' | 'is_cost' | 'is_personnel' | 'vat_rate'
+>;
+
+export interface CatalogPriceChange {
+  clientPrice: number;
+  internalPrice: number;
+}
+
+const SUGGESTION_LIMIT = 8;
+
+const normalizeSearchText = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+
+export async function fetchCatalogItems(organizationId: string): Promise<CatalogItem[]> {
+  const { data, error } = await supabase
+    .from('catalog_items')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('name');
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as CatalogItem[]) ?? [];
+}
+
+export async function saveCatalogItem(
+  organizationId: string,
+  input: CatalogItemInput,
+  catalogItemId?: string | null
+): Promise<void> {
+  const payload = {
+    ...input,
+    name: input.name.trim(),
+    unit: input.unit.trim() || 'ks',
+    category_id: input.category_id || null,
+    updated_at: new Date().toISOString()
+  };
+
+  const { error } = catalogItemId
+    ? await supabase.from('catalog_items').update(payload).eq('id', catalogItemId)
+    : await supabase.from('catalog_items').insert({ ...payload, organization_id: organizationId });
+
+  if (error) {
+    throw error;
+  }
+}
+
+export async function setCatalogItemArchived(catalogItemId: string, archived: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('catalog_items')
+    .update({ archived, updated_at: new Date().toISOString() })
+    .eq('id', catalogItemId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/** Active catalog entries whose name contains every word of the query, accents and case ignored. */
+export function searchCatalogItems(catalogItems: CatalogItem[], query: string): CatalogItem[] {
+  const words = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+
+  if (words.length === 0) {
+    return [];
+  }
+
+  return catalogItems
+    .filter(entry => !entry.archived)
+    .filter(entry => {
+      const name = normalizeSearchText(entry.name);
+      return words.every(word => name.includes(word));
+    })
+    .slice(0, SUGGESTION_LIMIT);
+}
+
+/** Fills a budget row from the catalog and remembers the catalog prices used, so later changes can be flagged. */
+export function applyCatalogItem(item: Partial<BudgetItem>, entry: CatalogItem): Partial<BudgetItem> {
+  const quantity = Number(item.quantity) || 1;
+  const pricePerUnit = Number(entry.price_per_unit) || 0;
+  const internalPricePerUnit = entry.is_cost ? pricePerUnit : Number(entry.internal_price_per_unit) || 0;
+  const totalPrice = quantity * pricePerUnit;
+  const internalTotalPrice = quantity * internalPricePerUnit;
+
+  return {
+    ...item,
+    item_name: entry.name,
+    unit: entry.unit,
+    category_id: entry.category_id || item.category_id || '',
+    quantity,
+    price_per_unit: pricePerUnit,
+    total_price: totalPrice,
+    internal_quantity: quantity,
+    internal_price_per_unit: internalPricePerUnit,
+    internal_total_price: internalTotalPrice,
+    profit: totalPrice - internalTotalPrice,
+    is_cost: entry.is_cost,
+    is_personnel: entry.is_personnel,
+    vat_rate: entry.vat_rate ?? item.vat_rate ?? null,
+    markup_percent: null,
+    catalog_item_id: entry.id,
+    catalog_price_per_unit: Number(entry.price_per_unit) || 0,
+    catalog_internal_price_per_unit: Number(entry.internal_price_per_unit) || 0
+  };
+}
+
+/** Returns the current catalog prices when they differ from the ones the row was priced with. */
+export function getCatalogPriceChange(
+  item: Pick<Partial<BudgetItem>, 'catalog_item_id' | 'catalog_price_per_unit' | 'catalog_internal_price_per_unit'>,
+  catalogById: Map<string, CatalogItem>
+): CatalogPriceChange | null {
+  const entry = item.catalog_item_id ? catalogById.get(item.catalog_item_id) : undefined;
+
+  if (!entry) {
+    return null;
+  }
+
+  const clientPrice = Number(entry.price_per_unit) || 0;
+  const internalPrice = Number(entry.internal_price_per_unit) || 0;
+
+  if (
+    clientPrice === Number(item.catalog_price_per_unit ?? clientPrice) &&
+    internalPrice === Number(item.catalog_internal_price_per_unit ?? internalPrice)
+  ) {
+    return null;
+  }
+
+  return { clientPrice, internalPrice };
+}
+
+/**
+ * Accepts the current catalog prices for a row. With `updatePrices` the row is repriced, otherwise only the
+ * remembered catalog prices move, which dismisses the flag and keeps the negotiated price.
+ */
+export function syncCatalogPrices(
+  item: Partial<BudgetItem>,
+  change: CatalogPriceChange,
+  updatePrices: boolean
+): Partial<BudgetItem> {
+  const synced = {
+    ...item,
+    catalog_price_per_unit: change.clientPrice,
+    catalog_internal_price_per_unit: change.internalPrice
+  };
+
+  if (!updatePrices) {
+    return synced;
+  }
+
+  const internalPricePerUnit = item.is_cost ? change.clientPrice : change.internalPrice;
+  const totalPrice = (Number(item.quantity) || 0) * change.clientPrice;
+  const internalTotalPrice = (Number(item.internal_quantity) || 0) * internalPricePerUnit;
+
+  return {
+    ...synced,
+    price_per_unit: change.clientPrice,
+    markup_percent: null,
+    total_price: totalPrice,
+    internal_price_per_unit: internalPricePerUnit,
+    internal_total_price: internalTotalPrice,
+    profit: totalPrice - internalTotalPrice
+  };
+}
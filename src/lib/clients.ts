@@ -0,0 +1,229 @@
+import { supabase } from './supabase';
+import { CurrencyConverter } from './currency';
+import { Budget, Client, ClientContact, Expense, Invoice, Project } from '../types/database';
+
+export type ClientWithContacts = Client & { contacts: ClientContact[] };
+
+export type ClientInput = Omit<Client, 'id' | 'created_by' | 'created_at' | 'updated_at'> & { id?: string };
+
+export type ClientContactInput = Omit<ClientContact, 'id' | 'client_id' | 'created_at'> & { id?: string };
+
+export interface ClientActivity {
+  budgets: Budget[];
+  projects: Project[];
+  invoices: Invoice[];
+  billedExpenses: Expense[];
+}
+
+export interface ClientRevenue {
+  /** Paid invoices in the base currency. */
+  revenue: number;
+  /** Issued but unpaid invoices in the base currency. */
+  outstanding: number;
+  /** Invoices left out because no exchange rate to the base currency has been entered. */
+  unconverted: number;
+}
+
+const sortContacts = (contacts: ClientContact[] = []) =>
+  [...contacts].sort(
+    (left, right) => Number(right.is_primary) - Number(left.is_primary) || left.name.localeCompare(right.name, 'cs')
+  );
+
+export async function fetchClients(organizationId: string): Promise<ClientWithContacts[]> {
+  const { data, error } = await supabase
+    .from('clients')
+    .select('*, contacts:client_contacts(*)')
+    .eq('organization_id', organizationId)
+    .order('name');
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data as ClientWithContacts[]) ?? []).map(client => ({ ...client, contacts: sortContacts(client.contacts) }));
+}
+
+export async function fetchClient(clientId: string): Promise<ClientWithContacts> {
+  const { data, error } = await supabase
+    .from('clients')
+    .select('*, contacts:client_contacts(*)')
+    .eq('id', clientId)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const client = data as ClientWithContacts;
+  return { ...client, contacts: sortContacts(client.contacts) };
+}
+
+const emptyToNull = (value: string | null | undefined) => value?.trim() || null;
+
+/** Saves the client and replaces its contacts with the given list; the first contact is primary if none is marked. */
+export async function saveClient(client: ClientInput, contacts: ClientContactInput[]): Promise<string> {
+  const payload = {
+    organization_id: client.organization_id,
+    name: client.name.trim(),
+    company_id: emptyToNull(normalizeCompanyId(client.company_id ?? '')),
+    vat_id: emptyToNull(client.vat_id?.replace(/\s+/g, '').toUpperCase()),
+    billing_street: emptyToNull(client.billing_street),
+    billing_city: emptyToNull(client.billing_city),
+    billing_postal_code: emptyToNull(client.billing_postal_code),
+    billing_country: emptyToNull(client.billing_country),
+    email: emptyToNull(client.email),
+    phone: emptyToNull(client.phone),
+    notes: client.notes?.trim() ?? '',
+    is_vat_payer: client.is_vat_payer ?? null,
+    registry_checked_at: client.registry_checked_at ?? null,
+    updated_at: new Date().toISOString()
+  };
+
+  const { data, error } = client.id
+    ? await supabase.from('clients').update(payload).eq('id', client.id).select('id').single()
+    : await supabase.from('clients').insert(payload).select('id').single();
+
+  if (error) {
+    throw error;
+  }
+
+  const clientId = data.id as string;
+  const namedContacts = contacts.filter(contact => contact.name.trim());
+  const hasPrimary = namedContacts.some(contact => contact.is_primary);
+  const keptIds = namedContacts.map(contact => contact.id).filter((id): id is string => Boolean(id));
+
+  let removal = supabase.from('client_contacts').delete().eq('client_id', clientId);
+  if (keptIds.length > 0) {
+    removal = removal.not('id', 'in', `(${keptIds.join(',')})`);
+  }
+
+  const { error: removalError } = await removal;
+  if (removalError) {
+    throw removalError;
+  }
+
+  const rows = namedContacts.map((contact, index) => ({
+    ...(contact.id ? { id: contact.id } : {}),
+    client_id: clientId,
+    name: contact.name.trim(),
+    role: emptyToNull(contact.role),
+    email: emptyToNull(contact.email),
+    phone: emptyToNull(contact.phone),
+    is_primary: hasPrimary ? contact.is_primary : index === 0
+  }));
+
+  if (rows.length > 0) {
+    const { error: contactsError } = await supabase.from('client_contacts').upsert(rows);
+    if (contactsError) {
+      throw contactsError;
+    }
+  }
+
+  return clientId;
+}
+
+export async function deleteClient(clientId: string): Promise<void> {
+  const { error } = await supabase.from('clients').delete().eq('id', clientId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/** Budgets, projects and invoices of the client, with the billed expenses of its budgets and projects. */
+export async function fetchClientActivity(clientId: string): Promise<ClientActivity> {
+  const [budgetsRes, projectsRes] = await Promise.all([
+    supabase.from('budgets').select('*').eq('client_id', clientId).order('created_at', { ascending: false }),
+    supabase.from('projects').select('*').eq('client_id', clientId).order('created_at', { ascending: false })
+  ]);
+
+  if (budgetsRes.error) throw budgetsRes.error;
+  if (projectsRes.error) throw projectsRes.error;
+
+  const budgets = (budgetsRes.data as Budget[]) ?? [];
+  const projects = (projectsRes.data as Project[]) ?? [];
+  const budgetIds = budgets.map(budget => budget.id);
+  const projectIds = projects.map(project => project.id);
+
+  const linkedTo = [
+    budgetIds.length > 0 ? `budget_id.in.(${budgetIds.join(',')})` : null,
+    projectIds.length > 0 ? `project_id.in.(${projectIds.join(',')})` : null
+  ].filter(Boolean);
+
+  const [invoicesRes, expensesRes] = await Promise.all([
+    supabase.from('invoices').select('*').eq('client_id', clientId).order('issue_date', { ascending: false }),
+    linkedTo.length > 0
+      ? supabase
+          .from('expenses')
+          .select('*')
+          .eq('is_billed', true)
+          .or(linkedTo.join(','))
+          .order('date', { ascending: false })
+      : Promise.resolve({ data: [], error: null })
+  ]);
+
+  if (invoicesRes.error) throw invoicesRes.error;
+  if (expensesRes.error) throw expensesRes.error;
+
+  return {
+    budgets,
+    projects,
+    invoices: (invoicesRes.data as Invoice[]) ?? [],
+    billedExpenses: (expensesRes.data as Expense[]) ?? []
+  };
+}
+
+export function summarizeClientRevenue(invoices: Invoice[], converter: CurrencyConverter): ClientRevenue {
+  return invoices.reduce<ClientRevenue>(
+    (summary, invoice) => {
+      const amount = converter.convert(invoice.total, invoice.currency, invoice.issue_date);
+
+      if (amount === null) {
+        return { ...summary, unconverted: summary.unconverted + 1 };
+      }
+
+      return invoice.status === 'paid'
+        ? { ...summary, revenue: summary.revenue + amount }
+        : { ...summary, outstanding: summary.outstanding + amount };
+    },
+    { revenue: 0, outstanding: 0, unconverted: 0 }
+  );
+}
+
+export function getPrimaryContact(client: ClientWithContacts): ClientContact | null {
+  return client.contacts.find(contact => contact.is_primary) ?? client.contacts[0] ?? null;
+}
+
+export function formatClientAddress(client: Client): string {
+  const city = [client.billing_postal_code, client.billing_city].filter(Boolean).join(' ');
+  const country = client.billing_country && client.billing_country !== 'CZ' ? client.billing_country : null;
+  return [client.billing_street, city, country].filter(Boolean).join(', ');
+}
+
+/** The client fields a budget keeps for exports and e-mails, taken from the directory. */
+export function getBudgetClientFields(client: ClientWithContacts, contact: ClientContact | null = getPrimaryContact(client)) {
+  return {
+    client_id: client.id,
+    client_name: client.name,
+    client_email: contact?.email || client.email || '',
+    contact_person: contact?.name ?? ''
+  };
+}
+
+export function normalizeCompanyId(value: string): string {
+  return value.replace(/\s+/g, '');
+}
+
+/** Czech IČO: eight digits, the last one a mod 11 checksum of the others. */
+export function isValidCompanyId(value: string): boolean {
+  const digits = normalizeCompanyId(value).padStart(8, '0');
+  if (!/^\d{8}$/.test(digits)) return false;
+
+  const sum = digits
+    .slice(0, 7)
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (8 - index), 0);
+  const check = (11 - (sum % 11)) % 10;
+
+  return check === Number(digits[7]);
+}
@@ -0,0 +1,42 @@
+import { supabase } from './supabase';
+import { normalizeCompanyId } from './clients';
+
+/** Company as returned by the `company-lookup` function, whichever registry provider answered. */
+export interface CompanyRegistryRecord {
+  companyId: string;
+  name: string;
+  vatId: string | null;
+  isVatPayer: boolean;
+  street: string | null;
+  city: string | null;
+  postalCode: string | null;
+  country: string;
+}
+
+/** Resolves to `null` when the registry does not know the IČO. */
+export async function lookupCompany(companyId: string): Promise<CompanyRegistryRecord | null> {
+  const { data, error } = await supabase.functions.invoke('company-lookup', {
+    body: { companyId: normalizeCompanyId(companyId) }
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data?.company as CompanyRegistryRecord | null) ?? null;
+}
+
+/** Client fields filled from the registry; the check time is kept so stale VAT status can be spotted. */
+export function getClientFieldsFromRegistry(record: CompanyRegistryRecord) {
+  return {
+    name: record.name,
+    company_id: record.companyId,
+    vat_id: record.vatId ?? '',
+    billing_street: record.street ?? '',
+    billing_city: record.city ?? '',
+    billing_postal_code: record.postalCode ?? '',
+    billing_country: record.country,
+    is_vat_payer: record.isVatPayer,
+    registry_checked_at: new Date().toISOString()
+  };
+}
@@ -0,0 +1,125 @@
+import { supabase } from './supabase';
+import { fetchOrganization } from './organization';
+import { ExchangeRate } from '../types/database';
+
+export const DEFAULT_CURRENCY = 'CZK';
+
+export const CURRENCY_OPTIONS: { value: string; label: string }[] = [
+  { value: 'CZK', label: 'CZK – česká koruna' },
+  { value: 'EUR', label: 'EUR – euro' },
+  { value: 'USD', label: 'USD – americký dolar' }
+];
+
+const CURRENCY_PATTERNS: { currency: string; pattern: RegExp }[] = [
+  { currency: 'CZK', pattern: /k[cč]|czk|,-/i },
+  { currency: 'EUR', pattern: /€|eur/i },
+  { currency: 'USD', pattern: /\$|usd/i }
+];
+
+interface FormatCurrencyOptions {
+  minimumFractionDigits?: number;
+  maximumFractionDigits?: number;
+}
+
+export function formatCurrency(
+  value: number,
+  currency: string = DEFAULT_CURRENCY,
+  { minimumFractionDigits = 0, maximumFractionDigits = 2 }: FormatCurrencyOptions = {}
+): string {
+  return new Intl.NumberFormat('cs-CZ', {
+    style: 'currency',
+    currency: currency || DEFAULT_CURRENCY,
+    minimumFractionDigits,
+    maximumFractionDigits
+  }).format(Number(value) || 0);
+}
+
+export function getCurrencySymbol(currency: string = DEFAULT_CURRENCY): string {
+  const part = new Intl.NumberFormat('cs-CZ', { style: 'currency', currency: currency || DEFAULT_CURRENCY })
+    .formatToParts(0)
+    .find(entry => entry.type === 'currency');
+
+  return part?.value ?? currency;
+}
+
+// Used by the spreadsheet import to notice prices written in a different currency than the budget.
+export function detectCurrency(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+
+  return CURRENCY_PATTERNS.find(({ pattern }) => pattern.test(value))?.currency ?? null;
+}
+
+export async function fetchExchangeRates(organizationId: string): Promise<ExchangeRate[]> {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('valid_from', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as ExchangeRate[]) ?? [];
+}
+
+export interface CurrencyConverter {
+  baseCurrency: string;
+  /** Returns `null` when no rate between the currencies has been entered. */
+  convert: (amount: number, currency: string | null | undefined, date?: string | Date | null) => number | null;
+}
+
+const toDateKey = (date?: string | Date | null) => {
+  if (!date) return new Date().toISOString().slice(0, 10);
+  if (date instanceof Date) return date.toISOString().slice(0, 10);
+  return date.slice(0, 10);
+};
+
+// Rates are entered by hand, so both directions are accepted: EUR→CZK directly and CZK→EUR inverted.
+export function createCurrencyConverter(baseCurrency: string, rates: ExchangeRate[]): CurrencyConverter {
+  const sortedRates = [...rates].sort((left, right) => right.valid_from.localeCompare(left.valid_from));
+
+  const toBaseRate = (rate: ExchangeRate, currency: string) => {
+    if (rate.currency === currency && rate.base_currency === baseCurrency) return Number(rate.rate);
+    if (rate.currency === baseCurrency && rate.base_currency === currency) return 1 / Number(rate.rate);
+    return null;
+  };
+
+  // Amounts dated before the first entered rate fall back to that oldest rate.
+  const findRate = (currency: string, dateKey: string) => {
+    let oldest: number | null = null;
+
+    for (const rate of sortedRates) {
+      const value = toBaseRate(rate, currency);
+      if (value === null) continue;
+      if (rate.valid_from <= dateKey) return value;
+      oldest = value;
+    }
+
+    return oldest;
+  };
+
+  return {
+    baseCurrency,
+    convert: (amount, currency, date) => {
+      const sourceCurrency = currency || DEFAULT_CURRENCY;
+      const value = Number(amount) || 0;
+
+      if (sourceCurrency === baseCurrency) {
+        return value;
+      }
+
+      const rate = findRate(sourceCurrency, toDateKey(date));
+      return rate === null ? null : value * rate;
+    }
+  };
+}
+
+export async function loadCurrencyConverter(organizationId: string): Promise<CurrencyConverter> {
+  const [organization, rates] = await Promise.all([
+    fetchOrganization(organizationId),
+    fetchExchangeRates(organizationId)
+  ]);
+
+  return createCurrencyConverter(organization?.base_currency || DEFAULT_CURRENCY, rates);
+}
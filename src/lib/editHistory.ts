@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface EditHistoryOptions {
+  /** While `false` (e.g. during loading) nothing is recorded and the history is cleared. */
+  enabled?: boolean;
+  limit?: number;
+  /** Changes closer together than this, such as typing into one field, are recorded as one step. */
+  delay?: number;
+}
+
+export interface EditHistory {
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  /** Drops the history; the next change of the snapshot becomes the new starting point. */
+  reset: () => void;
+}
+
+/**
+ * Undo and redo over immutable snapshots of editor state. The snapshot must keep its identity while nothing
+ * changes (wrap it in `useMemo`); `restore` puts a recorded snapshot back into the editor state.
+ */
+export function useEditHistory<T>(
+  snapshot: T,
+  restore: (snapshot: T) => void,
+  { enabled = true, limit = 100, delay = 500 }: EditHistoryOptions = {}
+): EditHistory {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+  const previousRef = useRef(snapshot);
+  const restoringRef = useRef(false);
+  const settlingRef = useRef(true);
+  const burstRef = useRef(false);
+  const timerRef = useRef<number | null>(null);
+
+  const endBurst = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    burstRef.current = false;
+  }, []);
+
+  const reset = useCallback(() => {
+    endBurst();
+    settlingRef.current = true;
+    setPast([]);
+    setFuture([]);
+  }, [endBurst]);
+
+  useEffect(() => {
+    if (!enabled) {
+      reset();
+    }
+  }, [enabled, reset]);
+
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = snapshot;
+
+    if (!enabled || previous === snapshot) return;
+
+    if (restoringRef.current) {
+      restoringRef.current = false;
+      return;
+    }
+
+    // Right after loading or a reset, follow-up updates (defaults, clean-ups) are part of the starting point.
+    if (settlingRef.current) {
+      endBurst();
+      timerRef.current = window.setTimeout(() => {
+        settlingRef.current = false;
+        timerRef.current = null;
+      }, delay);
+      return;
+    }
+
+    if (!burstRef.current) {
+      setPast(prev => [...prev, previous].slice(-limit));
+      setFuture([]);
+    }
+
+    endBurst();
+    burstRef.current = true;
+    timerRef.current = window.setTimeout(endBurst, delay);
+  }, [snapshot, enabled, limit, delay, endBurst]);
+
+  useEffect(() => endBurst, [endBurst]);
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+
+    endBurst();
+    restoringRef.current = true;
+    setPast(past.slice(0, -1));
+    setFuture([previousRef.current, ...future]);
+    restore(past[past.length - 1]);
+  }, [past, future, restore, endBurst]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+
+    endBurst();
+    restoringRef.current = true;
+    setPast([...past, previousRef.current].slice(-limit));
+    setFuture(future.slice(1));
+    restore(future[0]);
+  }, [past, future, restore, limit, endBurst]);
+
+  return { canUndo: past.length > 0, canRedo: future.length > 0, undo, redo, reset };
+}
@@ -0,0 +1,348 @@
+import { formatCurrency } from './currency';
+import { calculateVatBreakdown, getVatRateLabel } from './vat';
+import { InvoiceWithLines } from './invoices';
+import { createPaymentQrCode, formatIban } from './spayd';
+import { Organization } from '../types/database';
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString('cs-CZ') : '—');
+
+// Opens the invoice in a new window styled like the budget PDF export, ready for the browser's print dialog.
+export function printInvoice(invoice: InvoiceWithLines, organization: Organization | null): boolean {
+  const getCurrency = (value: number) => formatCurrency(value, invoice.currency, { minimumFractionDigits: 2 });
+  const vatSummary = calculateVatBreakdown(invoice.lines);
+
+  const tableRows = invoice.lines
+    .map(
+      (line) => `
+        <tr>
+          <td>${line.description || '—'}</td>
+          <td>${line.unit || '—'}</td>
+          <td class="text-right">${Number(line.quantity || 0).toLocaleString('cs-CZ')}</td>
+          <td class="text-right">${getCurrency(line.unit_price || 0)}</td>
+          <td class="text-right">${Number(line.vat_rate).toLocaleString('cs-CZ')} %</td>
+          <td class="text-right">${getCurrency(line.total_price || 0)}</td>
+        </tr>
+      `
+    )
+    .join('');
+
+  const vatBreakdownRows = vatSummary.lines
+    .map(
+      (line) =>
+        `<div><strong>DPH ${getVatRateLabel(line.rate)}:</strong> ${getCurrency(line.vat)} (základ ${getCurrency(line.base)})</div>`
+    )
+    .join('');
+
+  const paymentQrCode =
+    invoice.status === 'unpaid'
+      ? createPaymentQrCode({
+          iban: organization?.iban,
+          amount: vatSummary.total,
+          currency: invoice.currency,
+          variableSymbol: invoice.invoice_number,
+          message: invoice.client_name
+        })
+      : null;
+
+  const paymentSection = paymentQrCode
+    ? `
+          <section class="section">
+            <h2 class="section-title">QR platba</h2>
+            <div class="payment">
+              <img src="${paymentQrCode}" alt="QR platba" />
+              <div class="summary-footer">
+                <div><strong>Částka k úhradě:</strong> ${getCurrency(vatSummary.total)}</div>
+                <div><strong>Účet:</strong> ${formatIban(organization?.iban ?? '')}</div>
+                <div><strong>Variabilní symbol:</strong> ${invoice.invoice_number}</div>
+              </div>
+            </div>
+          </section>
+    `
+    : '';
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    console.error('Nepodařilo se otevřít okno pro tisk faktury.');
+    return false;
+  }
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html lang="cs">
+      <head>
+        <meta charset="utf-8" />
+        <title>Faktura ${invoice.invoice_number}</title>
+        <style>
+          :root {
+            color-scheme: light;
+          }
+          * {
+            box-sizing: border-box;
+          }
+          body {
+            margin: 0;
+            font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+            background: #f8fafc;
+            color: #0a192f;
+            -webkit-print-color-adjust: exact;
+          }
+          @page {
+            size: A4;
+            margin: 24mm;
+          }
+          .page {
+            padding: 48px 56px 64px;
+          }
+          header {
+            background: #0a192f;
+            border-radius: 24px;
+            padding: 32px 40px;
+            color: white;
+            position: relative;
+          }
+          header h1 {
+            margin: 0 0 8px;
+            font-size: 28px;
+          }
+          header p {
+            margin: 0;
+            font-size: 15px;
+            color: rgba(255, 255, 255, 0.8);
+          }
+          .badge {
+            position: absolute;
+            top: 32px;
+            right: 40px;
+            background: white;
+            color: #0a192f;
+            padding: 8px 16px;
+            border-radius: 999px;
+            font-size: 13px;
+            font-weight: 600;
+          }
+          .section {
+            margin-top: 32px;
+            background: white;
+            border-radius: 20px;
+            padding: 28px 32px;
+            box-shadow: 0 24px 40px -24px rgba(15, 23, 42, 0.18);
+          }
+          .section-title {
+            margin: 0 0 20px;
+            font-size: 18px;
+            color: #0a192f;
+          }
+          .details-grid {
+            display: grid;
+            grid-template-columns: repeat(2, minmax(0, 1fr));
+            gap: 16px 32px;
+          }
+          .detail-label {
+            font-size: 12px;
+            font-weight: 600;
+            letter-spacing: 0.08em;
+            text-transform: uppercase;
+            color: #64748b;
+            margin-bottom: 4px;
+          }
+          .detail-value {
+            font-size: 15px;
+            color: #0f172a;
+            font-weight: 500;
+          }
+          .summary-grid {
+            display: grid;
+            grid-template-columns: repeat(3, minmax(0, 1fr));
+            gap: 16px;
+            margin-top: 16px;
+          }
+          .summary-card {
+            background: #e8f4f8;
+            border-radius: 18px;
+            padding: 20px 24px;
+          }
+          .summary-card .label {
+            font-size: 12px;
+            text-transform: uppercase;
+            letter-spacing: 0.08em;
+            color: #486581;
+            margin-bottom: 8px;
+          }
+          .summary-card .value {
+            font-size: 22px;
+            font-weight: 700;
+            color: #0a192f;
+          }
+          table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-top: 12px;
+            font-size: 13px;
+          }
+          thead {
+            display: table-header-group;
+          }
+          tbody tr {
+            page-break-inside: avoid;
+          }
+          thead th {
+            text-align: left;
+            padding: 14px 16px;
+            background: #0a192f;
+            color: white;
+            font-weight: 600;
+            border: none;
+          }
+          tbody td {
+            padding: 14px 16px;
+            border-bottom: 1px solid #e2e8f0;
+            color: #0f172a;
+          }
+          tbody tr:nth-child(even) td {
+            background: #f8fafc;
+          }
+          tbody tr:last-child td {
+            border-bottom: none;
+          }
+          .text-right {
+            text-align: right;
+          }
+          .summary-footer {
+            margin-top: 24px;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            font-size: 13px;
+            color: #475569;
+          }
+          .payment {
+            display: flex;
+            align-items: center;
+            gap: 32px;
+          }
+          .payment img {
+            width: 160px;
+            height: 160px;
+          }
+          .payment .summary-footer {
+            margin-top: 0;
+          }
+          @media print {
+            body {
+              background: white;
+            }
+            .page {
+              padding: 24px 32px 40px;
+            }
+            header {
+              border-radius: 16px;
+            }
+            .section {
+              box-shadow: none;
+              border: 1px solid rgba(148, 163, 184, 0.2);
+            }
+            .summary-card {
+              background: #e8f4f8 !important;
+              -webkit-print-color-adjust: exact;
+            }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="page">
+          <header>
+            <div class="badge">${invoice.status === 'paid' ? 'Uhrazeno' : `Splatnost ${formatDate(invoice.due_date)}`}</div>
+            <h1>Faktura ${invoice.invoice_number}</h1>
+            <p>Vystavil ${organization?.name || '—'}</p>
+          </header>
+
+          <section class="section">
+            <h2 class="section-title">Údaje dokladu</h2>
+            <div class="details-grid">
+              <div>
+                <div class="detail-label">Dodavatel</div>
+                <div class="detail-value">${organization?.name || '—'}</div>
+              </div>
+              <div>
+                <div class="detail-label">Odběratel</div>
+                <div class="detail-value">${invoice.client_name?.trim() || '—'}</div>
+              </div>
+              <div>
+                <div class="detail-label">Datum vystavení</div>
+                <div class="detail-value">${formatDate(invoice.issue_date)}</div>
+              </div>
+              <div>
+                <div class="detail-label">E-mail odběratele</div>
+                <div class="detail-value">${invoice.client_email?.trim() || '—'}</div>
+              </div>
+              <div>
+                <div class="detail-label">Datum splatnosti</div>
+                <div class="detail-value">${formatDate(invoice.due_date)}</div>
+              </div>
+              <div>
+                <div class="detail-label">Variabilní symbol</div>
+                <div class="detail-value">${invoice.invoice_number}</div>
+              </div>
+            </div>
+
+            <div class="summary-grid">
+              <div class="summary-card">
+                <div class="label">Základ daně</div>
+                <div class="value">${getCurrency(vatSummary.base)}</div>
+              </div>
+              <div class="summary-card">
+                <div class="label">DPH celkem</div>
+                <div class="value">${getCurrency(vatSummary.vat)}</div>
+              </div>
+              <div class="summary-card">
+                <div class="label">Celkem k úhradě</div>
+                <div class="value">${getCurrency(vatSummary.total)}</div>
+              </div>
+            </div>
+          </section>
+
+          <section class="section">
+            <h2 class="section-title">Fakturované položky</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Položka</th>
+                  <th>Jednotka</th>
+                  <th class="text-right">Počet</th>
+                  <th class="text-right">Cena / jednotka</th>
+                  <th class="text-right">DPH</th>
+                  <th class="text-right">Celkem bez DPH</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${tableRows}
+              </tbody>
+            </table>
+
+            <div class="summary-footer">
+              <div><strong>Součet bez DPH:</strong> ${getCurrency(vatSummary.base)}</div>
+              ${vatBreakdownRows}
+              <div><strong>Celkem k úhradě:</strong> ${getCurrency(vatSummary.total)}</div>
+              ${
+                vatSummary.hasReverseCharge
+                  ? '<div>U položek s 0 % DPH se uplatní přenesená daňová povinnost, daň přizná a zaplatí odběratel.</div>'
+                  : ''
+              }
+              ${invoice.notes ? `<div><strong>Poznámka:</strong> ${invoice.notes}</div>` : ''}
+            </div>
+          </section>
+          ${paymentSection}
+        </div>
+        <script>
+          window.onload = function() {
+            window.print();
+          };
+        </script>
+      </body>
+    </html>
+  `);
+
+  printWindow.document.close();
+  printWindow.focus();
+  return true;
+}
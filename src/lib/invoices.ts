@@ -0,0 +1,103 @@
+import { supabase } from './supabase';
+import { isValidUuid } from './uuid';
+import { Invoice, InvoiceLine } from '../types/database';
+
+export const DEFAULT_INVOICE_DUE_DAYS = 14;
+
+export type InvoiceWithLines = Invoice & { lines: InvoiceLine[] };
+
+export function getDefaultDueDate(days: number = DEFAULT_INVOICE_DUE_DAYS): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+export function isInvoiceOverdue(invoice: Pick<Invoice, 'status' | 'due_date'>, today: Date = new Date()): boolean {
+  return invoice.status === 'unpaid' && invoice.due_date < today.toISOString().split('T')[0];
+}
+
+export async function fetchInvoices(organizationId: string): Promise<Invoice[]> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('issue_date', { ascending: false })
+    .order('sequence_number', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as Invoice[]) ?? [];
+}
+
+export async function fetchInvoice(invoiceId: string): Promise<InvoiceWithLines> {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*, lines:invoice_lines(*)')
+    .eq('id', invoiceId)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const invoice = data as InvoiceWithLines;
+  return {
+    ...invoice,
+    lines: [...(invoice.lines ?? [])].sort((left, right) => left.order_index - right.order_index)
+  };
+}
+
+const ensureInvoiceId = (value: unknown): string => {
+  if (!isValidUuid(value)) {
+    throw new Error('Vystavení faktury nevrátilo platný identifikátor.');
+  }
+
+  return value;
+};
+
+export async function createInvoiceFromBudget(budgetId: string, dueDate?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_invoice_from_budget', {
+    p_budget_id: budgetId,
+    p_due_date: dueDate ?? null
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return ensureInvoiceId(data);
+}
+
+export async function createInvoiceFromExpenses(
+  expenseIds: string[],
+  client: { id: string; email?: string | null },
+  dueDate?: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc('create_invoice_from_expenses', {
+    p_expense_ids: expenseIds,
+    p_client_id: client.id,
+    p_client_email: client.email ?? null,
+    p_due_date: dueDate ?? null
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return ensureInvoiceId(data);
+}
+
+// Also flips is_billed/billed_date on the expenses the invoice covers.
+export async function setInvoicePaid(invoiceId: string, paid: boolean, paidDate?: string): Promise<void> {
+  const { error } = await supabase.rpc('set_invoice_paid', {
+    p_invoice_id: invoiceId,
+    p_paid: paid,
+    p_paid_date: paidDate ?? null
+  });
+
+  if (error) {
+    throw error;
+  }
+}
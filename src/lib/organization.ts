@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { Organization } from '../types/database';
 
 const STORAGE_KEY = 'active_organization_id';
 
@@ -31,6 +32,20 @@ export function setStoredActiveOrganizationId(organizationId: string | null) {
   }
 }
 
+export async function fetchOrganization(organizationId: string): Promise<Organization | null> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as Organization | null) ?? null;
+}
+
 async function fetchPrimaryOrganizationId(userId: string) {
   const { data, error } = await supabase
     .from('organization_members')
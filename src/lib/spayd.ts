@@ -0,0 +1,107 @@
+import QRCode from 'qrcode';
+import { Budget } from '../types/database';
+
+export interface SpaydPayment {
+  iban: string;
+  amount: number;
+  currency: string;
+  variableSymbol?: string | null;
+  message?: string | null;
+}
+
+const MESSAGE_MAX_LENGTH = 60;
+
+export function normalizeIban(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+export function formatIban(value: string): string {
+  return normalizeIban(value).replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+// ISO 13616 mod-97 check, so typos are caught before the code ends up on a document.
+export function isValidIban(value: string): boolean {
+  const iban = normalizeIban(value);
+
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  const digits = `${iban.slice(4)}${iban.slice(0, 4)}`.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+
+  return remainder === 1;
+}
+
+// Date the budget was created (YYMMDD) followed by four digits of its ID, which fits the 10-digit limit.
+export function getBudgetVariableSymbol(budget: Pick<Budget, 'id' | 'created_at'>): string | null {
+  const createdAt = budget.created_at ? new Date(budget.created_at) : null;
+
+  if (!budget.id || !createdAt || Number.isNaN(createdAt.getTime())) {
+    return null;
+  }
+
+  const datePart = [createdAt.getFullYear() % 100, createdAt.getMonth() + 1, createdAt.getDate()]
+    .map(part => String(part).padStart(2, '0'))
+    .join('');
+  const idPart = String(parseInt(budget.id.replace(/-/g, '').slice(0, 8), 16) % 10000).padStart(4, '0');
+
+  return `${datePart}${idPart}`;
+}
+
+// Some banking apps reject diacritics and '*' separates the SPAYD fields, so both are dropped.
+const sanitizeText = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\*/g, ' ')
+    .trim()
+    .slice(0, MESSAGE_MAX_LENGTH);
+
+export function buildSpaydPayload({ iban, amount, currency, variableSymbol, message }: SpaydPayment): string {
+  const fields = ['SPD', '1.0', `ACC:${normalizeIban(iban)}`, `AM:${amount.toFixed(2)}`, `CC:${currency.toUpperCase()}`];
+
+  const symbol = variableSymbol?.replace(/\D/g, '').slice(0, 10);
+  if (symbol) {
+    fields.push(`X-VS:${symbol}`);
+  }
+
+  const text = message ? sanitizeText(message) : '';
+  if (text) {
+    fields.push(`MSG:${text}`);
+  }
+
+  return fields.join('*');
+}
+
+export function createQrCodeDataUrl(text: string): string {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const margin = 4;
+  const dimension = modules.size + margin * 2;
+
+  let path = '';
+  for (let row = 0; row < modules.size; row += 1) {
+    for (let column = 0; column < modules.size; column += 1) {
+      if (modules.get(row, column)) {
+        path += `M${column + margin} ${row + margin}h1v1h-1z`;
+      }
+    }
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges"><rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/** Returns `null` when the organization has no valid IBAN or there is nothing to pay. */
+export function createPaymentQrCode(payment: Omit<SpaydPayment, 'iban'> & { iban?: string | null }): string | null {
+  if (!payment.iban || !isValidIban(payment.iban) || !(payment.amount > 0)) {
+    return null;
+  }
+
+  return createQrCodeDataUrl(buildSpaydPayload({ ...payment, iban: payment.iban }));
+}
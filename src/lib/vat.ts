@@ -0,0 +1,82 @@
+import { BudgetItem } from '../types/database';
+
+export const DEFAULT_VAT_RATE = 21;
+
+export const VAT_RATE_OPTIONS: { value: number; label: string }[] = [
+  { value: 21, label: '21 % (základní sazba)' },
+  { value: 12, label: '12 % (snížená sazba)' },
+  { value: 0, label: '0 % (přenesená daňová povinnost)' }
+];
+
+export interface VatBreakdownLine {
+  rate: number;
+  base: number;
+  vat: number;
+  total: number;
+}
+
+export interface VatSummary {
+  lines: VatBreakdownLine[];
+  base: number;
+  vat: number;
+  total: number;
+  hasReverseCharge: boolean;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function getVatRateLabel(rate: number): string {
+  return rate === 0 ? '0 % (přenesená daňová povinnost)' : `${rate.toLocaleString('cs-CZ')} %`;
+}
+
+export function resolveItemVatRate(item: Pick<Partial<BudgetItem>, 'vat_rate'>, defaultRate: number): number {
+  return item.vat_rate === null || item.vat_rate === undefined ? defaultRate : Number(item.vat_rate);
+}
+
+// VAT is rounded once per rate, the same way it is printed on the tax document.
+export function calculateVatBreakdown(
+  items: Pick<Partial<BudgetItem>, 'total_price' | 'vat_rate'>[],
+  defaultRate: number = DEFAULT_VAT_RATE
+): VatSummary {
+  const bases = new Map<number, number>();
+
+  items.forEach(item => {
+    const rate = resolveItemVatRate(item, defaultRate);
+    bases.set(rate, (bases.get(rate) ?? 0) + Number(item.total_price ?? 0));
+  });
+
+  const lines = Array.from(bases.entries())
+    .sort(([left], [right]) => right - left)
+    .map(([rate, base]) => {
+      const roundedBase = roundCurrency(base);
+      const vat = roundCurrency((roundedBase * rate) / 100);
+      return { rate, base: roundedBase, vat, total: roundCurrency(roundedBase + vat) };
+    });
+
+  const base = roundCurrency(lines.reduce((sum, line) => sum + line.base, 0));
+  const vat = roundCurrency(lines.reduce((sum, line) => sum + line.vat, 0));
+
+  return {
+    lines,
+    base,
+    vat,
+    total: roundCurrency(base + vat),
+    hasReverseCharge: lines.some(line => line.rate === 0 && line.base !== 0)
+  };
+}
+
+/** Reverse charge applies to the whole budget once every item is at 0 %, so new items should follow. */
+export function isReverseChargeApplied(
+  items: Pick<Partial<BudgetItem>, 'vat_rate'>[],
+  defaultRate: number = DEFAULT_VAT_RATE
+): boolean {
+  return items.length > 0 && items.every(item => resolveItemVatRate(item, defaultRate) === 0);
+}
+
+// Switching off returns reverse-charged items to the default rate rather than guessing their former one.
+export function applyReverseCharge<T extends Pick<Partial<BudgetItem>, 'vat_rate'>>(items: T[], enabled: boolean): T[] {
+  return items.map(item => {
+    if (enabled) return { ...item, vat_rate: 0 };
+    return item.vat_rate === 0 ? { ...item, vat_rate: null } : item;
+  });
+}
@@ -8,19 +8,46 @@ export interface Category {
 
 export interface Budget {
   id: string;
+  budget_number?: string | null;
   name: string;
+  client_id?: string | null;
   client_name: string;
   client_email?: string;
   contact_person?: string;
   project_manager?: string;
   manager_email?: string;
-  status: 'draft' | 'sent' | 'approved' | 'rejected';
+  status: 'draft' | 'sent' | 'approved' | 'rejected' | 'expired';
   user_id: string;
   organization_id?: string | null;
   created_at: string;
   updated_at: string;
+  updated_by?: string | null;
   archived: boolean;
   archived_at?: string | null;
+  valid_until?: string | null;
+  currency: string;
+  client_decision_at?: string | null;
+  client_decision_by?: string | null;
+  client_decision_email?: string | null;
+  revision_of?: string | null;
+  price_adjustments?: BudgetPriceAdjustment[];
+  client_approved_total?: number | null;
+}
+
+export interface BudgetPriceAdjustmentLine {
+  rate: number;
+  amount: number;
+}
+
+export interface BudgetPriceAdjustment {
+  id: string;
+  label: string;
+  section_id: string | null;
+  kind: 'discount' | 'surcharge';
+  mode: 'percent' | 'fixed';
+  value: number;
+  amount: number;
+  vat_lines: BudgetPriceAdjustmentLine[];
 }
 
 export interface BudgetItem {
@@ -40,8 +67,34 @@ export interface BudgetItem {
   profit: number;
   order_index: number;
   created_at: string;
-  is_cost?: boolean;
-  is_personnel?: boolean;
+  is_cost: boolean;
+  is_personnel: boolean;
+  vat_rate?: number | null;
+  catalog_item_id?: string | null;
+  catalog_price_per_unit?: number | null;
+  catalog_internal_price_per_unit?: number | null;
+  markup_percent?: number | null;
+  is_optional?: boolean;
+  alternative_group?: string | null;
+  client_selected?: boolean;
+  task_id?: string | null;
+}
+
+export interface CatalogItem {
+  id: string;
+  organization_id: string;
+  name: string;
+  unit: string;
+  price_per_unit: number;
+  internal_price_per_unit: number;
+  category_id?: string | null;
+  is_cost: boolean;
+  is_personnel: boolean;
+  vat_rate?: number | null;
+  archived: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface BudgetSection {
@@ -53,6 +106,134 @@ export interface BudgetSection {
   updated_at: string;
 }
 
+export interface BudgetSnapshot {
+  budget: Omit<Budget, 'updated_at'>;
+  sections: Omit<BudgetSection, 'updated_at'>[];
+  items: BudgetItem[];
+}
+
+export interface BudgetVersion {
+  id: string;
+  budget_id: string;
+  version_number: number;
+  status: Budget['status'];
+  snapshot: BudgetSnapshot;
+  client_total: number;
+  internal_total: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface BudgetTemplateItem
+  extends Pick<
+    BudgetItem,
+    | 'category_id'
+    | 'item_name'
+    | 'unit'
+    | 'quantity'
+    | 'price_per_unit'
+    | 'internal_quantity'
+    | 'internal_price_per_unit'
+    | 'is_cost'
+    | 'is_personnel'
+    | 'notes'
+  > {
+  section_key?: string | null;
+  vat_rate?: number | null;
+  is_optional?: boolean;
+  alternative_group?: string | null;
+}
+
+export interface BudgetTemplateContent {
+  sections: { key: string; name: string; description?: string | null }[];
+  items: BudgetTemplateItem[];
+}
+
+export interface BudgetTemplate {
+  id: string;
+  organization_id: string;
+  name: string;
+  description?: string | null;
+  content: BudgetTemplateContent;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BudgetImportField =
+  | 'category'
+  | 'section'
+  | 'itemName'
+  | 'notes'
+  | 'quantity'
+  | 'unit'
+  | 'pricePerUnit'
+  | 'totalPrice'
+  | 'vatRate'
+  | 'internalQuantity'
+  | 'internalPrice'
+  | 'internalTotal'
+  | 'isCost';
+
+export interface BudgetImportProfile {
+  id: string;
+  organization_id: string;
+  name: string;
+  /** Source column header for every mapped field. */
+  mapping: Partial<Record<BudgetImportField, string>>;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetComment {
+  id: string;
+  budget_id: string;
+  /** The thread belongs to this item rather than to the whole budget. */
+  item_id: string | null;
+  /** Replies point to the first comment of their thread. */
+  parent_id: string | null;
+  body: string;
+  mentions: string[];
+  author_id: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetShareLink {
+  id: string;
+  budget_id: string;
+  token: string;
+  expires_at: string;
+  revoked_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface BudgetClientFeedback {
+  id: string;
+  budget_id: string;
+  share_link_id?: string | null;
+  kind: 'comment' | 'approved' | 'rejected';
+  author_name: string;
+  author_email?: string | null;
+  message: string;
+  created_at: string;
+}
+
+export interface BudgetEmailLog {
+  id: string;
+  budget_id: string;
+  recipient: string;
+  subject: string;
+  attachment_name?: string | null;
+  provider_message_id?: string | null;
+  sent_by?: string | null;
+  sent_at: string;
+}
+
 export interface Expense {
   id: string;
   category_id: string;
@@ -62,6 +243,8 @@ export interface Expense {
   notes: string;
   budget_id?: string;
   project_id?: string;
+  budget_item_id?: string | null;
+  budget_section_id?: string | null;
   user_id: string;
   organization_id?: string | null;
   is_recurring: boolean;
@@ -70,6 +253,76 @@ export interface Expense {
   is_billable: boolean;
   is_billed: boolean;
   billed_date?: string;
+  currency: string;
+  created_at: string;
+}
+
+export interface Invoice {
+  id: string;
+  organization_id: string;
+  user_id: string;
+  budget_id?: string | null;
+  client_id?: string | null;
+  invoice_number: string;
+  sequence_number: number;
+  client_name: string;
+  client_email?: string | null;
+  issue_date: string;
+  due_date: string;
+  currency: string;
+  status: 'unpaid' | 'paid';
+  paid_date?: string | null;
+  subtotal: number;
+  vat_total: number;
+  total: number;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceLine {
+  id: string;
+  invoice_id: string;
+  budget_item_id?: string | null;
+  expense_id?: string | null;
+  description: string;
+  unit?: string | null;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  vat_rate: number;
+  order_index: number;
+  created_at: string;
+}
+
+export interface Client {
+  id: string;
+  organization_id: string;
+  name: string;
+  company_id?: string | null;
+  vat_id?: string | null;
+  billing_street?: string | null;
+  billing_city?: string | null;
+  billing_postal_code?: string | null;
+  billing_country?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+  is_vat_payer?: boolean | null;
+  registry_checked_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClientContact {
+  id: string;
+  client_id: string;
+  name: string;
+  role?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  is_primary: boolean;
   created_at: string;
 }
 
@@ -95,6 +348,7 @@ export interface Project {
   name: string;
   description?: string;
   budget_id?: string;
+  client_id?: string | null;
   parent_project_id?: string | null;
   start_date?: string;
   end_date?: string;
@@ -111,10 +365,27 @@ export interface Organization {
   id: string;
   name: string;
   owner_id: string;
+  default_vat_rate: number;
+  base_currency: string;
+  iban?: string | null;
+  share_link_validity_days: number;
+  budget_validity_days: number;
+  budget_number_pattern: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface ExchangeRate {
+  id: string;
+  organization_id: string;
+  currency: string;
+  base_currency: string;
+  rate: number;
+  valid_from: string;
+  created_by?: string | null;
+  created_at: string;
+}
+
 export interface OrganizationMember {
   id: string;
   organization_id: string;
@@ -184,6 +455,8 @@ export interface Task {
   actual_hours: number;
   deadline?: string;
   completed_at?: string;
+  budget_item_id?: string | null;
+  budget_section_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,53 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+
+import { getCompanyRegistryProvider } from "./provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-api-version",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Max-Age": "86400"
+};
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+
+// The registry is public, the function only proxies it so the browser does not depend on its CORS setup.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!req.headers.get("Authorization")) {
+    return jsonResponse({ error: "Missing authorization" }, 401);
+  }
+
+  try {
+    const { companyId } = await req.json() as { companyId?: string };
+    const normalized = companyId?.replace(/\s+/g, "").padStart(8, "0") ?? "";
+
+    if (!/^\d{8}$/.test(normalized)) {
+      return jsonResponse({ error: "Invalid company ID" }, 400);
+    }
+
+    const provider = getCompanyRegistryProvider();
+
+    try {
+      const company = await provider.lookup(normalized);
+      return jsonResponse({ company, provider: provider.name }, 200);
+    } catch (error) {
+      console.error("Company registry error", error);
+      return jsonResponse({ error: "Registry unavailable", details: String(error) }, 502);
+    }
+  } catch (error) {
+    console.error("Unexpected error while looking up company", error);
+    return jsonResponse({ error: "Invalid request", details: String(error) }, 400);
+  }
+});
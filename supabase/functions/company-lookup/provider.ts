@@ -0,0 +1,102 @@
+import fixtures from "./fixtures.json" with { type: "json" };
+
+export interface CompanyRecord {
+  companyId: string;
+  name: string;
+  vatId: string | null;
+  isVatPayer: boolean;
+  street: string | null;
+  city: string | null;
+  postalCode: string | null;
+  country: string;
+}
+
+export interface CompanyRegistryProvider {
+  name: string;
+  /** Resolves to `null` when the registry has no company with the IČO. */
+  lookup(companyId: string): Promise<CompanyRecord | null>;
+}
+
+const ARES_URL = "https://ares.gov.cz/ekonomicke-subjekty-v-be/rest/ekonomicke-subjekty";
+
+interface AresAddress {
+  kodStatu?: string;
+  nazevObce?: string;
+  nazevCastiObce?: string;
+  nazevUlice?: string;
+  cisloDomovni?: number;
+  cisloOrientacni?: number;
+  cisloOrientacniPismeno?: string;
+  psc?: number;
+}
+
+interface AresSubject {
+  ico: string;
+  obchodniJmeno: string;
+  dic?: string;
+  sidlo?: AresAddress;
+  seznamRegistraci?: { stavZdrojeDph?: string };
+}
+
+const formatPostalCode = (value?: number) => {
+  if (!value) return null;
+  const digits = String(value).padStart(5, "0");
+  return `${digits.slice(0, 3)} ${digits.slice(3)}`;
+};
+
+// "Ulice 12/3a", falling back to the part of the town for addresses without streets.
+const formatStreet = (address: AresAddress) => {
+  const street = address.nazevUlice ?? address.nazevCastiObce ?? address.nazevObce;
+  if (!street) return null;
+
+  const orientation = address.cisloOrientacni ? `/${address.cisloOrientacni}${address.cisloOrientacniPismeno ?? ""}` : "";
+  return address.cisloDomovni ? `${street} ${address.cisloDomovni}${orientation}` : street;
+};
+
+export function createAresProvider(): CompanyRegistryProvider {
+  return {
+    name: "ares",
+    async lookup(companyId) {
+      const response = await fetch(`${ARES_URL}/${companyId}`, { headers: { Accept: "application/json" } });
+
+      if (response.status === 404) {
+        return null;
+      }
+
+      if (!response.ok) {
+        throw new Error(`ARES API error ${response.status}: ${await response.text()}`);
+      }
+
+      const subject = await response.json() as AresSubject;
+      const address = subject.sidlo ?? {};
+
+      return {
+        companyId: subject.ico,
+        name: subject.obchodniJmeno,
+        vatId: subject.dic ?? null,
+        isVatPayer: subject.seznamRegistraci?.stavZdrojeDph === "AKTIVNI",
+        street: formatStreet(address),
+        city: address.nazevObce ?? null,
+        postalCode: formatPostalCode(address.psc),
+        country: address.kodStatu ?? "CZ"
+      };
+    }
+  };
+}
+
+// Answers from `fixtures.json` only, for working offline or without hitting the public registry.
+export function createLocalProvider(records: CompanyRecord[] = fixtures as CompanyRecord[]): CompanyRegistryProvider {
+  const byCompanyId = new Map(records.map((record) => [record.companyId, record]));
+
+  return {
+    name: "local",
+    async lookup(companyId) {
+      return byCompanyId.get(companyId) ?? null;
+    }
+  };
+}
+
+/** Picks the provider from `COMPANY_REGISTRY_PROVIDER` ("ares" or "local"); the public registry is the default. */
+export function getCompanyRegistryProvider(): CompanyRegistryProvider {
+  return Deno.env.get("COMPANY_REGISTRY_PROVIDER") === "local" ? createLocalProvider() : createAresProvider();
+}
@@ -0,0 +1,137 @@
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import { EmailAttachment, getEmailTransport } from "./transport.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-api-version",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Max-Age": "86400"
+};
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const FROM_EMAIL = Deno.env.get("BUDGETS_FROM_EMAIL") ?? "DreamXRP <no-reply@dreamxrp.app>";
+
+// Resend accepts up to 40 MB per e-mail; budget exports are far smaller, so anything bigger is a client bug.
+const MAX_ATTACHMENT_BASE64_LENGTH = 10 * 1024 * 1024;
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) {
+    return jsonResponse({ error: "Missing authorization" }, 401);
+  }
+
+  try {
+    const { budgetId, to, subject, message, replyTo, attachment } = await req.json() as {
+      budgetId?: string;
+      to?: string;
+      subject?: string;
+      message?: string;
+      replyTo?: string | null;
+      attachment?: EmailAttachment | null;
+    };
+
+    if (!budgetId || !to || !subject?.trim() || !message?.trim()) {
+      return jsonResponse({ error: "Missing required fields" }, 400);
+    }
+
+    if (attachment && (!attachment.filename || attachment.content.length > MAX_ATTACHMENT_BASE64_LENGTH)) {
+      return jsonResponse({ error: "Invalid attachment" }, 400);
+    }
+
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+      console.error("Missing SUPABASE_URL or SUPABASE_ANON_KEY environment variable");
+      return jsonResponse({ error: "Function not configured" }, 500);
+    }
+
+    const transport = getEmailTransport();
+    if (!transport) {
+      console.error("Missing RESEND_API_KEY environment variable");
+      return jsonResponse({ error: "Email service not configured" }, 500);
+    }
+
+    // Acting with the caller's token keeps the budget RLS policies in force.
+    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authorization } }
+    });
+
+    const { data: budget, error: budgetError } = await supabase
+      .from("budgets")
+      .select("id, name")
+      .eq("id", budgetId)
+      .maybeSingle();
+
+    if (budgetError || !budget) {
+      return jsonResponse({ error: "Budget not found" }, 404);
+    }
+
+    const htmlBody = `
+      <div style="font-family: Arial, sans-serif; line-height: 1.6; color: #1f2933;">
+        ${message
+          .trim()
+          .split(/\n{2,}/)
+          .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br />")}</p>`)
+          .join("\n")}
+      </div>
+    `;
+
+    let providerMessageId: string | null = null;
+
+    try {
+      const result = await transport.send({
+        from: FROM_EMAIL,
+        to: [to],
+        subject: subject.trim(),
+        html: htmlBody,
+        text: message.trim(),
+        replyTo: replyTo || undefined,
+        attachments: attachment ? [attachment] : undefined
+      });
+      providerMessageId = result.id;
+    } catch (error) {
+      console.error("E-mail transport error", error);
+      return jsonResponse({ error: "Failed to send email", details: String(error) }, 502);
+    }
+
+    const { data: logEntry, error: logError } = await supabase.rpc("record_budget_email", {
+      p_budget_id: budget.id,
+      p_recipient: to,
+      p_subject: subject.trim(),
+      p_attachment_name: attachment?.filename ?? null,
+      p_provider_message_id: providerMessageId
+    });
+
+    if (logError) {
+      // The e-mail is already out, so report success and leave the missing log entry in the function logs.
+      console.error("Failed to record budget e-mail", logError);
+    }
+
+    return jsonResponse({ success: true, transport: transport.name, log: logEntry ?? null }, 200);
+  } catch (error) {
+    console.error("Unexpected error while sending budget email", error);
+    return jsonResponse({ error: "Invalid request", details: String(error) }, 400);
+  }
+});
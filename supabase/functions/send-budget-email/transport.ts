@@ -0,0 +1,81 @@
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<{ id: string | null }>;
+}
+
+export function createResendTransport(apiKey: string): EmailTransport {
+  return {
+    name: "resend",
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          reply_to: message.replyTo,
+          attachments: message.attachments?.map((attachment) => ({
+            filename: attachment.filename,
+            content: attachment.content,
+            content_type: attachment.contentType
+          }))
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend API error: ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      return { id: data?.id ?? null };
+    }
+  };
+}
+
+// Selected with `EMAIL_TRANSPORT=stub` when developing locally: the message is only logged, never delivered.
+export function createStubTransport(): EmailTransport {
+  return {
+    name: "stub",
+    async send(message) {
+      console.log("Stub e-mail transport", {
+        to: message.to,
+        subject: message.subject,
+        attachments: message.attachments?.map((attachment) => attachment.filename) ?? []
+      });
+
+      return { id: `stub-${crypto.randomUUID()}` };
+    }
+  };
+}
+
+/** Picks the transport from `EMAIL_TRANSPORT` ("resend" or "stub"); returns `null` when Resend is not configured. */
+export function getEmailTransport(): EmailTransport | null {
+  if (Deno.env.get("EMAIL_TRANSPORT") === "stub") {
+    return createStubTransport();
+  }
+
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+  return apiKey ? createResendTransport(apiKey) : null;
+}
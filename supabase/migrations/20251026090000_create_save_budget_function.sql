@@ -0,0 +1,178 @@
+/*
+  # Atomic budget save
+
+  1. New Functions
+    - `save_budget(p_budget jsonb, p_sections jsonb, p_items jsonb)`
+      - Inserts or updates the budget row
+      - Diffs `budget_sections` and `budget_items` against the stored rows and applies
+        inserts, updates and deletes in a single transaction
+      - Rows sent with an `id` keep it, rows without one get a new identifier
+      - Returns the budget identifier
+
+  2. Security
+    - SECURITY INVOKER, so the existing row level security policies still apply
+*/
+
+set check_function_bodies = off;
+
+create or replace function public.save_budget(
+  p_budget jsonb,
+  p_sections jsonb default '[]'::jsonb,
+  p_items jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget_id uuid := nullif(p_budget ->> 'id', '')::uuid;
+begin
+  if v_budget_id is null then
+    insert into budgets (
+      name,
+      client_name,
+      client_email,
+      contact_person,
+      project_manager,
+      manager_email,
+      status,
+      archived,
+      archived_at,
+      user_id,
+      organization_id
+    )
+    values (
+      p_budget ->> 'name',
+      p_budget ->> 'client_name',
+      nullif(p_budget ->> 'client_email', ''),
+      nullif(p_budget ->> 'contact_person', ''),
+      nullif(p_budget ->> 'project_manager', ''),
+      nullif(p_budget ->> 'manager_email', ''),
+      coalesce(p_budget ->> 'status', 'draft'),
+      coalesce((p_budget ->> 'archived')::boolean, false),
+      (p_budget ->> 'archived_at')::timestamptz,
+      auth.uid(),
+      (p_budget ->> 'organization_id')::uuid
+    )
+    returning id into v_budget_id;
+  else
+    update budgets
+    set
+      name = p_budget ->> 'name',
+      client_name = p_budget ->> 'client_name',
+      client_email = nullif(p_budget ->> 'client_email', ''),
+      contact_person = nullif(p_budget ->> 'contact_person', ''),
+      project_manager = nullif(p_budget ->> 'project_manager', ''),
+      manager_email = nullif(p_budget ->> 'manager_email', ''),
+      status = coalesce(p_budget ->> 'status', status),
+      archived = coalesce((p_budget ->> 'archived')::boolean, archived),
+      archived_at = (p_budget ->> 'archived_at')::timestamptz,
+      organization_id = coalesce((p_budget ->> 'organization_id')::uuid, organization_id),
+      updated_at = now()
+    where id = v_budget_id;
+
+    if not found then
+      raise exception 'Budget % not found', v_budget_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  -- Sections: drop the ones missing from the payload, then upsert the rest.
+  delete from budget_sections
+  where budget_id = v_budget_id
+    and id not in (
+      select (section ->> 'id')::uuid
+      from jsonb_array_elements(p_sections) as section
+      where nullif(section ->> 'id', '') is not null
+    );
+
+  insert into budget_sections (id, budget_id, name, description, created_at, updated_at)
+  select
+    coalesce(nullif(section ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    coalesce(nullif(trim(section ->> 'name'), ''), 'Bez názvu'),
+    nullif(trim(section ->> 'description'), ''),
+    coalesce((section ->> 'created_at')::timestamptz, now()),
+    now()
+  from jsonb_array_elements(p_sections) as section
+  on conflict (id) do update
+  set
+    name = excluded.name,
+    description = excluded.description,
+    updated_at = now()
+  where budget_sections.budget_id = v_budget_id;
+
+  -- Items: same diff, section references outside of this budget are cleared.
+  delete from budget_items
+  where budget_id = v_budget_id
+    and id not in (
+      select (item ->> 'id')::uuid
+      from jsonb_array_elements(p_items) as item
+      where nullif(item ->> 'id', '') is not null
+    );
+
+  insert into budget_items (
+    id,
+    budget_id,
+    category_id,
+    section_id,
+    task_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index
+  )
+  select
+    coalesce(nullif(item ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    (item ->> 'category_id')::uuid,
+    (
+      select s.id
+      from budget_sections s
+      where s.id = nullif(item ->> 'section_id', '')::uuid
+        and s.budget_id = v_budget_id
+    ),
+    nullif(item ->> 'task_id', '')::uuid,
+    coalesce(item ->> 'item_name', ''),
+    coalesce(item ->> 'unit', ''),
+    coalesce((item ->> 'quantity')::numeric, 0),
+    coalesce((item ->> 'price_per_unit')::numeric, 0),
+    coalesce((item ->> 'total_price')::numeric, 0),
+    coalesce(item ->> 'notes', ''),
+    coalesce((item ->> 'internal_price_per_unit')::numeric, 0),
+    coalesce((item ->> 'internal_quantity')::numeric, 0),
+    coalesce((item ->> 'internal_total_price')::numeric, 0),
+    coalesce((item ->> 'profit')::numeric, 0),
+    coalesce((item ->> 'order_index')::integer, (ordinality - 1)::integer)
+  from jsonb_array_elements(p_items) with ordinality as payload(item, ordinality)
+  on conflict (id) do update
+  set
+    category_id = excluded.category_id,
+    section_id = excluded.section_id,
+    task_id = excluded.task_id,
+    item_name = excluded.item_name,
+    unit = excluded.unit,
+    quantity = excluded.quantity,
+    price_per_unit = excluded.price_per_unit,
+    total_price = excluded.total_price,
+    notes = excluded.notes,
+    internal_price_per_unit = excluded.internal_price_per_unit,
+    internal_quantity = excluded.internal_quantity,
+    internal_total_price = excluded.internal_total_price,
+    profit = excluded.profit,
+    order_index = excluded.order_index
+  where budget_items.budget_id = v_budget_id;
+
+  return v_budget_id;
+end;
+$$;
+
+revoke all on function public.save_budget(jsonb, jsonb, jsonb) from public;
+grant execute on function public.save_budget(jsonb, jsonb, jsonb) to authenticated;
@@ -0,0 +1,345 @@
+/*
+  # Budget version history
+
+  1. New Tables
+    - `budget_versions`
+      - `id` (uuid, primary key)
+      - `budget_id` (uuid, references budgets)
+      - `version_number` (integer) - sequential per budget
+      - `status` (text) - budget status at the time of the snapshot
+      - `snapshot` (jsonb) - the budget row with its sections and items
+      - `client_total` (numeric) - sum of client prices in the snapshot
+      - `internal_total` (numeric) - sum of internal costs in the snapshot
+      - `created_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `record_budget_version(p_budget_id)` - stores a snapshot unless nothing changed since the last one
+    - `restore_budget_version(p_version_id)` - saves a snapshot's content back over the budget, keeping its status
+    - `save_budget` records a version after every save
+
+  3. Security
+    - Versions are readable and insertable for owners of the budget
+    - Rows are immutable, updates are rejected by a trigger
+*/
+
+CREATE TABLE IF NOT EXISTS budget_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id uuid NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  status text NOT NULL,
+  snapshot jsonb NOT NULL,
+  client_total numeric NOT NULL DEFAULT 0,
+  internal_total numeric NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (budget_id, version_number)
+);
+
+ALTER TABLE budget_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of own budgets"
+  ON budget_versions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_versions.budget_id
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create versions of own budgets"
+  ON budget_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_versions.budget_id
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_budget_versions_budget_id ON budget_versions(budget_id, version_number DESC);
+
+CREATE OR REPLACE FUNCTION prevent_budget_version_update()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Budget versions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER budget_versions_immutable
+  BEFORE UPDATE ON budget_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_budget_version_update();
+
+set check_function_bodies = off;
+
+create or replace function public.record_budget_version(p_budget_id uuid)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_snapshot jsonb;
+  v_latest budget_versions%rowtype;
+  v_version_id uuid;
+begin
+  select * into v_budget from budgets where id = p_budget_id for update;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  v_snapshot := jsonb_build_object(
+    'budget', to_jsonb(v_budget) - 'updated_at',
+    'sections', coalesce(
+      (
+        select jsonb_agg(to_jsonb(s) - 'updated_at' order by s.created_at, s.id)
+        from budget_sections s
+        where s.budget_id = p_budget_id
+      ),
+      '[]'::jsonb
+    ),
+    'items', coalesce(
+      (
+        select jsonb_agg(to_jsonb(i) order by i.order_index, i.id)
+        from budget_items i
+        where i.budget_id = p_budget_id
+      ),
+      '[]'::jsonb
+    )
+  );
+
+  select * into v_latest
+  from budget_versions
+  where budget_id = p_budget_id
+  order by version_number desc
+  limit 1;
+
+  if found and v_latest.snapshot = v_snapshot then
+    return v_latest.id;
+  end if;
+
+  insert into budget_versions (budget_id, version_number, status, snapshot, client_total, internal_total)
+  values (
+    p_budget_id,
+    coalesce(v_latest.version_number, 0) + 1,
+    v_budget.status,
+    v_snapshot,
+    coalesce((select sum(total_price) from budget_items where budget_id = p_budget_id), 0),
+    coalesce((select sum(internal_total_price) from budget_items where budget_id = p_budget_id), 0)
+  )
+  returning id into v_version_id;
+
+  return v_version_id;
+end;
+$$;
+
+create or replace function public.save_budget(
+  p_budget jsonb,
+  p_sections jsonb default '[]'::jsonb,
+  p_items jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget_id uuid := nullif(p_budget ->> 'id', '')::uuid;
+begin
+  if v_budget_id is null then
+    insert into budgets (
+      name,
+      client_name,
+      client_email,
+      contact_person,
+      project_manager,
+      manager_email,
+      status,
+      archived,
+      archived_at,
+      user_id,
+      organization_id
+    )
+    values (
+      p_budget ->> 'name',
+      p_budget ->> 'client_name',
+      nullif(p_budget ->> 'client_email', ''),
+      nullif(p_budget ->> 'contact_person', ''),
+      nullif(p_budget ->> 'project_manager', ''),
+      nullif(p_budget ->> 'manager_email', ''),
+      coalesce(p_budget ->> 'status', 'draft'),
+      coalesce((p_budget ->> 'archived')::boolean, false),
+      (p_budget ->> 'archived_at')::timestamptz,
+      auth.uid(),
+      (p_budget ->> 'organization_id')::uuid
+    )
+    returning id into v_budget_id;
+  else
+    update budgets
+    set
+      name = p_budget ->> 'name',
+      client_name = p_budget ->> 'client_name',
+      client_email = nullif(p_budget ->> 'client_email', ''),
+      contact_person = nullif(p_budget ->> 'contact_person', ''),
+      project_manager = nullif(p_budget ->> 'project_manager', ''),
+      manager_email = nullif(p_budget ->> 'manager_email', ''),
+      status = coalesce(p_budget ->> 'status', status),
+      archived = coalesce((p_budget ->> 'archived')::boolean, archived),
+      archived_at = (p_budget ->> 'archived_at')::timestamptz,
+      organization_id = coalesce((p_budget ->> 'organization_id')::uuid, organization_id),
+      updated_at = now()
+    where id = v_budget_id;
+
+    if not found then
+      raise exception 'Budget % not found', v_budget_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  -- Sections: drop the ones missing from the payload, then upsert the rest.
+  delete from budget_sections
+  where budget_id = v_budget_id
+    and id not in (
+      select (section ->> 'id')::uuid
+      from jsonb_array_elements(p_sections) as section
+      where nullif(section ->> 'id', '') is not null
+    );
+
+  insert into budget_sections (id, budget_id, name, description, created_at, updated_at)
+  select
+    coalesce(nullif(section ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    coalesce(nullif(trim(section ->> 'name'), ''), 'Bez názvu'),
+    nullif(trim(section ->> 'description'), ''),
+    coalesce((section ->> 'created_at')::timestamptz, now()),
+    now()
+  from jsonb_array_elements(p_sections) as section
+  on conflict (id) do update
+  set
+    name = excluded.name,
+    description = excluded.description,
+    updated_at = now()
+  where budget_sections.budget_id = v_budget_id;
+
+  -- Items: same diff, section references outside of this budget are cleared.
+  delete from budget_items
+  where budget_id = v_budget_id
+    and id not in (
+      select (item ->> 'id')::uuid
+      from jsonb_array_elements(p_items) as item
+      where nullif(item ->> 'id', '') is not null
+    );
+
+  insert into budget_items (
+    id,
+    budget_id,
+    category_id,
+    section_id,
+    task_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel
+  )
+  select
+    coalesce(nullif(item ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    (item ->> 'category_id')::uuid,
+    (
+      select s.id
+      from budget_sections s
+      where s.id = nullif(item ->> 'section_id', '')::uuid
+        and s.budget_id = v_budget_id
+    ),
+    nullif(item ->> 'task_id', '')::uuid,
+    coalesce(item ->> 'item_name', ''),
+    coalesce(item ->> 'unit', ''),
+    coalesce((item ->> 'quantity')::numeric, 0),
+    coalesce((item ->> 'price_per_unit')::numeric, 0),
+    coalesce((item ->> 'total_price')::numeric, 0),
+    coalesce(item ->> 'notes', ''),
+    coalesce((item ->> 'internal_price_per_unit')::numeric, 0),
+    coalesce((item ->> 'internal_quantity')::numeric, 0),
+    coalesce((item ->> 'internal_total_price')::numeric, 0),
+    coalesce((item ->> 'profit')::numeric, 0),
+    coalesce((item ->> 'order_index')::integer, (ordinality - 1)::integer),
+    coalesce((item ->> 'is_cost')::boolean, false),
+    coalesce((item ->> 'is_personnel')::boolean, false)
+  from jsonb_array_elements(p_items) with ordinality as payload(item, ordinality)
+  on conflict (id) do update
+  set
+    category_id = excluded.category_id,
+    section_id = excluded.section_id,
+    task_id = excluded.task_id,
+    item_name = excluded.item_name,
+    unit = excluded.unit,
+    quantity = excluded.quantity,
+    price_per_unit = excluded.price_per_unit,
+    total_price = excluded.total_price,
+    notes = excluded.notes,
+    internal_price_per_unit = excluded.internal_price_per_unit,
+    internal_quantity = excluded.internal_quantity,
+    internal_total_price = excluded.internal_total_price,
+    profit = excluded.profit,
+    order_index = excluded.order_index,
+    is_cost = excluded.is_cost,
+    is_personnel = excluded.is_personnel
+  where budget_items.budget_id = v_budget_id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
+
+create or replace function public.restore_budget_version(p_version_id uuid)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_version budget_versions%rowtype;
+  v_current budgets%rowtype;
+begin
+  select * into v_version from budget_versions where id = p_version_id;
+
+  if not found then
+    raise exception 'Budget version % not found', p_version_id using errcode = 'P0002';
+  end if;
+
+  select * into v_current from budgets where id = v_version.budget_id;
+
+  -- Only the content is restored: the status stays, so an approval, the client's decision and invoices
+  -- made from it still hold. `save_budget` does not touch the client decision columns.
+  return save_budget(
+    (v_version.snapshot -> 'budget') || jsonb_build_object(
+      'id', v_current.id,
+      'status', v_current.status,
+      'archived', v_current.archived,
+      'archived_at', v_current.archived_at
+    ),
+    v_version.snapshot -> 'sections',
+    v_version.snapshot -> 'items'
+  );
+end;
+$$;
+
+revoke all on function public.record_budget_version(uuid) from public;
+grant execute on function public.record_budget_version(uuid) to authenticated;
+revoke all on function public.restore_budget_version(uuid) from public;
+grant execute on function public.restore_budget_version(uuid) to authenticated;
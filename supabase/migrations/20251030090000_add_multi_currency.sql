@@ -0,0 +1,284 @@
+/*
+  # Multi-currency budgets and expenses
+
+  1. Changes
+    - `budgets.currency` and `expenses.currency` (ISO 4217 code, default CZK)
+    - `organizations.base_currency` (default CZK) - currency used for analytics and the dashboard
+
+  2. New Tables
+    - `exchange_rates`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `currency` (text) - foreign currency, e.g. EUR
+      - `base_currency` (text) - currency the rate is quoted in
+      - `rate` (numeric) - amount of `base_currency` for one unit of `currency`
+      - `valid_from` (date) - the rate applies from this day until a newer one
+      - `created_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+
+  3. Security
+    - Members can read rates of their organization, owners and admins manage them
+
+  4. Functions
+    - `save_budget` stores the budget `currency`
+*/
+
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'CZK'
+  CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'CZK'
+  CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS base_currency text NOT NULL DEFAULT 'CZK'
+  CHECK (base_currency ~ '^[A-Z]{3}$');
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  base_currency text NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  rate numeric(18,6) NOT NULL CHECK (rate > 0),
+  valid_from date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (organization_id, currency, base_currency, valid_from),
+  CHECK (currency <> base_currency)
+);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view exchange rates in their organization"
+  ON exchange_rates FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can create exchange rates in their organization"
+  ON exchange_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can update exchange rates in their organization"
+  ON exchange_rates FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can delete exchange rates in their organization"
+  ON exchange_rates FOR DELETE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup
+  ON exchange_rates(organization_id, currency, base_currency, valid_from DESC);
+
+set check_function_bodies = off;
+
+create or replace function public.save_budget(
+  p_budget jsonb,
+  p_sections jsonb default '[]'::jsonb,
+  p_items jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget_id uuid := nullif(p_budget ->> 'id', '')::uuid;
+begin
+  if v_budget_id is null then
+    insert into budgets (
+      name,
+      client_name,
+      client_email,
+      contact_person,
+      project_manager,
+      manager_email,
+      status,
+      archived,
+      archived_at,
+      user_id,
+      organization_id,
+      currency
+    )
+    values (
+      p_budget ->> 'name',
+      p_budget ->> 'client_name',
+      nullif(p_budget ->> 'client_email', ''),
+      nullif(p_budget ->> 'contact_person', ''),
+      nullif(p_budget ->> 'project_manager', ''),
+      nullif(p_budget ->> 'manager_email', ''),
+      coalesce(p_budget ->> 'status', 'draft'),
+      coalesce((p_budget ->> 'archived')::boolean, false),
+      (p_budget ->> 'archived_at')::timestamptz,
+      auth.uid(),
+      (p_budget ->> 'organization_id')::uuid,
+      coalesce(nullif(upper(p_budget ->> 'currency'), ''), 'CZK')
+    )
+    returning id into v_budget_id;
+  else
+    update budgets
+    set
+      name = p_budget ->> 'name',
+      client_name = p_budget ->> 'client_name',
+      client_email = nullif(p_budget ->> 'client_email', ''),
+      contact_person = nullif(p_budget ->> 'contact_person', ''),
+      project_manager = nullif(p_budget ->> 'project_manager', ''),
+      manager_email = nullif(p_budget ->> 'manager_email', ''),
+      status = coalesce(p_budget ->> 'status', status),
+      archived = coalesce((p_budget ->> 'archived')::boolean, archived),
+      archived_at = (p_budget ->> 'archived_at')::timestamptz,
+      organization_id = coalesce((p_budget ->> 'organization_id')::uuid, organization_id),
+      currency = coalesce(nullif(upper(p_budget ->> 'currency'), ''), currency),
+      updated_at = now()
+    where id = v_budget_id;
+
+    if not found then
+      raise exception 'Budget % not found', v_budget_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  -- Sections: drop the ones missing from the payload, then upsert the rest.
+  delete from budget_sections
+  where budget_id = v_budget_id
+    and id not in (
+      select (section ->> 'id')::uuid
+      from jsonb_array_elements(p_sections) as section
+      where nullif(section ->> 'id', '') is not null
+    );
+
+  insert into budget_sections (id, budget_id, name, description, created_at, updated_at)
+  select
+    coalesce(nullif(section ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    coalesce(nullif(trim(section ->> 'name'), ''), 'Bez názvu'),
+    nullif(trim(section ->> 'description'), ''),
+    coalesce((section ->> 'created_at')::timestamptz, now()),
+    now()
+  from jsonb_array_elements(p_sections) as section
+  on conflict (id) do update
+  set
+    name = excluded.name,
+    description = excluded.description,
+    updated_at = now()
+  where budget_sections.budget_id = v_budget_id;
+
+  -- Items: same diff, section references outside of this budget are cleared.
+  delete from budget_items
+  where budget_id = v_budget_id
+    and id not in (
+      select (item ->> 'id')::uuid
+      from jsonb_array_elements(p_items) as item
+      where nullif(item ->> 'id', '') is not null
+    );
+
+  insert into budget_items (
+    id,
+    budget_id,
+    category_id,
+    section_id,
+    task_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel,
+    vat_rate
+  )
+  select
+    coalesce(nullif(item ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    (item ->> 'category_id')::uuid,
+    (
+      select s.id
+      from budget_sections s
+      where s.id = nullif(item ->> 'section_id', '')::uuid
+        and s.budget_id = v_budget_id
+    ),
+    nullif(item ->> 'task_id', '')::uuid,
+    coalesce(item ->> 'item_name', ''),
+    coalesce(item ->> 'unit', ''),
+    coalesce((item ->> 'quantity')::numeric, 0),
+    coalesce((item ->> 'price_per_unit')::numeric, 0),
+    coalesce((item ->> 'total_price')::numeric, 0),
+    coalesce(item ->> 'notes', ''),
+    coalesce((item ->> 'internal_price_per_unit')::numeric, 0),
+    coalesce((item ->> 'internal_quantity')::numeric, 0),
+    coalesce((item ->> 'internal_total_price')::numeric, 0),
+    coalesce((item ->> 'profit')::numeric, 0),
+    coalesce((item ->> 'order_index')::integer, (ordinality - 1)::integer),
+    coalesce((item ->> 'is_cost')::boolean, false),
+    coalesce((item ->> 'is_personnel')::boolean, false),
+    nullif(item ->> 'vat_rate', '')::numeric
+  from jsonb_array_elements(p_items) with ordinality as payload(item, ordinality)
+  on conflict (id) do update
+  set
+    category_id = excluded.category_id,
+    section_id = excluded.section_id,
+    task_id = excluded.task_id,
+    item_name = excluded.item_name,
+    unit = excluded.unit,
+    quantity = excluded.quantity,
+    price_per_unit = excluded.price_per_unit,
+    total_price = excluded.total_price,
+    notes = excluded.notes,
+    internal_price_per_unit = excluded.internal_price_per_unit,
+    internal_quantity = excluded.internal_quantity,
+    internal_total_price = excluded.internal_total_price,
+    profit = excluded.profit,
+    order_index = excluded.order_index,
+    is_cost = excluded.is_cost,
+    is_personnel = excluded.is_personnel,
+    vat_rate = excluded.vat_rate
+  where budget_items.budget_id = v_budget_id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
@@ -0,0 +1,486 @@
+/*
+  # Invoices
+
+  1. New Tables
+    - `invoices`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `user_id` (uuid, references auth.users) - who issued the invoice
+      - `budget_id` (uuid, references budgets, optional) - source budget
+      - `invoice_number` (text) - sequential per organization and year, e.g. 20250001
+      - `sequence_number` (integer) - numeric part of the invoice number
+      - `client_name`, `client_email` (text)
+      - `issue_date`, `due_date` (date)
+      - `currency` (text)
+      - `status` (text) - unpaid or paid
+      - `paid_date` (date, optional)
+      - `subtotal`, `vat_total`, `total` (numeric) - recalculated from the lines
+      - `notes` (text)
+      - `created_at`, `updated_at` (timestamptz)
+    - `invoice_lines`
+      - `id` (uuid, primary key)
+      - `invoice_id` (uuid, references invoices)
+      - `budget_item_id` (uuid, references budget_items, optional)
+      - `expense_id` (uuid, references expenses, optional)
+      - `description`, `unit` (text)
+      - `quantity`, `unit_price`, `total_price`, `vat_rate` (numeric)
+      - `order_index` (integer)
+    - `invoice_number_counters` - last issued number per organization and year
+
+  2. Functions
+    - `create_invoice_from_budget(p_budget_id, p_due_date)` - invoices all items of an approved budget
+    - `create_invoice_from_expenses(p_expense_ids, p_client_name, p_client_email, p_due_date)` - invoices billable expenses
+    - `set_invoice_paid(p_invoice_id, p_paid, p_paid_date)` - toggles payment and marks covered expenses as billed
+
+  3. Security
+    - Members of the organization can view, issue and update invoices
+    - Only owners and admins can delete invoices
+    - Counters are only touched by the numbering trigger
+    - `set_invoice_paid` checks membership itself and also marks expenses of other members as billed
+*/
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  budget_id uuid REFERENCES budgets(id) ON DELETE SET NULL,
+  invoice_number text NOT NULL,
+  sequence_number integer NOT NULL,
+  client_name text NOT NULL DEFAULT '',
+  client_email text,
+  issue_date date NOT NULL DEFAULT CURRENT_DATE,
+  due_date date NOT NULL,
+  currency text NOT NULL DEFAULT 'CZK' CHECK (currency ~ '^[A-Z]{3}$'),
+  status text NOT NULL DEFAULT 'unpaid' CHECK (status IN ('unpaid', 'paid')),
+  paid_date date,
+  subtotal numeric NOT NULL DEFAULT 0,
+  vat_total numeric NOT NULL DEFAULT 0,
+  total numeric NOT NULL DEFAULT 0,
+  notes text DEFAULT '',
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (organization_id, invoice_number),
+  CHECK (due_date >= issue_date)
+);
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  budget_item_id uuid REFERENCES budget_items(id) ON DELETE SET NULL,
+  expense_id uuid REFERENCES expenses(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  unit text DEFAULT '',
+  quantity numeric NOT NULL DEFAULT 1,
+  unit_price numeric NOT NULL DEFAULT 0,
+  total_price numeric NOT NULL DEFAULT 0,
+  vat_rate numeric(5,2) NOT NULL DEFAULT 21 CHECK (vat_rate >= 0 AND vat_rate <= 100),
+  order_index integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS invoice_number_counters (
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  year integer NOT NULL,
+  last_number integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (organization_id, year)
+);
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view invoices in their organization"
+  ON invoices FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can create invoices in their organization"
+  ON invoices FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can update invoices in their organization"
+  ON invoices FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can delete invoices in their organization"
+  ON invoices FOR DELETE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Members can view invoice lines in their organization"
+  ON invoice_lines FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = invoice_lines.invoice_id
+      AND invoices.organization_id IN (
+        SELECT organization_id
+        FROM organization_members
+        WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Members can manage invoice lines in their organization"
+  ON invoice_lines FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = invoice_lines.invoice_id
+      AND invoices.organization_id IN (
+        SELECT organization_id
+        FROM organization_members
+        WHERE user_id = auth.uid()
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM invoices
+      WHERE invoices.id = invoice_lines.invoice_id
+      AND invoices.organization_id IN (
+        SELECT organization_id
+        FROM organization_members
+        WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_invoices_organization_id ON invoices(organization_id, issue_date DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_budget_id ON invoices(budget_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice_id ON invoice_lines(invoice_id, order_index);
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_expense_id ON invoice_lines(expense_id);
+
+set check_function_bodies = off;
+
+-- Runs as definer so that members can allocate numbers without access to the counters table.
+create or replace function public.assign_invoice_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_year integer := extract(year from coalesce(new.issue_date, current_date))::integer;
+  v_number integer;
+begin
+  if new.invoice_number is not null and new.sequence_number is not null then
+    return new;
+  end if;
+
+  insert into invoice_number_counters as counters (organization_id, year, last_number)
+  values (new.organization_id, v_year, 1)
+  on conflict (organization_id, year) do update
+  set last_number = counters.last_number + 1
+  returning last_number into v_number;
+
+  new.sequence_number := v_number;
+  new.invoice_number := v_year::text || lpad(v_number::text, 4, '0');
+
+  return new;
+end;
+$$;
+
+CREATE TRIGGER invoices_assign_number
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_invoice_number();
+
+-- VAT is rounded once per rate, matching calculateVatBreakdown in the client.
+create or replace function public.refresh_invoice_totals(p_invoice_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  with per_rate as (
+    select
+      vat_rate,
+      round(sum(total_price), 2) as base,
+      round(round(sum(total_price), 2) * vat_rate / 100, 2) as vat
+    from invoice_lines
+    where invoice_id = p_invoice_id
+    group by vat_rate
+  )
+  update invoices
+  set
+    subtotal = coalesce((select sum(base) from per_rate), 0),
+    vat_total = coalesce((select sum(vat) from per_rate), 0),
+    total = coalesce((select sum(base + vat) from per_rate), 0),
+    updated_at = now()
+  where id = p_invoice_id;
+end;
+$$;
+
+create or replace function public.create_invoice_from_budget(
+  p_budget_id uuid,
+  p_due_date date default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_default_vat numeric;
+  v_invoice_id uuid;
+begin
+  select * into v_budget from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  if v_budget.status <> 'approved' then
+    raise exception 'Only approved budgets can be invoiced' using errcode = '22023';
+  end if;
+
+  if v_budget.organization_id is null then
+    raise exception 'Budget % does not belong to an organization', p_budget_id using errcode = '22023';
+  end if;
+
+  select default_vat_rate into v_default_vat from organizations where id = v_budget.organization_id;
+
+  insert into invoices (organization_id, budget_id, client_name, client_email, due_date, currency)
+  values (
+    v_budget.organization_id,
+    v_budget.id,
+    coalesce(v_budget.client_name, ''),
+    v_budget.client_email,
+    coalesce(p_due_date, current_date + 14),
+    v_budget.currency
+  )
+  returning id into v_invoice_id;
+
+  insert into invoice_lines (
+    invoice_id,
+    budget_item_id,
+    description,
+    unit,
+    quantity,
+    unit_price,
+    total_price,
+    vat_rate,
+    order_index
+  )
+  select
+    v_invoice_id,
+    i.id,
+    i.item_name,
+    i.unit,
+    i.quantity,
+    i.price_per_unit,
+    i.total_price,
+    coalesce(i.vat_rate, v_default_vat, 21),
+    row_number() over (order by i.order_index, i.id) - 1
+  from budget_items i
+  where i.budget_id = p_budget_id
+    and coalesce(i.total_price, 0) <> 0;
+
+  if not found then
+    raise exception 'Budget % has no items to invoice', p_budget_id using errcode = '22023';
+  end if;
+
+  perform refresh_invoice_totals(v_invoice_id);
+
+  return v_invoice_id;
+end;
+$$;
+
+create or replace function public.create_invoice_from_expenses(
+  p_expense_ids uuid[],
+  p_client_name text,
+  p_client_email text default null,
+  p_due_date date default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_organization_id uuid;
+  v_currency text;
+  v_default_vat numeric;
+  v_invoice_id uuid;
+begin
+  if p_expense_ids is null or cardinality(p_expense_ids) = 0 then
+    raise exception 'No expenses selected' using errcode = '22023';
+  end if;
+
+  if (
+    select count(*)
+    from expenses
+    where id = any(p_expense_ids)
+      and is_billable
+      and not coalesce(is_billed, false)
+  ) <> cardinality(p_expense_ids) then
+    raise exception 'Only unbilled billable expenses can be invoiced' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from invoice_lines l
+    join invoices inv on inv.id = l.invoice_id
+    where l.expense_id = any(p_expense_ids)
+      and inv.status = 'unpaid'
+  ) then
+    raise exception 'Some expenses are already on an unpaid invoice' using errcode = '22023';
+  end if;
+
+  select min(organization_id::text)::uuid, min(currency)
+  into v_organization_id, v_currency
+  from expenses
+  where id = any(p_expense_ids);
+
+  if (
+    select count(distinct organization_id) + count(distinct currency)
+    from expenses
+    where id = any(p_expense_ids)
+  ) <> 2 or v_organization_id is null then
+    raise exception 'Expenses must belong to one organization and share a currency' using errcode = '22023';
+  end if;
+
+  select default_vat_rate into v_default_vat from organizations where id = v_organization_id;
+
+  insert into invoices (organization_id, client_name, client_email, due_date, currency)
+  values (
+    v_organization_id,
+    coalesce(p_client_name, ''),
+    nullif(p_client_email, ''),
+    coalesce(p_due_date, current_date + 14),
+    v_currency
+  )
+  returning id into v_invoice_id;
+
+  insert into invoice_lines (
+    invoice_id,
+    expense_id,
+    description,
+    unit,
+    quantity,
+    unit_price,
+    total_price,
+    vat_rate,
+    order_index
+  )
+  select
+    v_invoice_id,
+    e.id,
+    e.name,
+    'ks',
+    1,
+    e.amount,
+    e.amount,
+    coalesce(v_default_vat, 21),
+    row_number() over (order by e.date, e.id) - 1
+  from expenses e
+  where e.id = any(p_expense_ids);
+
+  perform refresh_invoice_totals(v_invoice_id);
+
+  return v_invoice_id;
+end;
+$$;
+
+-- Runs as definer because expenses are only writable by their author, while any member may record a payment.
+create or replace function public.set_invoice_paid(
+  p_invoice_id uuid,
+  p_paid boolean default true,
+  p_paid_date date default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_paid_date date := case when p_paid then coalesce(p_paid_date, current_date) end;
+  v_organization_id uuid;
+begin
+  select organization_id into v_organization_id
+  from invoices
+  where id = p_invoice_id
+  for update;
+
+  if not found then
+    raise exception 'Invoice % not found', p_invoice_id using errcode = 'P0002';
+  end if;
+
+  if not exists (
+    select 1
+    from organization_members
+    where organization_id = v_organization_id
+      and user_id = auth.uid()
+  ) then
+    raise exception 'Not a member of the invoice organization' using errcode = '42501';
+  end if;
+
+  update invoices
+  set
+    status = case when p_paid then 'paid' else 'unpaid' end,
+    paid_date = v_paid_date,
+    updated_at = now()
+  where id = p_invoice_id;
+
+  update expenses
+  set
+    is_billed = p_paid,
+    billed_date = v_paid_date
+  where organization_id = v_organization_id
+    and id in (
+      select expense_id
+      from invoice_lines
+      where invoice_id = p_invoice_id
+        and expense_id is not null
+    );
+end;
+$$;
+
+revoke all on function public.refresh_invoice_totals(uuid) from public;
+grant execute on function public.refresh_invoice_totals(uuid) to authenticated;
+revoke all on function public.create_invoice_from_budget(uuid, date) from public;
+grant execute on function public.create_invoice_from_budget(uuid, date) to authenticated;
+revoke all on function public.create_invoice_from_expenses(uuid[], text, text, date) from public;
+grant execute on function public.create_invoice_from_expenses(uuid[], text, text, date) to authenticated;
+revoke all on function public.set_invoice_paid(uuid, boolean, date) from public;
+grant execute on function public.set_invoice_paid(uuid, boolean, date) to authenticated;
@@ -0,0 +1,11 @@
+/*
+  # Organization bank account for QR payments
+
+  1. Changes
+    - `organizations.iban` (text, optional) - account printed into QR Platba (SPAYD) codes on budgets and invoices
+      - Stored without spaces and upper-cased
+*/
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS iban text
+  CHECK (iban IS NULL OR iban ~ '^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$');
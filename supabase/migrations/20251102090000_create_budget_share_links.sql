@@ -0,0 +1,334 @@
+/*
+  # Public budget approval links
+
+  1. Changes
+    - `organizations.share_link_validity_days` (integer, default 14) - how long a newly created link stays valid
+    - `budgets.client_decision_at` (timestamptz) - when the client approved or rejected the budget
+    - `budgets.client_decision_by` (text) - name of the person who decided
+    - `budgets.client_decision_email` (text) - e-mail the person entered
+
+  2. New Tables
+    - `budget_share_links`
+      - `id` (uuid, primary key)
+      - `budget_id` (uuid, references budgets)
+      - `token` (uuid, unique) - part of the public URL
+      - `expires_at` (timestamptz)
+      - `revoked_at` (timestamptz, optional)
+      - `created_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+    - `budget_client_feedback`
+      - `id` (uuid, primary key)
+      - `budget_id` (uuid, references budgets)
+      - `share_link_id` (uuid, references budget_share_links)
+      - `kind` (text) - comment, approved or rejected
+      - `author_name`, `author_email` (text)
+      - `message` (text)
+      - `created_at` (timestamptz)
+
+  3. Functions
+    - `create_budget_share_link(p_budget_id)` - issues a link and moves a draft budget to sent
+    - `get_shared_budget(p_token)` - client version of the budget for anonymous visitors
+    - `respond_to_shared_budget(p_token, p_kind, p_author_name, p_author_email, p_message)` - records a comment or decision
+
+  4. Security
+    - Links and feedback are visible to the budget owner, who can also revoke links
+    - Anonymous visitors only reach data through the token-checked functions
+*/
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS share_link_validity_days integer NOT NULL DEFAULT 14
+  CHECK (share_link_validity_days BETWEEN 1 AND 365);
+
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS client_decision_at timestamptz,
+  ADD COLUMN IF NOT EXISTS client_decision_by text,
+  ADD COLUMN IF NOT EXISTS client_decision_email text;
+
+CREATE TABLE IF NOT EXISTS budget_share_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id uuid NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  token uuid DEFAULT gen_random_uuid() UNIQUE NOT NULL,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS budget_client_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id uuid NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  share_link_id uuid REFERENCES budget_share_links(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('comment', 'approved', 'rejected')),
+  author_name text NOT NULL,
+  author_email text,
+  message text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE budget_share_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE budget_client_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view share links of own budgets"
+  ON budget_share_links FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_share_links.budget_id
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create share links of own budgets"
+  ON budget_share_links FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_share_links.budget_id
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can revoke share links of own budgets"
+  ON budget_share_links FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_share_links.budget_id
+      AND budgets.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_share_links.budget_id
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view client feedback on own budgets"
+  ON budget_client_feedback FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_client_feedback.budget_id
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_budget_share_links_budget_id ON budget_share_links(budget_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_budget_client_feedback_budget_id ON budget_client_feedback(budget_id, created_at DESC);
+
+set check_function_bodies = off;
+
+create or replace function public.create_budget_share_link(p_budget_id uuid)
+returns budget_share_links
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_validity integer;
+  v_link budget_share_links%rowtype;
+begin
+  select * into v_budget from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  select share_link_validity_days into v_validity
+  from organizations
+  where id = v_budget.organization_id;
+
+  insert into budget_share_links (budget_id, expires_at)
+  values (p_budget_id, now() + make_interval(days => coalesce(v_validity, 14)))
+  returning * into v_link;
+
+  if v_budget.status = 'draft' then
+    update budgets
+    set status = 'sent', updated_at = now()
+    where id = p_budget_id;
+
+    perform record_budget_version(p_budget_id);
+  end if;
+
+  return v_link;
+end;
+$$;
+
+-- Runs as definer because visitors are anonymous; only the token grants access, and internal costs are never returned.
+create or replace function public.get_shared_budget(p_token uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_link budget_share_links%rowtype;
+  v_budget budgets%rowtype;
+  v_organization organizations%rowtype;
+begin
+  select * into v_link
+  from budget_share_links
+  where token = p_token
+    and revoked_at is null
+    and expires_at > now();
+
+  if not found then
+    return null;
+  end if;
+
+  select * into v_budget from budgets where id = v_link.budget_id;
+  select * into v_organization from organizations where id = v_budget.organization_id;
+
+  return jsonb_build_object(
+    'expires_at', v_link.expires_at,
+    'budget', jsonb_build_object(
+      'name', v_budget.name,
+      'client_name', v_budget.client_name,
+      'contact_person', v_budget.contact_person,
+      'project_manager', v_budget.project_manager,
+      'manager_email', v_budget.manager_email,
+      'status', v_budget.status,
+      'currency', v_budget.currency,
+      'created_at', v_budget.created_at,
+      'client_decision_at', v_budget.client_decision_at,
+      'client_decision_by', v_budget.client_decision_by
+    ),
+    'organization', jsonb_build_object(
+      'name', v_organization.name,
+      'default_vat_rate', coalesce(v_organization.default_vat_rate, 21)
+    ),
+    'sections', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object('id', s.id, 'name', s.name, 'description', s.description)
+          order by s.created_at, s.id
+        )
+        from budget_sections s
+        where s.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    ),
+    'items', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', i.id,
+            'section_id', i.section_id,
+            'item_name', i.item_name,
+            'unit', i.unit,
+            'quantity', i.quantity,
+            'price_per_unit', i.price_per_unit,
+            'total_price', i.total_price,
+            'vat_rate', i.vat_rate,
+            'notes', i.notes
+          )
+          order by i.order_index, i.id
+        )
+        from budget_items i
+        where i.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    ),
+    'feedback', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', f.id,
+            'kind', f.kind,
+            'author_name', f.author_name,
+            'message', f.message,
+            'created_at', f.created_at
+          )
+          order by f.created_at
+        )
+        from budget_client_feedback f
+        where f.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    )
+  );
+end;
+$$;
+
+create or replace function public.respond_to_shared_budget(
+  p_token uuid,
+  p_kind text,
+  p_author_name text,
+  p_author_email text default null,
+  p_message text default ''
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_link budget_share_links%rowtype;
+  v_budget budgets%rowtype;
+begin
+  if p_kind not in ('comment', 'approved', 'rejected') then
+    raise exception 'Unknown response %', p_kind using errcode = '22023';
+  end if;
+
+  if nullif(trim(p_author_name), '') is null then
+    raise exception 'Author name is required' using errcode = '22023';
+  end if;
+
+  if p_kind = 'comment' and nullif(trim(p_message), '') is null then
+    raise exception 'Comment must not be empty' using errcode = '22023';
+  end if;
+
+  select * into v_link
+  from budget_share_links
+  where token = p_token
+    and revoked_at is null
+    and expires_at > now();
+
+  if not found then
+    raise exception 'Share link is invalid or expired' using errcode = 'P0002';
+  end if;
+
+  select * into v_budget from budgets where id = v_link.budget_id for update;
+
+  if p_kind <> 'comment' then
+    if v_budget.status not in ('draft', 'sent') then
+      raise exception 'Budget has already been decided' using errcode = '22023';
+    end if;
+
+    update budgets
+    set
+      status = p_kind,
+      client_decision_at = now(),
+      client_decision_by = trim(p_author_name),
+      client_decision_email = nullif(trim(p_author_email), ''),
+      updated_at = now()
+    where id = v_budget.id;
+
+    perform record_budget_version(v_budget.id);
+  end if;
+
+  insert into budget_client_feedback (budget_id, share_link_id, kind, author_name, author_email, message)
+  values (
+    v_budget.id,
+    v_link.id,
+    p_kind,
+    trim(p_author_name),
+    nullif(trim(p_author_email), ''),
+    coalesce(trim(p_message), '')
+  );
+end;
+$$;
+
+revoke all on function public.create_budget_share_link(uuid) from public;
+grant execute on function public.create_budget_share_link(uuid) to authenticated;
+revoke all on function public.get_shared_budget(uuid) from public;
+grant execute on function public.get_shared_budget(uuid) to anon, authenticated;
+revoke all on function public.respond_to_shared_budget(uuid, text, text, text, text) from public;
+grant execute on function public.respond_to_shared_budget(uuid, text, text, text, text) to anon, authenticated;
@@ -0,0 +1,102 @@
+/*
+  # Budget e-mail log
+
+  1. New Tables
+    - `budget_email_log`
+      - `id` (uuid, primary key)
+      - `budget_id` (uuid, references budgets)
+      - `recipient` (text) - address the budget was sent to
+      - `subject` (text)
+      - `attachment_name` (text, optional) - file name of the attached export
+      - `provider_message_id` (text, optional) - ID returned by the e-mail provider
+      - `sent_by` (uuid, references auth.users)
+      - `sent_at` (timestamptz)
+
+  2. Functions
+    - `record_budget_email(p_budget_id, p_recipient, p_subject, p_attachment_name, p_provider_message_id)`
+      logs a sent e-mail and moves a draft budget to sent
+
+  3. Security
+    - Budget owners can view and add log entries of their budgets
+    - The `send-budget-email` edge function calls `record_budget_email` with the sender's token
+*/
+
+CREATE TABLE IF NOT EXISTS budget_email_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id uuid NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  recipient text NOT NULL,
+  subject text NOT NULL,
+  attachment_name text,
+  provider_message_id text,
+  sent_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  sent_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE budget_email_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view e-mail log of own budgets"
+  ON budget_email_log FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_email_log.budget_id
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can log e-mails of own budgets"
+  ON budget_email_log FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_email_log.budget_id
+      AND budgets.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_budget_email_log_budget_id ON budget_email_log(budget_id, sent_at DESC);
+
+set check_function_bodies = off;
+
+create or replace function public.record_budget_email(
+  p_budget_id uuid,
+  p_recipient text,
+  p_subject text,
+  p_attachment_name text default null,
+  p_provider_message_id text default null
+)
+returns budget_email_log
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_entry budget_email_log%rowtype;
+begin
+  select * into v_budget from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  insert into budget_email_log (budget_id, recipient, subject, attachment_name, provider_message_id)
+  values (p_budget_id, p_recipient, p_subject, p_attachment_name, p_provider_message_id)
+  returning * into v_entry;
+
+  if v_budget.status = 'draft' then
+    update budgets
+    set status = 'sent', updated_at = now()
+    where id = p_budget_id;
+
+    perform record_budget_version(p_budget_id);
+  end if;
+
+  return v_entry;
+end;
+$$;
+
+revoke all on function public.record_budget_email(uuid, text, text, text, text) from public;
+grant execute on function public.record_budget_email(uuid, text, text, text, text) to authenticated;
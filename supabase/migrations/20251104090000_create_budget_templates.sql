@@ -0,0 +1,168 @@
+/*
+  # Budget templates
+
+  1. New Tables
+    - `budget_templates`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `name` (text)
+      - `description` (text, optional)
+      - `content` (jsonb) - sections and items with default quantities and prices
+      - `created_by` (uuid, references auth.users)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Functions
+    - `create_budget_template_from_budget(p_budget_id, p_name, p_description)` - copies the structure of a budget
+      into a new template of the budget's organization
+
+  3. Security
+    - Members of the organization can view and create templates
+    - The author, owners and admins can rename or delete a template
+*/
+
+CREATE TABLE IF NOT EXISTS budget_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  content jsonb NOT NULL DEFAULT '{"sections": [], "items": []}'::jsonb,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE budget_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization budget templates"
+  ON budget_templates FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can create organization budget templates"
+  ON budget_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Authors and admins can update budget templates"
+  ON budget_templates FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+      AND role IN ('owner', 'admin')
+    )
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Authors and admins can delete budget templates"
+  ON budget_templates FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+      AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_budget_templates_organization_id ON budget_templates(organization_id, name);
+
+set check_function_bodies = off;
+
+create or replace function public.create_budget_template_from_budget(
+  p_budget_id uuid,
+  p_name text,
+  p_description text default null
+)
+returns budget_templates
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_template budget_templates%rowtype;
+begin
+  if nullif(trim(p_name), '') is null then
+    raise exception 'Template name is required' using errcode = '22023';
+  end if;
+
+  select * into v_budget from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  if v_budget.organization_id is null then
+    raise exception 'Budget % does not belong to an organization', p_budget_id using errcode = '22023';
+  end if;
+
+  insert into budget_templates (organization_id, name, description, content)
+  values (
+    v_budget.organization_id,
+    trim(p_name),
+    nullif(trim(p_description), ''),
+    jsonb_build_object(
+      'sections', coalesce(
+        (
+          select jsonb_agg(
+            jsonb_build_object('key', s.id, 'name', s.name, 'description', s.description)
+            order by s.created_at, s.id
+          )
+          from budget_sections s
+          where s.budget_id = p_budget_id
+        ),
+        '[]'::jsonb
+      ),
+      'items', coalesce(
+        (
+          select jsonb_agg(
+            jsonb_build_object(
+              'section_key', i.section_id,
+              'category_id', i.category_id,
+              'item_name', i.item_name,
+              'unit', i.unit,
+              'quantity', i.quantity,
+              'price_per_unit', i.price_per_unit,
+              'internal_quantity', i.internal_quantity,
+              'internal_price_per_unit', i.internal_price_per_unit,
+              'is_cost', i.is_cost,
+              'is_personnel', i.is_personnel,
+              'vat_rate', i.vat_rate,
+              'notes', i.notes
+            )
+            order by i.order_index, i.id
+          )
+          from budget_items i
+          where i.budget_id = p_budget_id
+        ),
+        '[]'::jsonb
+      )
+    )
+  )
+  returning * into v_template;
+
+  return v_template;
+end;
+$$;
+
+revoke all on function public.create_budget_template_from_budget(uuid, text, text) from public;
+grant execute on function public.create_budget_template_from_budget(uuid, text, text) to authenticated;
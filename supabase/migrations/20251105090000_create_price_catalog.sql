@@ -0,0 +1,294 @@
+/*
+  # Organization price catalog
+
+  1. New Tables
+    - `catalog_items`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `name` (text), `unit` (text)
+      - `price_per_unit` (numeric) - client price
+      - `internal_price_per_unit` (numeric) - internal cost
+      - `category_id` (uuid, references categories, optional) - default category
+      - `is_cost`, `is_personnel` (boolean) - default item flags
+      - `vat_rate` (numeric, optional) - VAT override, empty means the organization default
+      - `archived` (boolean) - hidden from autocomplete, kept for items that already use it
+      - `created_by` (uuid, references auth.users)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `budget_items.catalog_item_id` (uuid, references catalog_items) - catalog entry the row was picked from
+    - `budget_items.catalog_price_per_unit`, `budget_items.catalog_internal_price_per_unit` (numeric) - catalog prices
+      at the time the row was picked or last synced; a difference to the current catalog flags the row
+    - `save_budget` stores the catalog columns
+
+  3. Security
+    - Members can read the catalog of their organization, owners and admins manage it
+*/
+
+CREATE TABLE IF NOT EXISTS catalog_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  unit text NOT NULL DEFAULT 'ks',
+  price_per_unit numeric NOT NULL DEFAULT 0 CHECK (price_per_unit >= 0),
+  internal_price_per_unit numeric NOT NULL DEFAULT 0 CHECK (internal_price_per_unit >= 0),
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  is_cost boolean NOT NULL DEFAULT false,
+  is_personnel boolean NOT NULL DEFAULT false,
+  vat_rate numeric(5,2) CHECK (vat_rate IS NULL OR (vat_rate >= 0 AND vat_rate <= 100)),
+  archived boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_catalog_items_unique_name
+  ON catalog_items(organization_id, lower(name), unit);
+
+ALTER TABLE catalog_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view catalog items in their organization"
+  ON catalog_items FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can create catalog items in their organization"
+  ON catalog_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can update catalog items in their organization"
+  ON catalog_items FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Admins can delete catalog items in their organization"
+  ON catalog_items FOR DELETE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  );
+
+ALTER TABLE budget_items
+  ADD COLUMN IF NOT EXISTS catalog_item_id uuid REFERENCES catalog_items(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS catalog_price_per_unit numeric,
+  ADD COLUMN IF NOT EXISTS catalog_internal_price_per_unit numeric;
+
+CREATE INDEX IF NOT EXISTS idx_budget_items_catalog_item_id ON budget_items(catalog_item_id);
+
+set check_function_bodies = off;
+
+create or replace function public.save_budget(
+  p_budget jsonb,
+  p_sections jsonb default '[]'::jsonb,
+  p_items jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget_id uuid := nullif(p_budget ->> 'id', '')::uuid;
+begin
+  if v_budget_id is null then
+    insert into budgets (
+      name,
+      client_name,
+      client_email,
+      contact_person,
+      project_manager,
+      manager_email,
+      status,
+      archived,
+      archived_at,
+      user_id,
+      organization_id,
+      currency
+    )
+    values (
+      p_budget ->> 'name',
+      p_budget ->> 'client_name',
+      nullif(p_budget ->> 'client_email', ''),
+      nullif(p_budget ->> 'contact_person', ''),
+      nullif(p_budget ->> 'project_manager', ''),
+      nullif(p_budget ->> 'manager_email', ''),
+      coalesce(p_budget ->> 'status', 'draft'),
+      coalesce((p_budget ->> 'archived')::boolean, false),
+      (p_budget ->> 'archived_at')::timestamptz,
+      auth.uid(),
+      (p_budget ->> 'organization_id')::uuid,
+      coalesce(nullif(upper(p_budget ->> 'currency'), ''), 'CZK')
+    )
+    returning id into v_budget_id;
+  else
+    update budgets
+    set
+      name = p_budget ->> 'name',
+      client_name = p_budget ->> 'client_name',
+      client_email = nullif(p_budget ->> 'client_email', ''),
+      contact_person = nullif(p_budget ->> 'contact_person', ''),
+      project_manager = nullif(p_budget ->> 'project_manager', ''),
+      manager_email = nullif(p_budget ->> 'manager_email', ''),
+      status = coalesce(p_budget ->> 'status', status),
+      archived = coalesce((p_budget ->> 'archived')::boolean, archived),
+      archived_at = (p_budget ->> 'archived_at')::timestamptz,
+      organization_id = coalesce((p_budget ->> 'organization_id')::uuid, organization_id),
+      currency = coalesce(nullif(upper(p_budget ->> 'currency'), ''), currency),
+      updated_at = now()
+    where id = v_budget_id;
+
+    if not found then
+      raise exception 'Budget % not found', v_budget_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  -- Sections: drop the ones missing from the payload, then upsert the rest.
+  delete from budget_sections
+  where budget_id = v_budget_id
+    and id not in (
+      select (section ->> 'id')::uuid
+      from jsonb_array_elements(p_sections) as section
+      where nullif(section ->> 'id', '') is not null
+    );
+
+  insert into budget_sections (id, budget_id, name, description, created_at, updated_at)
+  select
+    coalesce(nullif(section ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    coalesce(nullif(trim(section ->> 'name'), ''), 'Bez názvu'),
+    nullif(trim(section ->> 'description'), ''),
+    coalesce((section ->> 'created_at')::timestamptz, now()),
+    now()
+  from jsonb_array_elements(p_sections) as section
+  on conflict (id) do update
+  set
+    name = excluded.name,
+    description = excluded.description,
+    updated_at = now()
+  where budget_sections.budget_id = v_budget_id;
+
+  -- Items: same diff, section references outside of this budget are cleared.
+  delete from budget_items
+  where budget_id = v_budget_id
+    and id not in (
+      select (item ->> 'id')::uuid
+      from jsonb_array_elements(p_items) as item
+      where nullif(item ->> 'id', '') is not null
+    );
+
+  insert into budget_items (
+    id,
+    budget_id,
+    category_id,
+    section_id,
+    task_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel,
+    vat_rate,
+    catalog_item_id,
+    catalog_price_per_unit,
+    catalog_internal_price_per_unit
+  )
+  select
+    coalesce(nullif(item ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    (item ->> 'category_id')::uuid,
+    (
+      select s.id
+      from budget_sections s
+      where s.id = nullif(item ->> 'section_id', '')::uuid
+        and s.budget_id = v_budget_id
+    ),
+    nullif(item ->> 'task_id', '')::uuid,
+    coalesce(item ->> 'item_name', ''),
+    coalesce(item ->> 'unit', ''),
+    coalesce((item ->> 'quantity')::numeric, 0),
+    coalesce((item ->> 'price_per_unit')::numeric, 0),
+    coalesce((item ->> 'total_price')::numeric, 0),
+    coalesce(item ->> 'notes', ''),
+    coalesce((item ->> 'internal_price_per_unit')::numeric, 0),
+    coalesce((item ->> 'internal_quantity')::numeric, 0),
+    coalesce((item ->> 'internal_total_price')::numeric, 0),
+    coalesce((item ->> 'profit')::numeric, 0),
+    coalesce((item ->> 'order_index')::integer, (ordinality - 1)::integer),
+    coalesce((item ->> 'is_cost')::boolean, false),
+    coalesce((item ->> 'is_personnel')::boolean, false),
+    nullif(item ->> 'vat_rate', '')::numeric,
+    nullif(item ->> 'catalog_item_id', '')::uuid,
+    nullif(item ->> 'catalog_price_per_unit', '')::numeric,
+    nullif(item ->> 'catalog_internal_price_per_unit', '')::numeric
+  from jsonb_array_elements(p_items) with ordinality as payload(item, ordinality)
+  on conflict (id) do update
+  set
+    category_id = excluded.category_id,
+    section_id = excluded.section_id,
+    task_id = excluded.task_id,
+    item_name = excluded.item_name,
+    unit = excluded.unit,
+    quantity = excluded.quantity,
+    price_per_unit = excluded.price_per_unit,
+    total_price = excluded.total_price,
+    notes = excluded.notes,
+    internal_price_per_unit = excluded.internal_price_per_unit,
+    internal_quantity = excluded.internal_quantity,
+    internal_total_price = excluded.internal_total_price,
+    profit = excluded.profit,
+    order_index = excluded.order_index,
+    is_cost = excluded.is_cost,
+    is_personnel = excluded.is_personnel,
+    vat_rate = excluded.vat_rate,
+    catalog_item_id = excluded.catalog_item_id,
+    catalog_price_per_unit = excluded.catalog_price_per_unit,
+    catalog_internal_price_per_unit = excluded.catalog_internal_price_per_unit
+  where budget_items.budget_id = v_budget_id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
@@ -0,0 +1,150 @@
+/*
+  # Budget duplication and revisions
+
+  1. Changes
+    - `budgets.revision_of` (uuid, references budgets, optional) - the budget this one was cloned from as a revision
+
+  2. Functions
+    - `duplicate_budget(p_budget_id, p_name, p_client_name, p_as_revision)` - copies a budget with its sections and
+      items into a new draft owned by the caller; section assignments and item order are kept
+
+  3. Notes
+    - Contact details are copied only when the client stays the same
+    - Client decisions, share links and the e-mail log stay with the original budget
+*/
+
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS revision_of uuid REFERENCES budgets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_budgets_revision_of ON budgets(revision_of);
+
+set check_function_bodies = off;
+
+create or replace function public.duplicate_budget(
+  p_budget_id uuid,
+  p_name text,
+  p_client_name text default null,
+  p_as_revision boolean default false
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_source budgets%rowtype;
+  v_budget_id uuid;
+  v_client_name text;
+  v_same_client boolean;
+  v_section record;
+  v_section_map jsonb := '{}'::jsonb;
+  v_section_id uuid;
+begin
+  if nullif(trim(p_name), '') is null then
+    raise exception 'Budget name is required' using errcode = '22023';
+  end if;
+
+  select * into v_source from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  v_client_name := coalesce(nullif(trim(p_client_name), ''), v_source.client_name);
+  v_same_client := v_client_name = v_source.client_name;
+
+  insert into budgets (
+    name,
+    client_name,
+    client_email,
+    contact_person,
+    project_manager,
+    manager_email,
+    status,
+    archived,
+    user_id,
+    organization_id,
+    currency,
+    revision_of
+  )
+  values (
+    trim(p_name),
+    v_client_name,
+    case when v_same_client then v_source.client_email end,
+    case when v_same_client then v_source.contact_person end,
+    v_source.project_manager,
+    v_source.manager_email,
+    'draft',
+    false,
+    auth.uid(),
+    v_source.organization_id,
+    v_source.currency,
+    case when p_as_revision then v_source.id end
+  )
+  returning id into v_budget_id;
+
+  for v_section in
+    select * from budget_sections where budget_id = p_budget_id order by created_at, id
+  loop
+    insert into budget_sections (budget_id, name, description, created_at, updated_at)
+    values (v_budget_id, v_section.name, v_section.description, v_section.created_at, now())
+    returning id into v_section_id;
+
+    v_section_map := v_section_map || jsonb_build_object(v_section.id::text, v_section_id);
+  end loop;
+
+  insert into budget_items (
+    budget_id,
+    category_id,
+    section_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel,
+    vat_rate,
+    catalog_item_id,
+    catalog_price_per_unit,
+    catalog_internal_price_per_unit
+  )
+  select
+    v_budget_id,
+    i.category_id,
+    (v_section_map ->> i.section_id::text)::uuid,
+    i.item_name,
+    i.unit,
+    i.quantity,
+    i.price_per_unit,
+    i.total_price,
+    i.notes,
+    i.internal_price_per_unit,
+    i.internal_quantity,
+    i.internal_total_price,
+    i.profit,
+    i.order_index,
+    i.is_cost,
+    i.is_personnel,
+    i.vat_rate,
+    i.catalog_item_id,
+    i.catalog_price_per_unit,
+    i.catalog_internal_price_per_unit
+  from budget_items i
+  where i.budget_id = p_budget_id
+  order by i.order_index, i.id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
+
+revoke all on function public.duplicate_budget(uuid, text, text, boolean) from public;
+grant execute on function public.duplicate_budget(uuid, text, text, boolean) to authenticated;
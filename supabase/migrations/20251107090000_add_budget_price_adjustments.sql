@@ -0,0 +1,629 @@
+/*
+  # Budget price adjustments and item markup
+
+  1. Changes
+    - `budgets.price_adjustments` (jsonb) - budget and section discounts or surcharges, percent or fixed, with the
+      amount and its split by VAT rate as computed by the editor
+    - `budget_items.markup_percent` (numeric, optional) - the client price is the internal price plus this markup
+
+  2. Functions
+    - `budget_adjustments_total(p_adjustments)` - sum of the stored adjustment amounts
+    - `save_budget` stores adjustments and item markup
+    - `record_budget_version` includes adjustments in the client total of a version
+    - `create_invoice_from_budget` adds one invoice line per adjustment and VAT rate
+    - `get_shared_budget` returns adjustments to the client
+    - `duplicate_budget` copies adjustments and item markup
+*/
+
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS price_adjustments jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE budget_items
+  ADD COLUMN IF NOT EXISTS markup_percent numeric;
+
+set check_function_bodies = off;
+
+create or replace function public.budget_adjustments_total(p_adjustments jsonb)
+returns numeric
+language sql
+immutable
+set search_path = public
+as $$
+  select coalesce(sum((adjustment ->> 'amount')::numeric), 0)
+  from jsonb_array_elements(coalesce(p_adjustments, '[]'::jsonb)) as adjustment;
+$$;
+
+create or replace function public.record_budget_version(p_budget_id uuid)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_snapshot jsonb;
+  v_latest budget_versions%rowtype;
+  v_version_id uuid;
+begin
+  select * into v_budget from budgets where id = p_budget_id for update;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  v_snapshot := jsonb_build_object(
+    'budget', to_jsonb(v_budget) - 'updated_at',
+    'sections', coalesce(
+      (
+        select jsonb_agg(to_jsonb(s) - 'updated_at' order by s.created_at, s.id)
+        from budget_sections s
+        where s.budget_id = p_budget_id
+      ),
+      '[]'::jsonb
+    ),
+    'items', coalesce(
+      (
+        select jsonb_agg(to_jsonb(i) order by i.order_index, i.id)
+        from budget_items i
+        where i.budget_id = p_budget_id
+      ),
+      '[]'::jsonb
+    )
+  );
+
+  select * into v_latest
+  from budget_versions
+  where budget_id = p_budget_id
+  order by version_number desc
+  limit 1;
+
+  if found and v_latest.snapshot = v_snapshot then
+    return v_latest.id;
+  end if;
+
+  insert into budget_versions (budget_id, version_number, status, snapshot, client_total, internal_total)
+  values (
+    p_budget_id,
+    coalesce(v_latest.version_number, 0) + 1,
+    v_budget.status,
+    v_snapshot,
+    coalesce((select sum(total_price) from budget_items where budget_id = p_budget_id), 0)
+      + budget_adjustments_total(v_budget.price_adjustments),
+    coalesce((select sum(internal_total_price) from budget_items where budget_id = p_budget_id), 0)
+  )
+  returning id into v_version_id;
+
+  return v_version_id;
+end;
+$$;
+
+create or replace function public.save_budget(
+  p_budget jsonb,
+  p_sections jsonb default '[]'::jsonb,
+  p_items jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget_id uuid := nullif(p_budget ->> 'id', '')::uuid;
+begin
+  if v_budget_id is null then
+    insert into budgets (
+      name,
+      client_name,
+      client_email,
+      contact_person,
+      project_manager,
+      manager_email,
+      status,
+      archived,
+      archived_at,
+      user_id,
+      organization_id,
+      currency,
+      price_adjustments
+    )
+    values (
+      p_budget ->> 'name',
+      p_budget ->> 'client_name',
+      nullif(p_budget ->> 'client_email', ''),
+      nullif(p_budget ->> 'contact_person', ''),
+      nullif(p_budget ->> 'project_manager', ''),
+      nullif(p_budget ->> 'manager_email', ''),
+      coalesce(p_budget ->> 'status', 'draft'),
+      coalesce((p_budget ->> 'archived')::boolean, false),
+      (p_budget ->> 'archived_at')::timestamptz,
+      auth.uid(),
+      (p_budget ->> 'organization_id')::uuid,
+      coalesce(nullif(upper(p_budget ->> 'currency'), ''), 'CZK'),
+      coalesce(p_budget -> 'price_adjustments', '[]'::jsonb)
+    )
+    returning id into v_budget_id;
+  else
+    update budgets
+    set
+      name = p_budget ->> 'name',
+      client_name = p_budget ->> 'client_name',
+      client_email = nullif(p_budget ->> 'client_email', ''),
+      contact_person = nullif(p_budget ->> 'contact_person', ''),
+      project_manager = nullif(p_budget ->> 'project_manager', ''),
+      manager_email = nullif(p_budget ->> 'manager_email', ''),
+      status = coalesce(p_budget ->> 'status', status),
+      archived = coalesce((p_budget ->> 'archived')::boolean, archived),
+      archived_at = (p_budget ->> 'archived_at')::timestamptz,
+      organization_id = coalesce((p_budget ->> 'organization_id')::uuid, organization_id),
+      currency = coalesce(nullif(upper(p_budget ->> 'currency'), ''), currency),
+      price_adjustments = coalesce(p_budget -> 'price_adjustments', '[]'::jsonb),
+      updated_at = now()
+    where id = v_budget_id;
+
+    if not found then
+      raise exception 'Budget % not found', v_budget_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  -- Sections: drop the ones missing from the payload, then upsert the rest.
+  delete from budget_sections
+  where budget_id = v_budget_id
+    and id not in (
+      select (section ->> 'id')::uuid
+      from jsonb_array_elements(p_sections) as section
+      where nullif(section ->> 'id', '') is not null
+    );
+
+  insert into budget_sections (id, budget_id, name, description, created_at, updated_at)
+  select
+    coalesce(nullif(section ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    coalesce(nullif(trim(section ->> 'name'), ''), 'Bez názvu'),
+    nullif(trim(section ->> 'description'), ''),
+    coalesce((section ->> 'created_at')::timestamptz, now()),
+    now()
+  from jsonb_array_elements(p_sections) as section
+  on conflict (id) do update
+  set
+    name = excluded.name,
+    description = excluded.description,
+    updated_at = now()
+  where budget_sections.budget_id = v_budget_id;
+
+  -- Items: same diff, section references outside of this budget are cleared.
+  delete from budget_items
+  where budget_id = v_budget_id
+    and id not in (
+      select (item ->> 'id')::uuid
+      from jsonb_array_elements(p_items) as item
+      where nullif(item ->> 'id', '') is not null
+    );
+
+  insert into budget_items (
+    id,
+    budget_id,
+    category_id,
+    section_id,
+    task_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel,
+    vat_rate,
+    catalog_item_id,
+    catalog_price_per_unit,
+    catalog_internal_price_per_unit,
+    markup_percent
+  )
+  select
+    coalesce(nullif(item ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    (item ->> 'category_id')::uuid,
+    (
+      select s.id
+      from budget_sections s
+      where s.id = nullif(item ->> 'section_id', '')::uuid
+        and s.budget_id = v_budget_id
+    ),
+    nullif(item ->> 'task_id', '')::uuid,
+    coalesce(item ->> 'item_name', ''),
+    coalesce(item ->> 'unit', ''),
+    coalesce((item ->> 'quantity')::numeric, 0),
+    coalesce((item ->> 'price_per_unit')::numeric, 0),
+    coalesce((item ->> 'total_price')::numeric, 0),
+    coalesce(item ->> 'notes', ''),
+    coalesce((item ->> 'internal_price_per_unit')::numeric, 0),
+    coalesce((item ->> 'internal_quantity')::numeric, 0),
+    coalesce((item ->> 'internal_total_price')::numeric, 0),
+    coalesce((item ->> 'profit')::numeric, 0),
+    coalesce((item ->> 'order_index')::integer, (ordinality - 1)::integer),
+    coalesce((item ->> 'is_cost')::boolean, false),
+    coalesce((item ->> 'is_personnel')::boolean, false),
+    nullif(item ->> 'vat_rate', '')::numeric,
+    nullif(item ->> 'catalog_item_id', '')::uuid,
+    nullif(item ->> 'catalog_price_per_unit', '')::numeric,
+    nullif(item ->> 'catalog_internal_price_per_unit', '')::numeric,
+    nullif(item ->> 'markup_percent', '')::numeric
+  from jsonb_array_elements(p_items) with ordinality as payload(item, ordinality)
+  on conflict (id) do update
+  set
+    category_id = excluded.category_id,
+    section_id = excluded.section_id,
+    task_id = excluded.task_id,
+    item_name = excluded.item_name,
+    unit = excluded.unit,
+    quantity = excluded.quantity,
+    price_per_unit = excluded.price_per_unit,
+    total_price = excluded.total_price,
+    notes = excluded.notes,
+    internal_price_per_unit = excluded.internal_price_per_unit,
+    internal_quantity = excluded.internal_quantity,
+    internal_total_price = excluded.internal_total_price,
+    profit = excluded.profit,
+    order_index = excluded.order_index,
+    is_cost = excluded.is_cost,
+    is_personnel = excluded.is_personnel,
+    vat_rate = excluded.vat_rate,
+    catalog_item_id = excluded.catalog_item_id,
+    catalog_price_per_unit = excluded.catalog_price_per_unit,
+    catalog_internal_price_per_unit = excluded.catalog_internal_price_per_unit,
+    markup_percent = excluded.markup_percent
+  where budget_items.budget_id = v_budget_id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
+
+create or replace function public.create_invoice_from_budget(
+  p_budget_id uuid,
+  p_due_date date default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_default_vat numeric;
+  v_invoice_id uuid;
+  v_line_count integer;
+begin
+  select * into v_budget from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  if v_budget.status <> 'approved' then
+    raise exception 'Only approved budgets can be invoiced' using errcode = '22023';
+  end if;
+
+  if v_budget.organization_id is null then
+    raise exception 'Budget % does not belong to an organization', p_budget_id using errcode = '22023';
+  end if;
+
+  select default_vat_rate into v_default_vat from organizations where id = v_budget.organization_id;
+
+  insert into invoices (organization_id, budget_id, client_name, client_email, due_date, currency)
+  values (
+    v_budget.organization_id,
+    v_budget.id,
+    coalesce(v_budget.client_name, ''),
+    v_budget.client_email,
+    coalesce(p_due_date, current_date + 14),
+    v_budget.currency
+  )
+  returning id into v_invoice_id;
+
+  insert into invoice_lines (
+    invoice_id,
+    budget_item_id,
+    description,
+    unit,
+    quantity,
+    unit_price,
+    total_price,
+    vat_rate,
+    order_index
+  )
+  select
+    v_invoice_id,
+    i.id,
+    i.item_name,
+    i.unit,
+    i.quantity,
+    i.price_per_unit,
+    i.total_price,
+    coalesce(i.vat_rate, v_default_vat, 21),
+    row_number() over (order by i.order_index, i.id) - 1
+  from budget_items i
+  where i.budget_id = p_budget_id
+    and coalesce(i.total_price, 0) <> 0;
+
+  get diagnostics v_line_count = row_count;
+
+  if v_line_count = 0 then
+    raise exception 'Budget % has no items to invoice', p_budget_id using errcode = '22023';
+  end if;
+
+  -- Discounts and surcharges follow the items, one line per VAT rate they were split into.
+  insert into invoice_lines (invoice_id, description, unit, quantity, unit_price, total_price, vat_rate, order_index)
+  select
+    v_invoice_id,
+    coalesce(nullif(trim(adjustment ->> 'label'), ''), case when adjustment ->> 'kind' = 'discount' then 'Sleva' else 'Příplatek' end)
+      || case when jsonb_array_length(adjustment -> 'vat_lines') > 1 then ' (DPH ' || (line ->> 'rate') || ' %)' else '' end,
+    '',
+    1,
+    (line ->> 'amount')::numeric,
+    (line ->> 'amount')::numeric,
+    (line ->> 'rate')::numeric,
+    v_line_count + row_number() over (order by adjustment_index, line_index) - 1
+  from jsonb_array_elements(coalesce(v_budget.price_adjustments, '[]'::jsonb))
+    with ordinality as adjustments(adjustment, adjustment_index)
+  cross join lateral jsonb_array_elements(coalesce(adjustment -> 'vat_lines', '[]'::jsonb))
+    with ordinality as lines(line, line_index)
+  where coalesce((line ->> 'amount')::numeric, 0) <> 0;
+
+  perform refresh_invoice_totals(v_invoice_id);
+
+  return v_invoice_id;
+end;
+$$;
+
+create or replace function public.get_shared_budget(p_token uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_link budget_share_links%rowtype;
+  v_budget budgets%rowtype;
+  v_organization organizations%rowtype;
+begin
+  select * into v_link
+  from budget_share_links
+  where token = p_token
+    and revoked_at is null
+    and expires_at > now();
+
+  if not found then
+    return null;
+  end if;
+
+  select * into v_budget from budgets where id = v_link.budget_id;
+  select * into v_organization from organizations where id = v_budget.organization_id;
+
+  return jsonb_build_object(
+    'expires_at', v_link.expires_at,
+    'budget', jsonb_build_object(
+      'name', v_budget.name,
+      'client_name', v_budget.client_name,
+      'contact_person', v_budget.contact_person,
+      'project_manager', v_budget.project_manager,
+      'manager_email', v_budget.manager_email,
+      'status', v_budget.status,
+      'currency', v_budget.currency,
+      'created_at', v_budget.created_at,
+      'client_decision_at', v_budget.client_decision_at,
+      'client_decision_by', v_budget.client_decision_by,
+      'price_adjustments', coalesce(v_budget.price_adjustments, '[]'::jsonb)
+    ),
+    'organization', jsonb_build_object(
+      'name', v_organization.name,
+      'default_vat_rate', coalesce(v_organization.default_vat_rate, 21)
+    ),
+    'sections', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object('id', s.id, 'name', s.name, 'description', s.description)
+          order by s.created_at, s.id
+        )
+        from budget_sections s
+        where s.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    ),
+    'items', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', i.id,
+            'section_id', i.section_id,
+            'item_name', i.item_name,
+            'unit', i.unit,
+            'quantity', i.quantity,
+            'price_per_unit', i.price_per_unit,
+            'total_price', i.total_price,
+            'vat_rate', i.vat_rate,
+            'notes', i.notes
+          )
+          order by i.order_index, i.id
+        )
+        from budget_items i
+        where i.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    ),
+    'feedback', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', f.id,
+            'kind', f.kind,
+            'author_name', f.author_name,
+            'message', f.message,
+            'created_at', f.created_at
+          )
+          order by f.created_at
+        )
+        from budget_client_feedback f
+        where f.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    )
+  );
+end;
+$$;
+
+create or replace function public.duplicate_budget(
+  p_budget_id uuid,
+  p_name text,
+  p_client_name text default null,
+  p_as_revision boolean default false
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_source budgets%rowtype;
+  v_budget_id uuid;
+  v_client_name text;
+  v_same_client boolean;
+  v_section record;
+  v_section_map jsonb := '{}'::jsonb;
+  v_section_id uuid;
+begin
+  if nullif(trim(p_name), '') is null then
+    raise exception 'Budget name is required' using errcode = '22023';
+  end if;
+
+  select * into v_source from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  v_client_name := coalesce(nullif(trim(p_client_name), ''), v_source.client_name);
+  v_same_client := v_client_name = v_source.client_name;
+
+  insert into budgets (
+    name,
+    client_name,
+    client_email,
+    contact_person,
+    project_manager,
+    manager_email,
+    status,
+    archived,
+    user_id,
+    organization_id,
+    currency,
+    revision_of,
+    price_adjustments
+  )
+  values (
+    trim(p_name),
+    v_client_name,
+    case when v_same_client then v_source.client_email end,
+    case when v_same_client then v_source.contact_person end,
+    v_source.project_manager,
+    v_source.manager_email,
+    'draft',
+    false,
+    auth.uid(),
+    v_source.organization_id,
+    v_source.currency,
+    case when p_as_revision then v_source.id end,
+    '[]'::jsonb
+  )
+  returning id into v_budget_id;
+
+  for v_section in
+    select * from budget_sections where budget_id = p_budget_id order by created_at, id
+  loop
+    insert into budget_sections (budget_id, name, description, created_at, updated_at)
+    values (v_budget_id, v_section.name, v_section.description, v_section.created_at, now())
+    returning id into v_section_id;
+
+    v_section_map := v_section_map || jsonb_build_object(v_section.id::text, v_section_id);
+  end loop;
+
+  insert into budget_items (
+    budget_id,
+    category_id,
+    section_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel,
+    vat_rate,
+    catalog_item_id,
+    catalog_price_per_unit,
+    catalog_internal_price_per_unit,
+    markup_percent
+  )
+  select
+    v_budget_id,
+    i.category_id,
+    (v_section_map ->> i.section_id::text)::uuid,
+    i.item_name,
+    i.unit,
+    i.quantity,
+    i.price_per_unit,
+    i.total_price,
+    i.notes,
+    i.internal_price_per_unit,
+    i.internal_quantity,
+    i.internal_total_price,
+    i.profit,
+    i.order_index,
+    i.is_cost,
+    i.is_personnel,
+    i.vat_rate,
+    i.catalog_item_id,
+    i.catalog_price_per_unit,
+    i.catalog_internal_price_per_unit,
+    i.markup_percent
+  from budget_items i
+  where i.budget_id = p_budget_id
+  order by i.order_index, i.id;
+
+  -- Section adjustments point at the copied sections.
+  update budgets
+  set price_adjustments = (
+    select coalesce(
+      jsonb_agg(
+        case
+          when nullif(adjustment ->> 'section_id', '') is null then adjustment
+          else jsonb_set(adjustment, '{section_id}', coalesce(v_section_map -> (adjustment ->> 'section_id'), 'null'::jsonb))
+        end
+        order by ordinality
+      ),
+      '[]'::jsonb
+    )
+    from jsonb_array_elements(coalesce(v_source.price_adjustments, '[]'::jsonb)) with ordinality as payload(adjustment, ordinality)
+  )
+  where id = v_budget_id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
+
+revoke all on function public.budget_adjustments_total(jsonb) from public;
+grant execute on function public.budget_adjustments_total(jsonb) to authenticated;
@@ -0,0 +1,828 @@
+/*
+  # Optional and alternative budget items
+
+  1. Changes
+    - `budget_items.is_optional` (boolean) - an add-on the client may take or leave
+    - `budget_items.alternative_group` (text, optional) - items sharing a group are mutually exclusive variants
+    - `budget_items.client_selected` (boolean) - the option or variant was chosen by the client
+    - `budgets.client_approved_total` (numeric, optional) - amount without VAT the client approved
+
+  2. Functions
+    - `budget_item_is_included(budget_items)` - core items and selected options count towards the totals
+    - `respond_to_shared_budget` accepts the client's selection on approval and stores the approved amount
+    - `save_budget`, `duplicate_budget` and `create_budget_template_from_budget` keep the new item fields
+    - `record_budget_version` and `create_invoice_from_budget` leave out options that were not selected
+    - `get_shared_budget` returns the options and the approved amount
+
+  3. Notes
+    - Discounts and surcharges are computed from core items only, so a selection never changes their amounts
+*/
+
+ALTER TABLE budget_items
+  ADD COLUMN IF NOT EXISTS is_optional boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS alternative_group text,
+  ADD COLUMN IF NOT EXISTS client_selected boolean NOT NULL DEFAULT false;
+
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS client_approved_total numeric;
+
+set check_function_bodies = off;
+
+create or replace function public.budget_item_is_included(p_item budget_items)
+returns boolean
+language sql
+immutable
+set search_path = public
+as $$
+  select (not p_item.is_optional and p_item.alternative_group is null) or p_item.client_selected;
+$$;
+
+create or replace function public.record_budget_version(p_budget_id uuid)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_snapshot jsonb;
+  v_latest budget_versions%rowtype;
+  v_version_id uuid;
+begin
+  select * into v_budget from budgets where id = p_budget_id for update;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  v_snapshot := jsonb_build_object(
+    'budget', to_jsonb(v_budget) - 'updated_at',
+    'sections', coalesce(
+      (
+        select jsonb_agg(to_jsonb(s) - 'updated_at' order by s.created_at, s.id)
+        from budget_sections s
+        where s.budget_id = p_budget_id
+      ),
+      '[]'::jsonb
+    ),
+    'items', coalesce(
+      (
+        select jsonb_agg(to_jsonb(i) order by i.order_index, i.id)
+        from budget_items i
+        where i.budget_id = p_budget_id
+      ),
+      '[]'::jsonb
+    )
+  );
+
+  select * into v_latest
+  from budget_versions
+  where budget_id = p_budget_id
+  order by version_number desc
+  limit 1;
+
+  if found and v_latest.snapshot = v_snapshot then
+    return v_latest.id;
+  end if;
+
+  insert into budget_versions (budget_id, version_number, status, snapshot, client_total, internal_total)
+  values (
+    p_budget_id,
+    coalesce(v_latest.version_number, 0) + 1,
+    v_budget.status,
+    v_snapshot,
+    coalesce((select sum(i.total_price) from budget_items i where i.budget_id = p_budget_id and budget_item_is_included(i)), 0)
+      + budget_adjustments_total(v_budget.price_adjustments),
+    coalesce((select sum(i.internal_total_price) from budget_items i where i.budget_id = p_budget_id and budget_item_is_included(i)), 0)
+  )
+  returning id into v_version_id;
+
+  return v_version_id;
+end;
+$$;
+
+create or replace function public.save_budget(
+  p_budget jsonb,
+  p_sections jsonb default '[]'::jsonb,
+  p_items jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget_id uuid := nullif(p_budget ->> 'id', '')::uuid;
+begin
+  if v_budget_id is null then
+    insert into budgets (
+      name,
+      client_name,
+      client_email,
+      contact_person,
+      project_manager,
+      manager_email,
+      status,
+      archived,
+      archived_at,
+      user_id,
+      organization_id,
+      currency,
+      price_adjustments
+    )
+    values (
+      p_budget ->> 'name',
+      p_budget ->> 'client_name',
+      nullif(p_budget ->> 'client_email', ''),
+      nullif(p_budget ->> 'contact_person', ''),
+      nullif(p_budget ->> 'project_manager', ''),
+      nullif(p_budget ->> 'manager_email', ''),
+      coalesce(p_budget ->> 'status', 'draft'),
+      coalesce((p_budget ->> 'archived')::boolean, false),
+      (p_budget ->> 'archived_at')::timestamptz,
+      auth.uid(),
+      (p_budget ->> 'organization_id')::uuid,
+      coalesce(nullif(upper(p_budget ->> 'currency'), ''), 'CZK'),
+      coalesce(p_budget -> 'price_adjustments', '[]'::jsonb)
+    )
+    returning id into v_budget_id;
+  else
+    update budgets
+    set
+      name = p_budget ->> 'name',
+      client_name = p_budget ->> 'client_name',
+      client_email = nullif(p_budget ->> 'client_email', ''),
+      contact_person = nullif(p_budget ->> 'contact_person', ''),
+      project_manager = nullif(p_budget ->> 'project_manager', ''),
+      manager_email = nullif(p_budget ->> 'manager_email', ''),
+      status = coalesce(p_budget ->> 'status', status),
+      archived = coalesce((p_budget ->> 'archived')::boolean, archived),
+      archived_at = (p_budget ->> 'archived_at')::timestamptz,
+      organization_id = coalesce((p_budget ->> 'organization_id')::uuid, organization_id),
+      currency = coalesce(nullif(upper(p_budget ->> 'currency'), ''), currency),
+      price_adjustments = coalesce(p_budget -> 'price_adjustments', '[]'::jsonb),
+      updated_at = now()
+    where id = v_budget_id;
+
+    if not found then
+      raise exception 'Budget % not found', v_budget_id using errcode = 'P0002';
+    end if;
+  end if;
+
+  -- Sections: drop the ones missing from the payload, then upsert the rest.
+  delete from budget_sections
+  where budget_id = v_budget_id
+    and id not in (
+      select (section ->> 'id')::uuid
+      from jsonb_array_elements(p_sections) as section
+      where nullif(section ->> 'id', '') is not null
+    );
+
+  insert into budget_sections (id, budget_id, name, description, created_at, updated_at)
+  select
+    coalesce(nullif(section ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    coalesce(nullif(trim(section ->> 'name'), ''), 'Bez názvu'),
+    nullif(trim(section ->> 'description'), ''),
+    coalesce((section ->> 'created_at')::timestamptz, now()),
+    now()
+  from jsonb_array_elements(p_sections) as section
+  on conflict (id) do update
+  set
+    name = excluded.name,
+    description = excluded.description,
+    updated_at = now()
+  where budget_sections.budget_id = v_budget_id;
+
+  -- Items: same diff, section references outside of this budget are cleared.
+  delete from budget_items
+  where budget_id = v_budget_id
+    and id not in (
+      select (item ->> 'id')::uuid
+      from jsonb_array_elements(p_items) as item
+      where nullif(item ->> 'id', '') is not null
+    );
+
+  insert into budget_items (
+    id,
+    budget_id,
+    category_id,
+    section_id,
+    task_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel,
+    vat_rate,
+    catalog_item_id,
+    catalog_price_per_unit,
+    catalog_internal_price_per_unit,
+    markup_percent,
+    is_optional,
+    alternative_group,
+    client_selected
+  )
+  select
+    coalesce(nullif(item ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    (item ->> 'category_id')::uuid,
+    (
+      select s.id
+      from budget_sections s
+      where s.id = nullif(item ->> 'section_id', '')::uuid
+        and s.budget_id = v_budget_id
+    ),
+    nullif(item ->> 'task_id', '')::uuid,
+    coalesce(item ->> 'item_name', ''),
+    coalesce(item ->> 'unit', ''),
+    coalesce((item ->> 'quantity')::numeric, 0),
+    coalesce((item ->> 'price_per_unit')::numeric, 0),
+    coalesce((item ->> 'total_price')::numeric, 0),
+    coalesce(item ->> 'notes', ''),
+    coalesce((item ->> 'internal_price_per_unit')::numeric, 0),
+    coalesce((item ->> 'internal_quantity')::numeric, 0),
+    coalesce((item ->> 'internal_total_price')::numeric, 0),
+    coalesce((item ->> 'profit')::numeric, 0),
+    coalesce((item ->> 'order_index')::integer, (ordinality - 1)::integer),
+    coalesce((item ->> 'is_cost')::boolean, false),
+    coalesce((item ->> 'is_personnel')::boolean, false),
+    nullif(item ->> 'vat_rate', '')::numeric,
+    nullif(item ->> 'catalog_item_id', '')::uuid,
+    nullif(item ->> 'catalog_price_per_unit', '')::numeric,
+    nullif(item ->> 'catalog_internal_price_per_unit', '')::numeric,
+    nullif(item ->> 'markup_percent', '')::numeric,
+    coalesce((item ->> 'is_optional')::boolean, false),
+    nullif(trim(item ->> 'alternative_group'), ''),
+    coalesce((item ->> 'client_selected')::boolean, false)
+  from jsonb_array_elements(p_items) with ordinality as payload(item, ordinality)
+  on conflict (id) do update
+  set
+    category_id = excluded.category_id,
+    section_id = excluded.section_id,
+    task_id = excluded.task_id,
+    item_name = excluded.item_name,
+    unit = excluded.unit,
+    quantity = excluded.quantity,
+    price_per_unit = excluded.price_per_unit,
+    total_price = excluded.total_price,
+    notes = excluded.notes,
+    internal_price_per_unit = excluded.internal_price_per_unit,
+    internal_quantity = excluded.internal_quantity,
+    internal_total_price = excluded.internal_total_price,
+    profit = excluded.profit,
+    order_index = excluded.order_index,
+    is_cost = excluded.is_cost,
+    is_personnel = excluded.is_personnel,
+    vat_rate = excluded.vat_rate,
+    catalog_item_id = excluded.catalog_item_id,
+    catalog_price_per_unit = excluded.catalog_price_per_unit,
+    catalog_internal_price_per_unit = excluded.catalog_internal_price_per_unit,
+    markup_percent = excluded.markup_percent,
+    is_optional = excluded.is_optional,
+    alternative_group = excluded.alternative_group,
+    client_selected = excluded.client_selected
+  where budget_items.budget_id = v_budget_id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
+
+create or replace function public.create_invoice_from_budget(
+  p_budget_id uuid,
+  p_due_date date default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_default_vat numeric;
+  v_invoice_id uuid;
+  v_line_count integer;
+begin
+  select * into v_budget from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  if v_budget.status <> 'approved' then
+    raise exception 'Only approved budgets can be invoiced' using errcode = '22023';
+  end if;
+
+  if v_budget.organization_id is null then
+    raise exception 'Budget % does not belong to an organization', p_budget_id using errcode = '22023';
+  end if;
+
+  select default_vat_rate into v_default_vat from organizations where id = v_budget.organization_id;
+
+  insert into invoices (organization_id, budget_id, client_name, client_email, due_date, currency)
+  values (
+    v_budget.organization_id,
+    v_budget.id,
+    coalesce(v_budget.client_name, ''),
+    v_budget.client_email,
+    coalesce(p_due_date, current_date + 14),
+    v_budget.currency
+  )
+  returning id into v_invoice_id;
+
+  insert into invoice_lines (
+    invoice_id,
+    budget_item_id,
+    description,
+    unit,
+    quantity,
+    unit_price,
+    total_price,
+    vat_rate,
+    order_index
+  )
+  select
+    v_invoice_id,
+    i.id,
+    i.item_name,
+    i.unit,
+    i.quantity,
+    i.price_per_unit,
+    i.total_price,
+    coalesce(i.vat_rate, v_default_vat, 21),
+    row_number() over (order by i.order_index, i.id) - 1
+  from budget_items i
+  where i.budget_id = p_budget_id
+    and budget_item_is_included(i)
+    and coalesce(i.total_price, 0) <> 0;
+
+  get diagnostics v_line_count = row_count;
+
+  if v_line_count = 0 then
+    raise exception 'Budget % has no items to invoice', p_budget_id using errcode = '22023';
+  end if;
+
+  -- Discounts and surcharges follow the items, one line per VAT rate they were split into.
+  insert into invoice_lines (invoice_id, description, unit, quantity, unit_price, total_price, vat_rate, order_index)
+  select
+    v_invoice_id,
+    coalesce(nullif(trim(adjustment ->> 'label'), ''), case when adjustment ->> 'kind' = 'discount' then 'Sleva' else 'Příplatek' end)
+      || case when jsonb_array_length(adjustment -> 'vat_lines') > 1 then ' (DPH ' || (line ->> 'rate') || ' %)' else '' end,
+    '',
+    1,
+    (line ->> 'amount')::numeric,
+    (line ->> 'amount')::numeric,
+    (line ->> 'rate')::numeric,
+    v_line_count + row_number() over (order by adjustment_index, line_index) - 1
+  from jsonb_array_elements(coalesce(v_budget.price_adjustments, '[]'::jsonb))
+    with ordinality as adjustments(adjustment, adjustment_index)
+  cross join lateral jsonb_array_elements(coalesce(adjustment -> 'vat_lines', '[]'::jsonb))
+    with ordinality as lines(line, line_index)
+  where coalesce((line ->> 'amount')::numeric, 0) <> 0;
+
+  perform refresh_invoice_totals(v_invoice_id);
+
+  return v_invoice_id;
+end;
+$$;
+
+create or replace function public.get_shared_budget(p_token uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_link budget_share_links%rowtype;
+  v_budget budgets%rowtype;
+  v_organization organizations%rowtype;
+begin
+  select * into v_link
+  from budget_share_links
+  where token = p_token
+    and revoked_at is null
+    and expires_at > now();
+
+  if not found then
+    return null;
+  end if;
+
+  select * into v_budget from budgets where id = v_link.budget_id;
+  select * into v_organization from organizations where id = v_budget.organization_id;
+
+  return jsonb_build_object(
+    'expires_at', v_link.expires_at,
+    'budget', jsonb_build_object(
+      'name', v_budget.name,
+      'client_name', v_budget.client_name,
+      'contact_person', v_budget.contact_person,
+      'project_manager', v_budget.project_manager,
+      'manager_email', v_budget.manager_email,
+      'status', v_budget.status,
+      'currency', v_budget.currency,
+      'created_at', v_budget.created_at,
+      'client_decision_at', v_budget.client_decision_at,
+      'client_decision_by', v_budget.client_decision_by,
+      'price_adjustments', coalesce(v_budget.price_adjustments, '[]'::jsonb),
+      'client_approved_total', v_budget.client_approved_total
+    ),
+    'organization', jsonb_build_object(
+      'name', v_organization.name,
+      'default_vat_rate', coalesce(v_organization.default_vat_rate, 21)
+    ),
+    'sections', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object('id', s.id, 'name', s.name, 'description', s.description)
+          order by s.created_at, s.id
+        )
+        from budget_sections s
+        where s.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    ),
+    'items', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', i.id,
+            'section_id', i.section_id,
+            'item_name', i.item_name,
+            'unit', i.unit,
+            'quantity', i.quantity,
+            'price_per_unit', i.price_per_unit,
+            'total_price', i.total_price,
+            'vat_rate', i.vat_rate,
+            'notes', i.notes,
+            'is_optional', i.is_optional,
+            'alternative_group', i.alternative_group,
+            'client_selected', i.client_selected
+          )
+          order by i.order_index, i.id
+        )
+        from budget_items i
+        where i.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    ),
+    'feedback', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', f.id,
+            'kind', f.kind,
+            'author_name', f.author_name,
+            'message', f.message,
+            'created_at', f.created_at
+          )
+          order by f.created_at
+        )
+        from budget_client_feedback f
+        where f.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    )
+  );
+end;
+$$;
+
+drop function if exists public.respond_to_shared_budget(uuid, text, text, text, text);
+
+create or replace function public.respond_to_shared_budget(
+  p_token uuid,
+  p_kind text,
+  p_author_name text,
+  p_author_email text default null,
+  p_message text default '',
+  p_selected_item_ids uuid[] default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_link budget_share_links%rowtype;
+  v_budget budgets%rowtype;
+begin
+  if p_kind not in ('comment', 'approved', 'rejected') then
+    raise exception 'Unknown response %', p_kind using errcode = '22023';
+  end if;
+
+  if nullif(trim(p_author_name), '') is null then
+    raise exception 'Author name is required' using errcode = '22023';
+  end if;
+
+  if p_kind = 'comment' and nullif(trim(p_message), '') is null then
+    raise exception 'Comment must not be empty' using errcode = '22023';
+  end if;
+
+  select * into v_link
+  from budget_share_links
+  where token = p_token
+    and revoked_at is null
+    and expires_at > now();
+
+  if not found then
+    raise exception 'Share link is invalid or expired' using errcode = 'P0002';
+  end if;
+
+  select * into v_budget from budgets where id = v_link.budget_id for update;
+
+  if p_kind <> 'comment' then
+    if v_budget.status not in ('draft', 'sent') then
+      raise exception 'Budget has already been decided' using errcode = '22023';
+    end if;
+
+    if p_kind = 'approved' then
+      update budget_items i
+      set client_selected = i.id = any(coalesce(p_selected_item_ids, '{}'::uuid[]))
+      where i.budget_id = v_budget.id
+        and (i.is_optional or i.alternative_group is not null);
+
+      if exists (
+        select 1
+        from budget_items i
+        where i.budget_id = v_budget.id
+          and i.alternative_group is not null
+          and i.client_selected
+        group by i.alternative_group
+        having count(*) > 1
+      ) then
+        raise exception 'Only one item of each alternative group can be selected' using errcode = '22023';
+      end if;
+    end if;
+
+    update budgets
+    set
+      status = p_kind,
+      client_decision_at = now(),
+      client_decision_by = trim(p_author_name),
+      client_decision_email = nullif(trim(p_author_email), ''),
+      client_approved_total = case
+        when p_kind = 'approved' then
+          coalesce((select sum(i.total_price) from budget_items i where i.budget_id = v_budget.id and budget_item_is_included(i)), 0)
+            + budget_adjustments_total(v_budget.price_adjustments)
+      end,
+      updated_at = now()
+    where id = v_budget.id;
+
+    perform record_budget_version(v_budget.id);
+  end if;
+
+  insert into budget_client_feedback (budget_id, share_link_id, kind, author_name, author_email, message)
+  values (
+    v_budget.id,
+    v_link.id,
+    p_kind,
+    trim(p_author_name),
+    nullif(trim(p_author_email), ''),
+    coalesce(trim(p_message), '')
+  );
+end;
+$$;
+
+create or replace function public.duplicate_budget(
+  p_budget_id uuid,
+  p_name text,
+  p_client_name text default null,
+  p_as_revision boolean default false
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_source budgets%rowtype;
+  v_budget_id uuid;
+  v_client_name text;
+  v_same_client boolean;
+  v_section record;
+  v_section_map jsonb := '{}'::jsonb;
+  v_section_id uuid;
+begin
+  if nullif(trim(p_name), '') is null then
+    raise exception 'Budget name is required' using errcode = '22023';
+  end if;
+
+  select * into v_source from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  v_client_name := coalesce(nullif(trim(p_client_name), ''), v_source.client_name);
+  v_same_client := v_client_name = v_source.client_name;
+
+  insert into budgets (
+    name,
+    client_name,
+    client_email,
+    contact_person,
+    project_manager,
+    manager_email,
+    status,
+    archived,
+    user_id,
+    organization_id,
+    currency,
+    revision_of,
+    price_adjustments
+  )
+  values (
+    trim(p_name),
+    v_client_name,
+    case when v_same_client then v_source.client_email end,
+    case when v_same_client then v_source.contact_person end,
+    v_source.project_manager,
+    v_source.manager_email,
+    'draft',
+    false,
+    auth.uid(),
+    v_source.organization_id,
+    v_source.currency,
+    case when p_as_revision then v_source.id end,
+    '[]'::jsonb
+  )
+  returning id into v_budget_id;
+
+  for v_section in
+    select * from budget_sections where budget_id = p_budget_id order by created_at, id
+  loop
+    insert into budget_sections (budget_id, name, description, created_at, updated_at)
+    values (v_budget_id, v_section.name, v_section.description, v_section.created_at, now())
+    returning id into v_section_id;
+
+    v_section_map := v_section_map || jsonb_build_object(v_section.id::text, v_section_id);
+  end loop;
+
+  insert into budget_items (
+    budget_id,
+    category_id,
+    section_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel,
+    vat_rate,
+    catalog_item_id,
+    catalog_price_per_unit,
+    catalog_internal_price_per_unit,
+    markup_percent,
+    is_optional,
+    alternative_group
+  )
+  select
+    v_budget_id,
+    i.category_id,
+    (v_section_map ->> i.section_id::text)::uuid,
+    i.item_name,
+    i.unit,
+    i.quantity,
+    i.price_per_unit,
+    i.total_price,
+    i.notes,
+    i.internal_price_per_unit,
+    i.internal_quantity,
+    i.internal_total_price,
+    i.profit,
+    i.order_index,
+    i.is_cost,
+    i.is_personnel,
+    i.vat_rate,
+    i.catalog_item_id,
+    i.catalog_price_per_unit,
+    i.catalog_internal_price_per_unit,
+    i.markup_percent,
+    i.is_optional,
+    i.alternative_group
+  from budget_items i
+  where i.budget_id = p_budget_id
+  order by i.order_index, i.id;
+
+  -- Section adjustments point at the copied sections.
+  update budgets
+  set price_adjustments = (
+    select coalesce(
+      jsonb_agg(
+        case
+          when nullif(adjustment ->> 'section_id', '') is null then adjustment
+          else jsonb_set(adjustment, '{section_id}', coalesce(v_section_map -> (adjustment ->> 'section_id'), 'null'::jsonb))
+        end
+        order by ordinality
+      ),
+      '[]'::jsonb
+    )
+    from jsonb_array_elements(coalesce(v_source.price_adjustments, '[]'::jsonb)) with ordinality as payload(adjustment, ordinality)
+  )
+  where id = v_budget_id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
+
+create or replace function public.create_budget_template_from_budget(
+  p_budget_id uuid,
+  p_name text,
+  p_description text default null
+)
+returns budget_templates
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_template budget_templates%rowtype;
+begin
+  if nullif(trim(p_name), '') is null then
+    raise exception 'Template name is required' using errcode = '22023';
+  end if;
+
+  select * into v_budget from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  if v_budget.organization_id is null then
+    raise exception 'Budget % does not belong to an organization', p_budget_id using errcode = '22023';
+  end if;
+
+  insert into budget_templates (organization_id, name, description, content)
+  values (
+    v_budget.organization_id,
+    trim(p_name),
+    nullif(trim(p_description), ''),
+    jsonb_build_object(
+      'sections', coalesce(
+        (
+          select jsonb_agg(
+            jsonb_build_object('key', s.id, 'name', s.name, 'description', s.description)
+            order by s.created_at, s.id
+          )
+          from budget_sections s
+          where s.budget_id = p_budget_id
+        ),
+        '[]'::jsonb
+      ),
+      'items', coalesce(
+        (
+          select jsonb_agg(
+            jsonb_build_object(
+              'section_key', i.section_id,
+              'category_id', i.category_id,
+              'item_name', i.item_name,
+              'unit', i.unit,
+              'quantity', i.quantity,
+              'price_per_unit', i.price_per_unit,
+              'internal_quantity', i.internal_quantity,
+              'internal_price_per_unit', i.internal_price_per_unit,
+              'is_cost', i.is_cost,
+              'is_personnel', i.is_personnel,
+              'vat_rate', i.vat_rate,
+              'notes', i.notes,
+              'is_optional', i.is_optional,
+              'alternative_group', i.alternative_group
+            )
+            order by i.order_index, i.id
+          )
+          from budget_items i
+          where i.budget_id = p_budget_id
+        ),
+        '[]'::jsonb
+      )
+    )
+  )
+  returning * into v_template;
+
+  return v_template;
+end;
+$$;
+
+revoke all on function public.budget_item_is_included(budget_items) from public;
+grant execute on function public.budget_item_is_included(budget_items) to anon, authenticated;
+revoke all on function public.respond_to_shared_budget(uuid, text, text, text, text, uuid[]) from public;
+grant execute on function public.respond_to_shared_budget(uuid, text, text, text, text, uuid[]) to anon, authenticated;
@@ -0,0 +1,85 @@
+/*
+  # Budget import mapping profiles
+
+  1. New Tables
+    - `budget_import_profiles`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `name` (text) - e.g. the supplier whose price lists use this layout
+      - `mapping` (jsonb) - budget item field to source column header
+      - `created_by` (uuid, references auth.users)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Members of the organization can view and create profiles
+    - The author, owners and admins can update or delete a profile
+
+  3. Notes
+    - Columns are stored by header text rather than position, so a profile still applies when a supplier
+      reorders the columns of their file
+*/
+
+CREATE TABLE IF NOT EXISTS budget_import_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE budget_import_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization import profiles"
+  ON budget_import_profiles FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can create organization import profiles"
+  ON budget_import_profiles FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Authors and admins can update import profiles"
+  ON budget_import_profiles FOR UPDATE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+      AND role IN ('owner', 'admin')
+    )
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Authors and admins can delete import profiles"
+  ON budget_import_profiles FOR DELETE
+  TO authenticated
+  USING (
+    created_by = auth.uid()
+    OR organization_id IN (
+      SELECT organization_id FROM organization_members
+      WHERE user_id = auth.uid()
+      AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budget_import_profiles_unique_name
+  ON budget_import_profiles(organization_id, lower(name));
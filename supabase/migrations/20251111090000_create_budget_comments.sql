@@ -0,0 +1,164 @@
+/*
+  # Internal comments on budgets and items
+
+  1. New Tables
+    - `budget_comments`
+      - `id` (uuid, primary key)
+      - `budget_id` (uuid, references budgets)
+      - `item_id` (uuid, optional, references budget_items) - the thread belongs to one item instead of the budget
+      - `parent_id` (uuid, optional, references budget_comments) - replies point to the first comment of the thread
+      - `body` (text)
+      - `mentions` (uuid[]) - organization members mentioned with @
+      - `author_id` (uuid, references auth.users)
+      - `resolved_at` (timestamptz, optional) and `resolved_by` (uuid, optional) - set on the first comment of a thread
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Functions
+    - `set_budget_comment_resolved(p_comment_id, p_resolved)` - anybody who can see the comments may resolve or reopen a thread
+    - `get_budget_comment_mentions(p_organization_id)` - open threads in the organization that mention the current user
+
+  3. Security
+    - Comments are visible to everybody who can see the budget, authors edit their own comments
+    - Mentioned members who cannot open the budget still get the comment text through `get_budget_comment_mentions`
+    - Authors and organization owners or admins can delete comments
+
+  4. Notes
+    - Comments are internal only: shared links, PDF and Excel exports, versions and copies never include them
+*/
+
+CREATE TABLE IF NOT EXISTS budget_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id uuid NOT NULL REFERENCES budgets(id) ON DELETE CASCADE,
+  item_id uuid REFERENCES budget_items(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES budget_comments(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  mentions uuid[] NOT NULL DEFAULT '{}',
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE budget_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view comments on visible budgets"
+  ON budget_comments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_comments.budget_id
+    )
+  );
+
+CREATE POLICY "Users can comment on visible budgets"
+  ON budget_comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    author_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM budgets
+      WHERE budgets.id = budget_comments.budget_id
+    )
+  );
+
+CREATE POLICY "Authors can update own comments"
+  ON budget_comments FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Authors and admins can delete comments"
+  ON budget_comments FOR DELETE
+  TO authenticated
+  USING (
+    author_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM budgets
+      JOIN organization_members ON organization_members.organization_id = budgets.organization_id
+      WHERE budgets.id = budget_comments.budget_id
+      AND organization_members.user_id = auth.uid()
+      AND organization_members.role IN ('owner', 'admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_budget_comments_budget_id ON budget_comments(budget_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_budget_comments_item_id ON budget_comments(item_id);
+CREATE INDEX IF NOT EXISTS idx_budget_comments_mentions ON budget_comments USING gin(mentions);
+
+set check_function_bodies = off;
+
+-- Resolving changes somebody else's comment, which the update policy does not allow, so access is checked here
+-- the same way the budgets select policy checks it.
+create or replace function public.set_budget_comment_resolved(p_comment_id uuid, p_resolved boolean)
+returns budget_comments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_comment budget_comments%rowtype;
+begin
+  select c.* into v_comment
+  from budget_comments c
+  join budgets b on b.id = c.budget_id
+  where c.id = p_comment_id
+    and c.parent_id is null
+    and b.user_id = auth.uid()
+  for update of c;
+
+  if not found then
+    raise exception 'Comment % not found', p_comment_id using errcode = 'P0002';
+  end if;
+
+  update budget_comments
+  set
+    resolved_at = case when p_resolved then now() end,
+    resolved_by = case when p_resolved then auth.uid() end
+  where id = p_comment_id
+  returning * into v_comment;
+
+  return v_comment;
+end;
+$$;
+
+revoke all on function public.set_budget_comment_resolved(uuid, boolean) from public;
+grant execute on function public.set_budget_comment_resolved(uuid, boolean) to authenticated;
+
+-- Mentions go to colleagues who usually cannot see the budget, so the comment is read here for them.
+create or replace function public.get_budget_comment_mentions(p_organization_id uuid)
+returns table (
+  comment_id uuid,
+  budget_id uuid,
+  budget_name text,
+  item_name text,
+  body text,
+  author_id uuid,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select c.id, c.budget_id, b.name, i.item_name, c.body, c.author_id, c.created_at
+  from budget_comments c
+  join budgets b on b.id = c.budget_id
+  left join budget_items i on i.id = c.item_id
+  left join budget_comments root on root.id = c.parent_id
+  where c.mentions @> array[auth.uid()]
+    and b.organization_id = p_organization_id
+    and coalesce(root.resolved_at, c.resolved_at) is null
+    and exists (
+      select 1
+      from organization_members m
+      where m.organization_id = p_organization_id
+        and m.user_id = auth.uid()
+    )
+  order by c.created_at desc
+  limit 20;
+$$;
+
+revoke all on function public.get_budget_comment_mentions(uuid) from public;
+grant execute on function public.get_budget_comment_mentions(uuid) to authenticated;
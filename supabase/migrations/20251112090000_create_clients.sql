@@ -0,0 +1,872 @@
+/*
+  # Clients directory
+
+  1. New Tables
+    - `clients`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, references organizations)
+      - `name` (text) - company or person name
+      - `company_id` (text, optional) - IČO
+      - `vat_id` (text, optional) - DIČ
+      - `billing_street`, `billing_city`, `billing_postal_code`, `billing_country` (text) - billing address
+      - `email`, `phone` (text, optional) - general contact of the company
+      - `notes` (text)
+      - `created_by` (uuid, references auth.users)
+      - `created_at`, `updated_at` (timestamptz)
+    - `client_contacts`
+      - `id` (uuid, primary key)
+      - `client_id` (uuid, references clients)
+      - `name`, `role`, `email`, `phone` (text)
+      - `is_primary` (boolean) - preselected when the client is picked for a budget
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `budgets.client_id`, `projects.client_id` and `invoices.client_id` (uuid, optional, references clients)
+    - Existing budgets get a client per organization and distinct client name, their contact person and e-mail
+      become its contacts; projects and invoices take the client of their budget, invoices for expenses the
+      client with their client name
+    - Budgets whose client name is the name of their project stay without a client: budgets generated from
+      project tasks used to get the project name there, which does not name any client
+
+  3. Functions
+    - `save_budget` stores `client_id`; payloads without it, like old version snapshots, keep the current client
+    - `duplicate_budget` keeps the client when the copy stays with the same client name
+    - `create_invoice_from_budget` stores the client of the budget
+    - `create_invoice_from_expenses(p_expense_ids, p_client_id, p_client_email, p_due_date)` bills a client from
+      the directory instead of a typed name
+
+  4. Security
+    - Members of the organization can view, create and update clients and their contacts
+    - Only owners and admins can delete clients
+    - Budgets, projects and invoices can only point to a client of their own organization
+
+  5. Notes
+    - `client_name`, `client_email` and `contact_person` stay on budgets as the values sent to the client, the
+      editor fills them from the directory
+*/
+
+CREATE TABLE IF NOT EXISTS clients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  company_id text,
+  vat_id text,
+  billing_street text,
+  billing_city text,
+  billing_postal_code text,
+  billing_country text DEFAULT 'CZ',
+  email text,
+  phone text,
+  notes text DEFAULT '',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS client_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  role text,
+  email text,
+  phone text,
+  is_primary boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS client_id uuid REFERENCES clients(id) ON DELETE SET NULL;
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS client_id uuid REFERENCES clients(id) ON DELETE SET NULL;
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS client_id uuid REFERENCES clients(id) ON DELETE SET NULL;
+
+ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE client_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view clients in their organization"
+  ON clients FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can create clients in their organization"
+  ON clients FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Members can update clients in their organization"
+  ON clients FOR UPDATE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can delete clients in their organization"
+  ON clients FOR DELETE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id
+      FROM organization_members
+      WHERE user_id = auth.uid()
+        AND role IN ('owner', 'admin')
+    )
+  );
+
+CREATE POLICY "Members can view client contacts in their organization"
+  ON client_contacts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM clients
+      WHERE clients.id = client_contacts.client_id
+      AND clients.organization_id IN (
+        SELECT organization_id
+        FROM organization_members
+        WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Members can manage client contacts in their organization"
+  ON client_contacts FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM clients
+      WHERE clients.id = client_contacts.client_id
+      AND clients.organization_id IN (
+        SELECT organization_id
+        FROM organization_members
+        WHERE user_id = auth.uid()
+      )
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM clients
+      WHERE clients.id = client_contacts.client_id
+      AND clients.organization_id IN (
+        SELECT organization_id
+        FROM organization_members
+        WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_clients_organization_id ON clients(organization_id, name);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_clients_company_id ON clients(organization_id, company_id)
+  WHERE company_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_client_contacts_client_id ON client_contacts(client_id);
+CREATE INDEX IF NOT EXISTS idx_budgets_client_id ON budgets(client_id);
+CREATE INDEX IF NOT EXISTS idx_projects_client_id ON projects(client_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_client_id ON invoices(client_id);
+
+-- One client per organization and client name already typed on budgets.
+INSERT INTO clients (organization_id, name, email, created_by, created_at)
+SELECT DISTINCT ON (b.organization_id, lower(trim(b.client_name)))
+  b.organization_id,
+  trim(b.client_name),
+  nullif(trim(b.client_email), ''),
+  b.user_id,
+  b.created_at
+FROM budgets b
+WHERE b.organization_id IS NOT NULL
+  AND nullif(trim(b.client_name), '') IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM projects p
+    WHERE p.budget_id = b.id
+    AND lower(trim(p.name)) = lower(trim(b.client_name))
+  )
+ORDER BY b.organization_id, lower(trim(b.client_name)), b.created_at DESC;
+
+UPDATE budgets b
+SET client_id = c.id
+FROM clients c
+WHERE b.client_id IS NULL
+  AND c.organization_id = b.organization_id
+  AND lower(c.name) = lower(trim(b.client_name))
+  AND NOT EXISTS (
+    SELECT 1 FROM projects p
+    WHERE p.budget_id = b.id
+    AND lower(trim(p.name)) = lower(trim(b.client_name))
+  );
+
+INSERT INTO client_contacts (client_id, name, email)
+SELECT DISTINCT ON (b.client_id, lower(trim(b.contact_person)))
+  b.client_id,
+  trim(b.contact_person),
+  nullif(trim(b.client_email), '')
+FROM budgets b
+WHERE b.client_id IS NOT NULL
+  AND nullif(trim(b.contact_person), '') IS NOT NULL
+ORDER BY b.client_id, lower(trim(b.contact_person)), b.created_at DESC;
+
+UPDATE client_contacts cc
+SET is_primary = true
+WHERE cc.id IN (
+  SELECT DISTINCT ON (client_id) id
+  FROM client_contacts
+  ORDER BY client_id, created_at, id
+);
+
+UPDATE projects p
+SET client_id = b.client_id
+FROM budgets b
+WHERE p.client_id IS NULL
+  AND p.budget_id = b.id
+  AND b.client_id IS NOT NULL;
+
+UPDATE invoices i
+SET client_id = b.client_id
+FROM budgets b
+WHERE i.client_id IS NULL
+  AND i.budget_id = b.id
+  AND b.client_id IS NOT NULL;
+
+UPDATE invoices i
+SET client_id = c.id
+FROM clients c
+WHERE i.client_id IS NULL
+  AND i.budget_id IS NULL
+  AND c.organization_id = i.organization_id
+  AND lower(c.name) = lower(trim(i.client_name));
+
+set check_function_bodies = off;
+
+create or replace function public.ensure_client_in_organization()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if new.client_id is not null and not exists (
+    select 1
+    from clients c
+    where c.id = new.client_id
+      and c.organization_id is not distinct from new.organization_id
+  ) then
+    raise exception 'Client % does not belong to the organization', new.client_id using errcode = '23503';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists budgets_client_in_organization on budgets;
+create trigger budgets_client_in_organization
+  before insert or update of client_id, organization_id on budgets
+  for each row execute function public.ensure_client_in_organization();
+
+drop trigger if exists projects_client_in_organization on projects;
+create trigger projects_client_in_organization
+  before insert or update of client_id, organization_id on projects
+  for each row execute function public.ensure_client_in_organization();
+
+drop trigger if exists invoices_client_in_organization on invoices;
+create trigger invoices_client_in_organization
+  before insert or update of client_id, organization_id on invoices
+  for each row execute function public.ensure_client_in_organization();
+
+create or replace function public.save_budget(
+  p_budget jsonb,
+  p_sections jsonb default '[]'::jsonb,
+  p_items jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget_id uuid := nullif(p_budget ->> 'id', '')::uuid;
+  v_expected_updated_at timestamptz := nullif(p_budget ->> 'expected_updated_at', '')::timestamptz;
+  v_updated_at timestamptz;
+begin
+  if v_budget_id is null then
+    insert into budgets (
+      name,
+      client_id,
+      client_name,
+      client_email,
+      contact_person,
+      project_manager,
+      manager_email,
+      status,
+      archived,
+      archived_at,
+      user_id,
+      organization_id,
+      currency,
+      price_adjustments,
+      updated_by
+    )
+    values (
+      p_budget ->> 'name',
+      nullif(p_budget ->> 'client_id', '')::uuid,
+      p_budget ->> 'client_name',
+      nullif(p_budget ->> 'client_email', ''),
+      nullif(p_budget ->> 'contact_person', ''),
+      nullif(p_budget ->> 'project_manager', ''),
+      nullif(p_budget ->> 'manager_email', ''),
+      coalesce(p_budget ->> 'status', 'draft'),
+      coalesce((p_budget ->> 'archived')::boolean, false),
+      (p_budget ->> 'archived_at')::timestamptz,
+      auth.uid(),
+      (p_budget ->> 'organization_id')::uuid,
+      coalesce(nullif(upper(p_budget ->> 'currency'), ''), 'CZK'),
+      coalesce(p_budget -> 'price_adjustments', '[]'::jsonb),
+      auth.uid()
+    )
+    returning id into v_budget_id;
+  else
+    select updated_at into v_updated_at
+    from budgets
+    where id = v_budget_id
+    for update;
+
+    if not found then
+      raise exception 'Budget % not found', v_budget_id using errcode = 'P0002';
+    end if;
+
+    -- The editor sends the updated_at it loaded; a newer one means somebody else saved in the meantime.
+    if v_expected_updated_at is not null and v_updated_at is distinct from v_expected_updated_at then
+      raise exception 'Budget % was changed by another user', v_budget_id
+        using errcode = '40001', detail = v_updated_at::text;
+    end if;
+
+    update budgets
+    set
+      name = p_budget ->> 'name',
+      client_id = case when p_budget ? 'client_id' then nullif(p_budget ->> 'client_id', '')::uuid else client_id end,
+      client_name = p_budget ->> 'client_name',
+      client_email = nullif(p_budget ->> 'client_email', ''),
+      contact_person = nullif(p_budget ->> 'contact_person', ''),
+      project_manager = nullif(p_budget ->> 'project_manager', ''),
+      manager_email = nullif(p_budget ->> 'manager_email', ''),
+      status = coalesce(p_budget ->> 'status', status),
+      archived = coalesce((p_budget ->> 'archived')::boolean, archived),
+      archived_at = (p_budget ->> 'archived_at')::timestamptz,
+      organization_id = coalesce((p_budget ->> 'organization_id')::uuid, organization_id),
+      currency = coalesce(nullif(upper(p_budget ->> 'currency'), ''), currency),
+      price_adjustments = coalesce(p_budget -> 'price_adjustments', '[]'::jsonb),
+      updated_at = now(),
+      updated_by = auth.uid()
+    where id = v_budget_id;
+  end if;
+
+  -- Sections: drop the ones missing from the payload, then upsert the rest.
+  delete from budget_sections
+  where budget_id = v_budget_id
+    and id not in (
+      select (section ->> 'id')::uuid
+      from jsonb_array_elements(p_sections) as section
+      where nullif(section ->> 'id', '') is not null
+    );
+
+  insert into budget_sections (id, budget_id, name, description, created_at, updated_at)
+  select
+    coalesce(nullif(section ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    coalesce(nullif(trim(section ->> 'name'), ''), 'Bez názvu'),
+    nullif(trim(section ->> 'description'), ''),
+    coalesce((section ->> 'created_at')::timestamptz, now()),
+    now()
+  from jsonb_array_elements(p_sections) as section
+  on conflict (id) do update
+  set
+    name = excluded.name,
+    description = excluded.description,
+    updated_at = now()
+  where budget_sections.budget_id = v_budget_id;
+
+  -- Items: same diff, section references outside of this budget are cleared.
+  delete from budget_items
+  where budget_id = v_budget_id
+    and id not in (
+      select (item ->> 'id')::uuid
+      from jsonb_array_elements(p_items) as item
+      where nullif(item ->> 'id', '') is not null
+    );
+
+  insert into budget_items (
+    id,
+    budget_id,
+    category_id,
+    section_id,
+    task_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel,
+    vat_rate,
+    catalog_item_id,
+    catalog_price_per_unit,
+    catalog_internal_price_per_unit,
+    markup_percent,
+    is_optional,
+    alternative_group,
+    client_selected
+  )
+  select
+    coalesce(nullif(item ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    (item ->> 'category_id')::uuid,
+    (
+      select s.id
+      from budget_sections s
+      where s.id = nullif(item ->> 'section_id', '')::uuid
+        and s.budget_id = v_budget_id
+    ),
+    nullif(item ->> 'task_id', '')::uuid,
+    coalesce(item ->> 'item_name', ''),
+    coalesce(item ->> 'unit', ''),
+    coalesce((item ->> 'quantity')::numeric, 0),
+    coalesce((item ->> 'price_per_unit')::numeric, 0),
+    coalesce((item ->> 'total_price')::numeric, 0),
+    coalesce(item ->> 'notes', ''),
+    coalesce((item ->> 'internal_price_per_unit')::numeric, 0),
+    coalesce((item ->> 'internal_quantity')::numeric, 0),
+    coalesce((item ->> 'internal_total_price')::numeric, 0),
+    coalesce((item ->> 'profit')::numeric, 0),
+    coalesce((item ->> 'order_index')::integer, (ordinality - 1)::integer),
+    coalesce((item ->> 'is_cost')::boolean, false),
+    coalesce((item ->> 'is_personnel')::boolean, false),
+    nullif(item ->> 'vat_rate', '')::numeric,
+    nullif(item ->> 'catalog_item_id', '')::uuid,
+    nullif(item ->> 'catalog_price_per_unit', '')::numeric,
+    nullif(item ->> 'catalog_internal_price_per_unit', '')::numeric,
+    nullif(item ->> 'markup_percent', '')::numeric,
+    coalesce((item ->> 'is_optional')::boolean, false),
+    nullif(trim(item ->> 'alternative_group'), ''),
+    coalesce((item ->> 'client_selected')::boolean, false)
+  from jsonb_array_elements(p_items) with ordinality as payload(item, ordinality)
+  on conflict (id) do update
+  set
+    category_id = excluded.category_id,
+    section_id = excluded.section_id,
+    task_id = excluded.task_id,
+    item_name = excluded.item_name,
+    unit = excluded.unit,
+    quantity = excluded.quantity,
+    price_per_unit = excluded.price_per_unit,
+    total_price = excluded.total_price,
+    notes = excluded.notes,
+    internal_price_per_unit = excluded.internal_price_per_unit,
+    internal_quantity = excluded.internal_quantity,
+    internal_total_price = excluded.internal_total_price,
+    profit = excluded.profit,
+    order_index = excluded.order_index,
+    is_cost = excluded.is_cost,
+    is_personnel = excluded.is_personnel,
+    vat_rate = excluded.vat_rate,
+    catalog_item_id = excluded.catalog_item_id,
+    catalog_price_per_unit = excluded.catalog_price_per_unit,
+    catalog_internal_price_per_unit = excluded.catalog_internal_price_per_unit,
+    markup_percent = excluded.markup_percent,
+    is_optional = excluded.is_optional,
+    alternative_group = excluded.alternative_group,
+    client_selected = excluded.client_selected
+  where budget_items.budget_id = v_budget_id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
+
+create or replace function public.duplicate_budget(
+  p_budget_id uuid,
+  p_name text,
+  p_client_name text default null,
+  p_as_revision boolean default false
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_source budgets%rowtype;
+  v_budget_id uuid;
+  v_client_name text;
+  v_same_client boolean;
+  v_section record;
+  v_section_map jsonb := '{}'::jsonb;
+  v_section_id uuid;
+begin
+  if nullif(trim(p_name), '') is null then
+    raise exception 'Budget name is required' using errcode = '22023';
+  end if;
+
+  select * into v_source from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  v_client_name := coalesce(nullif(trim(p_client_name), ''), v_source.client_name);
+  v_same_client := v_client_name = v_source.client_name;
+
+  insert into budgets (
+    name,
+    client_id,
+    client_name,
+    client_email,
+    contact_person,
+    project_manager,
+    manager_email,
+    status,
+    archived,
+    user_id,
+    organization_id,
+    currency,
+    revision_of,
+    price_adjustments
+  )
+  values (
+    trim(p_name),
+    case when v_same_client then v_source.client_id end,
+    v_client_name,
+    case when v_same_client then v_source.client_email end,
+    case when v_same_client then v_source.contact_person end,
+    v_source.project_manager,
+    v_source.manager_email,
+    'draft',
+    false,
+    auth.uid(),
+    v_source.organization_id,
+    v_source.currency,
+    case when p_as_revision then v_source.id end,
+    '[]'::jsonb
+  )
+  returning id into v_budget_id;
+
+  for v_section in
+    select * from budget_sections where budget_id = p_budget_id order by created_at, id
+  loop
+    insert into budget_sections (budget_id, name, description, created_at, updated_at)
+    values (v_budget_id, v_section.name, v_section.description, v_section.created_at, now())
+    returning id into v_section_id;
+
+    v_section_map := v_section_map || jsonb_build_object(v_section.id::text, v_section_id);
+  end loop;
+
+  insert into budget_items (
+    budget_id,
+    category_id,
+    section_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel,
+    vat_rate,
+    catalog_item_id,
+    catalog_price_per_unit,
+    catalog_internal_price_per_unit,
+    markup_percent,
+    is_optional,
+    alternative_group
+  )
+  select
+    v_budget_id,
+    i.category_id,
+    (v_section_map ->> i.section_id::text)::uuid,
+    i.item_name,
+    i.unit,
+    i.quantity,
+    i.price_per_unit,
+    i.total_price,
+    i.notes,
+    i.internal_price_per_unit,
+    i.internal_quantity,
+    i.internal_total_price,
+    i.profit,
+    i.order_index,
+    i.is_cost,
+    i.is_personnel,
+    i.vat_rate,
+    i.catalog_item_id,
+    i.catalog_price_per_unit,
+    i.catalog_internal_price_per_unit,
+    i.markup_percent,
+    i.is_optional,
+    i.alternative_group
+  from budget_items i
+  where i.budget_id = p_budget_id
+  order by i.order_index, i.id;
+
+  -- Section adjustments point at the copied sections.
+  update budgets
+  set price_adjustments = (
+    select coalesce(
+      jsonb_agg(
+        case
+          when nullif(adjustment ->> 'section_id', '') is null then adjustment
+          else jsonb_set(adjustment, '{section_id}', coalesce(v_section_map -> (adjustment ->> 'section_id'), 'null'::jsonb))
+        end
+        order by ordinality
+      ),
+      '[]'::jsonb
+    )
+    from jsonb_array_elements(coalesce(v_source.price_adjustments, '[]'::jsonb)) with ordinality as payload(adjustment, ordinality)
+  )
+  where id = v_budget_id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
+
+create or replace function public.create_invoice_from_budget(
+  p_budget_id uuid,
+  p_due_date date default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_default_vat numeric;
+  v_invoice_id uuid;
+  v_line_count integer;
+begin
+  select * into v_budget from budgets where id = p_budget_id;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  if v_budget.status <> 'approved' then
+    raise exception 'Only approved budgets can be invoiced' using errcode = '22023';
+  end if;
+
+  if v_budget.organization_id is null then
+    raise exception 'Budget % does not belong to an organization', p_budget_id using errcode = '22023';
+  end if;
+
+  select default_vat_rate into v_default_vat from organizations where id = v_budget.organization_id;
+
+  insert into invoices (organization_id, budget_id, client_id, client_name, client_email, due_date, currency)
+  values (
+    v_budget.organization_id,
+    v_budget.id,
+    v_budget.client_id,
+    coalesce(v_budget.client_name, ''),
+    v_budget.client_email,
+    coalesce(p_due_date, current_date + 14),
+    v_budget.currency
+  )
+  returning id into v_invoice_id;
+
+  insert into invoice_lines (
+    invoice_id,
+    budget_item_id,
+    description,
+    unit,
+    quantity,
+    unit_price,
+    total_price,
+    vat_rate,
+    order_index
+  )
+  select
+    v_invoice_id,
+    i.id,
+    i.item_name,
+    i.unit,
+    i.quantity,
+    i.price_per_unit,
+    i.total_price,
+    coalesce(i.vat_rate, v_default_vat, 21),
+    row_number() over (order by i.order_index, i.id) - 1
+  from budget_items i
+  where i.budget_id = p_budget_id
+    and budget_item_is_included(i)
+    and coalesce(i.total_price, 0) <> 0;
+
+  get diagnostics v_line_count = row_count;
+
+  if v_line_count = 0 then
+    raise exception 'Budget % has no items to invoice', p_budget_id using errcode = '22023';
+  end if;
+
+  -- Discounts and surcharges follow the items, one line per VAT rate they were split into.
+  insert into invoice_lines (invoice_id, description, unit, quantity, unit_price, total_price, vat_rate, order_index)
+  select
+    v_invoice_id,
+    coalesce(nullif(trim(adjustment ->> 'label'), ''), case when adjustment ->> 'kind' = 'discount' then 'Sleva' else 'Příplatek' end)
+      || case when jsonb_array_length(adjustment -> 'vat_lines') > 1 then ' (DPH ' || (line ->> 'rate') || ' %)' else '' end,
+    '',
+    1,
+    (line ->> 'amount')::numeric,
+    (line ->> 'amount')::numeric,
+    (line ->> 'rate')::numeric,
+    v_line_count + row_number() over (order by adjustment_index, line_index) - 1
+  from jsonb_array_elements(coalesce(v_budget.price_adjustments, '[]'::jsonb))
+    with ordinality as adjustments(adjustment, adjustment_index)
+  cross join lateral jsonb_array_elements(coalesce(adjustment -> 'vat_lines', '[]'::jsonb))
+    with ordinality as lines(line, line_index)
+  where coalesce((line ->> 'amount')::numeric, 0) <> 0;
+
+  perform refresh_invoice_totals(v_invoice_id);
+
+  return v_invoice_id;
+end;
+$$;
+
+drop function if exists public.create_invoice_from_expenses(uuid[], text, text, date);
+
+create or replace function public.create_invoice_from_expenses(
+  p_expense_ids uuid[],
+  p_client_id uuid,
+  p_client_email text default null,
+  p_due_date date default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_client clients%rowtype;
+  v_organization_id uuid;
+  v_currency text;
+  v_default_vat numeric;
+  v_invoice_id uuid;
+begin
+  if p_expense_ids is null or cardinality(p_expense_ids) = 0 then
+    raise exception 'No expenses selected' using errcode = '22023';
+  end if;
+
+  if (
+    select count(*)
+    from expenses
+    where id = any(p_expense_ids)
+      and is_billable
+      and not coalesce(is_billed, false)
+  ) <> cardinality(p_expense_ids) then
+    raise exception 'Only unbilled billable expenses can be invoiced' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1
+    from invoice_lines l
+    join invoices inv on inv.id = l.invoice_id
+    where l.expense_id = any(p_expense_ids)
+      and inv.status = 'unpaid'
+  ) then
+    raise exception 'Some expenses are already on an unpaid invoice' using errcode = '22023';
+  end if;
+
+  select min(organization_id::text)::uuid, min(currency)
+  into v_organization_id, v_currency
+  from expenses
+  where id = any(p_expense_ids);
+
+  if (
+    select count(distinct organization_id) + count(distinct currency)
+    from expenses
+    where id = any(p_expense_ids)
+  ) <> 2 or v_organization_id is null then
+    raise exception 'Expenses must belong to one organization and share a currency' using errcode = '22023';
+  end if;
+
+  select * into v_client from clients where id = p_client_id and organization_id = v_organization_id;
+
+  if not found then
+    raise exception 'Client % not found', p_client_id using errcode = 'P0002';
+  end if;
+
+  select default_vat_rate into v_default_vat from organizations where id = v_organization_id;
+
+  insert into invoices (organization_id, client_id, client_name, client_email, due_date, currency)
+  values (
+    v_organization_id,
+    v_client.id,
+    v_client.name,
+    coalesce(nullif(p_client_email, ''), v_client.email),
+    coalesce(p_due_date, current_date + 14),
+    v_currency
+  )
+  returning id into v_invoice_id;
+
+  insert into invoice_lines (
+    invoice_id,
+    expense_id,
+    description,
+    unit,
+    quantity,
+    unit_price,
+    total_price,
+    vat_rate,
+    order_index
+  )
+  select
+    v_invoice_id,
+    e.id,
+    e.name,
+    'ks',
+    1,
+    e.amount,
+    e.amount,
+    coalesce(v_default_vat, 21),
+    row_number() over (order by e.date, e.id) - 1
+  from expenses e
+  where e.id = any(p_expense_ids);
+
+  perform refresh_invoice_totals(v_invoice_id);
+
+  return v_invoice_id;
+end;
+$$;
+
+revoke all on function public.create_invoice_from_expenses(uuid[], uuid, text, date) from public;
+grant execute on function public.create_invoice_from_expenses(uuid[], uuid, text, date) to authenticated;
@@ -0,0 +1,14 @@
+/*
+  # VAT payer status of clients
+
+  1. Changes
+    - `clients.is_vat_payer` (boolean, optional) - whether the client is registered for VAT; unknown when null
+    - `clients.registry_checked_at` (timestamptz, optional) - when the details were last taken from the company registry
+
+  2. Notes
+    - The budget editor applies the reverse charge (0 % VAT rate) only to clients registered for VAT
+*/
+
+ALTER TABLE clients
+  ADD COLUMN IF NOT EXISTS is_vat_payer boolean,
+  ADD COLUMN IF NOT EXISTS registry_checked_at timestamptz;
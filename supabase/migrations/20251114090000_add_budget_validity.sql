@@ -0,0 +1,462 @@
+/*
+  # Budget validity and automatic expiry
+
+  1. Changes
+    - `organizations.budget_validity_days` (integer, default 30) - how long a sent quote stays valid
+    - `budgets.valid_until` (date, optional) - last day the client can accept the quote
+    - `budgets.status` allows `expired`
+
+  2. Functions
+    - `set_budget_valid_until` trigger fills `valid_until` when a budget is sent without one
+    - `expire_budgets` moves sent budgets past their validity to `expired`; pg_cron runs it every night
+    - `extend_budget_validity` moves the validity date and returns an expired budget to `sent`
+    - Both record a budget version, so the history shows when a quote expired or was extended
+    - `save_budget` stores `valid_until`; payloads without it, like old version snapshots, keep the current date
+    - `get_shared_budget` returns `valid_until` so the client sees until when the quote holds
+
+  3. Notes
+    - Sent budgets that already exist are valid for the organization's period counted from their last change
+    - Clients cannot approve an expired budget; shared links keep their own expiry
+*/
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS budget_validity_days integer NOT NULL DEFAULT 30
+  CHECK (budget_validity_days BETWEEN 1 AND 365);
+
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS valid_until date;
+
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_status_check;
+ALTER TABLE budgets
+  ADD CONSTRAINT budgets_status_check CHECK (status IN ('draft', 'sent', 'approved', 'rejected', 'expired'));
+
+UPDATE budgets b
+SET valid_until = (b.updated_at + make_interval(days => coalesce(o.budget_validity_days, 30)))::date
+FROM organizations o
+WHERE b.status = 'sent'
+  AND b.valid_until IS NULL
+  AND o.id = b.organization_id;
+
+CREATE INDEX IF NOT EXISTS idx_budgets_valid_until ON budgets(valid_until) WHERE status = 'sent';
+
+set check_function_bodies = off;
+
+create or replace function public.set_budget_valid_until()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_validity integer;
+begin
+  if new.status = 'sent' and new.valid_until is null then
+    select budget_validity_days into v_validity
+    from organizations
+    where id = new.organization_id;
+
+    new.valid_until := current_date + coalesce(v_validity, 30);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists budgets_set_valid_until on budgets;
+create trigger budgets_set_valid_until
+  before insert or update of status, valid_until on budgets
+  for each row execute function public.set_budget_valid_until();
+
+-- Runs from pg_cron without a user, so it is a definer function only the scheduler may call.
+create or replace function public.expire_budgets()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_budget_id uuid;
+  v_count integer := 0;
+begin
+  for v_budget_id in
+    update budgets
+    set status = 'expired', updated_at = now()
+    where status = 'sent'
+      and valid_until < current_date
+    returning id
+  loop
+    perform record_budget_version(v_budget_id);
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+create or replace function public.extend_budget_validity(p_budget_id uuid, p_days integer default null)
+returns budgets
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget budgets%rowtype;
+  v_validity integer;
+begin
+  select * into v_budget from budgets where id = p_budget_id for update;
+
+  if not found then
+    raise exception 'Budget % not found', p_budget_id using errcode = 'P0002';
+  end if;
+
+  if v_budget.status not in ('sent', 'expired') then
+    raise exception 'Only sent or expired budgets can be extended' using errcode = '22023';
+  end if;
+
+  select budget_validity_days into v_validity
+  from organizations
+  where id = v_budget.organization_id;
+
+  -- Counted from today for expired quotes, otherwise from the current end so no day is lost.
+  update budgets
+  set
+    valid_until = greatest(coalesce(valid_until, current_date), current_date) + coalesce(p_days, v_validity, 30),
+    status = 'sent',
+    updated_at = now(),
+    updated_by = auth.uid()
+  where id = p_budget_id
+  returning * into v_budget;
+
+  perform record_budget_version(p_budget_id);
+
+  return v_budget;
+end;
+$$;
+
+create or replace function public.save_budget(
+  p_budget jsonb,
+  p_sections jsonb default '[]'::jsonb,
+  p_items jsonb default '[]'::jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_budget_id uuid := nullif(p_budget ->> 'id', '')::uuid;
+  v_expected_updated_at timestamptz := nullif(p_budget ->> 'expected_updated_at', '')::timestamptz;
+  v_updated_at timestamptz;
+begin
+  if v_budget_id is null then
+    insert into budgets (
+      name,
+      client_id,
+      client_name,
+      client_email,
+      contact_person,
+      project_manager,
+      manager_email,
+      status,
+      archived,
+      archived_at,
+      valid_until,
+      user_id,
+      organization_id,
+      currency,
+      price_adjustments,
+      updated_by
+    )
+    values (
+      p_budget ->> 'name',
+      nullif(p_budget ->> 'client_id', '')::uuid,
+      p_budget ->> 'client_name',
+      nullif(p_budget ->> 'client_email', ''),
+      nullif(p_budget ->> 'contact_person', ''),
+      nullif(p_budget ->> 'project_manager', ''),
+      nullif(p_budget ->> 'manager_email', ''),
+      coalesce(p_budget ->> 'status', 'draft'),
+      coalesce((p_budget ->> 'archived')::boolean, false),
+      (p_budget ->> 'archived_at')::timestamptz,
+      nullif(p_budget ->> 'valid_until', '')::date,
+      auth.uid(),
+      (p_budget ->> 'organization_id')::uuid,
+      coalesce(nullif(upper(p_budget ->> 'currency'), ''), 'CZK'),
+      coalesce(p_budget -> 'price_adjustments', '[]'::jsonb),
+      auth.uid()
+    )
+    returning id into v_budget_id;
+  else
+    select updated_at into v_updated_at
+    from budgets
+    where id = v_budget_id
+    for update;
+
+    if not found then
+      raise exception 'Budget % not found', v_budget_id using errcode = 'P0002';
+    end if;
+
+    -- The editor sends the updated_at it loaded; a newer one means somebody else saved in the meantime.
+    if v_expected_updated_at is not null and v_updated_at is distinct from v_expected_updated_at then
+      raise exception 'Budget % was changed by another user', v_budget_id
+        using errcode = '40001', detail = v_updated_at::text;
+    end if;
+
+    update budgets
+    set
+      name = p_budget ->> 'name',
+      client_id = case when p_budget ? 'client_id' then nullif(p_budget ->> 'client_id', '')::uuid else client_id end,
+      client_name = p_budget ->> 'client_name',
+      client_email = nullif(p_budget ->> 'client_email', ''),
+      contact_person = nullif(p_budget ->> 'contact_person', ''),
+      project_manager = nullif(p_budget ->> 'project_manager', ''),
+      manager_email = nullif(p_budget ->> 'manager_email', ''),
+      status = coalesce(p_budget ->> 'status', status),
+      archived = coalesce((p_budget ->> 'archived')::boolean, archived),
+      archived_at = (p_budget ->> 'archived_at')::timestamptz,
+      valid_until = case when p_budget ? 'valid_until' then nullif(p_budget ->> 'valid_until', '')::date else valid_until end,
+      organization_id = coalesce((p_budget ->> 'organization_id')::uuid, organization_id),
+      currency = coalesce(nullif(upper(p_budget ->> 'currency'), ''), currency),
+      price_adjustments = coalesce(p_budget -> 'price_adjustments', '[]'::jsonb),
+      updated_at = now(),
+      updated_by = auth.uid()
+    where id = v_budget_id;
+  end if;
+
+  -- Sections: drop the ones missing from the payload, then upsert the rest.
+  delete from budget_sections
+  where budget_id = v_budget_id
+    and id not in (
+      select (section ->> 'id')::uuid
+      from jsonb_array_elements(p_sections) as section
+      where nullif(section ->> 'id', '') is not null
+    );
+
+  insert into budget_sections (id, budget_id, name, description, created_at, updated_at)
+  select
+    coalesce(nullif(section ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    coalesce(nullif(trim(section ->> 'name'), ''), 'Bez názvu'),
+    nullif(trim(section ->> 'description'), ''),
+    coalesce((section ->> 'created_at')::timestamptz, now()),
+    now()
+  from jsonb_array_elements(p_sections) as section
+  on conflict (id) do update
+  set
+    name = excluded.name,
+    description = excluded.description,
+    updated_at = now()
+  where budget_sections.budget_id = v_budget_id;
+
+  -- Items: same diff, section references outside of this budget are cleared.
+  delete from budget_items
+  where budget_id = v_budget_id
+    and id not in (
+      select (item ->> 'id')::uuid
+      from jsonb_array_elements(p_items) as item
+      where nullif(item ->> 'id', '') is not null
+    );
+
+  insert into budget_items (
+    id,
+    budget_id,
+    category_id,
+    section_id,
+    task_id,
+    item_name,
+    unit,
+    quantity,
+    price_per_unit,
+    total_price,
+    notes,
+    internal_price_per_unit,
+    internal_quantity,
+    internal_total_price,
+    profit,
+    order_index,
+    is_cost,
+    is_personnel,
+    vat_rate,
+    catalog_item_id,
+    catalog_price_per_unit,
+    catalog_internal_price_per_unit,
+    markup_percent,
+    is_optional,
+    alternative_group,
+    client_selected
+  )
+  select
+    coalesce(nullif(item ->> 'id', '')::uuid, gen_random_uuid()),
+    v_budget_id,
+    (item ->> 'category_id')::uuid,
+    (
+      select s.id
+      from budget_sections s
+      where s.id = nullif(item ->> 'section_id', '')::uuid
+        and s.budget_id = v_budget_id
+    ),
+    nullif(item ->> 'task_id', '')::uuid,
+    coalesce(item ->> 'item_name', ''),
+    coalesce(item ->> 'unit', ''),
+    coalesce((item ->> 'quantity')::numeric, 0),
+    coalesce((item ->> 'price_per_unit')::numeric, 0),
+    coalesce((item ->> 'total_price')::numeric, 0),
+    coalesce(item ->> 'notes', ''),
+    coalesce((item ->> 'internal_price_per_unit')::numeric, 0),
+    coalesce((item ->> 'internal_quantity')::numeric, 0),
+    coalesce((item ->> 'internal_total_price')::numeric, 0),
+    coalesce((item ->> 'profit')::numeric, 0),
+    coalesce((item ->> 'order_index')::integer, (ordinality - 1)::integer),
+    coalesce((item ->> 'is_cost')::boolean, false),
+    coalesce((item ->> 'is_personnel')::boolean, false),
+    nullif(item ->> 'vat_rate', '')::numeric,
+    nullif(item ->> 'catalog_item_id', '')::uuid,
+    nullif(item ->> 'catalog_price_per_unit', '')::numeric,
+    nullif(item ->> 'catalog_internal_price_per_unit', '')::numeric,
+    nullif(item ->> 'markup_percent', '')::numeric,
+    coalesce((item ->> 'is_optional')::boolean, false),
+    nullif(trim(item ->> 'alternative_group'), ''),
+    coalesce((item ->> 'client_selected')::boolean, false)
+  from jsonb_array_elements(p_items) with ordinality as payload(item, ordinality)
+  on conflict (id) do update
+  set
+    category_id = excluded.category_id,
+    section_id = excluded.section_id,
+    task_id = excluded.task_id,
+    item_name = excluded.item_name,
+    unit = excluded.unit,
+    quantity = excluded.quantity,
+    price_per_unit = excluded.price_per_unit,
+    total_price = excluded.total_price,
+    notes = excluded.notes,
+    internal_price_per_unit = excluded.internal_price_per_unit,
+    internal_quantity = excluded.internal_quantity,
+    internal_total_price = excluded.internal_total_price,
+    profit = excluded.profit,
+    order_index = excluded.order_index,
+    is_cost = excluded.is_cost,
+    is_personnel = excluded.is_personnel,
+    vat_rate = excluded.vat_rate,
+    catalog_item_id = excluded.catalog_item_id,
+    catalog_price_per_unit = excluded.catalog_price_per_unit,
+    catalog_internal_price_per_unit = excluded.catalog_internal_price_per_unit,
+    markup_percent = excluded.markup_percent,
+    is_optional = excluded.is_optional,
+    alternative_group = excluded.alternative_group,
+    client_selected = excluded.client_selected
+  where budget_items.budget_id = v_budget_id;
+
+  perform record_budget_version(v_budget_id);
+
+  return v_budget_id;
+end;
+$$;
+
+create or replace function public.get_shared_budget(p_token uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_link budget_share_links%rowtype;
+  v_budget budgets%rowtype;
+  v_organization organizations%rowtype;
+begin
+  select * into v_link
+  from budget_share_links
+  where token = p_token
+    and revoked_at is null
+    and expires_at > now();
+
+  if not found then
+    return null;
+  end if;
+
+  select * into v_budget from budgets where id = v_link.budget_id;
+  select * into v_organization from organizations where id = v_budget.organization_id;
+
+  return jsonb_build_object(
+    'expires_at', v_link.expires_at,
+    'budget', jsonb_build_object(
+      'name', v_budget.name,
+      'client_name', v_budget.client_name,
+      'contact_person', v_budget.contact_person,
+      'project_manager', v_budget.project_manager,
+      'manager_email', v_budget.manager_email,
+      'status', v_budget.status,
+      'valid_until', v_budget.valid_until,
+      'currency', v_budget.currency,
+      'created_at', v_budget.created_at,
+      'client_decision_at', v_budget.client_decision_at,
+      'client_decision_by', v_budget.client_decision_by,
+      'price_adjustments', coalesce(v_budget.price_adjustments, '[]'::jsonb),
+      'client_approved_total', v_budget.client_approved_total
+    ),
+    'organization', jsonb_build_object(
+      'name', v_organization.name,
+      'default_vat_rate', coalesce(v_organization.default_vat_rate, 21)
+    ),
+    'sections', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object('id', s.id, 'name', s.name, 'description', s.description)
+          order by s.created_at, s.id
+        )
+        from budget_sections s
+        where s.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    ),
+    'items', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', i.id,
+            'section_id', i.section_id,
+            'item_name', i.item_name,
+            'unit', i.unit,
+            'quantity', i.quantity,
+            'price_per_unit', i.price_per_unit,
+            'total_price', i.total_price,
+            'vat_rate', i.vat_rate,
+            'notes', i.notes,
+            'is_optional', i.is_optional,
+            'alternative_group', i.alternative_group,
+            'client_selected', i.client_selected
+          )
+          order by i.order_index, i.id
+        )
+        from budget_items i
+        where i.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    ),
+    'feedback', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'id', f.id,
+            'kind', f.kind,
+            'author_name', f.author_name,
+            'message', f.message,
+            'created_at', f.created_at
+          )
+          order by f.created_at
+        )
+        from budget_client_feedback f
+        where f.budget_id = v_budget.id
+      ),
+      '[]'::jsonb
+    )
+  );
+end;
+$$;
+
+revoke all on function public.expire_budgets() from public;
+revoke all on function public.extend_budget_validity(uuid, integer) from public;
+grant execute on function public.extend_budget_validity(uuid, integer) to authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('expire-budgets', '5 0 * * *', $$select public.expire_budgets()$$);
@@ -0,0 +1,142 @@
+/*
+  # Budget numbering
+
+  1. Changes
+    - `organizations.budget_number_pattern` (text, default `NAB-{YYYY}-{seq:4}`) - how budget numbers are built
+    - `budgets.budget_number` (text) - document number, unique within the organization
+
+  2. New Tables
+    - `budget_number_counters` - last issued number per organization and number prefix
+
+  3. Functions
+    - `format_budget_number(p_pattern, p_date, p_sequence)` - fills the pattern tokens
+    - `allocate_budget_number(p_organization_id, p_date)` - takes the next number from the counter
+    - `assign_budget_number` trigger numbers every new budget, including copies and revisions
+
+  4. Security
+    - Counters are only touched by the numbering trigger
+
+  5. Notes
+    - Pattern tokens: `{YYYY}`, `{YY}`, `{MM}` from the creation date and `{seq}` or `{seq:N}` for the sequence
+      padded to N digits
+    - The sequence continues while the rest of the number stays the same, so `{YYYY}` restarts it every year and
+      a changed pattern starts its own sequence
+    - Existing budgets are numbered in order of creation
+*/
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS budget_number_pattern text NOT NULL DEFAULT 'NAB-{YYYY}-{seq:4}'
+  CHECK (budget_number_pattern ~ '\{seq(:[1-9])?\}' AND length(budget_number_pattern) <= 40);
+
+ALTER TABLE budgets
+  ADD COLUMN IF NOT EXISTS budget_number text;
+
+CREATE TABLE IF NOT EXISTS budget_number_counters (
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  prefix text NOT NULL,
+  last_number integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (organization_id, prefix)
+);
+
+ALTER TABLE budget_number_counters ENABLE ROW LEVEL SECURITY;
+
+set check_function_bodies = off;
+
+create or replace function public.format_budget_number(p_pattern text, p_date date, p_sequence integer)
+returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  -- Every sequence token is padded to the width of the first one, as in the settings preview.
+  v_width integer := coalesce((regexp_match(p_pattern, '\{seq(:([1-9]))?\}'))[2]::integer, 1);
+  v_sequence text := coalesce(p_sequence::text, '{seq}');
+begin
+  if length(v_sequence) < v_width then
+    v_sequence := lpad(v_sequence, v_width, '0');
+  end if;
+
+  return regexp_replace(
+    replace(replace(replace(p_pattern, '{YYYY}', to_char(p_date, 'YYYY')), '{YY}', to_char(p_date, 'YY')), '{MM}', to_char(p_date, 'MM')),
+    '\{seq(:[1-9])?\}',
+    v_sequence,
+    'g'
+  );
+end;
+$$;
+
+-- Runs as definer so that members can allocate numbers without access to the counters table.
+create or replace function public.allocate_budget_number(p_organization_id uuid, p_date date)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_pattern text;
+  v_prefix text;
+  v_number integer;
+begin
+  select budget_number_pattern into v_pattern
+  from organizations
+  where id = p_organization_id;
+
+  v_pattern := coalesce(v_pattern, 'NAB-{YYYY}-{seq:4}');
+  -- The number without its sequence identifies the counter, e.g. `NAB-2025-{seq}`.
+  v_prefix := format_budget_number(v_pattern, p_date, null);
+
+  insert into budget_number_counters as counters (organization_id, prefix, last_number)
+  values (p_organization_id, v_prefix, 1)
+  on conflict (organization_id, prefix) do update
+  set last_number = counters.last_number + 1
+  returning last_number into v_number;
+
+  return format_budget_number(v_pattern, p_date, v_number);
+end;
+$$;
+
+create or replace function public.assign_budget_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.budget_number is null and new.organization_id is not null then
+    new.budget_number := allocate_budget_number(new.organization_id, coalesce(new.created_at, now())::date);
+  end if;
+
+  return new;
+end;
+$$;
+
+DO $$
+DECLARE
+  v_budget record;
+BEGIN
+  FOR v_budget IN
+    SELECT id, organization_id, created_at
+    FROM budgets
+    WHERE budget_number IS NULL
+      AND organization_id IS NOT NULL
+    ORDER BY created_at, id
+  LOOP
+    UPDATE budgets
+    SET budget_number = allocate_budget_number(v_budget.organization_id, v_budget.created_at::date)
+    WHERE id = v_budget.id;
+  END LOOP;
+END;
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_budget_number ON budgets(organization_id, budget_number);
+
+DROP TRIGGER IF EXISTS budgets_assign_number ON budgets;
+CREATE TRIGGER budgets_assign_number
+  BEFORE INSERT ON budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_budget_number();
+
+revoke all on function public.allocate_budget_number(uuid, date) from public;
+revoke all on function public.assign_budget_number() from public;
+revoke all on function public.format_budget_number(text, date, integer) from public;
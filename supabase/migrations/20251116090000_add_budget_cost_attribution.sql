@@ -0,0 +1,134 @@
+/*
+  # Budget cost attribution
+
+  1. Changes
+    - `expenses.budget_item_id`, `expenses.budget_section_id` - budget line or section the expense is charged to
+    - `tasks.budget_item_id`, `tasks.budget_section_id` - budget line or section the logged hours are charged to
+
+  2. Functions
+    - `attribute_expense_to_budget` trigger checks that the line belongs to the expense's budget and fills
+      `expenses.budget_id` when the expense only had a project
+    - `attribute_task_to_budget` trigger checks that the line belongs to the budget linked to the task's project
+
+  3. Notes
+    - A cost goes either to a line or to a whole section, never both
+    - Links are cleared when the line or section is removed from the budget
+    - Tasks that a budget was generated from are linked to the line created for them
+*/
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS budget_item_id uuid REFERENCES budget_items(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS budget_section_id uuid REFERENCES budget_sections(id) ON DELETE SET NULL;
+
+ALTER TABLE expenses
+  DROP CONSTRAINT IF EXISTS expenses_budget_line_check;
+
+ALTER TABLE expenses
+  ADD CONSTRAINT expenses_budget_line_check CHECK (budget_item_id IS NULL OR budget_section_id IS NULL);
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS budget_item_id uuid REFERENCES budget_items(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS budget_section_id uuid REFERENCES budget_sections(id) ON DELETE SET NULL;
+
+ALTER TABLE tasks
+  DROP CONSTRAINT IF EXISTS tasks_budget_line_check;
+
+ALTER TABLE tasks
+  ADD CONSTRAINT tasks_budget_line_check CHECK (budget_item_id IS NULL OR budget_section_id IS NULL);
+
+CREATE INDEX IF NOT EXISTS idx_expenses_budget_item_id ON expenses(budget_item_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_budget_section_id ON expenses(budget_section_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_budget_item_id ON tasks(budget_item_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_budget_section_id ON tasks(budget_section_id);
+
+UPDATE tasks
+SET budget_item_id = budget_items.id
+FROM projects, budget_items
+WHERE projects.id = tasks.project_id
+  AND budget_items.budget_id = projects.budget_id
+  AND budget_items.task_id = tasks.id
+  AND tasks.budget_item_id IS NULL
+  AND tasks.budget_section_id IS NULL;
+
+set check_function_bodies = off;
+
+create or replace function public.attribute_expense_to_budget()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_line_budget_id uuid;
+  v_budget_id uuid;
+begin
+  if new.budget_item_id is null and new.budget_section_id is null then
+    return new;
+  end if;
+
+  if new.budget_item_id is not null then
+    select budget_id into v_line_budget_id from budget_items where id = new.budget_item_id;
+  else
+    select budget_id into v_line_budget_id from budget_sections where id = new.budget_section_id;
+  end if;
+
+  v_budget_id := new.budget_id;
+  if v_budget_id is null and new.project_id is not null then
+    select budget_id into v_budget_id from projects where id = new.project_id;
+  end if;
+
+  if v_budget_id is not null and v_budget_id is distinct from v_line_budget_id then
+    raise exception 'Budget line does not belong to the budget of the expense'
+      using errcode = '23514';
+  end if;
+
+  new.budget_id := coalesce(new.budget_id, v_line_budget_id);
+  return new;
+end;
+$$;
+
+create or replace function public.attribute_task_to_budget()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_line_budget_id uuid;
+begin
+  if new.budget_item_id is null and new.budget_section_id is null then
+    return new;
+  end if;
+
+  if new.budget_item_id is not null then
+    select budget_id into v_line_budget_id from budget_items where id = new.budget_item_id;
+  else
+    select budget_id into v_line_budget_id from budget_sections where id = new.budget_section_id;
+  end if;
+
+  if not exists (
+    select 1
+    from projects
+    where id = new.project_id
+      and budget_id = v_line_budget_id
+  ) then
+    raise exception 'Budget line does not belong to the budget of the project'
+      using errcode = '23514';
+  end if;
+
+  return new;
+end;
+$$;
+
+DROP TRIGGER IF EXISTS expenses_attribute_to_budget ON expenses;
+CREATE TRIGGER expenses_attribute_to_budget
+  BEFORE INSERT OR UPDATE OF budget_item_id, budget_section_id, budget_id, project_id ON expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION attribute_expense_to_budget();
+
+DROP TRIGGER IF EXISTS tasks_attribute_to_budget ON tasks;
+CREATE TRIGGER tasks_attribute_to_budget
+  BEFORE INSERT OR UPDATE OF budget_item_id, budget_section_id, project_id ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION attribute_task_to_budget();
+
+revoke all on function public.attribute_expense_to_budget() from public;
+revoke all on function public.attribute_task_to_budget() from public;